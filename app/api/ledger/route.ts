@@ -0,0 +1,33 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { fetchUserRole, hasPermission } from "@/lib/permissions"
+import { fetchLedgerPage, parseLedgerFilters } from "@/lib/ledger"
+
+// One page of the unified ledger for the signed-in user.
+// Query: from, to (yyyy-MM-dd), sources (comma-separated), category, page (1-based), pageSize
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+
+    if (!hasPermission(await fetchUserRole(supabase), "view_finances")) {
+      return NextResponse.json({ error: "Your role can't view the ledger" }, { status: 403 })
+    }
+
+    const result = await fetchLedgerPage(supabase, parseLedgerFilters(request.nextUrl.searchParams))
+
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error("Error fetching ledger:", err)
+    return NextResponse.json({ error: "Failed to fetch ledger" }, { status: 500 })
+  }
+}
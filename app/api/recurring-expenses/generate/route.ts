@@ -0,0 +1,58 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { createClient } from "@supabase/supabase-js"
+import { cookies } from "next/headers"
+import { type NextRequest, NextResponse } from "next/server"
+import { fetchUserRole, hasPermission } from "@/lib/permissions"
+import { materializeDueOccurrences } from "@/lib/recurring-expenses"
+
+// Generate due recurring expenses for the signed-in user's active organization (triggered from the dashboard)
+export async function POST() {
+  try {
+    const cookieStore = cookies()
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore })
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    }
+
+    if (!hasPermission(await fetchUserRole(supabase), "manage_expenses")) {
+      return NextResponse.json({ error: "Your role can't add expenses" }, { status: 403 })
+    }
+
+    return NextResponse.json(await materializeDueOccurrences(supabase))
+  } catch (err) {
+    console.error("Error generating recurring expenses:", err)
+    return NextResponse.json({ error: "Failed to generate recurring expenses" }, { status: 500 })
+  }
+}
+
+// Scheduled run for every organization, e.g. a daily cron job calling this route with
+// "Authorization: Bearer $CRON_SECRET". Uses the service role key to bypass RLS.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!serviceRoleKey || !process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    console.error("Scheduled recurring expense run is missing Supabase service credentials")
+    return NextResponse.json({ error: "Server is not configured for scheduled runs" }, { status: 500 })
+  }
+
+  try {
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, serviceRoleKey, {
+      auth: { persistSession: false },
+    })
+
+    return NextResponse.json(await materializeDueOccurrences(supabase))
+  } catch (err) {
+    console.error("Error in scheduled recurring expense run:", err)
+    return NextResponse.json({ error: "Failed to generate recurring expenses" }, { status: 500 })
+  }
+}
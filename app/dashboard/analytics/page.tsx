@@ -1,15 +1,19 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback } from "react"
-import { format, startOfMonth, endOfMonth, eachMonthOfInterval, subYears, addMonths } from "date-fns"
 import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Loader2, TrendingUp, TrendingDown, AlertCircle, BarChart3, LineChartIcon } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { fetchExpenses, fetchExpensesByCategory, fetchMonthlyExpenses } from "@/lib/supabase"
+import { fetchExpensesByCategory, fetchMonthlyExpenses } from "@/lib/supabase"
 import { fetchRevenueByMonth } from "@/lib/supabase-revenue"
+import { fetchPaidPaymentStatuses } from "@/lib/supabase-settings"
+import { formatMoney, formatPercent, monthName } from "@/lib/format"
+import { addMonths, today } from "@/lib/dates"
+import CountedStatusesNote from "@/components/revenue/counted-statuses-note"
 import { ChartContainer } from "@/components/ui/chart"
 import {
   XAxis,
@@ -41,27 +45,15 @@ export default function AnalyticsPage() {
   const [categoryData, setCategoryData] = useState<any[]>([])
   const [combinedData, setCombinedData] = useState<any[]>([])
   const [forecastData, setForecastData] = useState<any[]>([])
+  const [paidStatuses, setPaidStatuses] = useState<string[]>([])
 
   // Colors for charts
   const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8", "#82CA9D"]
 
-  // Date ranges for filtering
+  // The current year in the business timezone
   const dateRanges = useMemo(() => {
-    const currentDate = new Date()
-    const currentYear = currentDate.getFullYear()
-
-    // Last 12 months
-    const lastYearDate = subYears(currentDate, 1)
-    const monthsRange = eachMonthOfInterval({
-      start: startOfMonth(lastYearDate),
-      end: endOfMonth(currentDate),
-    })
-
     return {
-      currentDate,
-      currentYear,
-      monthsRange,
-      lastYearDate,
+      currentYear: Number(today().substring(0, 4)),
     }
   }, [])
 
@@ -73,7 +65,6 @@ export default function AnalyticsPage() {
       // Simple linear regression for forecasting
       // In a real app, you'd use more sophisticated methods
       const lastMonth = historicalData[historicalData.length - 1]
-      const lastMonthDate = new Date(`${lastMonth.month} 1, ${dateRanges.currentYear}`)
 
       const forecast = []
 
@@ -99,14 +90,14 @@ export default function AnalyticsPage() {
 
       // Generate 6 months of forecast
       for (let i = 1; i <= 6; i++) {
-        const forecastDate = addMonths(lastMonthDate, i)
-        const month = format(forecastDate, "MMM")
+        const monthStart = addMonths(lastMonth.monthStart, i)
 
         const forecastRevenue = lastMonth.revenue * Math.pow(1 + avgRevenueGrowth, i)
         const forecastExpenses = lastMonth.expenses * Math.pow(1 + avgExpenseGrowth, i)
 
         forecast.push({
-          month,
+          monthStart,
+          month: monthName(Number(monthStart.substring(5, 7)) - 1),
           revenue: forecastRevenue,
           expenses: forecastExpenses,
           profit: forecastRevenue - forecastExpenses,
@@ -116,43 +107,44 @@ export default function AnalyticsPage() {
 
       return forecast
     },
-    [dateRanges.currentYear],
+    [],
   )
 
-  // Combine revenue and expense data
+  // Combine revenue and expense data, keyed by the first day of the month so labels can be localized
   const combineData = useCallback((revenueData: any[], expenseData: any[]) => {
     const combined: Record<string, any> = {}
 
     // Process revenue data
     revenueData.forEach((item) => {
-      if (!combined[item.month]) {
-        combined[item.month] = {
+      if (!combined[item.monthStart]) {
+        combined[item.monthStart] = {
+          monthStart: item.monthStart,
           month: item.month,
           revenue: 0,
           expenses: 0,
           profit: 0,
         }
       }
-      combined[item.month].revenue = item.totalRevenue
+      combined[item.monthStart].revenue = item.totalRevenue
     })
 
     // Process expense data
     expenseData.forEach((item) => {
-      if (!combined[item.month]) {
-        combined[item.month] = {
+      if (!combined[item.monthStart]) {
+        combined[item.monthStart] = {
+          monthStart: item.monthStart,
           month: item.month,
           revenue: 0,
           expenses: 0,
           profit: 0,
         }
       }
-      combined[item.month].expenses = item.total
-      combined[item.month].profit = combined[item.month].revenue - item.total
+      combined[item.monthStart].expenses = item.total
+      combined[item.monthStart].profit = combined[item.monthStart].revenue - item.total
     })
 
-    // Convert to array and sort by month
-    const monthOrder = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
-    return Object.values(combined).sort((a, b) => monthOrder.indexOf(a.month) - monthOrder.indexOf(b.month))
+    // Convert to array and sort by month; yyyy-MM-dd keys sort chronologically as strings
+    return Object.values(combined).sort((a, b) => a.monthStart.localeCompare(b.monthStart))
   }, [])
 
   useEffect(() => {
@@ -164,10 +156,11 @@ export default function AnalyticsPage() {
         console.log("Fetching analytics data for year:", dateRanges.currentYear)
 
         // Fetch data for analytics
-        const [revenueByMonth, monthlyExpensesData, categoryExpenses] = await Promise.all([
+        const [revenueByMonth, monthlyExpensesData, categoryExpenses, paidStatusesData] = await Promise.all([
           fetchRevenueByMonth(dateRanges.currentYear),
           fetchMonthlyExpenses(dateRanges.currentYear),
           fetchExpensesByCategory(),
+          fetchPaidPaymentStatuses(),
         ])
 
         console.log("Revenue data:", revenueByMonth)
@@ -177,6 +170,7 @@ export default function AnalyticsPage() {
         setRevenueData(revenueByMonth)
         setExpenseData(monthlyExpensesData)
         setCategoryData(categoryExpenses)
+        setPaidStatuses(paidStatusesData)
 
         // Combine revenue and expense data
         const combined = combineData(revenueByMonth, monthlyExpensesData)
@@ -196,71 +190,6 @@ export default function AnalyticsPage() {
     loadData()
   }, [dateRanges.currentYear, combineData, generateForecast])
 
-  // Helper function to fetch monthly expenses
-  async function fetchMonthlyExpenses(year: number) {
-    try {
-      // Use the existing fetchExpenses function to get all expenses
-      const expenses = await fetchExpenses()
-
-      // Group expenses by month and sum amounts
-      const monthlyTotals: Record<string, number> = {
-        Jan: 0,
-        Feb: 0,
-        Mar: 0,
-        Apr: 0,
-        May: 0,
-        Jun: 0,
-        Jul: 0,
-        Aug: 0,
-        Sep: 0,
-        Oct: 0,
-        Nov: 0,
-        Dec: 0,
-      }
-
-      if (!expenses || expenses.length === 0) {
-        return Object.entries(monthlyTotals).map(([month, total]) => ({
-          month,
-          total,
-        }))
-      }
-
-      expenses.forEach((expense) => {
-        const date = new Date(expense.date)
-        if (date.getFullYear() === year) {
-          const month = date.toLocaleString("default", { month: "short" })
-          monthlyTotals[month] += expense.amount || 0
-        }
-      })
-
-      return Object.entries(monthlyTotals).map(([month, total]) => ({
-        month,
-        total,
-      }))
-    } catch (error) {
-      console.error("Error fetching monthly expenses:", error)
-      return []
-    }
-  }
-
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 2,
-    }).format(amount)
-  }
-
-  // Format percentage
-  const formatPercentage = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "percent",
-      minimumFractionDigits: 1,
-      maximumFractionDigits: 1,
-    }).format(value / 100)
-  }
-
   // Calculate key metrics
   const metrics = useMemo(() => {
     if (!combinedData.length)
@@ -316,6 +245,7 @@ export default function AnalyticsPage() {
   return (
     <DashboardLayout>
       <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert />
         {error && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
@@ -332,7 +262,10 @@ export default function AnalyticsPage() {
         )}
 
         <div className="flex items-center justify-between">
-          <h1 className="text-2xl font-bold tracking-tight">Financial Analytics</h1>
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold tracking-tight">Financial Analytics</h1>
+            <CountedStatusesNote statuses={paidStatuses} />
+          </div>
           <div className="flex gap-2">
             <Select value={timeRange} onValueChange={(value: any) => setTimeRange(value)}>
               <SelectTrigger className="w-[150px]">
@@ -357,7 +290,7 @@ export default function AnalyticsPage() {
             <CardContent>
               <div className={`text-2xl font-bold ${metrics.revenueGrowth >= 0 ? "text-green-600" : "text-red-600"}`}>
                 {metrics.revenueGrowth >= 0 ? "+" : ""}
-                {metrics.revenueGrowth.toFixed(1)}%
+                {formatPercent(metrics.revenueGrowth)}
               </div>
               <p className="text-xs text-muted-foreground">Year-over-year growth</p>
             </CardContent>
@@ -371,7 +304,7 @@ export default function AnalyticsPage() {
             <CardContent>
               <div className={`text-2xl font-bold ${metrics.expenseGrowth <= 0 ? "text-green-600" : "text-red-600"}`}>
                 {metrics.expenseGrowth >= 0 ? "+" : ""}
-                {metrics.expenseGrowth.toFixed(1)}%
+                {formatPercent(metrics.expenseGrowth)}
               </div>
               <p className="text-xs text-muted-foreground">Year-over-year growth</p>
             </CardContent>
@@ -383,7 +316,7 @@ export default function AnalyticsPage() {
               <BarChart3 className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{formatPercentage(metrics.profitMargin)}</div>
+              <div className="text-2xl font-bold">{formatPercent(metrics.profitMargin)}</div>
               <p className="text-xs text-muted-foreground">Overall margin</p>
             </CardContent>
           </Card>
@@ -395,7 +328,7 @@ export default function AnalyticsPage() {
             </CardHeader>
             <CardContent>
               <div className={`text-2xl font-bold ${metrics.totalProfit >= 0 ? "text-green-600" : "text-red-600"}`}>
-                {formatCurrency(metrics.totalProfit)}
+                {formatMoney(metrics.totalProfit)}
               </div>
               <p className="text-xs text-muted-foreground">Total profit for period</p>
             </CardContent>
@@ -439,7 +372,7 @@ export default function AnalyticsPage() {
                         <CartesianGrid strokeDasharray="3 3" />
                         <XAxis dataKey="month" />
                         <YAxis />
-                        <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                        <Tooltip formatter={(value) => formatMoney(Number(value))} />
                         <Legend />
                         <Area
                           type="monotone"
@@ -503,7 +436,7 @@ export default function AnalyticsPage() {
                         <XAxis dataKey="month" />
                         <YAxis />
                         <Tooltip
-                          formatter={(value) => formatCurrency(Number(value))}
+                          formatter={(value) => formatMoney(Number(value))}
                           labelFormatter={(label, items) => {
                             const item = items[0]?.payload
                             return `${label}${item?.isForecast ? " (Forecast)" : ""}`
@@ -561,13 +494,13 @@ export default function AnalyticsPage() {
                         fill="#8884d8"
                         dataKey="total"
                         nameKey="category_name"
-                        label={({ category_name, percent }) => `${category_name}: ${(percent * 100).toFixed(1)}%`}
+                        label={({ category_name, percent }) => `${category_name}: ${formatPercent(percent * 100)}`}
                       >
                         {categoryData.map((entry, index) => (
                           <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                         ))}
                       </Pie>
-                      <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                      <Tooltip formatter={(value) => formatMoney(Number(value))} />
                       <Legend />
                     </PieChart>
                   </ResponsiveContainer>
@@ -587,17 +520,23 @@ export default function AnalyticsPage() {
                   <ResponsiveContainer width="100%" height="100%">
                     <ScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 10 }}>
                       <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis type="number" dataKey="revenue" name="Revenue" unit="$" domain={["dataMin", "dataMax"]} />
+                      <XAxis
+                        type="number"
+                        dataKey="revenue"
+                        name="Revenue"
+                        tickFormatter={(value) => formatMoney(Number(value))}
+                        domain={["dataMin", "dataMax"]}
+                      />
                       <YAxis
                         type="number"
                         dataKey="expenses"
                         name="Expenses"
-                        unit="$"
+                        tickFormatter={(value) => formatMoney(Number(value))}
                         domain={["dataMin", "dataMax"]}
                       />
                       <ZAxis type="number" range={[100, 500]} />
                       <Tooltip
-                        formatter={(value) => formatCurrency(Number(value))}
+                        formatter={(value) => formatMoney(Number(value))}
                         cursor={{ strokeDasharray: "3 3" }}
                       />
                       <Legend />
@@ -0,0 +1,369 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Loader2, Plus, AlertCircle, MoreHorizontal, Pencil, Trash2, Wallet } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import BudgetForm from "@/components/budgets/budget-form"
+import BudgetProgress from "@/components/budgets/budget-progress"
+import { fetchBudgetStatus, deleteBudget, type Budget, type BudgetStatus } from "@/lib/supabase-budgets"
+import { formatMoney, formatMonth, formatPercent } from "@/lib/format"
+import { today } from "@/lib/dates"
+
+export default function BudgetsPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([])
+  const [month, setMonth] = useState(today().substring(0, 7))
+  const [periodFilter, setPeriodFilter] = useState<string>("all")
+
+  // Dialog state
+  const [showAddDialog, setShowAddDialog] = useState(false)
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null)
+  const [deletingBudget, setDeletingBudget] = useState<Budget | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const loadData = async (selectedMonth: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const data = await fetchBudgetStatus(`${selectedMonth}-01`)
+      setStatuses(data)
+    } catch (err) {
+      console.error("Error loading budgets:", err)
+      setError(err instanceof Error ? err.message : "Failed to load budgets")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (month) {
+      loadData(month)
+    }
+  }, [month])
+
+  const budgets = useMemo(() => statuses.map((status) => status.budget), [statuses])
+
+  const filteredStatuses = useMemo(
+    () => statuses.filter((status) => periodFilter === "all" || status.budget.period === periodFilter),
+    [statuses, periodFilter],
+  )
+
+  // Totals only add up monthly budgets; yearly limits cover a different span of time
+  const monthlyTotals = useMemo(() => {
+    const monthly = statuses.filter((status) => status.budget.period === "month")
+    return {
+      available: monthly.reduce((sum, status) => sum + status.available, 0),
+      spent: monthly.reduce((sum, status) => sum + status.spent, 0),
+      overCount: statuses.filter((status) => status.level === "over").length,
+      warningCount: statuses.filter((status) => status.level === "warning").length,
+    }
+  }, [statuses])
+
+  // Spend depends on the budget settings (rollover, period), so refresh the status after any change
+  const handleBudgetSaved = () => {
+    setShowAddDialog(false)
+    setEditingBudget(null)
+    loadData(month)
+  }
+
+  const handleDeleteBudget = async () => {
+    if (!deletingBudget) return
+
+    try {
+      setDeleting(true)
+      setError(null)
+
+      await deleteBudget(deletingBudget.id)
+
+      setStatuses((current) => current.filter((status) => status.budget.id !== deletingBudget.id))
+      setDeletingBudget(null)
+    } catch (err) {
+      console.error("Error deleting budget:", err)
+      setError("Failed to delete budget")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  const monthLabel = month ? formatMonth(month, "long") : ""
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Budgets</h1>
+          {canEdit && (
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Budget
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Monthly Budget</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(monthlyTotals.available)}</div>
+              <p className="text-xs text-muted-foreground">Across all monthly budgets for {monthLabel}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Spent</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(monthlyTotals.spent)}</div>
+              <p className="text-xs text-muted-foreground">
+                {formatMoney(monthlyTotals.available - monthlyTotals.spent)} remaining
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Alerts</CardTitle>
+              <AlertCircle className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{monthlyTotals.overCount} over budget</div>
+              <p className="text-xs text-muted-foreground">{monthlyTotals.warningCount} close to their limit</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Budget vs Actual</CardTitle>
+            <CardDescription>Spending against each category&apos;s budget</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="w-full md:w-[200px]">
+                <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+              </div>
+              <div className="w-full md:w-[200px]">
+                <Select value={periodFilter} onValueChange={setPeriodFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Periods</SelectItem>
+                    <SelectItem value="month">Monthly</SelectItem>
+                    <SelectItem value="year">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="flex flex-col items-center justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                <p className="mt-4 text-muted-foreground">Loading budgets...</p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead className="text-right">Budget</TableHead>
+                      <TableHead className="text-right">Spent</TableHead>
+                      <TableHead className="text-right">Remaining</TableHead>
+                      <TableHead className="w-[200px]">Progress</TableHead>
+                      {canEdit && (
+                        <TableHead className="w-[50px]">
+                          <span className="sr-only">Actions</span>
+                        </TableHead>
+                      )}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredStatuses.length > 0 ? (
+                      filteredStatuses.map((status) => (
+                        <TableRow key={status.budget.id}>
+                          <TableCell className="font-medium">
+                            {status.budget.category_name || "Uncategorized"}
+                            {status.budget.note && (
+                              <p className="text-xs font-normal text-muted-foreground">{status.budget.note}</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {status.budget.period === "year" ? "Yearly" : "Monthly"}
+                              {status.budget.rollover && <Badge variant="outline">Rollover</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(status.available)}
+                            {status.carryover !== 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {status.carryover > 0 ? "+" : "-"}{formatMoney(Math.abs(status.carryover))} carried over
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(status.spent)}</TableCell>
+                          <TableCell
+                            className={`text-right font-medium ${
+                              status.remaining >= 0 ? "text-green-600" : "text-red-600"
+                            }`}
+                          >
+                            {status.remaining < 0 ? "-" : ""}{formatMoney(Math.abs(status.remaining))}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <BudgetProgress percentage={status.percentage} level={status.level} />
+                              <span className="w-12 text-right text-xs text-muted-foreground">
+                                {formatPercent(status.percentage, 0)}
+                              </span>
+                            </div>
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                                    <MoreHorizontal className="h-4 w-4" />
+                                    <span className="sr-only">Open actions</span>
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => setEditingBudget(status.budget)}>
+                                    <Pencil className="mr-2 h-4 w-4" />
+                                    Edit
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => setDeletingBudget(status.budget)}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center">
+                          No budgets found.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Add Budget</DialogTitle>
+            {showAddDialog && (
+              <BudgetForm
+                existingBudgets={budgets}
+                onSuccess={handleBudgetSaved}
+                onCancel={() => setShowAddDialog(false)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!editingBudget} onOpenChange={(open) => !open && setEditingBudget(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Edit Budget</DialogTitle>
+            {editingBudget && (
+              <BudgetForm
+                key={editingBudget.id}
+                budget={editingBudget}
+                existingBudgets={budgets}
+                onSuccess={handleBudgetSaved}
+                onCancel={() => setEditingBudget(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deletingBudget} onOpenChange={(open) => !open && !deleting && setDeletingBudget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete budget?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will remove the {deletingBudget?.period === "year" ? "yearly" : "monthly"} budget for &quot;
+                {deletingBudget?.category_name}&quot;. Expenses in this category are not affected.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  // Keep the dialog open until the delete has finished
+                  e.preventDefault()
+                  handleDeleteBudget()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,410 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Loader2,
+  Search,
+  Plus,
+  AlertCircle,
+  MoreHorizontal,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Merge,
+  Trash2,
+} from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import CategoryForm from "@/components/categories/category-form"
+import {
+  fetchCategories,
+  fetchCategoryUsage,
+  updateCategory,
+  deleteCategory,
+  mergeCategories,
+  type Category,
+  type CategoryUsage,
+} from "@/lib/supabase"
+import { formatMoney } from "@/lib/format"
+
+export default function CategoriesPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [categories, setCategories] = useState<Category[]>([])
+  const [usage, setUsage] = useState<Record<number, CategoryUsage>>({})
+  const [searchTerm, setSearchTerm] = useState("")
+  const [showArchived, setShowArchived] = useState(false)
+
+  // Dialog state
+  const [showAddDialog, setShowAddDialog] = useState(false)
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null)
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null)
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState("")
+  const [working, setWorking] = useState(false)
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [categoriesData, usageData] = await Promise.all([fetchCategories(true), fetchCategoryUsage()])
+
+      setCategories(categoriesData)
+      setUsage(usageData)
+    } catch (err) {
+      console.error("Error loading categories:", err)
+      setError(err instanceof Error ? err.message : "Failed to load categories")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const filteredCategories = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    return categories.filter(
+      (category) =>
+        (showArchived || !category.archived) &&
+        (category.name.toLowerCase().includes(term) || (category.description || "").toLowerCase().includes(term)),
+    )
+  }, [categories, searchTerm, showArchived])
+
+  const replaceCategory = (updated: Category) => {
+    setCategories((current) =>
+      current
+        .map((category) => (category.id === updated.id ? updated : category))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    )
+  }
+
+  const handleToggleArchived = async (category: Category) => {
+    try {
+      setError(null)
+      const updated = await updateCategory(category.id, { archived: !category.archived })
+      replaceCategory(updated)
+    } catch (err) {
+      console.error("Error archiving category:", err)
+      setError("Failed to update category")
+    }
+  }
+
+  const handleDeleteCategory = async () => {
+    if (!deletingCategory) return
+
+    try {
+      setWorking(true)
+      setError(null)
+
+      await deleteCategory(deletingCategory.id)
+
+      setCategories((current) => current.filter((category) => category.id !== deletingCategory.id))
+    } catch (err) {
+      console.error("Error deleting category:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete category")
+    } finally {
+      setWorking(false)
+      setDeletingCategory(null)
+    }
+  }
+
+  const handleMergeCategory = async () => {
+    if (!mergingCategory || !mergeTargetId) return
+
+    try {
+      setWorking(true)
+      setError(null)
+
+      await mergeCategories(mergingCategory.id, Number.parseInt(mergeTargetId))
+
+      setMergingCategory(null)
+      setMergeTargetId("")
+      // Usage counts change for both categories, so reload rather than patching locally
+      await loadData()
+    } catch (err) {
+      console.error("Error merging categories:", err)
+      setError(err instanceof Error ? err.message : "Failed to merge categories")
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading categories...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Categories</h1>
+          {canEdit && (
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Expense Categories</CardTitle>
+            <CardDescription>Create, rename, archive and merge the categories used by expenses</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+              <div className="flex-1 relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search categories..."
+                  className="pl-8"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+                <Label htmlFor="show-archived">Show archived</Label>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Expenses</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    {canEdit && (
+                      <TableHead className="w-[50px]">
+                        <span className="sr-only">Actions</span>
+                      </TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCategories.length > 0 ? (
+                    filteredCategories.map((category) => {
+                      const categoryUsage = usage[category.id]
+                      const inUse = (categoryUsage?.expenseCount || 0) > 0
+                      return (
+                        <TableRow key={category.id} className={category.archived ? "opacity-60" : undefined}>
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-2">
+                              {category.name}
+                              {category.archived && <Badge variant="secondary">Archived</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{category.description || "-"}</TableCell>
+                          <TableCell className="text-right">{categoryUsage?.expenseCount || 0}</TableCell>
+                          <TableCell className="text-right">{formatMoney(categoryUsage?.total || 0)}</TableCell>
+                          {canEdit && (
+                            <TableCell>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                                    <MoreHorizontal className="h-4 w-4" />
+                                    <span className="sr-only">Open actions</span>
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => setEditingCategory(category)}>
+                                    <Pencil className="mr-2 h-4 w-4" />
+                                    Edit
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => handleToggleArchived(category)}>
+                                    {category.archived ? (
+                                      <ArchiveRestore className="mr-2 h-4 w-4" />
+                                    ) : (
+                                      <Archive className="mr-2 h-4 w-4" />
+                                    )}
+                                    {category.archived ? "Restore" : "Archive"}
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => setMergingCategory(category)}>
+                                    <Merge className="mr-2 h-4 w-4" />
+                                    Merge into...
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    disabled={inUse}
+                                    onClick={() => setDeletingCategory(category)}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    {inUse ? "Delete (in use)" : "Delete"}
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      )
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No categories found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog
+          open={showAddDialog || !!editingCategory}
+          onOpenChange={(open) => {
+            if (!open) {
+              setShowAddDialog(false)
+              setEditingCategory(null)
+            }
+          }}
+        >
+          <DialogContent className="max-w-lg p-0 border-0">
+            <DialogTitle className="sr-only">{editingCategory ? "Edit Category" : "Add Category"}</DialogTitle>
+            <CategoryForm
+              key={editingCategory?.id ?? "new"}
+              category={editingCategory || undefined}
+              onSuccess={(saved) => {
+                if (editingCategory) {
+                  replaceCategory(saved)
+                } else {
+                  setCategories((current) => [...current, saved].sort((a, b) => a.name.localeCompare(b.name)))
+                }
+                setShowAddDialog(false)
+                setEditingCategory(null)
+              }}
+              onCancel={() => {
+                setShowAddDialog(false)
+                setEditingCategory(null)
+              }}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog
+          open={!!mergingCategory}
+          onOpenChange={(open) => {
+            if (!open && !working) {
+              setMergingCategory(null)
+              setMergeTargetId("")
+            }
+          }}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Merge &quot;{mergingCategory?.name}&quot;</AlertDialogTitle>
+              <AlertDialogDescription>
+                All {usage[mergingCategory?.id ?? -1]?.expenseCount || 0} expenses in this category will be moved to
+                the category you choose, and &quot;{mergingCategory?.name}&quot; will then be deleted.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select the category to keep" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter((category) => category.id !== mergingCategory?.id)
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.name}
+                      {category.archived ? " (archived)" : ""}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                disabled={working || !mergeTargetId}
+                onClick={(e) => {
+                  e.preventDefault()
+                  handleMergeCategory()
+                }}
+              >
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Merge
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog open={!!deletingCategory} onOpenChange={(open) => !open && !working && setDeletingCategory(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete category?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will permanently delete &quot;{deletingCategory?.name}&quot;. This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={working}
+                onClick={(e) => {
+                  e.preventDefault()
+                  handleDeleteCategory()
+                }}
+              >
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
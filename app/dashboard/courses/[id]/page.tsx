@@ -0,0 +1,449 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Loader2, AlertCircle, ArrowLeft, Pencil, Trash2, Plus, CalendarDays, Clock, MapPin, User } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import CourseForm from "@/components/courses/course-form"
+import RegistrationForm from "@/components/courses/registration-form"
+import {
+  REGISTRATION_STATUS_LABELS,
+  deleteCourse,
+  deleteRegistration,
+  fetchCourseOverview,
+  fetchRegistrations,
+  type CourseOverview,
+  type CourseRegistration,
+  type RegistrationStatus,
+} from "@/lib/supabase-courses"
+import { formatDate, formatMoney, formatPercent } from "@/lib/format"
+
+const STATUS_BADGES: Record<RegistrationStatus, string> = {
+  registered: "bg-blue-100 text-blue-800",
+  attended: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+}
+
+export default function CourseDetailPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+  const courseId = Number.parseInt(params.id)
+
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [course, setCourse] = useState<CourseOverview | null>(null)
+  const [registrations, setRegistrations] = useState<CourseRegistration[]>([])
+  const [showEditDialog, setShowEditDialog] = useState(false)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  // null when closed, "new" for a new registration, or the registration being edited
+  const [registrationDialog, setRegistrationDialog] = useState<CourseRegistration | "new" | null>(null)
+  const [registrationToDelete, setRegistrationToDelete] = useState<CourseRegistration | null>(null)
+
+  // Capacity and takings are maintained by the database, so reload both after every change
+  const loadData = useCallback(async () => {
+    try {
+      setError(null)
+
+      const [courseData, registrationsData] = await Promise.all([
+        fetchCourseOverview(courseId),
+        fetchRegistrations(courseId),
+      ])
+
+      setCourse(courseData)
+      setRegistrations(registrationsData)
+    } catch (err) {
+      console.error("Error loading course:", err)
+      setError(err instanceof Error ? err.message : "Failed to load course")
+    } finally {
+      setLoading(false)
+    }
+  }, [courseId])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const handleDeleteCourse = async () => {
+    try {
+      setDeleting(true)
+      await deleteCourse(courseId)
+      router.push("/dashboard/courses")
+    } catch (err) {
+      console.error("Error deleting course:", err)
+      setError("Failed to delete course")
+      setShowDeleteDialog(false)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  const handleDeleteRegistration = async () => {
+    if (!registrationToDelete) return
+
+    try {
+      setDeleting(true)
+      await deleteRegistration(registrationToDelete.id)
+      setRegistrationToDelete(null)
+      await loadData()
+    } catch (err) {
+      console.error("Error deleting registration:", err)
+      setError("Failed to delete registration")
+      setRegistrationToDelete(null)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading course...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  const revenue = Number(course?.total_amount) || 0
+  const isFull = course?.remaining === 0
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => router.push("/dashboard/courses")}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to courses</span>
+            </Button>
+            <h1 className="text-2xl font-bold tracking-tight">{course?.course_name || "Course"}</h1>
+          </div>
+          {course && canEdit && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button variant="destructive" onClick={() => setShowDeleteDialog(true)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {course && (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Schedule</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                  {formatDate(course.date, "full")}
+                </div>
+                {(course.start_time || course.duration) && (
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    {[course.start_time?.slice(0, 5), course.duration].filter(Boolean).join(" · ")}
+                  </div>
+                )}
+                {course.location && (
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    {course.location}
+                  </div>
+                )}
+                {course.instructor_name && (
+                  <div className="flex items-center gap-2">
+                    <User className="h-4 w-4 text-muted-foreground" />
+                    {course.instructor_name}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Capacity</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {course.registeredCount}
+                  {course.max_participants ? ` / ${course.max_participants}` : ""}
+                </div>
+                <p className={`text-xs ${isFull ? "font-medium text-amber-600" : "text-muted-foreground"}`}>
+                  {course.remaining === null
+                    ? "No participant limit"
+                    : isFull
+                      ? "Fully booked"
+                      : `${course.remaining} places left`}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Takings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(revenue, course.currency)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {course.amountDue > course.amountPaid
+                    ? `${formatMoney(course.amountDue - course.amountPaid, course.currency)} still to be paid`
+                    : `Registration fee ${formatMoney(Number(course.registration_fee) || 0, course.currency)}`}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Margin</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${course.margin >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {formatMoney(course.margin, course.currency)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Materials {formatMoney(Number(course.materials_cost) || 0, course.currency)} &middot; instructor{" "}
+                  {formatMoney(Number(course.instructor_cost) || 0, course.currency)}
+                  {revenue > 0 && ` · ${formatPercent(course.marginPercent)}`}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {course && (course.course_description || course.materials_needed) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>About this Course</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {course.course_description && <p>{course.course_description}</p>}
+              {course.materials_needed && (
+                <div>
+                  <p className="font-medium">Materials needed</p>
+                  <p className="text-muted-foreground">{course.materials_needed}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Registrations</CardTitle>
+              <CardDescription>Participants and their payments</CardDescription>
+            </div>
+            {course && canEdit && (
+              <Button onClick={() => setRegistrationDialog("new")} disabled={isFull}>
+                <Plus className="mr-2 h-4 w-4" />
+                {isFull ? "Course Full" : "Add Registration"}
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Participant</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Paid On</TableHead>
+                    <TableHead className="text-right">Due</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    {canEdit && <TableHead className="w-[100px]"></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {registrations.length > 0 ? (
+                    registrations.map((registration) => (
+                      <TableRow key={registration.id}>
+                        <TableCell className="font-medium">
+                          {registration.participant_name}
+                          {(registration.email || registration.phone) && (
+                            <p className="text-xs font-normal text-muted-foreground">
+                              {registration.email || registration.phone}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                              STATUS_BADGES[registration.status]
+                            }`}
+                          >
+                            {REGISTRATION_STATUS_LABELS[registration.status]}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          {registration.paid_at ? formatDate(registration.paid_at) : "-"}
+                          {registration.payment_method && (
+                            <p className="text-xs text-muted-foreground">{registration.payment_method}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(Number(registration.amount_due) || 0, course?.currency)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            registration.amount_paid < registration.amount_due ? "text-amber-600" : ""
+                          }`}
+                        >
+                          {formatMoney(Number(registration.amount_paid) || 0, course?.currency)}
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="icon" onClick={() => setRegistrationDialog(registration)}>
+                                <Pencil className="h-4 w-4" />
+                                <span className="sr-only">Edit registration</span>
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => setRegistrationToDelete(registration)}>
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Delete registration</span>
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No registrations yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {course && (
+          <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+            <DialogContent className="max-w-2xl p-0 border-0">
+              <DialogTitle className="sr-only">Edit Course</DialogTitle>
+              <CourseForm
+                course={course}
+                onSuccess={() => {
+                  setShowEditDialog(false)
+                  loadData()
+                }}
+                onCancel={() => setShowEditDialog(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
+
+        {course && (
+          <Dialog open={registrationDialog !== null} onOpenChange={(open) => !open && setRegistrationDialog(null)}>
+            <DialogContent className="max-w-2xl p-0 border-0">
+              <DialogTitle className="sr-only">
+                {registrationDialog === "new" ? "Add Registration" : "Edit Registration"}
+              </DialogTitle>
+              {registrationDialog !== null && (
+                <RegistrationForm
+                  course={course}
+                  registration={registrationDialog === "new" ? undefined : registrationDialog}
+                  onSuccess={() => {
+                    setRegistrationDialog(null)
+                    loadData()
+                  }}
+                  onCancel={() => setRegistrationDialog(null)}
+                />
+              )}
+            </DialogContent>
+          </Dialog>
+        )}
+
+        <AlertDialog open={showDeleteDialog} onOpenChange={(open) => !deleting && setShowDeleteDialog(open)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete course?</AlertDialogTitle>
+              <AlertDialogDescription>
+                &quot;{course?.course_name}&quot; and its {registrations.length} registrations will be removed. Its
+                revenue will no longer appear in reports.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  e.preventDefault()
+                  handleDeleteCourse()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog
+          open={registrationToDelete !== null}
+          onOpenChange={(open) => !deleting && !open && setRegistrationToDelete(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete registration?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {registrationToDelete?.participant_name}&apos;s registration and any payment recorded on it will be
+                removed. To keep the payment, mark the registration as cancelled instead.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  e.preventDefault()
+                  handleDeleteRegistration()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { useRouter } from "next/navigation"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Search, Plus, AlertCircle, CalendarDays, Users, DollarSign, TrendingUp } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import CourseForm from "@/components/courses/course-form"
+import { fetchCourseOverviews, type CourseOverview } from "@/lib/supabase-courses"
+import type { Course } from "@/lib/supabase-revenue"
+import { formatDate, formatMoney } from "@/lib/format"
+
+type CourseFilter = "upcoming" | "past" | "all"
+
+export default function CoursesPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const router = useRouter()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [courses, setCourses] = useState<CourseOverview[]>([])
+  const [searchTerm, setSearchTerm] = useState("")
+  const [filter, setFilter] = useState<CourseFilter>("upcoming")
+  const [showAddDialog, setShowAddDialog] = useState(false)
+
+  const today = format(new Date(), "yyyy-MM-dd")
+
+  useEffect(() => {
+    const loadCourses = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setCourses(await fetchCourseOverviews())
+      } catch (err) {
+        console.error("Error loading courses:", err)
+        setError(err instanceof Error ? err.message : "Failed to load courses")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadCourses()
+  }, [])
+
+  const filteredCourses = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    const matches = courses.filter((course) => {
+      const matchesSearch = [course.course_name, course.instructor_name, course.location].some((value) =>
+        (value || "").toLowerCase().includes(term),
+      )
+      const matchesFilter =
+        filter === "all" || (filter === "upcoming" ? course.date >= today : course.date < today)
+      return matchesSearch && matchesFilter
+    })
+
+    // Upcoming courses read soonest first, past courses most recent first
+    return filter === "upcoming" ? matches.reverse() : matches
+  }, [courses, searchTerm, filter, today])
+
+  const totals = useMemo(() => {
+    const upcoming = courses.filter((course) => course.date >= today)
+    return {
+      upcomingCount: upcoming.length,
+      placesLeft: upcoming.reduce((sum, course) => sum + (course.remaining ?? 0), 0),
+      registrations: upcoming.reduce((sum, course) => sum + course.registeredCount, 0),
+      // Money totals are in the base currency
+      outstanding: upcoming.reduce(
+        (sum, course) => sum + Math.max(course.amountDue - course.amountPaid, 0) * course.baseRate,
+        0,
+      ),
+      revenue: courses.reduce((sum, course) => sum + (Number(course.total_amount) || 0) * course.baseRate, 0),
+      margin: courses.reduce((sum, course) => sum + course.margin * course.baseRate, 0),
+    }
+  }, [courses, today])
+
+  const handleCourseAdded = (course: Course) => {
+    setShowAddDialog(false)
+    router.push(`/dashboard/courses/${course.id}`)
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading courses...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Courses</h1>
+          {canEdit && (
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Course
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Upcoming Courses</CardTitle>
+              <CalendarDays className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{totals.upcomingCount}</div>
+              <p className="text-xs text-muted-foreground">{totals.placesLeft} places left to fill</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Registrations</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{totals.registrations}</div>
+              <p className="text-xs text-muted-foreground">{formatMoney(totals.outstanding)} still to be paid</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Course Revenue</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totals.revenue)}</div>
+              <p className="text-xs text-muted-foreground">Across {courses.length} courses</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Margin</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${totals.margin >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatMoney(totals.margin)}
+              </div>
+              <p className="text-xs text-muted-foreground">After materials and instructor costs</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Course Schedule</CardTitle>
+            <CardDescription>Capacity, takings and margin for each course</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="flex-1 relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by course, instructor or location..."
+                  className="pl-8"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <div className="w-full md:w-[200px]">
+                <Select value={filter} onValueChange={(value: CourseFilter) => setFilter(value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Show" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="upcoming">Upcoming</SelectItem>
+                    <SelectItem value="past">Past</SelectItem>
+                    <SelectItem value="all">All Courses</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Course</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Instructor</TableHead>
+                    <TableHead>Capacity</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                    <TableHead className="text-right">Costs</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCourses.length > 0 ? (
+                    filteredCourses.map((course) => (
+                      <TableRow
+                        key={course.id}
+                        className="cursor-pointer"
+                        onClick={() => router.push(`/dashboard/courses/${course.id}`)}
+                      >
+                        <TableCell className="font-medium">
+                          {course.course_name}
+                          {course.location && (
+                            <p className="text-xs font-normal text-muted-foreground">{course.location}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {formatDate(course.date)}
+                          {course.start_time && (
+                            <p className="text-xs text-muted-foreground">{course.start_time.slice(0, 5)}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{course.instructor_name || "-"}</TableCell>
+                        <TableCell>
+                          {course.max_participants
+                            ? `${course.registeredCount} / ${course.max_participants}`
+                            : course.registeredCount}
+                          {course.remaining === 0 ? (
+                            <p className="text-xs font-medium text-amber-600">Full</p>
+                          ) : (
+                            course.remaining !== null && (
+                              <p className="text-xs text-muted-foreground">{course.remaining} left</p>
+                            )
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(Number(course.total_amount) || 0, course.currency)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(course.costs, course.currency)}</TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${course.margin >= 0 ? "text-green-600" : "text-red-600"}`}
+                        >
+                          {formatMoney(course.margin, course.currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-24 text-center">
+                        No courses found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Add Course</DialogTitle>
+            <CourseForm onSuccess={handleCourseAdded} onCancel={() => setShowAddDialog(false)} />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
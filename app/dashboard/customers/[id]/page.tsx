@@ -0,0 +1,333 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Loader2, AlertCircle, ArrowLeft, Pencil, Trash2, Mail, Phone, MapPin } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import CustomerForm from "@/components/customers/customer-form"
+import { fetchCustomer, fetchOrdersByCustomer, deleteCustomer, type Customer } from "@/lib/supabase-customers"
+import {
+  fetchPaymentStatusSettings,
+  recognitionFor,
+  type PaymentStatusSetting,
+  type RevenueRecognition,
+} from "@/lib/supabase-settings"
+import { orderBalance } from "@/lib/supabase-receivables"
+import type { Order } from "@/lib/supabase-revenue"
+import { formatDate, formatMoney } from "@/lib/format"
+
+const RECOGNITION_BADGES: Record<RevenueRecognition, string> = {
+  paid: "bg-green-100 text-green-800",
+  pending: "bg-amber-100 text-amber-800",
+  refunded: "bg-blue-100 text-blue-800",
+  cancelled: "bg-gray-100 text-gray-800",
+}
+
+export default function CustomerDetailPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+  const customerId = Number.parseInt(params.id)
+
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [orders, setOrders] = useState<Order[]>([])
+  const [statusSettings, setStatusSettings] = useState<PaymentStatusSetting[]>([])
+  const [showEditDialog, setShowEditDialog] = useState(false)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const [customerData, ordersData, statusSettingsData] = await Promise.all([
+          fetchCustomer(customerId),
+          fetchOrdersByCustomer(customerId),
+          fetchPaymentStatusSettings(),
+        ])
+
+        setCustomer(customerData)
+        setOrders(ordersData)
+        setStatusSettings(statusSettingsData)
+      } catch (err) {
+        console.error("Error loading customer:", err)
+        setError(err instanceof Error ? err.message : "Failed to load customer")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [customerId])
+
+  // Same rules as the revenue reports: only paid orders count towards lifetime value
+  const totals = useMemo(() => {
+    const recognition = (order: Order) => recognitionFor(statusSettings, order.payment_status)
+    const paidOrders = orders.filter((order) => recognition(order) === "paid")
+    const lifetimeRevenue = paidOrders.reduce(
+      (sum, order) => sum + (Number(order.total_amount) || 0) + (Number(order.shipping_cost) || 0),
+      0,
+    )
+
+    return {
+      paidOrderCount: paidOrders.length,
+      lifetimeRevenue,
+      averageOrderValue: paidOrders.length > 0 ? lifetimeRevenue / paidOrders.length : 0,
+      // Orders are sorted newest first
+      lastPurchaseDate: paidOrders[0]?.created_at,
+      outstanding: orders
+        .filter((order) => recognition(order) === "pending")
+        .reduce((sum, order) => sum + Math.max(orderBalance(order), 0), 0),
+    }
+  }, [orders, statusSettings])
+
+  const handleDeleteCustomer = async () => {
+    try {
+      setDeleting(true)
+      await deleteCustomer(customerId)
+      router.push("/dashboard/customers")
+    } catch (err) {
+      console.error("Error deleting customer:", err)
+      setError("Failed to delete customer")
+      setShowDeleteDialog(false)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading customer...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => router.push("/dashboard/customers")}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to customers</span>
+            </Button>
+            <h1 className="text-2xl font-bold tracking-tight">{customer?.name || "Customer"}</h1>
+          </div>
+          {customer && canEdit && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button variant="destructive" onClick={() => setShowDeleteDialog(true)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {customer && (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Contact</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {customer.email && (
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    {customer.email}
+                  </div>
+                )}
+                {customer.phone && (
+                  <div className="flex items-center gap-2">
+                    <Phone className="h-4 w-4 text-muted-foreground" />
+                    {customer.phone}
+                  </div>
+                )}
+                {customer.address && (
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    {customer.address}
+                  </div>
+                )}
+                {customer.notes && <p className="text-muted-foreground">{customer.notes}</p>}
+                {!customer.email && !customer.phone && !customer.address && !customer.notes && (
+                  <p className="text-muted-foreground">No contact details</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Lifetime Revenue</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(totals.lifetimeRevenue)}</div>
+                <p className="text-xs text-muted-foreground">{totals.paidOrderCount} paid orders</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Average Order Value</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(totals.averageOrderValue)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {totals.lastPurchaseDate
+                    ? `Last purchase ${formatDate(totals.lastPurchaseDate)}`
+                    : "No purchases yet"}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card
+              className={totals.outstanding > 0 ? "cursor-pointer transition-colors hover:bg-muted/50" : undefined}
+              onClick={() => totals.outstanding > 0 && router.push("/dashboard/receivables")}
+            >
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${totals.outstanding > 0 ? "text-amber-600" : ""}`}>
+                  {formatMoney(totals.outstanding)}
+                </div>
+                <p className="text-xs text-muted-foreground">Unpaid and partially paid orders</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Order History</CardTitle>
+            <CardDescription>Every order placed by this customer</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order #</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Payment Status</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.length > 0 ? (
+                    orders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{order.order_number}</TableCell>
+                        <TableCell>{formatDate(order.created_at)}</TableCell>
+                        <TableCell>{order.order_type || "-"}</TableCell>
+                        <TableCell>
+                          <span
+                            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                              RECOGNITION_BADGES[recognitionFor(statusSettings, order.payment_status)]
+                            }`}
+                          >
+                            {order.payment_status}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(Number(order.amount_received) || 0)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatMoney((Number(order.total_amount) || 0) + (Number(order.shipping_cost) || 0))}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No orders found for this customer.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {customer && (
+          <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+            <DialogContent className="max-w-2xl p-0 border-0">
+              <DialogTitle className="sr-only">Edit Customer</DialogTitle>
+              <CustomerForm
+                customer={customer}
+                onSuccess={(updated) => {
+                  setCustomer(updated)
+                  setShowEditDialog(false)
+                }}
+                onCancel={() => setShowEditDialog(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
+
+        <AlertDialog open={showDeleteDialog} onOpenChange={(open) => !deleting && setShowDeleteDialog(open)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete customer?</AlertDialogTitle>
+              <AlertDialogDescription>
+                &quot;{customer?.name}&quot; will be removed. Their {orders.length} orders are kept but will no longer
+                be linked to a customer.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  e.preventDefault()
+                  handleDeleteCustomer()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
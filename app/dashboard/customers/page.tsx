@@ -0,0 +1,218 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Search, Plus, AlertCircle } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import CustomerForm from "@/components/customers/customer-form"
+import { fetchCustomers, fetchCustomerStats, type Customer, type CustomerStats } from "@/lib/supabase-customers"
+import { formatDate, formatMoney } from "@/lib/format"
+
+type SortOption = "name" | "revenue" | "recent"
+
+export default function CustomersPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const router = useRouter()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [stats, setStats] = useState<CustomerStats[]>([])
+  const [searchTerm, setSearchTerm] = useState("")
+  const [sortBy, setSortBy] = useState<SortOption>("name")
+  const [showAddDialog, setShowAddDialog] = useState(false)
+
+  useEffect(() => {
+    const loadCustomers = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const [customersData, statsData] = await Promise.all([fetchCustomers(), fetchCustomerStats()])
+        setCustomers(customersData)
+        setStats(statsData)
+      } catch (err) {
+        console.error("Error loading customers:", err)
+        setError(err instanceof Error ? err.message : "Failed to load customers")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadCustomers()
+  }, [])
+
+  const statsByCustomer = useMemo(() => new Map(stats.map((item) => [item.customer_id, item])), [stats])
+
+  const filteredCustomers = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    const matches = customers.filter((customer) =>
+      [customer.name, customer.email, customer.phone].some((value) => (value || "").toLowerCase().includes(term)),
+    )
+
+    if (sortBy === "revenue") {
+      return matches.sort(
+        (a, b) =>
+          (statsByCustomer.get(b.id)?.lifetimeRevenue || 0) - (statsByCustomer.get(a.id)?.lifetimeRevenue || 0),
+      )
+    }
+
+    if (sortBy === "recent") {
+      return matches.sort((a, b) =>
+        (statsByCustomer.get(b.id)?.lastPurchaseDate || "").localeCompare(
+          statsByCustomer.get(a.id)?.lastPurchaseDate || "",
+        ),
+      )
+    }
+
+    return matches
+  }, [customers, searchTerm, sortBy, statsByCustomer])
+
+  const totalRevenue = stats.reduce((sum, item) => sum + item.lifetimeRevenue, 0)
+
+  const handleCustomerAdded = (customer: Customer) => {
+    setCustomers((current) => [...current, customer].sort((a, b) => a.name.localeCompare(b.name)))
+    setShowAddDialog(false)
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading customers...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Customers</h1>
+          {canEdit && (
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Customer
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Customers</CardTitle>
+            <CardDescription>
+              {customers.length} customers &middot; lifetime revenue {formatMoney(totalRevenue)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="flex-1 relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name, email or phone..."
+                  className="pl-8"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <div className="w-full md:w-[200px]">
+                <Select value={sortBy} onValueChange={(value: SortOption) => setSortBy(value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Sort by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="name">Name</SelectItem>
+                    <SelectItem value="revenue">Lifetime Revenue</SelectItem>
+                    <SelectItem value="recent">Last Purchase</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Last Purchase</TableHead>
+                    <TableHead className="text-right">Orders</TableHead>
+                    <TableHead className="text-right">Avg. Order</TableHead>
+                    <TableHead className="text-right">Lifetime Revenue</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCustomers.length > 0 ? (
+                    filteredCustomers.map((customer) => {
+                      const customerStats = statsByCustomer.get(customer.id)
+                      return (
+                        <TableRow
+                          key={customer.id}
+                          className="cursor-pointer"
+                          onClick={() => router.push(`/dashboard/customers/${customer.id}`)}
+                        >
+                          <TableCell className="font-medium">{customer.name}</TableCell>
+                          <TableCell>{customer.email || customer.phone || "-"}</TableCell>
+                          <TableCell>
+                            {customerStats?.lastPurchaseDate
+                              ? formatDate(customerStats.lastPurchaseDate)
+                              : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">{customerStats?.paidOrderCount || 0}</TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(customerStats?.averageOrderValue || 0)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatMoney(customerStats?.lifetimeRevenue || 0)}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No customers found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Add Customer</DialogTitle>
+            <CustomerForm onSuccess={handleCustomerAdded} onCancel={() => setShowAddDialog(false)} />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -1,19 +1,44 @@
 "use client"
 
 import { useEffect, useState, useCallback } from "react"
-import { format } from "date-fns"
 import { useRouter } from "next/navigation"
 import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Loader2, Search, Plus, AlertCircle } from "lucide-react"
-import { fetchExpenses, fetchCategories, type Expense, type Category } from "@/lib/supabase"
+import { Loader2, Search, Plus, AlertCircle, MoreHorizontal, Pencil, Trash2, Upload, Repeat } from "lucide-react"
+import { fetchExpenses, fetchCategories, deleteExpense, type Expense, type Category } from "@/lib/supabase"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import ExpenseForm from "@/components/expenses/expense-form"
+import ExpenseImportDialog from "@/components/expenses/expense-import-dialog"
+import ReceiptThumbnail from "@/components/expenses/receipt-thumbnail"
+import ReceiptPreviewDialog from "@/components/expenses/receipt-preview-dialog"
+import { deleteReceipt, fetchReceipts, fetchReceiptUrls, isPdfReceipt, type Receipt } from "@/lib/supabase-receipts"
+import { formatDate, formatMoney } from "@/lib/format"
 
 export default function ExpensesPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_expenses")
   const router = useRouter()
   const [loading, setLoading] = useState(true)
   const [expenses, setExpenses] = useState<Expense[]>([])
@@ -23,6 +48,17 @@ export default function ExpensesPage() {
   const [categoryFilter, setCategoryFilter] = useState<string>("all")
   const [error, setError] = useState<string | null>(null)
 
+  // Row actions
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null)
+  const [deletingExpense, setDeletingExpense] = useState<Expense | null>(null)
+  const [deleting, setDeleting] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+
+  // Receipts per expense, with signed URLs for the first image of each as a thumbnail
+  const [receipts, setReceipts] = useState<Record<number, Receipt[]>>({})
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({})
+  const [previewReceipts, setPreviewReceipts] = useState<Receipt[] | null>(null)
+
   // Memoize the filter function to prevent recreating it on every render
   const applyFilters = useCallback(() => {
     let filtered = [...expenses]
@@ -50,11 +86,16 @@ export default function ExpensesPage() {
           throw new Error("Supabase credentials are not configured properly")
         }
 
-        const [expensesData, categoriesData] = await Promise.all([fetchExpenses(), fetchCategories()])
+        const [expensesData, categoriesData, receiptsData] = await Promise.all([
+          fetchExpenses(),
+          fetchCategories(true),
+          fetchReceipts(),
+        ])
 
         setExpenses(expensesData)
         setFilteredExpenses(expensesData)
         setCategories(categoriesData)
+        setReceipts(receiptsData)
       } catch (err) {
         console.error("Error loading data:", err)
         setError(err instanceof Error ? err.message : "Failed to load expense data")
@@ -71,6 +112,60 @@ export default function ExpensesPage() {
     applyFilters()
   }, [applyFilters]) // This will run when searchTerm, categoryFilter, or expenses change
 
+  // Load thumbnails whenever the set of receipts changes
+  useEffect(() => {
+    const loadThumbnails = async () => {
+      const firstImages = Object.values(receipts)
+        .map((expenseReceipts) => expenseReceipts.find((receipt) => !isPdfReceipt(receipt)))
+        .filter((receipt): receipt is Receipt => !!receipt)
+
+      setThumbnailUrls(await fetchReceiptUrls(firstImages))
+    }
+
+    loadThumbnails()
+  }, [receipts])
+
+  // The form may have added or removed receipts, so reload them for the edited expense
+  const refreshReceipts = async (expenseId: number) => {
+    const updated = await fetchReceipts([expenseId])
+    setReceipts((current) => ({ ...current, [expenseId]: updated[expenseId] || [] }))
+  }
+
+  // Replace the edited row in place so the list stays in sync without refetching
+  const handleExpenseUpdated = (updated: Expense) => {
+    refreshReceipts(updated.id)
+    setExpenses((current) =>
+      current.map((expense) => (expense.id === updated.id ? { ...expense, ...updated } : expense)),
+    )
+    setEditingExpense(null)
+  }
+
+  // Merge imported rows into the list, keeping it sorted newest first like fetchExpenses
+  const handleExpensesImported = (imported: Expense[]) => {
+    setExpenses((current) => [...imported, ...current].sort((a, b) => b.date.localeCompare(a.date)))
+  }
+
+  const handleDeleteExpense = async () => {
+    if (!deletingExpense) return
+
+    try {
+      setDeleting(true)
+      setError(null)
+
+      // Remove stored receipt files first; their metadata rows go with the expense
+      await Promise.all((receipts[deletingExpense.id] || []).map(deleteReceipt))
+      await deleteExpense(deletingExpense.id)
+
+      setExpenses((current) => current.filter((expense) => expense.id !== deletingExpense.id))
+      setDeletingExpense(null)
+    } catch (err) {
+      console.error("Error deleting expense:", err)
+      setError("Failed to delete expense")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -102,10 +197,24 @@ export default function ExpensesPage() {
 
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold tracking-tight">Expenses</h1>
-          <Button onClick={() => router.push("/dashboard/expenses/add")}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Expense
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => router.push("/dashboard/expenses/recurring")}>
+              <Repeat className="mr-2 h-4 w-4" />
+              Recurring
+            </Button>
+            {canEdit && (
+              <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+            )}
+            {canEdit && (
+              <Button onClick={() => router.push("/dashboard/expenses/add")}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Expense
+              </Button>
+            )}
+          </div>
         </div>
 
         <Card>
@@ -149,24 +258,68 @@ export default function ExpensesPage() {
                     <TableHead>Category</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="w-[70px]">Receipt</TableHead>
+                    {canEdit && (
+                      <TableHead className="w-[50px]">
+                        <span className="sr-only">Actions</span>
+                      </TableHead>
+                    )}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {filteredExpenses.length > 0 ? (
                     filteredExpenses.map((expense) => {
                       const category = categories.find((c) => c.id === expense.category_id)
+                      const expenseReceipts = receipts[expense.id] || []
+                      const thumbnail =
+                        expenseReceipts.find((receipt) => !isPdfReceipt(receipt)) || expenseReceipts[0]
                       return (
                         <TableRow key={expense.id}>
                           <TableCell className="font-medium">{expense.description}</TableCell>
                           <TableCell>{category?.name || "Uncategorized"}</TableCell>
-                          <TableCell>{format(new Date(expense.date), "MMM d, yyyy")}</TableCell>
-                          <TableCell className="text-right">${expense.amount.toFixed(2)}</TableCell>
+                          <TableCell>{formatDate(expense.date)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(expense.amount, expense.currency)}</TableCell>
+                          <TableCell>
+                            {thumbnail && (
+                              <ReceiptThumbnail
+                                receipt={thumbnail}
+                                url={thumbnailUrls[thumbnail.file_path]}
+                                moreCount={expenseReceipts.length - 1}
+                                onClick={() => setPreviewReceipts(expenseReceipts)}
+                              />
+                            )}
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                                    <MoreHorizontal className="h-4 w-4" />
+                                    <span className="sr-only">Open actions</span>
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => setEditingExpense(expense)}>
+                                    <Pencil className="mr-2 h-4 w-4" />
+                                    Edit
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onClick={() => setDeletingExpense(expense)}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </TableCell>
+                          )}
                         </TableRow>
                       )
                     })
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={4} className="h-24 text-center">
+                      <TableCell colSpan={6} className="h-24 text-center">
                         No expenses found.
                       </TableCell>
                     </TableRow>
@@ -176,6 +329,58 @@ export default function ExpensesPage() {
             </div>
           </CardContent>
         </Card>
+
+        <ExpenseImportDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImported={handleExpensesImported}
+        />
+
+        <ReceiptPreviewDialog
+          receipts={previewReceipts || []}
+          open={!!previewReceipts}
+          onOpenChange={(open) => !open && setPreviewReceipts(null)}
+        />
+
+        <Dialog open={!!editingExpense} onOpenChange={(open) => !open && setEditingExpense(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Edit Expense</DialogTitle>
+            {editingExpense && (
+              <ExpenseForm
+                key={editingExpense.id}
+                expense={editingExpense}
+                onSuccess={handleExpenseUpdated}
+                onCancel={() => setEditingExpense(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deletingExpense} onOpenChange={(open) => !open && !deleting && setDeletingExpense(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete expense?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will permanently delete &quot;{deletingExpense?.description}&quot;. This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  // Keep the dialog open until the delete has finished
+                  e.preventDefault()
+                  handleDeleteExpense()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </DashboardLayout>
   )
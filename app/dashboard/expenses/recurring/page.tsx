@@ -0,0 +1,477 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { addDays, addYears, format } from "date-fns"
+import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Loader2,
+  Plus,
+  AlertCircle,
+  MoreHorizontal,
+  Pencil,
+  Pause,
+  Play,
+  Trash2,
+  RefreshCw,
+  CheckCircle2,
+} from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import RecurringExpenseForm from "@/components/expenses/recurring-expense-form"
+import { FREQUENCY_LABELS, upcomingOccurrences, type RecurringExpense } from "@/lib/recurring-expenses"
+import {
+  fetchRecurringExpenses,
+  updateRecurringExpense,
+  deleteRecurringExpense,
+  setOccurrenceSkipped,
+  generateRecurringExpenses,
+} from "@/lib/supabase-recurring"
+import { formatDate, formatMoney } from "@/lib/format"
+
+export default function RecurringExpensesPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_expenses")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [templates, setTemplates] = useState<RecurringExpense[]>([])
+  const [horizonDays, setHorizonDays] = useState("90")
+  const [generating, setGenerating] = useState(false)
+
+  // Dialog state
+  const [showAddDialog, setShowAddDialog] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<RecurringExpense | null>(null)
+  const [deletingTemplate, setDeletingTemplate] = useState<RecurringExpense | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const data = await fetchRecurringExpenses()
+        setTemplates(data)
+      } catch (err) {
+        console.error("Error loading recurring expenses:", err)
+        setError(err instanceof Error ? err.message : "Failed to load recurring expenses")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [])
+
+  const today = format(new Date(), "yyyy-MM-dd")
+
+  // Occurrences over the next two years that the generator hasn't reached yet;
+  // anything on or before a template's generated-through date already exists as an expense
+  const pendingOccurrences = useMemo(
+    () =>
+      upcomingOccurrences(templates, today, format(addYears(new Date(), 2), "yyyy-MM-dd")).filter(
+        (occurrence) =>
+          !occurrence.template.generated_through || occurrence.date > occurrence.template.generated_through,
+      ),
+    [templates, today],
+  )
+
+  const upcoming = useMemo(() => {
+    const until = format(addDays(new Date(), Number.parseInt(horizonDays)), "yyyy-MM-dd")
+    return pendingOccurrences.filter((occurrence) => occurrence.date <= until)
+  }, [pendingOccurrences, horizonDays])
+
+  // Next date each template will generate an expense
+  const nextOccurrences = useMemo(
+    () =>
+      pendingOccurrences.reduce<Record<number, string>>((next, occurrence) => {
+        if (!occurrence.skipped && !next[occurrence.template.id]) {
+          next[occurrence.template.id] = occurrence.date
+        }
+        return next
+      }, {}),
+    [pendingOccurrences],
+  )
+
+  const replaceTemplate = (updated: RecurringExpense) => {
+    setTemplates((current) =>
+      current.map((template) =>
+        template.id === updated.id
+          ? { ...template, ...updated, category_name: updated.category_name ?? template.category_name }
+          : template,
+      ),
+    )
+  }
+
+  const handleTemplateAdded = (template: RecurringExpense) => {
+    setTemplates((current) => [...current, template].sort((a, b) => a.description.localeCompare(b.description)))
+    setShowAddDialog(false)
+  }
+
+  const handleTemplateUpdated = (template: RecurringExpense) => {
+    replaceTemplate(template)
+    setEditingTemplate(null)
+  }
+
+  const handleToggleActive = async (template: RecurringExpense) => {
+    try {
+      setError(null)
+      const updated = await updateRecurringExpense(template.id, { active: !template.active })
+      replaceTemplate(updated)
+    } catch (err) {
+      console.error("Error updating recurring expense:", err)
+      setError("Failed to update recurring expense")
+    }
+  }
+
+  const handleToggleSkipped = async (template: RecurringExpense, date: string, skipped: boolean) => {
+    try {
+      setError(null)
+      const updated = await setOccurrenceSkipped(template, date, skipped)
+      replaceTemplate(updated)
+    } catch (err) {
+      console.error("Error skipping occurrence:", err)
+      setError("Failed to update the occurrence")
+    }
+  }
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true)
+      setError(null)
+      setSuccess(null)
+
+      const result = await generateRecurringExpenses()
+      setSuccess(
+        result.created > 0
+          ? `Created ${result.created} expense${result.created === 1 ? "" : "s"} from recurring templates`
+          : "All recurring expenses are up to date",
+      )
+
+      // Refresh so each template's generated-through date is current
+      setTemplates(await fetchRecurringExpenses())
+    } catch (err) {
+      console.error("Error generating recurring expenses:", err)
+      setError(err instanceof Error ? err.message : "Failed to generate recurring expenses")
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleDeleteTemplate = async () => {
+    if (!deletingTemplate) return
+
+    try {
+      setDeleting(true)
+      setError(null)
+
+      await deleteRecurringExpense(deletingTemplate.id)
+
+      setTemplates((current) => current.filter((template) => template.id !== deletingTemplate.id))
+      setDeletingTemplate(null)
+    } catch (err) {
+      console.error("Error deleting recurring expense:", err)
+      setError("Failed to delete recurring expense")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading recurring expenses...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {success && (
+          <Alert className="bg-green-50 text-green-800 border-green-200">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>{success}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Recurring Expenses</h1>
+          <div className="flex gap-2">
+            {canEdit && (
+              <>
+                <Button variant="outline" onClick={handleGenerate} disabled={generating}>
+                  {generating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  Generate Due Expenses
+                </Button>
+                <Button onClick={() => setShowAddDialog(true)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Recurring Expense
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+            <CardDescription>Expenses that are added automatically on a schedule</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Next</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    {canEdit && (
+                      <TableHead className="w-[50px]">
+                        <span className="sr-only">Actions</span>
+                      </TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.length > 0 ? (
+                    templates.map((template) => (
+                      <TableRow key={template.id} className={template.active ? undefined : "text-muted-foreground"}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {template.description}
+                            {!template.active && <Badge variant="secondary">Paused</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>{template.category_name || "Uncategorized"}</TableCell>
+                        <TableCell>
+                          {FREQUENCY_LABELS[template.frequency]} from{" "}
+                          {formatDate(template.start_date)}
+                          {template.end_date && ` until ${formatDate(template.end_date)}`}
+                        </TableCell>
+                        <TableCell>
+                          {nextOccurrences[template.id]
+                            ? formatDate(nextOccurrences[template.id])
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(template.amount, template.currency)}</TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                  <span className="sr-only">Open actions</span>
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => setEditingTemplate(template)}>
+                                  <Pencil className="mr-2 h-4 w-4" />
+                                  Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleToggleActive(template)}>
+                                  {template.active ? (
+                                    <>
+                                      <Pause className="mr-2 h-4 w-4" />
+                                      Pause
+                                    </>
+                                  ) : (
+                                    <>
+                                      <Play className="mr-2 h-4 w-4" />
+                                      Resume
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  className="text-destructive focus:text-destructive"
+                                  onClick={() => setDeletingTemplate(template)}
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No recurring expenses found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Upcoming</CardTitle>
+              <CardDescription>Skip an occurrence to stop it from being added as an expense</CardDescription>
+            </div>
+            <div className="w-[160px]">
+              <Select value={horizonDays} onValueChange={setHorizonDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">Next 30 days</SelectItem>
+                  <SelectItem value="90">Next 90 days</SelectItem>
+                  <SelectItem value="365">Next 12 months</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="w-[100px]">
+                      <span className="sr-only">Actions</span>
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {upcoming.length > 0 ? (
+                    upcoming.map((occurrence) => (
+                      <TableRow
+                        key={`${occurrence.template.id}-${occurrence.date}`}
+                        className={occurrence.skipped ? "text-muted-foreground" : undefined}
+                      >
+                        <TableCell className={occurrence.skipped ? "line-through" : undefined}>
+                          {formatDate(occurrence.date, "long")}
+                        </TableCell>
+                        <TableCell className={occurrence.skipped ? "line-through" : "font-medium"}>
+                          {occurrence.template.description}
+                        </TableCell>
+                        <TableCell className={`text-right ${occurrence.skipped ? "line-through" : ""}`}>
+                          {formatMoney(occurrence.template.amount, occurrence.template.currency)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              handleToggleSkipped(occurrence.template, occurrence.date, !occurrence.skipped)
+                            }
+                          >
+                            {occurrence.skipped ? "Restore" : "Skip"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center">
+                        Nothing scheduled in this period.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Add Recurring Expense</DialogTitle>
+            {showAddDialog && (
+              <RecurringExpenseForm onSuccess={handleTemplateAdded} onCancel={() => setShowAddDialog(false)} />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!editingTemplate} onOpenChange={(open) => !open && setEditingTemplate(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Edit Recurring Expense</DialogTitle>
+            {editingTemplate && (
+              <RecurringExpenseForm
+                key={editingTemplate.id}
+                template={editingTemplate}
+                onSuccess={handleTemplateUpdated}
+                onCancel={() => setEditingTemplate(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog
+          open={!!deletingTemplate}
+          onOpenChange={(open) => !open && !deleting && setDeletingTemplate(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete recurring expense?</AlertDialogTitle>
+              <AlertDialogDescription>
+                &quot;{deletingTemplate?.description}&quot; will stop repeating. Expenses it has already added are kept.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  // Keep the dialog open until the delete has finished
+                  e.preventDefault()
+                  handleDeleteTemplate()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,262 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ChartContainer } from "@/components/ui/chart"
+import { AlertCircle, Loader2, TrendingDown, TrendingUp, Wheat } from "lucide-react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { useLocale } from "@/components/locale-provider"
+import {
+  fetchIngredientPrices,
+  priceHistorySeries,
+  summarizeIngredients,
+  PRICE_INCREASE_THRESHOLD,
+  type IngredientPrice,
+} from "@/lib/supabase-ingredients"
+import { formatDate, formatMoney, formatPercent } from "@/lib/format"
+
+// Colors for the per-supplier price lines
+const COLORS = ["#3B82F6", "#10B981", "#EAB308", "#EF4444", "#8B5CF6", "#EC4899"]
+
+export default function IngredientsPage() {
+  const { baseCurrency } = useLocale()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [prices, setPrices] = useState<IngredientPrice[]>([])
+  const [selectedKey, setSelectedKey] = useState<string>("")
+
+  useEffect(() => {
+    const loadPrices = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        setPrices(await fetchIngredientPrices())
+      } catch (err) {
+        console.error("Error loading ingredient prices:", err)
+        setError(err instanceof Error ? err.message : "Failed to load ingredient prices")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPrices()
+  }, [])
+
+  const ingredients = useMemo(() => summarizeIngredients(prices), [prices])
+  const increases = ingredients.filter((ingredient) => (ingredient.change || 0) >= PRICE_INCREASE_THRESHOLD)
+
+  // Chart the most recently bought ingredient until another one is picked
+  const chartKey = selectedKey || ingredients[0]?.key || ""
+  const selected = ingredients.find((ingredient) => ingredient.key === chartKey)
+  const history = useMemo(() => priceHistorySeries(prices, chartKey), [prices, chartKey])
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading ingredient prices...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Ingredient Prices</h1>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Tracked Ingredients</CardTitle>
+              <Wheat className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{ingredients.length}</div>
+              <p className="text-xs text-muted-foreground">From {prices.length} purchases with a quantity and unit</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Price Increases</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{increases.length}</div>
+              <p className="text-xs text-muted-foreground">
+                {increases.length > 0
+                  ? increases
+                      .slice(0, 3)
+                      .map((ingredient) => ingredient.name)
+                      .join(", ") + (increases.length > 3 ? ` and ${increases.length - 3} more` : "")
+                  : `No ingredient went up ${PRICE_INCREASE_THRESHOLD}% or more at its last purchase`}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Price History</CardTitle>
+              <CardDescription>Cost per 100g in {baseCurrency} for each supplier</CardDescription>
+            </div>
+            <div className="w-full md:w-[260px]">
+              <Select value={chartKey} onValueChange={setSelectedKey} disabled={ingredients.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an ingredient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ingredients.map((ingredient) => (
+                    <SelectItem key={ingredient.key} value={ingredient.key}>
+                      {ingredient.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selected ? (
+              <div className="h-[350px]">
+                <ChartContainer
+                  config={Object.fromEntries(
+                    history.suppliers.map((supplier, index) => [
+                      supplier.key,
+                      { label: supplier.name, color: COLORS[index % COLORS.length] },
+                    ]),
+                  )}
+                >
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={history.rows} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" tickFormatter={(value) => formatDate(value, "short")} />
+                      <YAxis tickFormatter={(value) => formatMoney(Number(value))} />
+                      <Tooltip
+                        labelFormatter={(value) => formatDate(String(value))}
+                        formatter={(value) => formatMoney(Number(value))}
+                      />
+                      <Legend />
+                      {history.suppliers.map((supplier) => (
+                        <Line
+                          key={supplier.key}
+                          type="monotone"
+                          dataKey={supplier.key}
+                          name={supplier.name}
+                          stroke={`var(--color-${supplier.key})`}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              </div>
+            ) : (
+              <div className="flex h-[200px] items-center justify-center text-sm text-muted-foreground">
+                Add a quantity and a unit such as kg, l or pcs to ingredient expenses to track their prices.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Ingredients</CardTitle>
+            <CardDescription>
+              Latest cost per 100g and the change since the previous purchase. Select an ingredient to chart it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ingredient</TableHead>
+                    <TableHead className="text-right">Cost per 100g</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead>Suppliers</TableHead>
+                    <TableHead>Last Purchase</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ingredients.length > 0 ? (
+                    ingredients.map((ingredient) => (
+                      <TableRow
+                        key={ingredient.key}
+                        className={`cursor-pointer ${ingredient.key === chartKey ? "bg-muted/50" : ""}`}
+                        onClick={() => setSelectedKey(ingredient.key)}
+                      >
+                        <TableCell className="font-medium">{ingredient.name}</TableCell>
+                        <TableCell className="text-right">{formatMoney(ingredient.latest.cost_per_100g)}</TableCell>
+                        <TableCell className="text-right">
+                          {ingredient.change === undefined ? (
+                            <span className="text-muted-foreground">-</span>
+                          ) : (
+                            <span
+                              className={`inline-flex items-center gap-1 ${
+                                ingredient.change >= PRICE_INCREASE_THRESHOLD
+                                  ? "text-red-600"
+                                  : ingredient.change < 0
+                                    ? "text-green-600"
+                                    : ""
+                              }`}
+                            >
+                              {ingredient.change >= 0 ? (
+                                <TrendingUp className="h-3 w-3" />
+                              ) : (
+                                <TrendingDown className="h-3 w-3" />
+                              )}
+                              {formatPercent(ingredient.change)}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>{ingredient.supplierNames.join(", ")}</TableCell>
+                        <TableCell>
+                          {formatDate(ingredient.latest.date)}
+                          {ingredient.latest.supplier_name && (
+                            <span className="text-muted-foreground"> from {ingredient.latest.supplier_name}</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No ingredient purchases found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
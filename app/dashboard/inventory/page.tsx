@@ -0,0 +1,547 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertCircle,
+  Boxes,
+  ClipboardCheck,
+  Loader2,
+  MoreHorizontal,
+  PackageMinus,
+  Pencil,
+  Plus,
+  Trash2,
+  Wallet,
+} from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import StockItemForm from "@/components/inventory/stock-item-form"
+import StockMovementForm from "@/components/inventory/stock-movement-form"
+import { useLocale } from "@/components/locale-provider"
+import {
+  computeStockLevels,
+  deleteStockItem,
+  deleteStockMovement,
+  fetchInventorySources,
+  formatStockQuantity,
+  STOCK_ENTRY_LABELS,
+  type InventorySources,
+  type StockItem,
+  type StockLevel,
+  type StockMovementType,
+} from "@/lib/supabase-inventory"
+import { fetchIngredientPrices, summarizeIngredients } from "@/lib/supabase-ingredients"
+import { fetchBusinessSettings, updateBusinessSettings, type InventoryValuation } from "@/lib/supabase-settings"
+import { formatDate, formatMoney } from "@/lib/format"
+
+const EMPTY_SOURCES: InventorySources = { items: [], movements: [], purchases: [], sales: [] }
+
+export default function InventoryPage() {
+  const { can } = useAuth()
+  // Staff count and use stock, while setting up items is left to those who manage the records
+  const canEdit = can("manage_records")
+  const canRecord = can("manage_expenses")
+  // What the stock is worth is left to the roles that see the business's figures
+  const showFinances = can("view_finances")
+  const { baseCurrency } = useLocale()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [sources, setSources] = useState<InventorySources>(EMPTY_SOURCES)
+  const [valuation, setValuation] = useState<InventoryValuation>("fifo")
+  const [ingredientNames, setIngredientNames] = useState<string[]>([])
+  const [selectedItemId, setSelectedItemId] = useState<number | null>(null)
+
+  // Dialog state
+  const [showAddDialog, setShowAddDialog] = useState(false)
+  const [editingItem, setEditingItem] = useState<StockItem | null>(null)
+  const [deletingItem, setDeletingItem] = useState<StockItem | null>(null)
+  const [deleting, setDeleting] = useState(false)
+  const [recording, setRecording] = useState<{ level: StockLevel; movementType: StockMovementType } | null>(null)
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [sourcesData, settings, prices] = await Promise.all([
+        fetchInventorySources(),
+        fetchBusinessSettings(),
+        fetchIngredientPrices(),
+      ])
+      setSources(sourcesData)
+      setValuation(settings.inventory_valuation)
+      setIngredientNames(summarizeIngredients(prices).map((ingredient) => ingredient.name))
+    } catch (err) {
+      console.error("Error loading inventory:", err)
+      setError(err instanceof Error ? err.message : "Failed to load inventory")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const levels = useMemo(() => computeStockLevels(sources, valuation), [sources, valuation])
+  const lowLevels = levels.filter((level) => level.low)
+  const totalValue = levels.reduce((sum, level) => sum + level.value, 0)
+  const selected = levels.find((level) => level.item.id === selectedItemId) || levels[0]
+
+  const handleValuationChange = async (value: InventoryValuation) => {
+    const previous = valuation
+    setValuation(value)
+
+    try {
+      await updateBusinessSettings({ inventory_valuation: value })
+    } catch (err) {
+      console.error("Error saving inventory valuation:", err)
+      setError("Failed to save the valuation method")
+      setValuation(previous)
+    }
+  }
+
+  // Stock depends on every movement before it, so reload rather than patching the levels
+  const handleSaved = () => {
+    setShowAddDialog(false)
+    setEditingItem(null)
+    setRecording(null)
+    loadData()
+  }
+
+  const handleDeleteItem = async () => {
+    if (!deletingItem) return
+
+    try {
+      setDeleting(true)
+      setError(null)
+
+      await deleteStockItem(deletingItem.id)
+
+      setSources((current) => ({ ...current, items: current.items.filter((item) => item.id !== deletingItem.id) }))
+      setDeletingItem(null)
+    } catch (err) {
+      console.error("Error deleting stock item:", err)
+      setError("Failed to delete stock item")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  const handleDeleteMovement = async (movementId: number) => {
+    try {
+      setError(null)
+
+      await deleteStockMovement(movementId)
+
+      setSources((current) => ({
+        ...current,
+        movements: current.movements.filter((movement) => movement.id !== movementId),
+      }))
+    } catch (err) {
+      console.error("Error deleting stock movement:", err)
+      setError("Failed to delete stock movement")
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading inventory...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {showFinances && <MissingRatesAlert />}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Inventory</h1>
+          {canEdit && (
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Stock Item
+            </Button>
+          )}
+        </div>
+
+        <div className={`grid gap-4 ${showFinances ? "md:grid-cols-3" : "md:grid-cols-2"}`}>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Stock Items</CardTitle>
+              <Boxes className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{levels.length}</div>
+              <p className="text-xs text-muted-foreground">Ingredients and supplies being tracked</p>
+            </CardContent>
+          </Card>
+          {showFinances && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Inventory Value</CardTitle>
+                <Wallet className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(totalValue)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {valuation === "fifo" ? "At the cost of the most recent purchases" : "At the average purchase cost"}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Low Stock</CardTitle>
+              <AlertCircle className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{lowLevels.length}</div>
+              <p className="text-xs text-muted-foreground">
+                {lowLevels.length > 0
+                  ? lowLevels
+                      .slice(0, 3)
+                      .map((level) => level.item.name)
+                      .join(", ") + (lowLevels.length > 3 ? ` and ${lowLevels.length - 3} more` : "")
+                  : "Nothing is at or below its low stock level"}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Stock Levels</CardTitle>
+              <CardDescription>
+                Purchases less sales and usage since each item started being tracked
+                {showFinances && `, valued in ${baseCurrency}`}. Select an item to see its history.
+              </CardDescription>
+            </div>
+            {showFinances && (
+              <div className="w-full md:w-[220px]">
+                <Select
+                  value={valuation}
+                  onValueChange={(value: InventoryValuation) => handleValuationChange(value)}
+                  disabled={!can("manage_settings")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fifo">FIFO valuation</SelectItem>
+                    <SelectItem value="average">Average cost valuation</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead className="text-right">Low Stock Level</TableHead>
+                    {showFinances && (
+                      <>
+                        <TableHead className="text-right">Unit Cost</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </>
+                    )}
+                    {canRecord && (
+                      <TableHead className="w-[50px]">
+                        <span className="sr-only">Actions</span>
+                      </TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {levels.length > 0 ? (
+                    levels.map((level) => (
+                      <TableRow
+                        key={level.item.id}
+                        className={`cursor-pointer ${level.item.id === selected?.item.id ? "bg-muted/50" : ""}`}
+                        onClick={() => setSelectedItemId(level.item.id)}
+                      >
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {level.item.name}
+                            {level.low && <Badge variant="destructive">Low</Badge>}
+                          </div>
+                          {level.unconvertedPurchases > 0 && (
+                            <p className="text-xs font-normal text-amber-600">
+                              {level.unconvertedPurchases} purchases without a unit that converts to{" "}
+                              {level.item.stock_unit === "pcs" ? "pieces" : "grams"}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right ${level.onHand < 0 ? "text-red-600" : ""}`}>
+                          {formatStockQuantity(level.onHand, level.item.stock_unit)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {level.item.low_stock_threshold != null
+                            ? formatStockQuantity(level.item.low_stock_threshold, level.item.stock_unit)
+                            : "-"}
+                        </TableCell>
+                        {showFinances && (
+                          <>
+                            <TableCell className="text-right">
+                              {level.unitCost === undefined
+                                ? "-"
+                                : level.item.stock_unit === "pcs"
+                                  ? `${formatMoney(level.unitCost)} / pc`
+                                  : `${formatMoney(level.unitCost * 1000)} / kg`}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{formatMoney(level.value)}</TableCell>
+                          </>
+                        )}
+                        {canRecord && (
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                  <span className="sr-only">Open actions</span>
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => setRecording({ level, movementType: "usage" })}>
+                                  <PackageMinus className="mr-2 h-4 w-4" />
+                                  Record Usage
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setRecording({ level, movementType: "stocktake" })}>
+                                  <ClipboardCheck className="mr-2 h-4 w-4" />
+                                  Stock Take
+                                </DropdownMenuItem>
+                                {canEdit && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onClick={() => setEditingItem(level.item)}>
+                                      <Pencil className="mr-2 h-4 w-4" />
+                                      Edit
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                      className="text-destructive focus:text-destructive"
+                                      onClick={() => setDeletingItem(level.item)}
+                                    >
+                                      <Trash2 className="mr-2 h-4 w-4" />
+                                      Delete
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No stock items found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{selected.item.name} History</CardTitle>
+              <CardDescription>
+                Stock movements since {formatDate(selected.item.tracked_from)}, newest first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      {canRecord && (
+                        <TableHead className="w-[50px]">
+                          <span className="sr-only">Actions</span>
+                        </TableHead>
+                      )}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.history.length > 0 ? (
+                      selected.history.map((entry, index) => (
+                        <TableRow key={`${entry.kind}-${entry.movement_id ?? index}`}>
+                          <TableCell>{formatDate(entry.date)}</TableCell>
+                          <TableCell>{STOCK_ENTRY_LABELS[entry.kind]}</TableCell>
+                          <TableCell>{entry.description}</TableCell>
+                          <TableCell
+                            className={`text-right ${
+                              entry.change > 0 ? "text-green-600" : entry.change < 0 ? "text-red-600" : ""
+                            }`}
+                          >
+                            {entry.change > 0 ? "+" : ""}
+                            {formatStockQuantity(entry.change, selected.item.stock_unit)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatStockQuantity(entry.balance, selected.item.stock_unit)}
+                          </TableCell>
+                          {canRecord && (
+                            <TableCell>
+                              {entry.movement_id !== undefined && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => handleDeleteMovement(entry.movement_id as number)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                  <span className="sr-only">Delete</span>
+                                </Button>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="h-24 text-center">
+                          No stock movements found.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Add Stock Item</DialogTitle>
+            {showAddDialog && (
+              <StockItemForm
+                ingredientNames={ingredientNames}
+                existingItems={sources.items}
+                onSuccess={handleSaved}
+                onCancel={() => setShowAddDialog(false)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!editingItem} onOpenChange={(open) => !open && setEditingItem(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Edit Stock Item</DialogTitle>
+            {editingItem && (
+              <StockItemForm
+                key={editingItem.id}
+                item={editingItem}
+                ingredientNames={ingredientNames}
+                existingItems={sources.items}
+                onSuccess={handleSaved}
+                onCancel={() => setEditingItem(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!recording} onOpenChange={(open) => !open && setRecording(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">
+              {recording?.movementType === "stocktake" ? "Stock Take" : "Record Usage"}
+            </DialogTitle>
+            {recording && (
+              <StockMovementForm
+                key={`${recording.level.item.id}-${recording.movementType}`}
+                level={recording.level}
+                movementType={recording.movementType}
+                onSuccess={handleSaved}
+                onCancel={() => setRecording(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deletingItem} onOpenChange={(open) => !open && !deleting && setDeletingItem(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete stock item?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will stop tracking &quot;{deletingItem?.name}&quot; and remove its recorded usage and stock
+                takes. Purchases and orders are not affected.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  // Keep the dialog open until the delete has finished
+                  e.preventDefault()
+                  handleDeleteItem()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,351 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Loader2,
+  AlertCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  ChevronLeft,
+  ChevronRight,
+  Landmark,
+  Scale,
+} from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { fetchCategories, type Category } from "@/lib/supabase"
+import { fetchBusinessSettings, type BusinessSettings } from "@/lib/supabase-settings"
+import { fetchLedger } from "@/lib/supabase-ledger"
+import { DEFAULT_CURRENCY } from "@/lib/currency"
+import {
+  DEFAULT_LEDGER_PAGE_SIZE,
+  LEDGER_SOURCES,
+  LEDGER_SOURCE_LABELS,
+  type LedgerPage,
+  type LedgerSource,
+} from "@/lib/ledger"
+import { formatDate, formatMoney, formatSignedMoney } from "@/lib/format"
+
+const SOURCE_BADGES: Record<LedgerSource, string> = {
+  order: "bg-green-100 text-green-800",
+  market: "bg-blue-100 text-blue-800",
+  course: "bg-purple-100 text-purple-800",
+  expense: "bg-red-100 text-red-800",
+}
+
+export default function LedgerPage() {
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [ledger, setLedger] = useState<LedgerPage | null>(null)
+  const [categories, setCategories] = useState<Category[]>([])
+  const [businessSettings, setBusinessSettings] = useState<BusinessSettings | null>(null)
+
+  // Filters
+  const [dateFrom, setDateFrom] = useState("")
+  const [dateTo, setDateTo] = useState("")
+  const [sourceFilter, setSourceFilter] = useState<LedgerSource | "all">("all")
+  const [categoryFilter, setCategoryFilter] = useState("all")
+  const [page, setPage] = useState(1)
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      const [categoriesData, settingsData] = await Promise.all([fetchCategories(true), fetchBusinessSettings()])
+      setCategories(categoriesData)
+      setBusinessSettings(settingsData)
+    }
+
+    loadOptions()
+  }, [])
+
+  useEffect(() => {
+    const loadLedger = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const data = await fetchLedger({
+          dateFrom: dateFrom || undefined,
+          dateTo: dateTo || undefined,
+          sources: sourceFilter !== "all" ? [sourceFilter] : undefined,
+          categoryId: categoryFilter !== "all" ? Number.parseInt(categoryFilter) : undefined,
+          page,
+          pageSize: DEFAULT_LEDGER_PAGE_SIZE,
+        })
+        setLedger(data)
+      } catch (err) {
+        console.error("Error loading ledger:", err)
+        setError(err instanceof Error ? err.message : "Failed to load ledger")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadLedger()
+  }, [dateFrom, dateTo, sourceFilter, categoryFilter, page])
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const baseCurrency = businessSettings?.base_currency || DEFAULT_CURRENCY
+  const entries = ledger?.entries || []
+  const pageCount = ledger ? Math.max(Math.ceil(ledger.total / ledger.pageSize), 1) : 1
+  const firstEntry = ledger && ledger.total > 0 ? (ledger.page - 1) * ledger.pageSize + 1 : 0
+  const lastEntry = firstEntry + Math.max(entries.length - 1, 0)
+
+  if (loading && !ledger) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading ledger...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Ledger</h1>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Opening Balance</CardTitle>
+              <Landmark className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {formatMoney(businessSettings?.opening_balance || 0, baseCurrency)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {businessSettings?.opening_balance_date
+                  ? `As of ${formatDate(businessSettings.opening_balance_date)}`
+                  : "From the first entry"}{" "}
+                &middot;{" "}
+                <Link href="/dashboard/settings" className="hover:text-primary hover:underline">
+                  Change
+                </Link>
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Money In</CardTitle>
+              <ArrowDownLeft className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{formatMoney(ledger?.totalIn || 0, baseCurrency)}</div>
+              <p className="text-xs text-muted-foreground">Matching the current filters</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Money Out</CardTitle>
+              <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600">{formatMoney(ledger?.totalOut || 0, baseCurrency)}</div>
+              <p className="text-xs text-muted-foreground">Matching the current filters</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Net Movement</CardTitle>
+              <Scale className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {formatSignedMoney((ledger?.totalIn || 0) - (ledger?.totalOut || 0), baseCurrency)}
+              </div>
+              <p className="text-xs text-muted-foreground">{ledger?.total || 0} entries</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Transactions</CardTitle>
+            <CardDescription>
+              Income and outgoing entries from order payments, markets, courses and expenses. The balance is the cash
+              balance after each entry, whatever the filters.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  aria-label="From date"
+                  value={dateFrom}
+                  onChange={(e) => updateFilter(setDateFrom)(e.target.value)}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="date"
+                  aria-label="To date"
+                  value={dateTo}
+                  onChange={(e) => updateFilter(setDateTo)(e.target.value)}
+                />
+              </div>
+              <div className="w-full md:w-[180px]">
+                <Select
+                  value={sourceFilter}
+                  onValueChange={(value) => updateFilter(setSourceFilter)(value as LedgerSource | "all")}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by source" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Sources</SelectItem>
+                    {LEDGER_SOURCES.map((source) => (
+                      <SelectItem key={source} value={source}>
+                        {LEDGER_SOURCE_LABELS[source]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-full md:w-[200px]">
+                <Select value={categoryFilter} onValueChange={updateFilter(setCategoryFilter)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length > 0 ? (
+                    entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{formatDate(entry.date)}</TableCell>
+                        <TableCell className="font-medium">
+                          {entry.description}
+                          {entry.counterparty && (
+                            <p className="text-xs font-normal text-muted-foreground">{entry.counterparty}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                              SOURCE_BADGES[entry.source]
+                            }`}
+                          >
+                            {LEDGER_SOURCE_LABELS[entry.source]}
+                          </span>
+                        </TableCell>
+                        <TableCell>{entry.category_name || "-"}</TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            (entry.amount ?? entry.original_amount) >= 0 ? "text-green-600" : "text-red-600"
+                          }`}
+                        >
+                          {entry.amount !== null ? formatSignedMoney(entry.amount, baseCurrency) : "-"}
+                          {entry.currency !== baseCurrency && (
+                            <p className="text-xs font-normal text-muted-foreground">
+                              {formatSignedMoney(entry.original_amount, entry.currency)}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {entry.balance !== undefined ? formatMoney(entry.balance, baseCurrency) : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No transactions found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-muted-foreground">
+                {ledger && ledger.total > 0
+                  ? `Showing ${firstEntry}-${lastEntry} of ${ledger.total}`
+                  : "No entries to show"}
+              </p>
+              <div className="flex items-center gap-2">
+                {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((current) => current - 1)}
+                  disabled={loading || page <= 1}
+                >
+                  <ChevronLeft className="mr-1 h-4 w-4" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((current) => current + 1)}
+                  disabled={loading || page >= pageCount}
+                >
+                  Next
+                  <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,327 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, AlertCircle, Store, Receipt, TrendingUp, CalendarDays } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { fetchMarketPnl, rankOrganizers, type MarketPnl } from "@/lib/supabase-markets"
+import { formatDateRange, formatMoney } from "@/lib/format"
+
+type MarketSort = "net-per-day" | "net" | "date"
+
+function formatDays(days: number) {
+  return `${days} ${days === 1 ? "day" : "days"}`
+}
+
+export default function MarketsPage() {
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [markets, setMarkets] = useState<MarketPnl[]>([])
+  const [sortBy, setSortBy] = useState<MarketSort>("net-per-day")
+
+  // Defaults to the current season
+  const currentYear = new Date().getFullYear()
+  const [yearFilter, setYearFilter] = useState<string>(currentYear.toString())
+  const yearOptions = useMemo(
+    () => Array.from({ length: 5 }, (_, index) => (currentYear - index).toString()),
+    [currentYear],
+  )
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const data =
+          yearFilter === "all"
+            ? await fetchMarketPnl()
+            : await fetchMarketPnl(`${yearFilter}-01-01`, `${yearFilter}-12-31`)
+        setMarkets(data)
+      } catch (err) {
+        console.error("Error loading markets:", err)
+        setError(err instanceof Error ? err.message : "Failed to load markets")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [yearFilter])
+
+  const sortedMarkets = useMemo(() => {
+    const sorted = [...markets]
+    if (sortBy === "net-per-day") return sorted.sort((a, b) => b.netPerDay - a.netPerDay)
+    if (sortBy === "net") return sorted.sort((a, b) => b.net - a.net)
+    return sorted.sort((a, b) => b.end_date.localeCompare(a.end_date))
+  }, [markets, sortBy])
+
+  const organizers = useMemo(() => rankOrganizers(markets), [markets])
+
+  const totals = useMemo(() => {
+    const days = markets.reduce((sum, market) => sum + market.days, 0)
+    const net = markets.reduce((sum, market) => sum + market.net, 0)
+    return {
+      gross: markets.reduce((sum, market) => sum + market.gross, 0),
+      feesAndCommission: markets.reduce((sum, market) => sum + market.fee + market.commission, 0),
+      linkedExpenses: markets.reduce((sum, market) => sum + market.linkedExpenses, 0),
+      net,
+      days,
+      netPerDay: days > 0 ? net / days : 0,
+    }
+  }, [markets])
+
+  const periodLabel = yearFilter === "all" ? "all time" : yearFilter
+
+  if (loading && markets.length === 0) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading markets...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Markets</h1>
+          <div className="w-[150px]">
+            <Select value={yearFilter} onValueChange={setYearFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="Season" />
+              </SelectTrigger>
+              <SelectContent>
+                {yearOptions.map((year) => (
+                  <SelectItem key={year} value={year}>
+                    {year}
+                  </SelectItem>
+                ))}
+                <SelectItem value="all">All Time</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Gross Takings</CardTitle>
+              <Store className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totals.gross)}</div>
+              <p className="text-xs text-muted-foreground">
+                {markets.length} markets, {formatDays(totals.days)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Fees & Commission</CardTitle>
+              <Receipt className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totals.feesAndCommission)}</div>
+              <p className="text-xs text-muted-foreground">
+                Plus {formatMoney(totals.linkedExpenses)} in linked expenses
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Net Result</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${totals.net >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatMoney(totals.net)}
+              </div>
+              <p className="text-xs text-muted-foreground">After fees, commission and linked expenses</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Net per Day</CardTitle>
+              <CalendarDays className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totals.netPerDay)}</div>
+              <p className="text-xs text-muted-foreground">Average across {periodLabel}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="markets" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="markets">Markets</TabsTrigger>
+            <TabsTrigger value="organizers">Organizers</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="markets" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>Market P&L</CardTitle>
+                  <CardDescription>Takings less stall fee, commission and linked expenses</CardDescription>
+                </div>
+                <div className="w-[180px]">
+                  <Select value={sortBy} onValueChange={(value: MarketSort) => setSortBy(value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="net-per-day">Net per day</SelectItem>
+                      <SelectItem value="net">Net result</SelectItem>
+                      <SelectItem value="date">Most recent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Market</TableHead>
+                        <TableHead>Organizer</TableHead>
+                        <TableHead>Dates</TableHead>
+                        <TableHead className="text-right">Gross</TableHead>
+                        <TableHead className="text-right">Fee</TableHead>
+                        <TableHead className="text-right">Commission</TableHead>
+                        <TableHead className="text-right">Expenses</TableHead>
+                        <TableHead className="text-right">Net</TableHead>
+                        <TableHead className="text-right">Net / Day</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sortedMarkets.length > 0 ? (
+                        sortedMarkets.map((market) => (
+                          <TableRow key={market.id}>
+                            <TableCell className="font-medium">
+                              {market.name}
+                              {market.location && (
+                                <p className="text-xs font-normal text-muted-foreground">{market.location}</p>
+                              )}
+                            </TableCell>
+                            <TableCell>{market.organization_name || "-"}</TableCell>
+                            <TableCell>
+                              {formatDateRange(market.start_date, market.end_date)}
+                              <p className="text-xs text-muted-foreground">{formatDays(market.days)}</p>
+                            </TableCell>
+                            <TableCell className="text-right">{formatMoney(market.gross)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(market.fee)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(market.commission)}</TableCell>
+                            <TableCell className="text-right">
+                              {formatMoney(market.linkedExpenses)}
+                              {market.expenseCount > 0 && (
+                                <p className="text-xs text-muted-foreground">{market.expenseCount} linked</p>
+                              )}
+                            </TableCell>
+                            <TableCell
+                              className={`text-right font-medium ${market.net >= 0 ? "text-green-600" : "text-red-600"}`}
+                            >
+                              {formatMoney(market.net)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{formatMoney(market.netPerDay)}</TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={9} className="h-24 text-center">
+                            No markets found.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="organizers" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Organizer Ranking</CardTitle>
+                <CardDescription>Organizers ranked by net profit per market day in {periodLabel}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[50px]">#</TableHead>
+                        <TableHead>Organizer</TableHead>
+                        <TableHead className="text-right">Markets</TableHead>
+                        <TableHead className="text-right">Days</TableHead>
+                        <TableHead className="text-right">Gross</TableHead>
+                        <TableHead className="text-right">Costs</TableHead>
+                        <TableHead className="text-right">Net</TableHead>
+                        <TableHead className="text-right">Net / Day</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {organizers.length > 0 ? (
+                        organizers.map((organizer, index) => (
+                          <TableRow key={organizer.organization_name}>
+                            <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                            <TableCell className="font-medium">{organizer.organization_name}</TableCell>
+                            <TableCell className="text-right">{organizer.marketCount}</TableCell>
+                            <TableCell className="text-right">{organizer.days}</TableCell>
+                            <TableCell className="text-right">{formatMoney(organizer.gross)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(organizer.costs)}</TableCell>
+                            <TableCell
+                              className={`text-right font-medium ${
+                                organizer.net >= 0 ? "text-green-600" : "text-red-600"
+                              }`}
+                            >
+                              {formatMoney(organizer.net)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatMoney(organizer.netPerDay)}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={8} className="h-24 text-center">
+                            No organizers found.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  )
+}
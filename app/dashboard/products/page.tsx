@@ -0,0 +1,367 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Loader2, Plus, AlertCircle, MoreHorizontal, Package, Pencil, Percent, Trash2 } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import ProductForm from "@/components/products/product-form"
+import { fetchIngredientPrices, summarizeIngredients, type IngredientPrice } from "@/lib/supabase-ingredients"
+import { costProduct, deleteProduct, fetchProducts, ingredientCosts, type Product } from "@/lib/supabase-products"
+import { formatMoney, formatPercent } from "@/lib/format"
+
+export default function ProductsPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [products, setProducts] = useState<Product[]>([])
+  const [prices, setPrices] = useState<IngredientPrice[]>([])
+  const [statusFilter, setStatusFilter] = useState<string>("active")
+
+  // Dialog state
+  const [showAddDialog, setShowAddDialog] = useState(false)
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null)
+  const [deletingProduct, setDeletingProduct] = useState<Product | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [productData, priceData] = await Promise.all([fetchProducts(), fetchIngredientPrices()])
+      setProducts(productData)
+      setPrices(priceData)
+    } catch (err) {
+      console.error("Error loading products:", err)
+      setError(err instanceof Error ? err.message : "Failed to load products")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const costs = useMemo(() => ingredientCosts(prices), [prices])
+  const ingredientNames = useMemo(() => summarizeIngredients(prices).map((ingredient) => ingredient.name), [prices])
+
+  const rows = useMemo(
+    () =>
+      products
+        .filter((product) => statusFilter === "all" || product.archived === (statusFilter === "archived"))
+        .map((product) => ({ product, cost: costProduct(product, costs) })),
+    [products, costs, statusFilter],
+  )
+
+  const summary = useMemo(() => {
+    const active = products.filter((product) => !product.archived).map((product) => costProduct(product, costs))
+    const margins = active.flatMap((cost) => (cost.marginPercent === undefined ? [] : [cost.marginPercent]))
+
+    return {
+      activeCount: active.length,
+      averageMargin: margins.length > 0 ? margins.reduce((sum, margin) => sum + margin, 0) / margins.length : 0,
+      lossCount: active.filter((cost) => cost.margin < 0).length,
+      incompleteCount: active.filter((cost) => cost.missingIngredients.length > 0).length,
+    }
+  }, [products, costs])
+
+  const handleProductSaved = () => {
+    setShowAddDialog(false)
+    setEditingProduct(null)
+    loadData()
+  }
+
+  const handleDeleteProduct = async () => {
+    if (!deletingProduct) return
+
+    try {
+      setDeleting(true)
+      setError(null)
+
+      await deleteProduct(deletingProduct.id)
+
+      setProducts((current) => current.filter((product) => product.id !== deletingProduct.id))
+      setDeletingProduct(null)
+    } catch (err) {
+      console.error("Error deleting product:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete product")
+      setDeletingProduct(null)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading products...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Products</h1>
+          {canEdit && (
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Product
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Products</CardTitle>
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary.activeCount}</div>
+              <p className="text-xs text-muted-foreground">Active products with a recipe and selling price</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Average Margin</CardTitle>
+              <Percent className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatPercent(summary.averageMargin)}</div>
+              <p className="text-xs text-muted-foreground">Of the selling price, after ingredient costs</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Alerts</CardTitle>
+              <AlertCircle className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary.lossCount} sold at a loss</div>
+              <p className="text-xs text-muted-foreground">
+                {summary.incompleteCount} with ingredients that have no purchase price
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Product Margins</CardTitle>
+            <CardDescription>
+              Ingredient cost per unit from each recipe, at the latest or average price paid per 100g
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="w-full md:w-[200px]">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="archived">Archived</SelectItem>
+                    <SelectItem value="all">All Products</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Recipe</TableHead>
+                    <TableHead className="text-right">Selling Price</TableHead>
+                    <TableHead className="text-right">Cost per Unit</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                    {canEdit && (
+                      <TableHead className="w-[50px]">
+                        <span className="sr-only">Actions</span>
+                      </TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length > 0 ? (
+                    rows.map(({ product, cost }) => (
+                      <TableRow key={product.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {product.name}
+                            {product.archived && <Badge variant="outline">Archived</Badge>}
+                          </div>
+                          {product.description && (
+                            <p className="text-xs font-normal text-muted-foreground">{product.description}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm">
+                            {product.ingredients.length} ingredients, makes {product.batch_yield}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {product.cost_basis === "average" ? "Average" : "Latest"} prices
+                          </p>
+                          {cost.missingIngredients.length > 0 && (
+                            <p className="text-xs text-amber-600">No price for {cost.missingIngredients.join(", ")}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(product.selling_price)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(cost.unitCost)}</TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${cost.margin >= 0 ? "text-green-600" : "text-red-600"}`}
+                        >
+                          {cost.margin < 0 ? "-" : ""}{formatMoney(Math.abs(cost.margin))}
+                          {cost.marginPercent !== undefined && (
+                            <p className="text-xs font-normal text-muted-foreground">
+                              {formatPercent(cost.marginPercent)}
+                            </p>
+                          )}
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                  <span className="sr-only">Open actions</span>
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => setEditingProduct(product)}>
+                                  <Pencil className="mr-2 h-4 w-4" />
+                                  Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  className="text-destructive focus:text-destructive"
+                                  onClick={() => setDeletingProduct(product)}
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No products found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Add Product</DialogTitle>
+            {showAddDialog && (
+              <ProductForm
+                ingredientNames={ingredientNames}
+                costs={costs}
+                onSuccess={handleProductSaved}
+                onCancel={() => setShowAddDialog(false)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!editingProduct} onOpenChange={(open) => !open && setEditingProduct(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Edit Product</DialogTitle>
+            {editingProduct && (
+              <ProductForm
+                key={editingProduct.id}
+                product={editingProduct}
+                ingredientNames={ingredientNames}
+                costs={costs}
+                onSuccess={handleProductSaved}
+                onCancel={() => setEditingProduct(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deletingProduct} onOpenChange={(open) => !open && !deleting && setDeletingProduct(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete product?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will remove &quot;{deletingProduct?.name}&quot; and its recipe. Products that are on orders can
+                only be archived.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  // Keep the dialog open until the delete has finished
+                  e.preventDefault()
+                  handleDeleteProduct()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
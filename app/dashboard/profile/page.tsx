@@ -10,16 +10,24 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useAuth } from "@/components/auth/auth-provider"
+import { useLocale } from "@/components/locale-provider"
 import { supabase, type Profile, fetchProfile } from "@/lib/supabase"
+import { formatDate, formatMoney, SUPPORTED_LOCALES } from "@/lib/format"
+
+// Select value for "follow the browser", since Radix Select can't use an empty string
+const BROWSER_LOCALE = "browser"
 
 export default function ProfilePage() {
   const { user } = useAuth()
+  const { changeLocale } = useLocale()
   const router = useRouter()
   const [loading, setLoading] = useState(true)
   const [updating, setUpdating] = useState(false)
   const [profile, setProfile] = useState<Profile | null>(null)
   const [fullName, setFullName] = useState("")
+  const [locale, setLocale] = useState(BROWSER_LOCALE)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
 
@@ -32,6 +40,7 @@ export default function ProfilePage() {
         const profileData = await fetchProfile(user.id)
         setProfile(profileData)
         setFullName(profileData.full_name || "")
+        setLocale(profileData.locale || BROWSER_LOCALE)
       } catch (err) {
         console.error("Error loading profile:", err)
         setError("Failed to load profile")
@@ -52,14 +61,20 @@ export default function ProfilePage() {
       setError(null)
       setSuccess(null)
 
-      const { error } = await supabase.from("profiles").upsert({
-        id: user.id,
-        full_name: fullName,
-        updated_at: new Date().toISOString(),
-      })
+      // The profile row is created with the account, so this only changes it
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          full_name: fullName,
+          locale: locale !== BROWSER_LOCALE ? locale : null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", user.id)
 
       if (error) throw error
 
+      // Applies the new locale straight away; the page remounts when it changed
+      changeLocale(locale !== BROWSER_LOCALE ? locale : null)
       setSuccess("Profile updated successfully")
     } catch (err) {
       console.error("Error updating profile:", err)
@@ -109,6 +124,25 @@ export default function ProfilePage() {
                   placeholder="Enter your full name"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="locale">Language &amp; Region</Label>
+                <Select value={locale} onValueChange={setLocale}>
+                  <SelectTrigger id="locale">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={BROWSER_LOCALE}>Browser default</SelectItem>
+                    {SUPPORTED_LOCALES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Used for amounts and dates, e.g. {formatMoney(1234.5)} on {formatDate(new Date(), "long")}
+                </p>
+              </div>
             </CardContent>
             <CardFooter>
               <Button type="submit" disabled={updating}>
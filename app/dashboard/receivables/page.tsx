@@ -0,0 +1,321 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, AlertCircle, Search, HandCoins, Clock } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import PaymentForm from "@/components/receivables/payment-form"
+import {
+  fetchReceivables,
+  summarizeAging,
+  summarizeByCustomer,
+  currenciesMissingRates,
+  AGING_BUCKETS,
+  type AgingBucket,
+  type Receivable,
+} from "@/lib/supabase-receivables"
+import { formatDate, formatMoney } from "@/lib/format"
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  "0-30": "text-green-600",
+  "31-60": "text-yellow-600",
+  "61-90": "text-orange-600",
+  "90+": "text-red-600",
+}
+
+export default function ReceivablesPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [receivables, setReceivables] = useState<Receivable[]>([])
+
+  // Filtering
+  const [searchTerm, setSearchTerm] = useState("")
+  const [bucketFilter, setBucketFilter] = useState<string>("all")
+
+  // Dialog state
+  const [payingReceivable, setPayingReceivable] = useState<Receivable | null>(null)
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      setReceivables(await fetchReceivables())
+    } catch (err) {
+      console.error("Error loading receivables:", err)
+      setError(err instanceof Error ? err.message : "Failed to load receivables")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const filteredReceivables = useMemo(() => {
+    const search = searchTerm.toLowerCase()
+    return receivables.filter((receivable) => {
+      const matchesSearch =
+        search === "" ||
+        receivable.order_number.toLowerCase().includes(search) ||
+        receivable.customer_name?.toLowerCase().includes(search)
+      const matchesBucket = bucketFilter === "all" || receivable.bucket === bucketFilter
+      return matchesSearch && matchesBucket
+    })
+  }, [receivables, searchTerm, bucketFilter])
+
+  const aging = useMemo(() => summarizeAging(receivables), [receivables])
+  const customerTotals = useMemo(() => summarizeByCustomer(filteredReceivables), [filteredReceivables])
+  const totalOutstanding = useMemo(
+    () => receivables.reduce((sum, receivable) => sum + (receivable.balance_base ?? 0), 0),
+    [receivables],
+  )
+  const missingRateCurrencies = useMemo(() => currenciesMissingRates(receivables), [receivables])
+
+  // The payment changes the balance and possibly the status, so reload rather than patching the row
+  const handlePaymentRecorded = () => {
+    setPayingReceivable(null)
+    loadData()
+  }
+
+  if (loading && receivables.length === 0) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading receivables...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert currencies={missingRateCurrencies} />
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Receivables</h1>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Outstanding</CardTitle>
+              <HandCoins className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(totalOutstanding)}</div>
+              <p className="text-xs text-muted-foreground">{receivables.length} unpaid orders</p>
+            </CardContent>
+          </Card>
+          {AGING_BUCKETS.map(({ bucket, label }) => (
+            <Card
+              key={bucket}
+              className="cursor-pointer transition-colors hover:bg-muted/50"
+              onClick={() => setBucketFilter(bucketFilter === bucket ? "all" : bucket)}
+            >
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{label}</CardTitle>
+                <Clock className={`h-4 w-4 ${BUCKET_COLORS[bucket]}`} />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${aging[bucket].total > 0 ? BUCKET_COLORS[bucket] : ""}`}>
+                  {formatMoney(aging[bucket].total)}
+                </div>
+                <p className="text-xs text-muted-foreground">{aging[bucket].count} orders</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Outstanding Orders</CardTitle>
+            <CardDescription>
+              Unpaid and partially paid orders, aged from the pickup date or, without one, the order date
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="flex-1 relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by order or customer..."
+                  className="pl-8"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <div className="w-full md:w-[200px]">
+                <Select value={bucketFilter} onValueChange={setBucketFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by age" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Ages</SelectItem>
+                    {AGING_BUCKETS.map(({ bucket, label }) => (
+                      <SelectItem key={bucket} value={bucket}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Tabs defaultValue="orders" className="space-y-4">
+              <TabsList>
+                <TabsTrigger value="orders">By Order</TabsTrigger>
+                <TabsTrigger value="customers">By Customer</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="orders" className="space-y-4">
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Order #</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Age</TableHead>
+                        <TableHead>Payment Status</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Received</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        {canEdit && (
+                          <TableHead className="w-[150px]">
+                            <span className="sr-only">Actions</span>
+                          </TableHead>
+                        )}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredReceivables.length > 0 ? (
+                        filteredReceivables.map((receivable) => (
+                          <TableRow key={receivable.id}>
+                            <TableCell className="font-medium">{receivable.order_number}</TableCell>
+                            <TableCell>{receivable.customer_name || "-"}</TableCell>
+                            <TableCell>
+                              {formatDate(receivable.pickup_date || receivable.created_at)}
+                            </TableCell>
+                            <TableCell className={BUCKET_COLORS[receivable.bucket]}>
+                              {receivable.ageDays} days
+                            </TableCell>
+                            <TableCell>
+                              <span className="inline-flex items-center rounded-full bg-amber-100 px-2.5 py-0.5 text-xs font-medium text-amber-800">
+                                {receivable.payment_status}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatMoney(
+                                receivable.total_amount + (receivable.shipping_cost || 0),
+                                receivable.currency,
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatMoney(receivable.amount_received || 0, receivable.currency)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatMoney(receivable.balance, receivable.currency)}
+                            </TableCell>
+                            {canEdit && (
+                              <TableCell className="text-right">
+                                <Button variant="outline" size="sm" onClick={() => setPayingReceivable(receivable)}>
+                                  Record Payment
+                                </Button>
+                              </TableCell>
+                            )}
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={9} className="h-24 text-center">
+                            No outstanding orders found.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="customers" className="space-y-4">
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Customer</TableHead>
+                        <TableHead className="text-right">Orders</TableHead>
+                        <TableHead className="text-right">Oldest</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {customerTotals.length > 0 ? (
+                        customerTotals.map((customer) => (
+                          <TableRow key={customer.customer_id ?? "none"}>
+                            <TableCell className="font-medium">{customer.customer_name}</TableCell>
+                            <TableCell className="text-right">{customer.orderCount}</TableCell>
+                            <TableCell className="text-right">{customer.oldestAgeDays} days</TableCell>
+                            <TableCell className="text-right font-medium">{formatMoney(customer.balance)}</TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={4} className="h-24 text-center">
+                            No customers with outstanding balances.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!payingReceivable} onOpenChange={(open) => !open && setPayingReceivable(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Record Payment</DialogTitle>
+            {payingReceivable && (
+              <PaymentForm
+                key={payingReceivable.id}
+                receivable={payingReceivable}
+                onSuccess={handlePaymentRecorded}
+                onCancel={() => setPayingReceivable(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -1,18 +1,33 @@
 "use client"
 
-import { useState, useEffect, useMemo, useCallback } from "react"
-import { startOfMonth, endOfMonth, eachMonthOfInterval, subYears } from "date-fns"
+import { useState, useEffect, useMemo } from "react"
 import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Loader2, Download, AlertCircle, Calendar, ArrowDown, ArrowUp } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { fetchExpenses } from "@/lib/supabase"
-import { fetchRevenueByMonth } from "@/lib/supabase-revenue"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { exportReport, type ReportExportFormat } from "@/lib/report-export"
+import {
+  fetchReportData,
+  type CategoryReportRow,
+  type ReportGranularity,
+  type ReportPeriodRow,
+  type ReportRange,
+} from "@/lib/reports"
+import { DEFAULT_CURRENCY } from "@/lib/currency"
 import { ChartContainer } from "@/components/ui/chart"
+import CountedStatusesNote from "@/components/revenue/counted-statuses-note"
 import {
   BarChart,
   Bar,
@@ -24,94 +39,90 @@ import {
   ResponsiveContainer,
   LineChart,
   Line,
+  PieChart,
+  Pie,
+  Cell,
 } from "recharts"
+import { formatDateRange, formatMoney, formatPercent } from "@/lib/format"
+import { addMonths, monthRange, monthStart, monthsInRange, today, yearRange } from "@/lib/dates"
 
-export default function ReportsPage() {
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [reportPeriod, setReportPeriod] = useState<"month" | "quarter" | "year">("month")
-  const [reportType, setReportType] = useState<"profit-loss" | "revenue-expense" | "category">("profit-loss")
+// Colors for category charts
+const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8", "#82CA9D"]
 
-  // Report data
-  const [monthlyRevenue, setMonthlyRevenue] = useState<any[]>([])
-  const [monthlyExpenses, setMonthlyExpenses] = useState<any[]>([])
-  const [profitLossData, setProfitLossData] = useState<any[]>([])
-
-  // Date ranges for filtering
-  const dateRanges = useMemo(() => {
-    const currentDate = new Date()
-    const currentYear = currentDate.getFullYear()
-
-    // Last 12 months
-    const lastYearDate = subYears(currentDate, 1)
-    const monthsRange = eachMonthOfInterval({
-      start: startOfMonth(lastYearDate),
-      end: endOfMonth(currentDate),
-    })
+// Number of categories charted individually before the rest are grouped as "Other"
+const TOP_CATEGORY_COUNT = 6
 
-    return {
-      currentDate,
-      currentYear,
-      monthsRange,
-      lastYearDate,
-    }
-  }, [])
+const PERIOD_NAMES: Record<ReportGranularity, string> = {
+  month: "Monthly",
+  quarter: "Quarterly",
+  year: "Yearly",
+}
 
-  // Generate profit/loss report data
-  const generateProfitLossData = useCallback((revenueData: any[], expenseData: any[]) => {
-    // Create a map of months for easier lookup
-    const revenueByMonth: Record<string, number> = {}
-    const expensesByMonth: Record<string, number> = {}
+// Resolve a range preset ("last-12-months", a year such as "2024", or "custom") to concrete dates
+function resolveRange(preset: string, customRange: ReportRange): ReportRange {
+  if (preset === "last-12-months") {
+    const currentMonth = monthStart()
+    return { from: addMonths(currentMonth, -11), to: monthRange(currentMonth).to }
+  }
 
-    revenueData.forEach((item) => {
-      revenueByMonth[item.month] = item.totalRevenue
-    })
+  if (/^\d{4}$/.test(preset)) {
+    return yearRange(Number(preset))
+  }
 
-    expenseData.forEach((item) => {
-      expensesByMonth[item.month] = item.total
-    })
+  return customRange
+}
 
-    // Combine data for all months
-    const allMonths = [...new Set([...Object.keys(revenueByMonth), ...Object.keys(expensesByMonth)])].sort()
+export default function ReportsPage() {
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reportPeriod, setReportPeriod] = useState<ReportGranularity>("month")
+  const [reportType, setReportType] = useState<"profit-loss" | "revenue-expense" | "category">("profit-loss")
 
-    return allMonths.map((month) => {
-      const revenue = revenueByMonth[month] || 0
-      const expenses = expensesByMonth[month] || 0
-      const profit = revenue - expenses
+  // Date range selection
+  const currentYear = Number(today().substring(0, 4))
+  const [rangePreset, setRangePreset] = useState<string>(currentYear.toString())
+  const [customRange, setCustomRange] = useState<ReportRange>({
+    from: `${currentYear}-01-01`,
+    to: today(),
+  })
+  const yearOptions = useMemo(
+    () => Array.from({ length: 6 }, (_, index) => (currentYear - index).toString()),
+    [currentYear],
+  )
 
-      return {
-        month,
-        revenue,
-        expenses,
-        profit,
-        profitMargin: revenue > 0 ? (profit / revenue) * 100 : 0,
-      }
-    })
-  }, [])
+  const range = useMemo(() => resolveRange(rangePreset, customRange), [rangePreset, customRange])
+  const rangeLabel = useMemo(() => {
+    if (rangePreset === "last-12-months") return "Last 12 months"
+    if (/^\d{4}$/.test(rangePreset)) return rangePreset
+    return formatDateRange(range.from, range.to)
+  }, [rangePreset, range])
+
+  // Report data
+  const [profitLossData, setProfitLossData] = useState<ReportPeriodRow[]>([])
+  const [categoryData, setCategoryData] = useState<CategoryReportRow[]>([])
+  const [paidStatuses, setPaidStatuses] = useState<string[]>([])
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  const [missingRateCurrencies, setMissingRateCurrencies] = useState<string[]>([])
 
   useEffect(() => {
     const loadData = async () => {
+      if (!range.from || !range.to || range.from > range.to) {
+        setError("Please choose a valid date range")
+        setLoading(false)
+        return
+      }
+
       try {
         setLoading(true)
         setError(null)
 
-        console.log("Fetching report data for year:", dateRanges.currentYear)
-
-        // Fetch revenue and expense data for the current year
-        const [revenueByMonth, monthlyExpensesData] = await Promise.all([
-          fetchRevenueByMonth(dateRanges.currentYear),
-          fetchMonthlyExpenses(dateRanges.currentYear),
-        ])
-
-        console.log("Revenue data:", revenueByMonth)
-        console.log("Expense data:", monthlyExpensesData)
-
-        setMonthlyRevenue(revenueByMonth)
-        setMonthlyExpenses(monthlyExpensesData)
+        const reportData = await fetchReportData(range, reportPeriod)
 
-        // Generate profit/loss report
-        const profitLossReport = generateProfitLossData(revenueByMonth, monthlyExpensesData)
-        setProfitLossData(profitLossReport)
+        setProfitLossData(reportData.periods)
+        setCategoryData(reportData.categories)
+        setPaidStatuses(reportData.paidStatuses)
+        setCurrency(reportData.currency)
+        setMissingRateCurrencies(reportData.missingRateCurrencies)
       } catch (err) {
         console.error("Error loading report data:", err)
         setError(err instanceof Error ? err.message : "Failed to load report data")
@@ -121,87 +132,98 @@ export default function ReportsPage() {
     }
 
     loadData()
-  }, [dateRanges.currentYear, generateProfitLossData])
+  }, [range, reportPeriod])
 
-  // Helper function to fetch monthly expenses
-  async function fetchMonthlyExpenses(year: number) {
-    try {
-      // Use the existing fetchExpenses function to get all expenses
-      const expenses = await fetchExpenses()
-
-      // Group expenses by month and sum amounts
-      const monthlyTotals: Record<string, number> = {
-        Jan: 0,
-        Feb: 0,
-        Mar: 0,
-        Apr: 0,
-        May: 0,
-        Jun: 0,
-        Jul: 0,
-        Aug: 0,
-        Sep: 0,
-        Oct: 0,
-        Nov: 0,
-        Dec: 0,
-      }
+  // Totals across the selected range
+  const totals = useMemo(() => {
+    const revenue = profitLossData.reduce((sum, item) => sum + item.revenue, 0)
+    const expenses = profitLossData.reduce((sum, item) => sum + item.expenses, 0)
+    const profit = revenue - expenses
 
-      if (!expenses || expenses.length === 0) {
-        return Object.entries(monthlyTotals).map(([month, total]) => ({
-          month,
-          total,
-        }))
-      }
+    return {
+      orderRevenue: profitLossData.reduce((sum, item) => sum + item.orderRevenue, 0),
+      marketRevenue: profitLossData.reduce((sum, item) => sum + item.marketRevenue, 0),
+      courseRevenue: profitLossData.reduce((sum, item) => sum + item.courseRevenue, 0),
+      revenue,
+      expenses,
+      profit,
+      profitMargin: revenue > 0 ? (profit / revenue) * 100 : 0,
+    }
+  }, [profitLossData])
+
+  // Chart rows with one key per top category and the remainder grouped as "Other"
+  const categoryChartData = useMemo(() => {
+    const topCategories = categoryData.slice(0, TOP_CATEGORY_COUNT)
+    const topIds = new Set(topCategories.map((category) => category.category_id))
 
-      expenses.forEach((expense) => {
-        const date = new Date(expense.date)
-        if (date.getFullYear() === year) {
-          const month = date.toLocaleString("default", { month: "short" })
-          monthlyTotals[month] += expense.amount || 0
-        }
+    return profitLossData.map((period) => {
+      const row: Record<string, string | number> = { label: period.label }
+      topCategories.forEach((category) => {
+        row[category.category_name] = category.byPeriod[period.period] || 0
       })
+      row.Other = categoryData
+        .filter((category) => !topIds.has(category.category_id))
+        .reduce((sum, category) => sum + (category.byPeriod[period.period] || 0), 0)
+      return row
+    })
+  }, [categoryData, profitLossData])
 
-      return Object.entries(monthlyTotals).map(([month, total]) => ({
-        month,
-        total,
-      }))
-    } catch (error) {
-      console.error("Error fetching monthly expenses:", error)
-      return []
-    }
-  }
+  // Step the selected range backwards or forwards by its own length
+  const shiftRange = (direction: -1 | 1) => {
+    const months = monthsInRange(range.from, range.to).length
 
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 2,
-    }).format(amount)
-  }
+    setCustomRange({
+      from: addMonths(monthStart(range.from), direction * months),
+      to: monthRange(addMonths(monthStart(range.to), direction * months)).to,
+    })
 
-  // Format percentage
-  const formatPercentage = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "percent",
-      minimumFractionDigits: 1,
-      maximumFractionDigits: 1,
-    }).format(value / 100)
+    const shiftedYear = (Number.parseInt(rangePreset) + direction).toString()
+    setRangePreset(/^\d{4}$/.test(rangePreset) && yearOptions.includes(shiftedYear) ? shiftedYear : "custom")
   }
 
-  if (loading) {
-    return (
-      <DashboardLayout>
-        <div className="flex flex-col items-center justify-center h-full p-8">
-          <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          <p className="mt-4 text-muted-foreground">Generating reports...</p>
-        </div>
-      </DashboardLayout>
-    )
+  // Export the profit/loss table together with the summary figures
+  const handleExport = (exportFormat: ReportExportFormat) => {
+    try {
+      exportReport(
+        {
+          title: "Profit & Loss Report",
+          period: `${PERIOD_NAMES[reportPeriod]}, ${rangeLabel}`,
+          generatedAt: new Date(),
+          summary: [
+            { label: "Total Revenue", value: formatMoney(totals.revenue) },
+            { label: "Total Expenses", value: formatMoney(totals.expenses) },
+            { label: "Net Profit", value: formatMoney(totals.profit) },
+            { label: "Profit Margin", value: formatPercent(totals.profitMargin) },
+            { label: "Currency", value: currency },
+            { label: "Counted Payment Statuses", value: paidStatuses.join(", ") || "None" },
+            ...(missingRateCurrencies.length > 0
+              ? [{ label: "Left Out Without Exchange Rates", value: missingRateCurrencies.join(", ") }]
+              : []),
+          ],
+          columns: ["Period", "Revenue", "Expenses", "Profit/Loss", "Margin %"],
+          rows: [
+            ...profitLossData.map((item) => [
+              item.label,
+              item.revenue,
+              item.expenses,
+              item.profit,
+              Number(item.profitMargin.toFixed(1)),
+            ]),
+            ["Total", totals.revenue, totals.expenses, totals.profit, Number(totals.profitMargin.toFixed(1))],
+          ],
+        },
+        exportFormat,
+      )
+    } catch (err) {
+      console.error("Error exporting report:", err)
+      setError(err instanceof Error ? err.message : "Failed to export report")
+    }
   }
 
   return (
     <DashboardLayout>
       <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert currencies={missingRateCurrencies} />
         {error && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
@@ -219,13 +241,22 @@ export default function ReportsPage() {
 
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold tracking-tight">Financial Reports</h1>
-          <Button variant="outline">
-            <Download className="mr-2 h-4 w-4" />
-            Export Report
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={loading || profitLossData.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export Report
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("xls")}>Excel spreadsheet (.xls)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("pdf")}>PDF (print)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
 
-        <div className="flex flex-col md:flex-row gap-4 mb-4">
+        <div className="flex flex-col md:flex-row md:flex-wrap gap-4 mb-4">
           <div className="w-full md:w-[200px]">
             <Select value={reportType} onValueChange={(value: any) => setReportType(value)}>
               <SelectTrigger>
@@ -250,284 +281,498 @@ export default function ReportsPage() {
               </SelectContent>
             </Select>
           </div>
+          <div className="w-full md:w-[200px]">
+            <Select value={rangePreset} onValueChange={setRangePreset}>
+              <SelectTrigger>
+                <SelectValue placeholder="Date Range" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="last-12-months">Last 12 Months</SelectItem>
+                {yearOptions.map((year) => (
+                  <SelectItem key={year} value={year}>
+                    {year}
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom">Custom Range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {rangePreset === "custom" && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="w-[160px]"
+                value={customRange.from}
+                onChange={(e) => setCustomRange((current) => ({ ...current, from: e.target.value }))}
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="date"
+                className="w-[160px]"
+                value={customRange.to}
+                onChange={(e) => setCustomRange((current) => ({ ...current, to: e.target.value }))}
+              />
+            </div>
+          )}
         </div>
 
-        <Tabs defaultValue="summary" className="space-y-4">
-          <TabsList>
-            <TabsTrigger value="summary">Summary</TabsTrigger>
-            <TabsTrigger value="details">Details</TabsTrigger>
-            <TabsTrigger value="chart">Chart</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="summary" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>
-                  {reportType === "profit-loss" && "Profit & Loss Summary"}
-                  {reportType === "revenue-expense" && "Revenue vs Expenses Summary"}
-                  {reportType === "category" && "Category Analysis Summary"}
-                </CardTitle>
-                <CardDescription>
-                  {reportPeriod === "month" && "Monthly breakdown for the last 12 months"}
-                  {reportPeriod === "quarter" && "Quarterly breakdown for the last year"}
-                  {reportPeriod === "year" && "Yearly breakdown"}
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {reportType === "profit-loss" && (
-                  <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-                    <Card>
-                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
-                        <Calendar className="h-4 w-4 text-muted-foreground" />
-                      </CardHeader>
-                      <CardContent>
-                        <div className="text-2xl font-bold">
-                          {formatCurrency(profitLossData.reduce((sum, item) => sum + item.revenue, 0))}
-                        </div>
-                        <p className="text-xs text-muted-foreground">Last 12 months</p>
-                      </CardContent>
-                    </Card>
-
-                    <Card>
-                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Total Expenses</CardTitle>
-                        <Calendar className="h-4 w-4 text-muted-foreground" />
-                      </CardHeader>
-                      <CardContent>
-                        <div className="text-2xl font-bold">
-                          {formatCurrency(profitLossData.reduce((sum, item) => sum + item.expenses, 0))}
-                        </div>
-                        <p className="text-xs text-muted-foreground">Last 12 months</p>
-                      </CardContent>
-                    </Card>
-
-                    <Card>
-                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Net Profit</CardTitle>
-                        <Calendar className="h-4 w-4 text-muted-foreground" />
-                      </CardHeader>
-                      <CardContent>
-                        <div className="text-2xl font-bold">
-                          {formatCurrency(profitLossData.reduce((sum, item) => sum + item.profit, 0))}
-                        </div>
-                        <p className="text-xs text-muted-foreground">Last 12 months</p>
-                      </CardContent>
-                    </Card>
-
-                    <Card>
-                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                        <CardTitle className="text-sm font-medium">Profit Margin</CardTitle>
-                        <Calendar className="h-4 w-4 text-muted-foreground" />
-                      </CardHeader>
-                      <CardContent>
-                        {(() => {
-                          const totalRevenue = profitLossData.reduce((sum, item) => sum + item.revenue, 0)
-                          const totalProfit = profitLossData.reduce((sum, item) => sum + item.profit, 0)
-                          const profitMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0
-
-                          return (
-                            <>
-                              <div className="text-2xl font-bold">{formatPercentage(profitMargin)}</div>
-                              <p className="text-xs text-muted-foreground">
-                                <span
-                                  className={
-                                    profitMargin > 0
-                                      ? "text-green-500 flex items-center"
-                                      : "text-red-500 flex items-center"
-                                  }
-                                >
-                                  {profitMargin > 0 ? (
-                                    <ArrowUp className="mr-1 h-4 w-4" />
-                                  ) : (
-                                    <ArrowDown className="mr-1 h-4 w-4" />
-                                  )}
-                                  Overall margin
-                                </span>
-                              </p>
-                            </>
-                          )
-                        })()}
-                      </CardContent>
-                    </Card>
-                  </div>
-                )}
-
-                {reportType === "revenue-expense" && (
-                  <div className="h-[300px]">
-                    <ChartContainer
-                      config={{
-                        revenue: {
-                          label: "Revenue",
-                          color: "#10B981",
-                        },
-                        expenses: {
-                          label: "Expenses",
-                          color: "#EF4444",
-                        },
-                      }}
-                    >
-                      <ResponsiveContainer width="100%" height="100%">
-                        <BarChart data={profitLossData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                          <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="month" />
-                          <YAxis />
-                          <Tooltip formatter={(value) => formatCurrency(Number(value))} />
-                          <Legend />
-                          <Bar dataKey="revenue" fill="var(--color-revenue)" name="Revenue" />
-                          <Bar dataKey="expenses" fill="var(--color-expenses)" name="Expenses" />
-                        </BarChart>
-                      </ResponsiveContainer>
-                    </ChartContainer>
-                  </div>
-                )}
-
-                {reportType === "category" && (
-                  <div className="text-center py-8 text-muted-foreground">Category analysis will be displayed here</div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="details" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>
-                  {reportType === "profit-loss" && "Profit & Loss Details"}
-                  {reportType === "revenue-expense" && "Revenue vs Expenses Details"}
-                  {reportType === "category" && "Category Analysis Details"}
-                </CardTitle>
-                <CardDescription>Detailed breakdown by {reportPeriod}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {reportType === "profit-loss" && (
-                  <div className="rounded-md border">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Period</TableHead>
-                          <TableHead className="text-right">Revenue</TableHead>
-                          <TableHead className="text-right">Expenses</TableHead>
-                          <TableHead className="text-right">Profit/Loss</TableHead>
-                          <TableHead className="text-right">Margin</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {profitLossData.map((item) => (
-                          <TableRow key={item.month}>
-                            <TableCell className="font-medium">{item.month}</TableCell>
-                            <TableCell className="text-right">{formatCurrency(item.revenue)}</TableCell>
-                            <TableCell className="text-right">{formatCurrency(item.expenses)}</TableCell>
+        {loading ? (
+          <div className="flex flex-col items-center justify-center h-full p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="mt-4 text-muted-foreground">Generating reports...</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="summary" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="summary">Summary</TabsTrigger>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="chart">Chart</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="summary" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {reportType === "profit-loss" && "Profit & Loss Summary"}
+                    {reportType === "revenue-expense" && "Revenue vs Expenses Summary"}
+                    {reportType === "category" && "Category Analysis Summary"}
+                  </CardTitle>
+                  <CardDescription>
+                    {PERIOD_NAMES[reportPeriod]} breakdown for {rangeLabel}
+                  </CardDescription>
+                  <CountedStatusesNote statuses={paidStatuses} className="pt-1" />
+                </CardHeader>
+                <CardContent>
+                  {reportType === "profit-loss" && (
+                    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                      <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                          <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+                          <Calendar className="h-4 w-4 text-muted-foreground" />
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold">{formatMoney(totals.revenue)}</div>
+                          <p className="text-xs text-muted-foreground">{rangeLabel}</p>
+                        </CardContent>
+                      </Card>
+
+                      <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                          <CardTitle className="text-sm font-medium">Total Expenses</CardTitle>
+                          <Calendar className="h-4 w-4 text-muted-foreground" />
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold">{formatMoney(totals.expenses)}</div>
+                          <p className="text-xs text-muted-foreground">{rangeLabel}</p>
+                        </CardContent>
+                      </Card>
+
+                      <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                          <CardTitle className="text-sm font-medium">Net Profit</CardTitle>
+                          <Calendar className="h-4 w-4 text-muted-foreground" />
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold">{formatMoney(totals.profit)}</div>
+                          <p className="text-xs text-muted-foreground">{rangeLabel}</p>
+                        </CardContent>
+                      </Card>
+
+                      <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                          <CardTitle className="text-sm font-medium">Profit Margin</CardTitle>
+                          <Calendar className="h-4 w-4 text-muted-foreground" />
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-2xl font-bold">{formatPercent(totals.profitMargin)}</div>
+                          <p className="text-xs text-muted-foreground">
+                            <span
+                              className={
+                                totals.profitMargin > 0
+                                  ? "text-green-500 flex items-center"
+                                  : "text-red-500 flex items-center"
+                              }
+                            >
+                              {totals.profitMargin > 0 ? (
+                                <ArrowUp className="mr-1 h-4 w-4" />
+                              ) : (
+                                <ArrowDown className="mr-1 h-4 w-4" />
+                              )}
+                              Overall margin
+                            </span>
+                          </p>
+                        </CardContent>
+                      </Card>
+                    </div>
+                  )}
+
+                  {reportType === "revenue-expense" && (
+                    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                      {[
+                        { label: "Orders", value: totals.orderRevenue },
+                        { label: "Markets", value: totals.marketRevenue },
+                        { label: "Courses", value: totals.courseRevenue },
+                        { label: "Expenses", value: totals.expenses },
+                      ].map((item) => (
+                        <Card key={item.label}>
+                          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                            <CardTitle className="text-sm font-medium">{item.label}</CardTitle>
+                            <Calendar className="h-4 w-4 text-muted-foreground" />
+                          </CardHeader>
+                          <CardContent>
+                            <div className="text-2xl font-bold">{formatMoney(item.value)}</div>
+                            <p className="text-xs text-muted-foreground">
+                              {formatPercent(totals.revenue > 0 ? (item.value / totals.revenue) * 100 : 0)} of
+                              {item.label === "Expenses" ? " revenue" : " total revenue"}
+                            </p>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  )}
+
+                  {reportType === "category" && (
+                    <div className="space-y-4">
+                      {categoryData.length > 0 ? (
+                        categoryData.slice(0, TOP_CATEGORY_COUNT).map((category, index) => (
+                          <div key={category.category_id} className="space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                              <div className="font-medium">{category.category_name}</div>
+                              <div>
+                                {formatMoney(category.total)}{" "}
+                                <span className="text-muted-foreground">({formatPercent(category.percentage)})</span>
+                              </div>
+                            </div>
+                            <div className="h-2 w-full rounded-full bg-muted">
+                              <div
+                                className="h-full rounded-full"
+                                style={{
+                                  width: `${category.percentage}%`,
+                                  backgroundColor: COLORS[index % COLORS.length],
+                                }}
+                              />
+                            </div>
+                          </div>
+                        ))
+                      ) : (
+                        <div className="text-center py-8 text-muted-foreground">No expenses in this period</div>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="details" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {reportType === "profit-loss" && "Profit & Loss Details"}
+                    {reportType === "revenue-expense" && "Revenue vs Expenses Details"}
+                    {reportType === "category" && "Category Analysis Details"}
+                  </CardTitle>
+                  <CardDescription>
+                    Detailed breakdown by {reportPeriod} for {rangeLabel}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {reportType === "profit-loss" && (
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Period</TableHead>
+                            <TableHead className="text-right">Revenue</TableHead>
+                            <TableHead className="text-right">Expenses</TableHead>
+                            <TableHead className="text-right">Profit/Loss</TableHead>
+                            <TableHead className="text-right">Margin</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {profitLossData.map((item) => (
+                            <TableRow key={item.period}>
+                              <TableCell className="font-medium">{item.label}</TableCell>
+                              <TableCell className="text-right">{formatMoney(item.revenue)}</TableCell>
+                              <TableCell className="text-right">{formatMoney(item.expenses)}</TableCell>
+                              <TableCell
+                                className={`text-right font-medium ${item.profit >= 0 ? "text-green-600" : "text-red-600"}`}
+                              >
+                                {formatMoney(item.profit)}
+                              </TableCell>
+                              <TableCell className="text-right">{formatPercent(item.profitMargin)}</TableCell>
+                            </TableRow>
+                          ))}
+
+                          {/* Totals row */}
+                          <TableRow className="bg-muted/50 font-medium">
+                            <TableCell>Total</TableCell>
+                            <TableCell className="text-right">{formatMoney(totals.revenue)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(totals.expenses)}</TableCell>
                             <TableCell
-                              className={`text-right font-medium ${item.profit >= 0 ? "text-green-600" : "text-red-600"}`}
+                              className={`text-right font-medium ${
+                                totals.profit >= 0 ? "text-green-600" : "text-red-600"
+                              }`}
                             >
-                              {formatCurrency(item.profit)}
+                              {formatMoney(totals.profit)}
                             </TableCell>
-                            <TableCell className="text-right">{formatPercentage(item.profitMargin)}</TableCell>
+                            <TableCell className="text-right">{formatPercent(totals.profitMargin)}</TableCell>
                           </TableRow>
-                        ))}
-
-                        {/* Totals row */}
-                        <TableRow className="bg-muted/50 font-medium">
-                          <TableCell>Total</TableCell>
-                          <TableCell className="text-right">
-                            {formatCurrency(profitLossData.reduce((sum, item) => sum + item.revenue, 0))}
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {formatCurrency(profitLossData.reduce((sum, item) => sum + item.expenses, 0))}
-                          </TableCell>
-                          <TableCell
-                            className={`text-right font-medium ${
-                              profitLossData.reduce((sum, item) => sum + item.profit, 0) >= 0
-                                ? "text-green-600"
-                                : "text-red-600"
-                            }`}
-                          >
-                            {formatCurrency(profitLossData.reduce((sum, item) => sum + item.profit, 0))}
-                          </TableCell>
-                          <TableCell className="text-right">
-                            {(() => {
-                              const totalRevenue = profitLossData.reduce((sum, item) => sum + item.revenue, 0)
-                              const totalProfit = profitLossData.reduce((sum, item) => sum + item.profit, 0)
-                              return formatPercentage(totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0)
-                            })()}
-                          </TableCell>
-                        </TableRow>
-                      </TableBody>
-                    </Table>
-                  </div>
-                )}
-
-                {(reportType === "revenue-expense" || reportType === "category") && (
-                  <div className="text-center py-8 text-muted-foreground">
-                    Detailed {reportType === "revenue-expense" ? "revenue vs expenses" : "category"} analysis will be
-                    displayed here
-                  </div>
-                )}
-              </CardContent>
-              <CardFooter className="flex justify-between">
-                <Button variant="outline">Previous Period</Button>
-                <Button variant="outline">Next Period</Button>
-              </CardFooter>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="chart" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>
-                  {reportType === "profit-loss" && "Profit & Loss Chart"}
-                  {reportType === "revenue-expense" && "Revenue vs Expenses Chart"}
-                  {reportType === "category" && "Category Analysis Chart"}
-                </CardTitle>
-                <CardDescription>Visual representation of your financial data</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {reportType === "profit-loss" && (
-                  <div className="h-[400px]">
-                    <ChartContainer
-                      config={{
-                        revenue: {
-                          label: "Revenue",
-                          color: "#10B981",
-                        },
-                        expenses: {
-                          label: "Expenses",
-                          color: "#EF4444",
-                        },
-                        profit: {
-                          label: "Profit",
-                          color: "#3B82F6",
-                        },
-                      }}
-                    >
-                      <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={profitLossData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                          <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="month" />
-                          <YAxis />
-                          <Tooltip formatter={(value) => formatCurrency(Number(value))} />
-                          <Legend />
-                          <Line type="monotone" dataKey="revenue" stroke="var(--color-revenue)" name="Revenue" />
-                          <Line type="monotone" dataKey="expenses" stroke="var(--color-expenses)" name="Expenses" />
-                          <Line type="monotone" dataKey="profit" stroke="var(--color-profit)" name="Profit" />
-                        </LineChart>
-                      </ResponsiveContainer>
-                    </ChartContainer>
-                  </div>
-                )}
-
-                {(reportType === "revenue-expense" || reportType === "category") && (
-                  <div className="text-center py-8 text-muted-foreground">
-                    {reportType === "revenue-expense" ? "Revenue vs expenses" : "Category"} chart will be displayed here
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  {reportType === "revenue-expense" && (
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Period</TableHead>
+                            <TableHead className="text-right">Orders</TableHead>
+                            <TableHead className="text-right">Markets</TableHead>
+                            <TableHead className="text-right">Courses</TableHead>
+                            <TableHead className="text-right">Total Revenue</TableHead>
+                            <TableHead className="text-right">Expenses</TableHead>
+                            <TableHead className="text-right">Expense Ratio</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {profitLossData.map((item) => (
+                            <TableRow key={item.period}>
+                              <TableCell className="font-medium">{item.label}</TableCell>
+                              <TableCell className="text-right">{formatMoney(item.orderRevenue)}</TableCell>
+                              <TableCell className="text-right">{formatMoney(item.marketRevenue)}</TableCell>
+                              <TableCell className="text-right">{formatMoney(item.courseRevenue)}</TableCell>
+                              <TableCell className="text-right font-medium">{formatMoney(item.revenue)}</TableCell>
+                              <TableCell className="text-right">{formatMoney(item.expenses)}</TableCell>
+                              <TableCell className="text-right">
+                                {item.revenue > 0 ? formatPercent((item.expenses / item.revenue) * 100) : "-"}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+
+                          {/* Totals row */}
+                          <TableRow className="bg-muted/50 font-medium">
+                            <TableCell>Total</TableCell>
+                            <TableCell className="text-right">{formatMoney(totals.orderRevenue)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(totals.marketRevenue)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(totals.courseRevenue)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(totals.revenue)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(totals.expenses)}</TableCell>
+                            <TableCell className="text-right">
+                              {totals.revenue > 0 ? formatPercent((totals.expenses / totals.revenue) * 100) : "-"}
+                            </TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  {reportType === "category" && (
+                    <div className="rounded-md border overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Category</TableHead>
+                            {profitLossData.map((item) => (
+                              <TableHead key={item.period} className="text-right whitespace-nowrap">
+                                {item.label}
+                              </TableHead>
+                            ))}
+                            <TableHead className="text-right">Total</TableHead>
+                            <TableHead className="text-right">Share</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {categoryData.length > 0 ? (
+                            categoryData.map((category) => (
+                              <TableRow key={category.category_id}>
+                                <TableCell className="font-medium">{category.category_name}</TableCell>
+                                {profitLossData.map((item) => (
+                                  <TableCell key={item.period} className="text-right">
+                                    {formatMoney(category.byPeriod[item.period] || 0)}
+                                  </TableCell>
+                                ))}
+                                <TableCell className="text-right font-medium">
+                                  {formatMoney(category.total)}
+                                </TableCell>
+                                <TableCell className="text-right">{formatPercent(category.percentage)}</TableCell>
+                              </TableRow>
+                            ))
+                          ) : (
+                            <TableRow>
+                              <TableCell colSpan={profitLossData.length + 3} className="h-24 text-center">
+                                No expenses in this period
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                  <Button variant="outline" onClick={() => shiftRange(-1)}>
+                    Previous Period
+                  </Button>
+                  <Button variant="outline" onClick={() => shiftRange(1)}>
+                    Next Period
+                  </Button>
+                </CardFooter>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="chart" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {reportType === "profit-loss" && "Profit & Loss Chart"}
+                    {reportType === "revenue-expense" && "Revenue vs Expenses Chart"}
+                    {reportType === "category" && "Category Analysis Chart"}
+                  </CardTitle>
+                  <CardDescription>Visual representation of your financial data</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {reportType === "profit-loss" && (
+                    <div className="h-[400px]">
+                      <ChartContainer
+                        config={{
+                          revenue: {
+                            label: "Revenue",
+                            color: "#10B981",
+                          },
+                          expenses: {
+                            label: "Expenses",
+                            color: "#EF4444",
+                          },
+                          profit: {
+                            label: "Profit",
+                            color: "#3B82F6",
+                          },
+                        }}
+                      >
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={profitLossData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="label" />
+                            <YAxis />
+                            <Tooltip formatter={(value) => formatMoney(Number(value))} />
+                            <Legend />
+                            <Line type="monotone" dataKey="revenue" stroke="var(--color-revenue)" name="Revenue" />
+                            <Line type="monotone" dataKey="expenses" stroke="var(--color-expenses)" name="Expenses" />
+                            <Line type="monotone" dataKey="profit" stroke="var(--color-profit)" name="Profit" />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </ChartContainer>
+                    </div>
+                  )}
+
+                  {reportType === "revenue-expense" && (
+                    <div className="h-[400px]">
+                      <ChartContainer
+                        config={{
+                          orderRevenue: {
+                            label: "Orders",
+                            color: "#3B82F6",
+                          },
+                          marketRevenue: {
+                            label: "Markets",
+                            color: "#10B981",
+                          },
+                          courseRevenue: {
+                            label: "Courses",
+                            color: "#EAB308",
+                          },
+                          expenses: {
+                            label: "Expenses",
+                            color: "#EF4444",
+                          },
+                        }}
+                      >
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={profitLossData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="label" />
+                            <YAxis />
+                            <Tooltip formatter={(value) => formatMoney(Number(value))} />
+                            <Legend />
+                            <Bar
+                              dataKey="orderRevenue"
+                              stackId="revenue"
+                              fill="var(--color-orderRevenue)"
+                              name="Orders"
+                            />
+                            <Bar
+                              dataKey="marketRevenue"
+                              stackId="revenue"
+                              fill="var(--color-marketRevenue)"
+                              name="Markets"
+                            />
+                            <Bar
+                              dataKey="courseRevenue"
+                              stackId="revenue"
+                              fill="var(--color-courseRevenue)"
+                              name="Courses"
+                            />
+                            <Bar dataKey="expenses" fill="var(--color-expenses)" name="Expenses" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </ChartContainer>
+                    </div>
+                  )}
+
+                  {reportType === "category" && (
+                    <div className="grid gap-4 lg:grid-cols-2">
+                      <div className="h-[400px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <PieChart>
+                            <Pie
+                              data={categoryData}
+                              cx="50%"
+                              cy="50%"
+                              outerRadius={140}
+                              dataKey="total"
+                              nameKey="category_name"
+                            >
+                              {categoryData.map((entry, index) => (
+                                <Cell key={`cell-${entry.category_id}`} fill={COLORS[index % COLORS.length]} />
+                              ))}
+                            </Pie>
+                            <Tooltip formatter={(value) => formatMoney(Number(value))} />
+                            <Legend />
+                          </PieChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <div className="h-[400px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={categoryChartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="label" />
+                            <YAxis />
+                            <Tooltip formatter={(value) => formatMoney(Number(value))} />
+                            <Legend />
+                            {categoryData.slice(0, TOP_CATEGORY_COUNT).map((category, index) => (
+                              <Bar
+                                key={category.category_id}
+                                dataKey={category.category_name}
+                                stackId="categories"
+                                fill={COLORS[index % COLORS.length]}
+                              />
+                            ))}
+                            {categoryData.length > TOP_CATEGORY_COUNT && (
+                              <Bar dataKey="Other" stackId="categories" fill="#9CA3AF" />
+                            )}
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
     </DashboardLayout>
   )
 }
-
@@ -1,21 +1,48 @@
 "use client"
 
-import { useEffect, useState } from "react"
-import { format } from "date-fns"
+import { useEffect, useMemo, useState } from "react"
 import { useRouter } from "next/navigation"
+import Link from "next/link"
 import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { useAuth } from "@/components/auth/auth-provider"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Loader2, Plus, Search, AlertCircle, ShoppingBag, Store, GraduationCap } from "lucide-react"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Plus, Search, AlertCircle, ShoppingBag, Store, GraduationCap, Package } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { fetchOrders, fetchMarkets, fetchCourses } from "@/lib/supabase-revenue"
+import {
+  fetchPaymentStatusSettings,
+  recognitionFor,
+  statusesWithRecognition,
+  type PaymentStatusSetting,
+} from "@/lib/supabase-settings"
+import CountedStatusesNote from "@/components/revenue/counted-statuses-note"
+import OrderItemsForm from "@/components/products/order-items-form"
+import { useLocale } from "@/components/locale-provider"
+import { fetchIngredientPrices } from "@/lib/supabase-ingredients"
+import {
+  costProduct,
+  estimateOrderCost,
+  fetchOrderItems,
+  fetchProducts,
+  ingredientCosts,
+  type OrderItem,
+  type Product,
+  type ProductCost,
+} from "@/lib/supabase-products"
+import { formatDate, formatMoney } from "@/lib/format"
 
 export default function RevenuePage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_records")
   const router = useRouter()
+  const { baseCurrency } = useLocale()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -23,6 +50,13 @@ export default function RevenuePage() {
   const [orders, setOrders] = useState<any[]>([])
   const [markets, setMarkets] = useState<any[]>([])
   const [courses, setCourses] = useState<any[]>([])
+  const [statusSettings, setStatusSettings] = useState<PaymentStatusSetting[]>([])
+
+  // Products sold on each order, for the estimated cost of goods
+  const [products, setProducts] = useState<Product[]>([])
+  const [orderItems, setOrderItems] = useState<OrderItem[]>([])
+  const [productCosts, setProductCosts] = useState<Map<number, ProductCost>>(new Map())
+  const [editingOrder, setEditingOrder] = useState<any | null>(null)
 
   // Filtering
   const [searchTerm, setSearchTerm] = useState("")
@@ -38,15 +72,25 @@ export default function RevenuePage() {
         setError(null)
 
         // Fetch all revenue data in parallel
-        const [ordersData, marketsData, coursesData] = await Promise.all([
-          fetchOrders(),
-          fetchMarkets(),
-          fetchCourses(),
-        ])
+        const [ordersData, marketsData, coursesData, statusSettingsData, productsData, itemsData, pricesData] =
+          await Promise.all([
+            fetchOrders(),
+            fetchMarkets(),
+            fetchCourses(),
+            fetchPaymentStatusSettings(),
+            fetchProducts(),
+            fetchOrderItems(),
+            fetchIngredientPrices(),
+          ])
 
         setOrders(ordersData)
         setMarkets(marketsData)
         setCourses(coursesData)
+        setStatusSettings(statusSettingsData)
+        setProducts(productsData)
+        setOrderItems(itemsData)
+        const costs = ingredientCosts(pricesData)
+        setProductCosts(new Map(productsData.map((product) => [product.id, costProduct(product, costs)])))
         setFilteredOrders(ordersData)
         setFilteredMarkets(marketsData)
         setFilteredCourses(coursesData)
@@ -61,11 +105,25 @@ export default function RevenuePage() {
     loadData()
   }, [])
 
+  const itemsByOrder = useMemo(() => {
+    const byOrder = new Map<number, OrderItem[]>()
+    orderItems.forEach((item) => byOrder.set(item.order_id, [...(byOrder.get(item.order_id) || []), item]))
+    return byOrder
+  }, [orderItems])
+
+  const handleOrderItemsSaved = (orderId: number, items: OrderItem[]) => {
+    setOrderItems((current) => [...current.filter((item) => item.order_id !== orderId), ...items])
+    setEditingOrder(null)
+  }
+
   // Apply filters when search term or source filter changes
   useEffect(() => {
     // Filter orders
     const orderResults = orders.filter((order) => {
-      const matchesSearch = searchTerm === "" || order.order_number.toLowerCase().includes(searchTerm.toLowerCase())
+      const matchesSearch =
+        searchTerm === "" ||
+        order.order_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        order.customer_name?.toLowerCase().includes(searchTerm.toLowerCase())
       const matchesSource = sourceFilter === "all" || sourceFilter === "orders"
       return matchesSearch && matchesSource
     })
@@ -103,6 +161,7 @@ export default function RevenuePage() {
   return (
     <DashboardLayout>
       <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        <MissingRatesAlert />
         {error && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
@@ -120,16 +179,19 @@ export default function RevenuePage() {
 
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold tracking-tight">Revenue</h1>
-          <Button onClick={() => router.push("/dashboard/revenue/add")}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Revenue
-          </Button>
+          {canEdit && (
+            <Button onClick={() => router.push("/dashboard/revenue/add")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Revenue
+            </Button>
+          )}
         </div>
 
         <Card>
           <CardHeader>
             <CardTitle>Revenue Transactions</CardTitle>
             <CardDescription>View and manage all revenue sources</CardDescription>
+            <CountedStatusesNote statuses={statusesWithRecognition(statusSettings, "paid")} className="pt-1" />
           </CardHeader>
           <CardContent>
             <div className="flex flex-col md:flex-row gap-4 mb-6">
@@ -186,10 +248,20 @@ export default function RevenuePage() {
                               <span>Order</span>
                             </div>
                           </TableCell>
-                          <TableCell className="font-medium">Order #{order.order_number}</TableCell>
-                          <TableCell>{format(new Date(order.created_at), "MMM d, yyyy")}</TableCell>
+                          <TableCell className="font-medium">
+                            Order #{order.order_number}
+                            {order.customer_id && (
+                              <Link
+                                href={`/dashboard/customers/${order.customer_id}`}
+                                className="block text-xs font-normal text-muted-foreground hover:text-primary hover:underline"
+                              >
+                                {order.customer_name || "View customer"}
+                              </Link>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatDate(order.created_at)}</TableCell>
                           <TableCell className="text-right font-medium text-green-600">
-                            ${(order.total_amount + (order.shipping_cost || 0)).toFixed(2)}
+                            {formatMoney(order.total_amount + (order.shipping_cost || 0), order.currency)}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -204,9 +276,9 @@ export default function RevenuePage() {
                             </div>
                           </TableCell>
                           <TableCell className="font-medium">{market.name}</TableCell>
-                          <TableCell>{format(new Date(market.end_date), "MMM d, yyyy")}</TableCell>
+                          <TableCell>{formatDate(market.end_date)}</TableCell>
                           <TableCell className="text-right font-medium text-green-600">
-                            ${market.final_incoming.toFixed(2)}
+                            {formatMoney(market.final_incoming, market.currency)}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -221,9 +293,9 @@ export default function RevenuePage() {
                             </div>
                           </TableCell>
                           <TableCell className="font-medium">{course.course_name}</TableCell>
-                          <TableCell>{format(new Date(course.date), "MMM d, yyyy")}</TableCell>
+                          <TableCell>{formatDate(course.date)}</TableCell>
                           <TableCell className="text-right font-medium text-green-600">
-                            ${course.total_amount.toFixed(2)}
+                            {formatMoney(course.total_amount, course.currency)}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -241,48 +313,110 @@ export default function RevenuePage() {
               </TabsContent>
 
               <TabsContent value="orders" className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Cost of goods is estimated in {baseCurrency} from the products on each order and their recipes; *
+                  marks orders with ingredients that have no purchase price.{" "}
+                  <Link href="/dashboard/products" className="hover:text-primary hover:underline">
+                    View product margins
+                  </Link>
+                </p>
                 <div className="rounded-md border">
                   <Table>
                     <TableHeader>
                       <TableRow>
                         <TableHead>Order #</TableHead>
+                        <TableHead>Customer</TableHead>
                         <TableHead>Date</TableHead>
                         <TableHead>Payment Status</TableHead>
                         <TableHead className="text-right">Amount</TableHead>
                         <TableHead className="text-right">Shipping</TableHead>
                         <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Est. Cost of Goods</TableHead>
+                        {canEdit && (
+                          <TableHead className="w-[50px]">
+                            <span className="sr-only">Actions</span>
+                          </TableHead>
+                        )}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {filteredOrders.length > 0 ? (
-                        filteredOrders.map((order) => (
-                          <TableRow key={order.id}>
-                            <TableCell className="font-medium">{order.order_number}</TableCell>
-                            <TableCell>{format(new Date(order.created_at), "MMM d, yyyy")}</TableCell>
-                            <TableCell>
-                              <span
-                                className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
-                                  // Adjust these conditions based on your actual enum values
-                                  ["PAID", "COMPLETED", "SETTLED", "PROCESSED", "APPROVED"].includes(
-                                    order.payment_status?.toUpperCase(),
-                                  )
-                                    ? "bg-green-100 text-green-800"
-                                    : "bg-amber-100 text-amber-800"
-                                }`}
-                              >
-                                {order.payment_status}
-                              </span>
-                            </TableCell>
-                            <TableCell className="text-right">${order.total_amount.toFixed(2)}</TableCell>
-                            <TableCell className="text-right">${(order.shipping_cost || 0).toFixed(2)}</TableCell>
-                            <TableCell className="text-right font-medium text-green-600">
-                              ${(order.total_amount + (order.shipping_cost || 0)).toFixed(2)}
-                            </TableCell>
-                          </TableRow>
-                        ))
+                        filteredOrders.map((order) => {
+                          const items = itemsByOrder.get(order.id) || []
+                          const estimate = estimateOrderCost(items, productCosts)
+                          // Costs are in the base currency, so only orders taken in it get a margin
+                          const inBaseCurrency = (order.currency || baseCurrency) === baseCurrency
+
+                          return (
+                            <TableRow key={order.id}>
+                              <TableCell className="font-medium">{order.order_number}</TableCell>
+                              <TableCell>
+                                {order.customer_id ? (
+                                  <Link
+                                    href={`/dashboard/customers/${order.customer_id}`}
+                                    className="hover:text-primary hover:underline"
+                                  >
+                                    {order.customer_name || "View customer"}
+                                  </Link>
+                                ) : (
+                                  "-"
+                                )}
+                              </TableCell>
+                              <TableCell>{formatDate(order.created_at)}</TableCell>
+                              <TableCell>
+                                <span
+                                  className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                                    recognitionFor(statusSettings, order.payment_status) === "paid"
+                                      ? "bg-green-100 text-green-800"
+                                      : "bg-amber-100 text-amber-800"
+                                  }`}
+                                >
+                                  {order.payment_status}
+                                </span>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {formatMoney(order.total_amount, order.currency)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {formatMoney(order.shipping_cost || 0, order.currency)}
+                              </TableCell>
+                              <TableCell className="text-right font-medium text-green-600">
+                                {formatMoney(order.total_amount + (order.shipping_cost || 0), order.currency)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {items.length > 0 ? (
+                                  <>
+                                    {formatMoney(estimate.cost)}
+                                    {!estimate.complete && <span className="text-amber-600">*</span>}
+                                    {inBaseCurrency && (
+                                      <p className="text-xs text-muted-foreground">
+                                        {formatMoney(order.total_amount - estimate.cost)} margin
+                                      </p>
+                                    )}
+                                  </>
+                                ) : (
+                                  <span className="text-muted-foreground">-</span>
+                                )}
+                              </TableCell>
+                              {canEdit && (
+                                <TableCell>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => setEditingOrder(order)}
+                                  >
+                                    <Package className="h-4 w-4" />
+                                    <span className="sr-only">Edit products</span>
+                                  </Button>
+                                </TableCell>
+                              )}
+                            </TableRow>
+                          )
+                        })
                       ) : (
                         <TableRow>
-                          <TableCell colSpan={6} className="h-24 text-center">
+                          <TableCell colSpan={9} className="h-24 text-center">
                             No orders found
                           </TableCell>
                         </TableRow>
@@ -293,6 +427,12 @@ export default function RevenuePage() {
               </TabsContent>
 
               <TabsContent value="markets" className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Takings before fees, commission and linked expenses.{" "}
+                  <Link href="/dashboard/markets" className="hover:text-primary hover:underline">
+                    View market profitability
+                  </Link>
+                </p>
                 <div className="rounded-md border">
                   <Table>
                     <TableHeader>
@@ -307,9 +447,9 @@ export default function RevenuePage() {
                         filteredMarkets.map((market) => (
                           <TableRow key={market.id}>
                             <TableCell className="font-medium">{market.name}</TableCell>
-                            <TableCell>{format(new Date(market.end_date), "MMM d, yyyy")}</TableCell>
+                            <TableCell>{formatDate(market.end_date)}</TableCell>
                             <TableCell className="text-right font-medium text-green-600">
-                              ${market.final_incoming.toFixed(2)}
+                              {formatMoney(market.final_incoming, market.currency)}
                             </TableCell>
                           </TableRow>
                         ))
@@ -340,9 +480,9 @@ export default function RevenuePage() {
                         filteredCourses.map((course) => (
                           <TableRow key={course.id}>
                             <TableCell className="font-medium">{course.course_name}</TableCell>
-                            <TableCell>{format(new Date(course.date), "MMM d, yyyy")}</TableCell>
+                            <TableCell>{formatDate(course.date)}</TableCell>
                             <TableCell className="text-right font-medium text-green-600">
-                              ${course.total_amount.toFixed(2)}
+                              {formatMoney(course.total_amount, course.currency)}
                             </TableCell>
                           </TableRow>
                         ))
@@ -360,6 +500,24 @@ export default function RevenuePage() {
             </Tabs>
           </CardContent>
         </Card>
+
+        <Dialog open={!!editingOrder} onOpenChange={(open) => !open && setEditingOrder(null)}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Edit Order Products</DialogTitle>
+            {editingOrder && (
+              <OrderItemsForm
+                key={editingOrder.id}
+                orderId={editingOrder.id}
+                orderNumber={editingOrder.order_number}
+                items={itemsByOrder.get(editingOrder.id) || []}
+                products={products}
+                productCosts={productCosts}
+                onSuccess={(items) => handleOrderItemsSaved(editingOrder.id, items)}
+                onCancel={() => setEditingOrder(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   )
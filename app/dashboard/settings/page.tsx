@@ -0,0 +1,425 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertCircle, Loader2 } from "lucide-react"
+import DashboardLayout from "@/components/dashboard-layout"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import ExchangeRatesCard from "@/components/settings/exchange-rates-card"
+import TeamCard from "@/components/settings/team-card"
+import { useLocale } from "@/components/locale-provider"
+import { currencyOptions, DEFAULT_CURRENCY } from "@/lib/currency"
+import { DEFAULT_TIME_ZONE, timeZoneOptions } from "@/lib/dates"
+import {
+  fetchBusinessSettings,
+  fetchPaymentStatusSettings,
+  updateBusinessSettings,
+  updatePaymentStatusSettings,
+  REVENUE_RECOGNITION_LABELS,
+  type PaymentStatusSetting,
+  type RevenueRecognition,
+} from "@/lib/supabase-settings"
+
+export default function SettingsPage() {
+  const { changeBaseCurrency, changeTimeZone } = useLocale()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [statusSettings, setStatusSettings] = useState<PaymentStatusSetting[]>([])
+  const [savingBalance, setSavingBalance] = useState(false)
+  const [balanceSuccess, setBalanceSuccess] = useState<string | null>(null)
+  const [openingBalance, setOpeningBalance] = useState("0.00")
+  const [openingBalanceDate, setOpeningBalanceDate] = useState("")
+  const [savingCurrency, setSavingCurrency] = useState(false)
+  const [currencySuccess, setCurrencySuccess] = useState<string | null>(null)
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY)
+  const [savedBaseCurrency, setSavedBaseCurrency] = useState(DEFAULT_CURRENCY)
+  const [savingTimeZone, setSavingTimeZone] = useState(false)
+  const [timeZoneSuccess, setTimeZoneSuccess] = useState<string | null>(null)
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE)
+  const [savedTimeZone, setSavedTimeZone] = useState(DEFAULT_TIME_ZONE)
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const [settings, businessSettings] = await Promise.all([
+          fetchPaymentStatusSettings(),
+          fetchBusinessSettings(),
+        ])
+
+        setOpeningBalance(businessSettings.opening_balance.toFixed(2))
+        setOpeningBalanceDate(businessSettings.opening_balance_date || "")
+        setBaseCurrency(businessSettings.base_currency)
+        setSavedBaseCurrency(businessSettings.base_currency)
+        setTimeZone(businessSettings.timezone)
+        setSavedTimeZone(businessSettings.timezone)
+
+        if (settings.length === 0) {
+          throw new Error("No payment statuses were found")
+        }
+
+        setStatusSettings(settings)
+      } catch (err) {
+        console.error("Error loading settings:", err)
+        setError(err instanceof Error ? err.message : "Failed to load settings")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [])
+
+  const handleRecognitionChange = (status: string, recognition: RevenueRecognition) => {
+    setSuccess(null)
+    setStatusSettings((current) =>
+      current.map((setting) => (setting.status === status ? { ...setting, recognition } : setting)),
+    )
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      setSuccess(null)
+
+      await updatePaymentStatusSettings(statusSettings.map(({ status, recognition }) => ({ status, recognition })))
+
+      setSuccess("Payment status settings saved")
+    } catch (err) {
+      console.error("Error saving settings:", err)
+      setError("Failed to save payment status settings")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveOpeningBalance = async () => {
+    const balance = Number.parseFloat(openingBalance)
+    if (Number.isNaN(balance)) {
+      setError("Please enter an opening balance")
+      return
+    }
+
+    try {
+      setSavingBalance(true)
+      setError(null)
+      setBalanceSuccess(null)
+
+      await updateBusinessSettings({ opening_balance: balance, opening_balance_date: openingBalanceDate || null })
+
+      setBalanceSuccess("Opening balance saved")
+    } catch (err) {
+      console.error("Error saving opening balance:", err)
+      setError("Failed to save opening balance")
+    } finally {
+      setSavingBalance(false)
+    }
+  }
+
+  const handleSaveBaseCurrency = async () => {
+    try {
+      setSavingCurrency(true)
+      setError(null)
+      setCurrencySuccess(null)
+
+      await updateBusinessSettings({ base_currency: baseCurrency })
+
+      setSavedBaseCurrency(baseCurrency)
+      setCurrencySuccess("Base currency saved")
+      changeBaseCurrency(baseCurrency)
+    } catch (err) {
+      console.error("Error saving base currency:", err)
+      setError("Failed to save base currency")
+    } finally {
+      setSavingCurrency(false)
+    }
+  }
+
+  const handleSaveTimeZone = async () => {
+    try {
+      setSavingTimeZone(true)
+      setError(null)
+      setTimeZoneSuccess(null)
+
+      await updateBusinessSettings({ timezone: timeZone })
+
+      setSavedTimeZone(timeZone)
+      setTimeZoneSuccess("Time zone saved")
+      changeTimeZone(timeZone)
+    } catch (err) {
+      console.error("Error saving time zone:", err)
+      setError("Failed to save time zone")
+    } finally {
+      setSavingTimeZone(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading settings...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Settings</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payment Statuses</CardTitle>
+            <CardDescription>
+              Choose how each order payment status is treated. Only orders with a status marked as paid are counted as
+              revenue on the dashboard, reports and analytics.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {success && <div className="bg-green-500/15 text-green-600 px-4 py-2 rounded-md text-sm">{success}</div>}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Payment Status</TableHead>
+                    <TableHead className="w-[260px]">Treated As</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statusSettings.length > 0 ? (
+                    statusSettings.map((setting) => (
+                      <TableRow key={setting.status}>
+                        <TableCell className="font-medium">{setting.status}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={setting.recognition}
+                            onValueChange={(value) =>
+                              handleRecognitionChange(setting.status, value as RevenueRecognition)
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(REVENUE_RECOGNITION_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={2} className="h-24 text-center">
+                        No payment statuses found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleSave} disabled={saving || statusSettings.length === 0}>
+              {saving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Opening Balance</CardTitle>
+            <CardDescription>
+              The cash balance the ledger starts from. Entries before the opening date are listed without a running
+              balance; leave the date empty to start from the first entry.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {balanceSuccess && (
+              <div className="bg-green-500/15 text-green-600 px-4 py-2 rounded-md text-sm">{balanceSuccess}</div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:max-w-lg">
+              <div className="space-y-2">
+                <Label htmlFor="opening-balance">Opening Balance</Label>
+                <Input
+                  id="opening-balance"
+                  type="number"
+                  step="0.01"
+                  value={openingBalance}
+                  onChange={(e) => {
+                    setBalanceSuccess(null)
+                    setOpeningBalance(e.target.value)
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="opening-balance-date">As Of</Label>
+                <Input
+                  id="opening-balance-date"
+                  type="date"
+                  value={openingBalanceDate}
+                  onChange={(e) => {
+                    setBalanceSuccess(null)
+                    setOpeningBalanceDate(e.target.value)
+                  }}
+                />
+              </div>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleSaveOpeningBalance} disabled={savingBalance}>
+              {savingBalance ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Time Zone</CardTitle>
+            <CardDescription>
+              Where the business operates. Orders count towards the day and month they were placed in this time zone,
+              and it decides when a new month starts on the dashboard, reports and budgets.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {timeZoneSuccess && (
+              <div className="bg-green-500/15 text-green-600 px-4 py-2 rounded-md text-sm">{timeZoneSuccess}</div>
+            )}
+            <div className="space-y-2 md:max-w-xs">
+              <Label htmlFor="time-zone">Time Zone</Label>
+              <Select
+                value={timeZone}
+                onValueChange={(value) => {
+                  setTimeZoneSuccess(null)
+                  setTimeZone(value)
+                }}
+              >
+                <SelectTrigger id="time-zone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZoneOptions(savedTimeZone).map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleSaveTimeZone} disabled={savingTimeZone || timeZone === savedTimeZone}>
+              {savingTimeZone ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </CardFooter>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Base Currency</CardTitle>
+            <CardDescription>
+              Totals, reports and the ledger are converted into this currency using the exchange rates below. New
+              expenses and revenue default to it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {currencySuccess && (
+              <div className="bg-green-500/15 text-green-600 px-4 py-2 rounded-md text-sm">{currencySuccess}</div>
+            )}
+            <div className="space-y-2 md:max-w-xs">
+              <Label htmlFor="base-currency">Base Currency</Label>
+              <Select
+                value={baseCurrency}
+                onValueChange={(value) => {
+                  setCurrencySuccess(null)
+                  setBaseCurrency(value)
+                }}
+              >
+                <SelectTrigger id="base-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencyOptions(savedBaseCurrency).map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleSaveBaseCurrency} disabled={savingCurrency || baseCurrency === savedBaseCurrency}>
+              {savingCurrency ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </CardFooter>
+        </Card>
+
+        <ExchangeRatesCard baseCurrency={savedBaseCurrency} />
+
+        <TeamCard />
+      </div>
+    </DashboardLayout>
+  )
+}
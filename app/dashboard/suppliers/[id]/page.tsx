@@ -0,0 +1,317 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import DashboardLayout from "@/components/dashboard-layout"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Loader2, AlertCircle, ArrowLeft, Pencil, Trash2, Mail, Phone, MapPin, Globe } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import SupplierForm from "@/components/suppliers/supplier-form"
+import {
+  fetchSupplier,
+  fetchExpensesBySupplier,
+  deleteSupplier,
+  type Supplier,
+} from "@/lib/supabase-suppliers"
+import type { Expense } from "@/lib/supabase"
+import { formatDate, formatMoney } from "@/lib/format"
+
+export default function SupplierDetailPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_expenses")
+  // Spend totals are business figures; staff still see the supplier's expenses
+  const showFinances = can("view_finances")
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+  const supplierId = Number.parseInt(params.id)
+
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [supplier, setSupplier] = useState<Supplier | null>(null)
+  const [expenses, setExpenses] = useState<Expense[]>([])
+  const [yearFilter, setYearFilter] = useState<string>(new Date().getFullYear().toString())
+  const [showEditDialog, setShowEditDialog] = useState(false)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const [supplierData, expensesData] = await Promise.all([
+          fetchSupplier(supplierId),
+          fetchExpensesBySupplier(supplierId),
+        ])
+
+        setSupplier(supplierData)
+        setExpenses(expensesData)
+      } catch (err) {
+        console.error("Error loading supplier:", err)
+        setError(err instanceof Error ? err.message : "Failed to load supplier")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [supplierId])
+
+  // Years that have at least one expense, newest first
+  const yearOptions = useMemo(() => {
+    const years = new Set(expenses.map((expense) => expense.date.substring(0, 4)))
+    years.add(new Date().getFullYear().toString())
+    return [...years].sort().reverse()
+  }, [expenses])
+
+  const filteredExpenses = useMemo(
+    () => (yearFilter === "all" ? expenses : expenses.filter((expense) => expense.date.startsWith(yearFilter))),
+    [expenses, yearFilter],
+  )
+
+  const periodTotal = filteredExpenses.reduce((sum, expense) => sum + (expense.amount || 0), 0)
+  const allTimeTotal = expenses.reduce((sum, expense) => sum + (expense.amount || 0), 0)
+
+  const handleDeleteSupplier = async () => {
+    try {
+      setDeleting(true)
+      await deleteSupplier(supplierId)
+      router.push("/dashboard/suppliers")
+    } catch (err) {
+      console.error("Error deleting supplier:", err)
+      setError("Failed to delete supplier")
+      setShowDeleteDialog(false)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading supplier...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => router.push("/dashboard/suppliers")}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to suppliers</span>
+            </Button>
+            <h1 className="text-2xl font-bold tracking-tight">{supplier?.name || "Supplier"}</h1>
+          </div>
+          {supplier && canEdit && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button variant="destructive" onClick={() => setShowDeleteDialog(true)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {supplier && (
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm font-medium">Contact</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {supplier.contact_name && <div className="font-medium">{supplier.contact_name}</div>}
+                {supplier.email && (
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    {supplier.email}
+                  </div>
+                )}
+                {supplier.phone && (
+                  <div className="flex items-center gap-2">
+                    <Phone className="h-4 w-4 text-muted-foreground" />
+                    {supplier.phone}
+                  </div>
+                )}
+                {supplier.address && (
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    {supplier.address}
+                  </div>
+                )}
+                {supplier.website && (
+                  <div className="flex items-center gap-2">
+                    <Globe className="h-4 w-4 text-muted-foreground" />
+                    {supplier.website}
+                  </div>
+                )}
+                {supplier.note && <p className="text-muted-foreground">{supplier.note}</p>}
+              </CardContent>
+            </Card>
+
+            {showFinances && (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm font-medium">
+                      {yearFilter === "all" ? "Total Spend" : `Spend in ${yearFilter}`}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatMoney(periodTotal)}</div>
+                    <p className="text-xs text-muted-foreground">{filteredExpenses.length} expenses</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm font-medium">All-Time Spend</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatMoney(allTimeTotal)}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {expenses.length > 0
+                        ? `Last purchase ${formatDate(expenses[0].date)}`
+                        : "No purchases yet"}
+                    </p>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Expenses</CardTitle>
+              <CardDescription>Purchases booked against this supplier</CardDescription>
+            </div>
+            <div className="w-[150px]">
+              <Select value={yearFilter} onValueChange={setYearFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Year" />
+                </SelectTrigger>
+                <SelectContent>
+                  {yearOptions.map((year) => (
+                    <SelectItem key={year} value={year}>
+                      {year}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="all">All Time</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredExpenses.length > 0 ? (
+                    filteredExpenses.map((expense) => (
+                      <TableRow key={expense.id}>
+                        <TableCell className="font-medium">{expense.description}</TableCell>
+                        <TableCell>{expense.category_name || "Uncategorized"}</TableCell>
+                        <TableCell>{formatDate(expense.date)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(expense.amount, expense.currency)}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center">
+                        No expenses found for this period.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {supplier && (
+          <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+            <DialogContent className="max-w-2xl p-0 border-0">
+              <DialogTitle className="sr-only">Edit Supplier</DialogTitle>
+              <SupplierForm
+                supplier={supplier}
+                onSuccess={(updated) => {
+                  setSupplier(updated)
+                  setShowEditDialog(false)
+                }}
+                onCancel={() => setShowEditDialog(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
+
+        <AlertDialog open={showDeleteDialog} onOpenChange={(open) => !deleting && setShowDeleteDialog(open)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete supplier?</AlertDialogTitle>
+              <AlertDialogDescription>
+                &quot;{supplier?.name}&quot; will be removed. Its {expenses.length} expenses are kept but will no
+                longer be linked to a supplier.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleting}
+                onClick={(e) => {
+                  e.preventDefault()
+                  handleDeleteSupplier()
+                }}
+              >
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import DashboardLayout from "@/components/dashboard-layout"
+import MissingRatesAlert from "@/components/currency/missing-rates-alert"
+import { useAuth } from "@/components/auth/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Search, Plus, AlertCircle } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import SupplierForm from "@/components/suppliers/supplier-form"
+import { fetchSuppliers, fetchSupplierSpend, type Supplier, type SupplierSpend } from "@/lib/supabase-suppliers"
+import { formatDate, formatMoney } from "@/lib/format"
+
+export default function SuppliersPage() {
+  const { can } = useAuth()
+  const canEdit = can("manage_expenses")
+  // Spend totals are business figures; staff still see the suppliers and manage them
+  const showFinances = can("view_finances")
+  const router = useRouter()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [spend, setSpend] = useState<SupplierSpend[]>([])
+  const [searchTerm, setSearchTerm] = useState("")
+  const [showAddDialog, setShowAddDialog] = useState(false)
+
+  // Spend totals default to the current year
+  const currentYear = new Date().getFullYear()
+  const [yearFilter, setYearFilter] = useState<string>(currentYear.toString())
+  const yearOptions = useMemo(() => Array.from({ length: 5 }, (_, index) => (currentYear - index).toString()), [currentYear])
+
+  useEffect(() => {
+    const loadSuppliers = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const suppliersData = await fetchSuppliers()
+        setSuppliers(suppliersData)
+      } catch (err) {
+        console.error("Error loading suppliers:", err)
+        setError(err instanceof Error ? err.message : "Failed to load suppliers")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSuppliers()
+  }, [])
+
+  // Reload spend totals whenever the selected year changes
+  useEffect(() => {
+    const loadSpend = async () => {
+      const spendData =
+        yearFilter === "all"
+          ? await fetchSupplierSpend()
+          : await fetchSupplierSpend(`${yearFilter}-01-01`, `${yearFilter}-12-31`)
+      setSpend(spendData)
+    }
+
+    loadSpend()
+  }, [yearFilter])
+
+  const spendBySupplier = useMemo(() => new Map(spend.map((item) => [item.supplier_id, item])), [spend])
+
+  const filteredSuppliers = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    return suppliers.filter(
+      (supplier) =>
+        supplier.name.toLowerCase().includes(term) || (supplier.contact_name || "").toLowerCase().includes(term),
+    )
+  }, [suppliers, searchTerm])
+
+  const totalSpend = spend.reduce((sum, item) => sum + item.total, 0)
+
+  const handleSupplierAdded = (supplier: Supplier) => {
+    setSuppliers((current) => [...current, supplier].sort((a, b) => a.name.localeCompare(b.name)))
+    setShowAddDialog(false)
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-full p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading suppliers...</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4 p-4 md:gap-8 md:p-8">
+        {showFinances && <MissingRatesAlert />}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>
+              {error}
+              <div className="mt-2">
+                <p className="text-sm">
+                  Please check your Supabase configuration and ensure the database is accessible.
+                </p>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Suppliers</h1>
+          {canEdit && (
+            <Button onClick={() => setShowAddDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Supplier
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Suppliers</CardTitle>
+            {showFinances && (
+              <CardDescription>
+                {yearFilter === "all" ? "Total spend across all years" : `Spend in ${yearFilter}`}:{" "}
+                {formatMoney(totalSpend)}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="flex-1 relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search suppliers..."
+                  className="pl-8"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <div className="w-full md:w-[200px]">
+                <Select value={yearFilter} onValueChange={setYearFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Spend period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {yearOptions.map((year) => (
+                      <SelectItem key={year} value={year}>
+                        {year}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="all">All Time</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Last Purchase</TableHead>
+                    <TableHead className="text-right">Expenses</TableHead>
+                    {showFinances && <TableHead className="text-right">Total Spend</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredSuppliers.length > 0 ? (
+                    filteredSuppliers.map((supplier) => {
+                      const supplierSpend = spendBySupplier.get(supplier.id)
+                      return (
+                        <TableRow
+                          key={supplier.id}
+                          className="cursor-pointer"
+                          onClick={() => router.push(`/dashboard/suppliers/${supplier.id}`)}
+                        >
+                          <TableCell className="font-medium">{supplier.name}</TableCell>
+                          <TableCell>{supplier.contact_name || supplier.email || "-"}</TableCell>
+                          <TableCell>
+                            {supplierSpend?.lastPurchaseDate
+                              ? formatDate(supplierSpend.lastPurchaseDate)
+                              : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">{supplierSpend?.expenseCount || 0}</TableCell>
+                          {showFinances && (
+                            <TableCell className="text-right font-medium">
+                              {formatMoney(supplierSpend?.total || 0)}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      )
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No suppliers found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogContent className="max-w-2xl p-0 border-0">
+            <DialogTitle className="sr-only">Add Supplier</DialogTitle>
+            <SupplierForm onSuccess={handleSupplierAdded} onCancel={() => setShowAddDialog(false)} />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -3,6 +3,7 @@ import type { Metadata } from "next/types"
 import { Inter } from "next/font/google"
 import "./globals.css"
 import AuthProvider from "@/components/auth/auth-provider"
+import LocaleProvider from "@/components/locale-provider"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -21,7 +22,9 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <AuthProvider>
-          <div className="min-h-screen bg-background">{children}</div>
+          <LocaleProvider>
+            <div className="min-h-screen bg-background">{children}</div>
+          </LocaleProvider>
         </AuthProvider>
       </body>
     </html>
@@ -1,27 +0,0 @@
-import Link from "next/link"
-import { Button } from "@/components/ui/button"
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-
-export default function Unauthorized() {
-  return (
-    <div className="flex min-h-screen items-center justify-center bg-muted/40 p-4">
-      <Card className="w-full max-w-md">
-        <CardHeader className="space-y-1">
-          <CardTitle className="text-2xl font-bold">Unauthorized</CardTitle>
-          <CardDescription>You need to be logged in to access this page</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <p className="text-sm text-muted-foreground">
-            Please sign in to your account to access the dashboard and other features.
-          </p>
-        </CardContent>
-        <CardFooter>
-          <Button asChild className="w-full">
-            <Link href="/auth">Go to Login</Link>
-          </Button>
-        </CardFooter>
-      </Card>
-    </div>
-  )
-}
-
@@ -0,0 +1,51 @@
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+
+// Shown by the middleware in place of pages the user's role doesn't include (reason=forbidden),
+// and for anyone who isn't signed in
+export default function Unauthorized({ searchParams }: { searchParams: { reason?: string } }) {
+  if (searchParams.reason === "forbidden") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted/40 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold">Access Denied</CardTitle>
+            <CardDescription>Your role doesn&apos;t include this page</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Ask an owner of the account to change your role if you need access.
+            </p>
+          </CardContent>
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link href="/dashboard">Back to Dashboard</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/40 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Unauthorized</CardTitle>
+          <CardDescription>You need to be logged in to access this page</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Please sign in to your account to access the dashboard and other features.
+          </p>
+        </CardContent>
+        <CardFooter>
+          <Button asChild className="w-full">
+            <Link href="/auth">Go to Login</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -2,15 +2,30 @@
 
 import type React from "react"
 
-import { createContext, useContext, useEffect, useState } from "react"
+import { createContext, useCallback, useContext, useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import type { Session, User } from "@supabase/supabase-js"
-import { supabase } from "@/lib/supabase"
+import { fetchProfile, supabase } from "@/lib/supabase"
+import { hasPermission, type Permission, type Role } from "@/lib/permissions"
+import {
+  activeMembership,
+  fetchMemberships,
+  switchOrganization as saveActiveOrganization,
+  type Membership,
+} from "@/lib/supabase-organizations"
 
 type AuthContextType = {
   user: User | null
   session: Session | null
   isLoading: boolean
+  // Organizations the user belongs to, and the active one whose books they're working on
+  organizations: Membership[]
+  organization: Membership | null
+  // The signed-in user's role in the active organization; null while it loads or when signed out
+  role: Role | null
+  can: (permission: Permission) => boolean
+  switchOrganization: (organizationId: number) => Promise<void>
+  refreshOrganizations: () => Promise<void>
   signOut: () => Promise<void>
 }
 
@@ -18,6 +33,12 @@ const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
   isLoading: true,
+  organizations: [],
+  organization: null,
+  role: null,
+  can: () => false,
+  switchOrganization: async () => {},
+  refreshOrganizations: async () => {},
   signOut: async () => {},
 })
 
@@ -27,6 +48,8 @@ export default function AuthProvider({ children }: { children: React.ReactNode }
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [organizations, setOrganizations] = useState<Membership[]>([])
+  const [activeOrganizationId, setActiveOrganizationId] = useState<number | null>(null)
   const router = useRouter()
 
   useEffect(() => {
@@ -98,6 +121,43 @@ export default function AuthProvider({ children }: { children: React.ReactNode }
     }
   }, [])
 
+  // The middleware keeps users out of pages their role doesn't include; the organizations and role are
+  // loaded here too so pages can hide the actions it doesn't allow
+  const userId = user?.id
+  const refreshOrganizations = useCallback(async () => {
+    if (!userId) {
+      setOrganizations([])
+      setActiveOrganizationId(null)
+      return
+    }
+
+    try {
+      const [memberships, profile] = await Promise.all([fetchMemberships(userId), fetchProfile(userId)])
+      setOrganizations(memberships)
+      setActiveOrganizationId(profile.active_organization_id ?? null)
+    } catch (error) {
+      console.error("Error loading organizations:", error)
+      setOrganizations([])
+    }
+  }, [userId])
+
+  useEffect(() => {
+    refreshOrganizations()
+  }, [refreshOrganizations])
+
+  const organization = activeMembership(organizations, activeOrganizationId)
+  const role = organization?.role ?? null
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+
+  const switchOrganization = async (organizationId: number) => {
+    if (!userId) return
+
+    await saveActiveOrganization(userId, organizationId)
+    // Every page loads its data when it mounts, and record pages such as a customer's belong to the
+    // previous organization, so start again from the dashboard
+    window.location.href = "/dashboard"
+  }
+
   const signOut = async () => {
     try {
       await supabase.auth.signOut()
@@ -108,5 +168,22 @@ export default function AuthProvider({ children }: { children: React.ReactNode }
     }
   }
 
-  return <AuthContext.Provider value={{ user, session, isLoading, signOut }}>{children}</AuthContext.Provider>
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        isLoading,
+        organizations,
+        organization,
+        role,
+        can,
+        switchOrganization,
+        refreshOrganizations,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  )
 }
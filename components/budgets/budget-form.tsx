@@ -0,0 +1,202 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { fetchCategories, type Category } from "@/lib/supabase"
+import { insertBudget, updateBudget, type Budget, type BudgetPeriod } from "@/lib/supabase-budgets"
+
+interface BudgetFormProps {
+  // When provided, the form edits this budget instead of creating a new one
+  budget?: Budget
+  // Existing budgets, used to stop a category getting two budgets for the same period
+  existingBudgets?: Budget[]
+  onSuccess: (budget: Budget) => void
+  onCancel?: () => void
+}
+
+export default function BudgetForm({ budget, existingBudgets = [], onSuccess, onCancel }: BudgetFormProps) {
+  const isEditing = !!budget
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [categories, setCategories] = useState<Category[]>([])
+
+  // Form state
+  const [categoryId, setCategoryId] = useState(budget?.category_id.toString() || "")
+  const [period, setPeriod] = useState<BudgetPeriod>(budget?.period || "month")
+  const [amount, setAmount] = useState(budget?.amount.toString() || "")
+  const [rollover, setRollover] = useState(budget?.rollover || false)
+  const [note, setNote] = useState(budget?.note || "")
+
+  useEffect(() => {
+    const loadCategories = async () => {
+      const data = await fetchCategories(true)
+      // Archived categories can't get new budgets, but keep the one this budget already uses
+      setCategories(data.filter((category) => !category.archived || category.id === budget?.category_id))
+    }
+
+    loadCategories()
+  }, [budget?.category_id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!categoryId) {
+      setError("Please select a category")
+      return
+    }
+
+    const parsedAmount = Number.parseFloat(amount)
+    if (Number.isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError("Please enter a budget amount greater than zero")
+      return
+    }
+
+    const duplicate = existingBudgets.find(
+      (other) =>
+        other.id !== budget?.id && other.category_id === Number.parseInt(categoryId) && other.period === period,
+    )
+    if (duplicate) {
+      setError(`${duplicate.category_name || "This category"} already has a ${period}ly budget`)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const budgetData = {
+        category_id: Number.parseInt(categoryId),
+        period,
+        amount: parsedAmount,
+        rollover,
+        note: note.trim() || undefined,
+      }
+
+      const saved = isEditing ? await updateBudget(budget.id, budgetData) : await insertBudget(budgetData)
+
+      onSuccess({
+        ...saved,
+        category_name: categories.find((category) => category.id === saved.category_id)?.name,
+      })
+    } catch (err) {
+      console.error("Error saving budget:", err)
+      setError(isEditing ? "Failed to update budget" : "Failed to add budget")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Budget" : "Add New Budget"}</CardTitle>
+          <CardDescription>
+            {isEditing ? "Change the limit for this category" : "Set a spending limit for a category"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-category">Category *</Label>
+              <Select value={categoryId} onValueChange={setCategoryId} required>
+                <SelectTrigger id="budget-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-period">Period *</Label>
+              <Select value={period} onValueChange={(value: BudgetPeriod) => setPeriod(value)}>
+                <SelectTrigger id="budget-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="month">Monthly</SelectItem>
+                  <SelectItem value="year">Yearly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-amount">Amount *</Label>
+            <Input
+              id="budget-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.00"
+              required
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="budget-rollover">Roll over</Label>
+              <p className="text-xs text-muted-foreground">
+                Add last {period}&apos;s unused budget to this {period}, or subtract last {period}&apos;s overspend
+              </p>
+            </div>
+            <Switch id="budget-rollover" checked={rollover} onCheckedChange={setRollover} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-note">Note</Label>
+            <Textarea
+              id="budget-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional notes about this budget"
+              rows={2}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Budget"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
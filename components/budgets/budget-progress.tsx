@@ -0,0 +1,26 @@
+import { cn } from "@/lib/utils"
+import type { BudgetLevel } from "@/lib/supabase-budgets"
+
+const LEVEL_COLORS: Record<BudgetLevel, string> = {
+  ok: "bg-green-500",
+  warning: "bg-yellow-500",
+  over: "bg-red-500",
+}
+
+interface BudgetProgressProps {
+  percentage: number
+  level: BudgetLevel
+  className?: string
+}
+
+// Spending bar coloured by how close the category is to its budget
+export default function BudgetProgress({ percentage, level, className }: BudgetProgressProps) {
+  return (
+    <div className={cn("h-2 w-full rounded-full bg-muted", className)}>
+      <div
+        className={cn("h-full rounded-full", LEVEL_COLORS[level])}
+        style={{ width: `${Math.min(percentage, 100)}%` }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { insertCategory, updateCategory, type Category } from "@/lib/supabase"
+
+interface CategoryFormProps {
+  // When provided, the form renames/describes this category instead of creating a new one
+  category?: Category
+  onSuccess: (category: Category) => void
+  onCancel?: () => void
+}
+
+export default function CategoryForm({ category, onSuccess, onCancel }: CategoryFormProps) {
+  const isEditing = !!category
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [name, setName] = useState(category?.name || "")
+  const [description, setDescription] = useState(category?.description || "")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError("Please enter a category name")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const categoryData = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+      }
+
+      const saved = isEditing
+        ? await updateCategory(category.id, categoryData)
+        : await insertCategory(categoryData)
+
+      onSuccess(saved)
+    } catch (err) {
+      console.error("Error saving category:", err)
+      setError(isEditing ? "Failed to update category" : "Failed to add category")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Category" : "Add New Category"}</CardTitle>
+          <CardDescription>
+            {isEditing ? "Rename or describe this category" : "Create a new category for your expenses"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name *</Label>
+            <Input
+              id="category-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Ingredients, Packaging"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-description">Description</Label>
+            <Textarea
+              id="category-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What kind of expenses belong in this category"
+              rows={3}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Category"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,281 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { insertCourse, updateCourse } from "@/lib/supabase-courses"
+import type { Course } from "@/lib/supabase-revenue"
+import { fetchBusinessSettings } from "@/lib/supabase-settings"
+import { currencyOptions, DEFAULT_CURRENCY } from "@/lib/currency"
+
+interface CourseFormProps {
+  // When provided, the form edits this course instead of creating a new one
+  course?: Course
+  onSuccess: (course: Course) => void
+  onCancel?: () => void
+}
+
+function toInput(value?: number) {
+  return value != null ? value.toString() : ""
+}
+
+export default function CourseForm({ course, onSuccess, onCancel }: CourseFormProps) {
+  const isEditing = !!course
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [courseName, setCourseName] = useState(course?.course_name || "")
+  const [date, setDate] = useState(course?.date || format(new Date(), "yyyy-MM-dd"))
+  const [startTime, setStartTime] = useState(course?.start_time?.slice(0, 5) || "")
+  const [duration, setDuration] = useState(course?.duration || "")
+  const [location, setLocation] = useState(course?.location || "")
+  const [instructorName, setInstructorName] = useState(course?.instructor_name || "")
+  const [maxParticipants, setMaxParticipants] = useState(toInput(course?.max_participants))
+  const [registrationFee, setRegistrationFee] = useState(toInput(course?.registration_fee))
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY)
+  const [currency, setCurrency] = useState(course?.currency || DEFAULT_CURRENCY)
+  const [materialsCost, setMaterialsCost] = useState(toInput(course?.materials_cost))
+  const [instructorCost, setInstructorCost] = useState(toInput(course?.instructor_cost))
+  const [materialsNeeded, setMaterialsNeeded] = useState(course?.materials_needed || "")
+  const [description, setDescription] = useState(course?.course_description || "")
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      const businessSettings = await fetchBusinessSettings()
+      setBaseCurrency(businessSettings.base_currency)
+      if (!course) setCurrency(businessSettings.base_currency)
+    }
+
+    loadSettings()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!courseName.trim() || !date) {
+      setError("Please enter a course name and date")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      // Explicit nulls so cleared optional fields are removed when editing
+      const courseData = {
+        course_name: courseName.trim(),
+        date,
+        start_time: startTime || null,
+        duration: duration || null,
+        location: location || null,
+        instructor_name: instructorName || null,
+        max_participants: maxParticipants ? Number.parseInt(maxParticipants) : null,
+        registration_fee: registrationFee ? Number.parseFloat(registrationFee) : null,
+        currency,
+        materials_cost: materialsCost ? Number.parseFloat(materialsCost) : 0,
+        instructor_cost: instructorCost ? Number.parseFloat(instructorCost) : 0,
+        materials_needed: materialsNeeded || null,
+        course_description: description || null,
+      } as Omit<Course, "id" | "created_at" | "updated_at" | "total_amount">
+
+      const saved = isEditing ? await updateCourse(course.id, courseData) : await insertCourse(courseData)
+
+      onSuccess(saved)
+    } catch (err) {
+      console.error("Error saving course:", err)
+      setError(isEditing ? "Failed to update course" : "Failed to add course")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Course" : "Schedule New Course"}</CardTitle>
+          <CardDescription>
+            {isEditing ? "Update the course details and costs" : "Enter the details of the new course"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="course-name">Course Name *</Label>
+            <Input
+              id="course-name"
+              value={courseName}
+              onChange={(e) => setCourseName(e.target.value)}
+              placeholder="e.g., Pesto Workshop"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="course-date">Date *</Label>
+              <Input id="course-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-start-time">Start Time</Label>
+              <Input
+                id="course-start-time"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-duration">Duration</Label>
+              <Input
+                id="course-duration"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                placeholder="e.g., 3 hours"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="course-location">Location</Label>
+              <Input id="course-location" value={location} onChange={(e) => setLocation(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-instructor">Instructor</Label>
+              <Input
+                id="course-instructor"
+                value={instructorName}
+                onChange={(e) => setInstructorName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="course-capacity">Max Participants</Label>
+              <Input
+                id="course-capacity"
+                type="number"
+                min="1"
+                step="1"
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-fee">Registration Fee</Label>
+              <Input
+                id="course-fee"
+                type="number"
+                step="0.01"
+                min="0"
+                value={registrationFee}
+                onChange={(e) => setRegistrationFee(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-currency">Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="course-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencyOptions(baseCurrency, course?.currency).map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="course-materials-cost">Materials Cost</Label>
+              <Input
+                id="course-materials-cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={materialsCost}
+                onChange={(e) => setMaterialsCost(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-instructor-cost">Instructor Cost</Label>
+              <Input
+                id="course-instructor-cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={instructorCost}
+                onChange={(e) => setInstructorCost(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="course-materials">Materials Needed</Label>
+            <Textarea
+              id="course-materials"
+              value={materialsNeeded}
+              onChange={(e) => setMaterialsNeeded(e.target.value)}
+              placeholder="Ingredients, equipment, handouts..."
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="course-description">Description</Label>
+            <Textarea
+              id="course-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Course"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,279 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { fetchCustomers, type Customer } from "@/lib/supabase-customers"
+import {
+  REGISTRATION_STATUS_LABELS,
+  insertRegistration,
+  isActiveRegistration,
+  updateRegistration,
+  type CourseOverview,
+  type CourseRegistration,
+  type RegistrationStatus,
+} from "@/lib/supabase-courses"
+
+interface RegistrationFormProps {
+  course: CourseOverview
+  // When provided, the form edits this registration instead of creating a new one
+  registration?: CourseRegistration
+  onSuccess: (registration: CourseRegistration) => void
+  onCancel?: () => void
+}
+
+export default function RegistrationForm({ course, registration, onSuccess, onCancel }: RegistrationFormProps) {
+  const isEditing = !!registration
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [customers, setCustomers] = useState<Customer[]>([])
+
+  // Form state
+  const [customerId, setCustomerId] = useState(registration?.customer_id ? registration.customer_id.toString() : "none")
+  const [participantName, setParticipantName] = useState(registration?.participant_name || "")
+  const [email, setEmail] = useState(registration?.email || "")
+  const [phone, setPhone] = useState(registration?.phone || "")
+  const [status, setStatus] = useState<RegistrationStatus>(registration?.status || "registered")
+  const [amountDue, setAmountDue] = useState(
+    (registration ? registration.amount_due : Number(course.registration_fee) || 0).toFixed(2),
+  )
+  const [amountPaid, setAmountPaid] = useState((registration?.amount_paid || 0).toFixed(2))
+  const [paidAt, setPaidAt] = useState(registration?.paid_at || "")
+  const [paymentMethod, setPaymentMethod] = useState(registration?.payment_method || "")
+  const [notes, setNotes] = useState(registration?.notes || "")
+
+  useEffect(() => {
+    const loadCustomers = async () => {
+      setCustomers(await fetchCustomers())
+    }
+
+    loadCustomers()
+  }, [])
+
+  // Picking a customer fills in their contact details
+  const handleCustomerChange = (value: string) => {
+    setCustomerId(value)
+    const customer = customers.find((item) => item.id.toString() === value)
+    if (!customer) return
+
+    setParticipantName(customer.name)
+    setEmail(customer.email || "")
+    setPhone(customer.phone || "")
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!participantName.trim()) {
+      setError("Please enter the participant's name")
+      return
+    }
+
+    const due = Number.parseFloat(amountDue) || 0
+    const paid = Number.parseFloat(amountPaid) || 0
+    if (due < 0 || paid < 0) {
+      setError("Amounts can't be negative")
+      return
+    }
+
+    // Only a registration that newly takes up a place needs a free one
+    const takesPlace =
+      isActiveRegistration({ status }) && !(registration && isActiveRegistration(registration))
+    if (takesPlace && course.remaining === 0) {
+      setError(`This course is full (${course.max_participants} places)`)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const registrationData = {
+        course_id: course.id,
+        customer_id: customerId !== "none" ? Number.parseInt(customerId) : null,
+        participant_name: participantName.trim(),
+        email: email || null,
+        phone: phone || null,
+        status,
+        amount_due: due,
+        amount_paid: paid,
+        // Default the payment date when money is recorded without one
+        paid_at: paid > 0 ? paidAt || format(new Date(), "yyyy-MM-dd") : null,
+        payment_method: paymentMethod.trim() || null,
+        notes: notes.trim() || null,
+      } as Omit<CourseRegistration, "id" | "created_at" | "updated_at">
+
+      const saved = isEditing
+        ? await updateRegistration(registration.id, registrationData)
+        : await insertRegistration(registrationData)
+
+      onSuccess(saved)
+    } catch (err) {
+      console.error("Error saving registration:", err)
+      setError(isEditing ? "Failed to update registration" : "Failed to add registration")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Registration" : "Add Registration"}</CardTitle>
+          <CardDescription>
+            {course.course_name}
+            {course.remaining !== null && ` · ${course.remaining} of ${course.max_participants} places left`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="registration-customer">Customer</Label>
+              <Select value={customerId} onValueChange={handleCustomerChange}>
+                <SelectTrigger id="registration-customer">
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not a saved customer</SelectItem>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                      {customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="registration-name">Participant Name *</Label>
+              <Input
+                id="registration-name"
+                value={participantName}
+                onChange={(e) => setParticipantName(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="registration-email">Email</Label>
+              <Input
+                id="registration-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="registration-phone">Phone</Label>
+              <Input id="registration-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="registration-status">Status</Label>
+              <Select value={status} onValueChange={(value: RegistrationStatus) => setStatus(value)}>
+                <SelectTrigger id="registration-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REGISTRATION_STATUS_LABELS) as RegistrationStatus[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {REGISTRATION_STATUS_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="registration-due">Amount Due</Label>
+              <Input
+                id="registration-due"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amountDue}
+                onChange={(e) => setAmountDue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="registration-paid">Amount Paid</Label>
+              <Input
+                id="registration-paid"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amountPaid}
+                onChange={(e) => setAmountPaid(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="registration-paid-at">Date Paid</Label>
+              <Input id="registration-paid-at" type="date" value={paidAt} onChange={(e) => setPaidAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="registration-method">Payment Method</Label>
+              <Input
+                id="registration-method"
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value)}
+                placeholder="e.g., Cash, Bank transfer"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="registration-notes">Notes</Label>
+            <Textarea
+              id="registration-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Dietary requirements, special requests, etc."
+              rows={2}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Registration"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertTriangle } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { fetchCurrenciesMissingRates } from "@/lib/supabase-currency"
+import { getBaseCurrency } from "@/lib/format"
+
+interface MissingRatesAlertProps {
+  // Pages that already loaded the currencies pass them in; otherwise the alert loads them itself
+  currencies?: string[]
+  className?: string
+}
+
+// Warns that amounts in currencies without a rate into the base currency are left out of the totals
+// on the page, with a link to add the rates. Renders nothing when every currency can be converted.
+export default function MissingRatesAlert({ currencies: givenCurrencies, className }: MissingRatesAlertProps) {
+  const [loadedCurrencies, setLoadedCurrencies] = useState<string[]>([])
+  const currencies = givenCurrencies || loadedCurrencies
+
+  const loaded = givenCurrencies !== undefined
+  useEffect(() => {
+    if (loaded) return
+
+    const loadCurrencies = async () => {
+      setLoadedCurrencies(await fetchCurrenciesMissingRates())
+    }
+
+    loadCurrencies()
+  }, [loaded])
+
+  if (currencies.length === 0) return null
+
+  return (
+    <Alert className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Missing exchange rates</AlertTitle>
+      <AlertDescription>
+        Amounts in {currencies.join(", ")} are left out of totals in {getBaseCurrency()} until a rate is added.{" "}
+        <Link href="/dashboard/settings" className="underline underline-offset-4 hover:text-primary">
+          Add exchange rates
+        </Link>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { insertCustomer, updateCustomer, type Customer } from "@/lib/supabase-customers"
+
+interface CustomerFormProps {
+  // When provided, the form edits this customer instead of creating a new one
+  customer?: Customer
+  onSuccess: (customer: Customer) => void
+  onCancel?: () => void
+}
+
+export default function CustomerForm({ customer, onSuccess, onCancel }: CustomerFormProps) {
+  const isEditing = !!customer
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [name, setName] = useState(customer?.name || "")
+  const [email, setEmail] = useState(customer?.email || "")
+  const [phone, setPhone] = useState(customer?.phone || "")
+  const [address, setAddress] = useState(customer?.address || "")
+  const [notes, setNotes] = useState(customer?.notes || "")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError("Please enter a customer name")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const customerData = {
+        name: name.trim(),
+        email: email || undefined,
+        phone: phone || undefined,
+        address: address || undefined,
+        notes: notes || undefined,
+      }
+
+      const saved = isEditing
+        ? await updateCustomer(customer.id, customerData)
+        : await insertCustomer(customerData)
+
+      onSuccess(saved)
+    } catch (err) {
+      console.error("Error saving customer:", err)
+      setError(isEditing ? "Failed to update customer" : "Failed to add customer")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Customer" : "Add New Customer"}</CardTitle>
+          <CardDescription>
+            {isEditing ? "Update the customer's details" : "Enter the details of the new customer"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-name">Name *</Label>
+            <Input
+              id="customer-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Customer or business name"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="customer-email">Email</Label>
+              <Input
+                id="customer-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customer-phone">Phone</Label>
+              <Input id="customer-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-address">Address</Label>
+            <Input id="customer-address" value={address} onChange={(e) => setAddress(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-notes">Notes</Label>
+            <Textarea
+              id="customer-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Preferences, delivery instructions, etc."
+              rows={3}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Customer"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -5,13 +5,35 @@ import type React from "react"
 import { useState, useEffect } from "react"
 import { usePathname, useRouter } from "next/navigation"
 import Link from "next/link"
-import { BarChart3, DollarSign, Menu, Home, FileText, CreditCard, LogOut, TrendingUp } from "lucide-react"
+import {
+  BarChart3,
+  BookOpen,
+  DollarSign,
+  Menu,
+  Home,
+  FileText,
+  GraduationCap,
+  CreditCard,
+  HandCoins,
+  LogOut,
+  TrendingUp,
+  Truck,
+  Tags,
+  Users,
+  Store,
+  Wallet,
+  Wheat,
+  Package,
+  Boxes,
+} from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { useAuth } from "@/components/auth/auth-provider"
+import { canAccessRoute, ROLE_LABELS } from "@/lib/permissions"
 import SupabaseStatus from "@/components/supabase-status"
+import OrganizationSwitcher from "@/components/organizations/organization-switcher"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -28,7 +50,7 @@ interface DashboardLayoutProps {
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const pathname = usePathname()
   const router = useRouter()
-  const { user, signOut } = useAuth()
+  const { user, role, signOut } = useAuth()
   const [isMounted, setIsMounted] = useState(false)
   const [isMobile, setIsMobile] = useState(false)
   const [showStatus, setShowStatus] = useState(true)
@@ -63,10 +85,21 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const navigation = [
     { name: "Dashboard", href: "/dashboard", icon: Home },
     { name: "Revenue", href: "/dashboard/revenue", icon: TrendingUp },
+    { name: "Receivables", href: "/dashboard/receivables", icon: HandCoins },
+    { name: "Customers", href: "/dashboard/customers", icon: Users },
+    { name: "Markets", href: "/dashboard/markets", icon: Store },
+    { name: "Courses", href: "/dashboard/courses", icon: GraduationCap },
     { name: "Expenses", href: "/dashboard/expenses", icon: CreditCard },
+    { name: "Categories", href: "/dashboard/categories", icon: Tags },
+    { name: "Budgets", href: "/dashboard/budgets", icon: Wallet },
+    { name: "Suppliers", href: "/dashboard/suppliers", icon: Truck },
+    { name: "Ingredients", href: "/dashboard/ingredients", icon: Wheat },
+    { name: "Products", href: "/dashboard/products", icon: Package },
+    { name: "Inventory", href: "/dashboard/inventory", icon: Boxes },
+    { name: "Ledger", href: "/dashboard/ledger", icon: BookOpen },
     { name: "Reports", href: "/dashboard/reports", icon: FileText },
     { name: "Analytics", href: "/dashboard/analytics", icon: BarChart3 },
-  ]
+  ].filter((item) => canAccessRoute(role, item.href))
 
   const userInitials = user?.email ? user.email.substring(0, 2).toUpperCase() : "U"
 
@@ -119,6 +152,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
           <span className="text-lg font-semibold md:hidden">Financial Monitor</span>
         </div>
         <div className="ml-auto flex items-center gap-4">
+          <OrganizationSwitcher />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="rounded-full">
@@ -128,10 +162,15 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuLabel>My Account</DropdownMenuLabel>
+              <DropdownMenuLabel>
+                My Account
+                {role && <p className="text-xs font-normal text-muted-foreground">{ROLE_LABELS[role]}</p>}
+              </DropdownMenuLabel>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={() => router.push("/dashboard/profile")}>Profile</DropdownMenuItem>
-              <DropdownMenuItem onClick={() => router.push("/dashboard/settings")}>Settings</DropdownMenuItem>
+              {canAccessRoute(role, "/dashboard/settings") && (
+                <DropdownMenuItem onClick={() => router.push("/dashboard/settings")}>Settings</DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={signOut}>
                 <LogOut className="mr-2 h-4 w-4" />
@@ -4,8 +4,7 @@ import type React from "react"
 
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
-import { format } from "date-fns"
-import { Loader2 } from "lucide-react"
+import { Loader2, Paperclip, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -13,29 +12,82 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { fetchCategories, insertExpense, type Category } from "@/lib/supabase"
+import { useAuth } from "@/components/auth/auth-provider"
+import { fetchCategories, insertExpense, updateExpense, type Category, type Expense } from "@/lib/supabase"
+import { fetchSuppliers, type Supplier } from "@/lib/supabase-suppliers"
+import { fetchMarkets, type Market } from "@/lib/supabase-revenue"
+import { fetchBusinessSettings } from "@/lib/supabase-settings"
+import { currencyOptions, DEFAULT_CURRENCY } from "@/lib/currency"
+import {
+  ACCEPTED_RECEIPT_TYPES,
+  deleteReceipt,
+  fetchReceipts,
+  uploadReceipt,
+  validateReceiptFile,
+  type Receipt,
+} from "@/lib/supabase-receipts"
+import ReceiptPreviewDialog from "@/components/expenses/receipt-preview-dialog"
+import { formatDate, formatMoney } from "@/lib/format"
+import { today } from "@/lib/dates"
+import { costPer100g, normalizeUnit, PURCHASE_UNITS } from "@/lib/units"
 
-export default function ExpenseForm() {
+interface ExpenseFormProps {
+  // When provided, the form edits this expense instead of creating a new one
+  expense?: Expense
+  // Called with the saved expense instead of redirecting to the expenses list
+  onSuccess?: (expense: Expense) => void
+  onCancel?: () => void
+}
+
+export default function ExpenseForm({ expense, onSuccess, onCancel }: ExpenseFormProps) {
+  const isEditing = !!expense
   const router = useRouter()
+  const { can } = useAuth()
   const [loading, setLoading] = useState(false)
   const [categories, setCategories] = useState<Category[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [markets, setMarkets] = useState<Market[]>([])
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
 
   // Form state
-  const [description, setDescription] = useState("")
-  const [amount, setAmount] = useState("")
-  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"))
-  const [categoryId, setCategoryId] = useState("")
-  const [quantity, setQuantity] = useState("")
-  const [unit, setUnit] = useState("")
-  const [note, setNote] = useState("")
+  const [description, setDescription] = useState(expense?.description || "")
+  const [amount, setAmount] = useState(expense ? expense.amount.toString() : "")
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY)
+  const [currency, setCurrency] = useState(expense?.currency || DEFAULT_CURRENCY)
+  const [date, setDate] = useState(expense?.date || today())
+  const [categoryId, setCategoryId] = useState(expense ? expense.category_id.toString() : "")
+  const [supplierId, setSupplierId] = useState(expense?.supplier_id ? expense.supplier_id.toString() : "none")
+  const [marketId, setMarketId] = useState(expense?.market_id ? expense.market_id.toString() : "none")
+  const [quantity, setQuantity] = useState(expense?.quantity != null ? expense.quantity.toString() : "")
+  const [unit, setUnit] = useState(normalizeUnit(expense?.unit) || expense?.unit || "")
+  const [itemWeight, setItemWeight] = useState(
+    expense?.item_weight_grams != null ? expense.item_weight_grams.toString() : "",
+  )
+  const [note, setNote] = useState(expense?.note || "")
+
+  // Receipts already stored for this expense, and files picked but not uploaded yet
+  const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null)
 
   useEffect(() => {
     const loadCategories = async () => {
       try {
-        const categoriesData = await fetchCategories()
-        setCategories(categoriesData)
+        const [categoriesData, suppliersData, marketsData, businessSettings] = await Promise.all([
+          fetchCategories(true),
+          fetchSuppliers(),
+          fetchMarkets(),
+          fetchBusinessSettings(),
+        ])
+        // Archived categories stay selectable only for the expense that already uses them
+        setCategories(
+          categoriesData.filter((category) => !category.archived || category.id === expense?.category_id),
+        )
+        setSuppliers(suppliersData)
+        setMarkets(marketsData)
+        setBaseCurrency(businessSettings.base_currency)
+        if (!expense) setCurrency(businessSettings.base_currency)
       } catch (err) {
         console.error("Error loading categories:", err)
         setError("Failed to load categories")
@@ -45,6 +97,66 @@ export default function ExpenseForm() {
     loadCategories()
   }, [])
 
+  useEffect(() => {
+    if (!expense) return
+
+    const loadReceipts = async () => {
+      const receiptsByExpense = await fetchReceipts([expense.id])
+      setReceipts(receiptsByExpense[expense.id] || [])
+    }
+
+    loadReceipts()
+  }, [expense])
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    const problems = files.map(validateReceiptFile).filter((problem): problem is string => !!problem)
+
+    setError(problems.length > 0 ? problems.join(". ") : null)
+    setPendingFiles((current) => [...current, ...files.filter((file) => !validateReceiptFile(file))])
+
+    // Allow picking the same file again after removing it
+    e.target.value = ""
+  }
+
+  const handleRemoveReceipt = async (receipt: Receipt) => {
+    try {
+      await deleteReceipt(receipt)
+      setReceipts((current) => current.filter((item) => item.id !== receipt.id))
+    } catch (err) {
+      console.error("Error removing receipt:", err)
+      setError("Failed to remove receipt")
+    }
+  }
+
+  // Upload picked files once the expense exists; the expense itself stays saved if an upload fails
+  const uploadPendingReceipts = async (expenseId: number) => {
+    const failed: File[] = []
+
+    for (const file of pendingFiles) {
+      try {
+        const receipt = await uploadReceipt(expenseId, file)
+        setReceipts((current) => [...current, receipt])
+      } catch (err) {
+        failed.push(file)
+      }
+    }
+
+    setPendingFiles(failed)
+    if (failed.length > 0) {
+      setError(`Expense saved, but ${failed.length} receipt${failed.length === 1 ? "" : "s"} could not be uploaded`)
+    }
+  }
+
+  // Pieces are costed per 100g from the weight of one item
+  const isPieces = normalizeUnit(unit) === "pcs"
+  const previewCost = costPer100g(
+    Number.parseFloat(amount),
+    Number.parseFloat(quantity),
+    unit,
+    isPieces ? Number.parseFloat(itemWeight) : undefined,
+  )
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -58,26 +170,71 @@ export default function ExpenseForm() {
       setError(null)
       setSuccess(null)
 
-      await insertExpense({
+      const expenseData = {
         description,
         amount: Number.parseFloat(amount),
+        currency,
         date,
         category_id: Number.parseInt(categoryId),
+        supplier_id: supplierId !== "none" ? Number.parseInt(supplierId) : undefined,
+        market_id: marketId !== "none" ? Number.parseInt(marketId) : undefined,
         quantity: quantity ? Number.parseFloat(quantity) : undefined,
         unit: unit || undefined,
+        item_weight_grams: isPieces && itemWeight ? Number.parseFloat(itemWeight) : undefined,
         note: note || undefined,
-      })
+      }
+
+      if (isEditing) {
+        // Send explicit nulls so cleared optional fields are removed from the record
+        const updated = await updateExpense(expense.id, {
+          ...expenseData,
+          supplier_id: expenseData.supplier_id ?? null,
+          market_id: expenseData.market_id ?? null,
+          quantity: expenseData.quantity ?? null,
+          unit: expenseData.unit ?? null,
+          item_weight_grams: expenseData.item_weight_grams ?? null,
+          note: expenseData.note ?? null,
+        })
+
+        await uploadPendingReceipts(updated.id)
+
+        setSuccess("Expense updated successfully")
+
+        if (onSuccess) {
+          onSuccess(updated)
+        } else {
+          setTimeout(() => {
+            router.push("/dashboard/expenses")
+            router.refresh()
+          }, 1500)
+        }
+        return
+      }
+
+      const created = await insertExpense(expenseData)
+
+      await uploadPendingReceipts(created.id)
 
       setSuccess("Expense added successfully")
 
       // Reset form
       setDescription("")
       setAmount("")
-      setDate(format(new Date(), "yyyy-MM-dd"))
+      setCurrency(baseCurrency)
+      setDate(today())
       setCategoryId("")
+      setSupplierId("none")
+      setMarketId("none")
       setQuantity("")
       setUnit("")
+      setItemWeight("")
       setNote("")
+      setReceipts([])
+
+      if (onSuccess) {
+        onSuccess(created)
+        return
+      }
 
       // Redirect after a short delay
       setTimeout(() => {
@@ -85,8 +242,8 @@ export default function ExpenseForm() {
         router.refresh()
       }, 1500)
     } catch (err) {
-      console.error("Error adding expense:", err)
-      setError("Failed to add expense")
+      console.error(isEditing ? "Error updating expense:" : "Error adding expense:", err)
+      setError(isEditing ? "Failed to update expense" : "Failed to add expense")
     } finally {
       setLoading(false)
     }
@@ -96,8 +253,10 @@ export default function ExpenseForm() {
     <Card>
       <form onSubmit={handleSubmit}>
         <CardHeader>
-          <CardTitle>Add New Expense</CardTitle>
-          <CardDescription>Enter the details of the new expense</CardDescription>
+          <CardTitle>{isEditing ? "Edit Expense" : "Add New Expense"}</CardTitle>
+          <CardDescription>
+            {isEditing ? "Update the details of this expense" : "Enter the details of the new expense"}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {error && (
@@ -124,15 +283,29 @@ export default function ExpenseForm() {
             </div>
             <div className="space-y-2">
               <Label htmlFor="amount">Amount *</Label>
-              <Input
-                id="amount"
-                type="number"
-                step="0.01"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                placeholder="0.00"
-                required
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  required
+                />
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger className="w-[100px]" aria-label="Currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencyOptions(baseCurrency, expense?.currency).map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           </div>
 
@@ -159,6 +332,44 @@ export default function ExpenseForm() {
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier">Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger id="supplier">
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No supplier</SelectItem>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {/* Markets and their takings are hidden from roles that can't view finances */}
+            {can("view_finances") && (
+              <div className="space-y-2">
+                <Label htmlFor="market">Market</Label>
+                <Select value={marketId} onValueChange={setMarketId}>
+                  <SelectTrigger id="market">
+                    <SelectValue placeholder="Select a market" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No market</SelectItem>
+                    {markets.map((market) => (
+                      <SelectItem key={market.id} value={market.id.toString()}>
+                        {market.name} ({formatDate(market.end_date)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className={`grid grid-cols-1 gap-4 ${isPieces ? "md:grid-cols-3" : "md:grid-cols-2"}`}>
             <div className="space-y-2">
               <Label htmlFor="quantity">Quantity</Label>
               <Input
@@ -172,14 +383,39 @@ export default function ExpenseForm() {
             </div>
             <div className="space-y-2">
               <Label htmlFor="unit">Unit</Label>
-              <Input
-                id="unit"
-                value={unit}
-                onChange={(e) => setUnit(e.target.value)}
-                placeholder="e.g., kg, pcs, etc."
-              />
+              <Select value={unit || "none"} onValueChange={(value) => setUnit(value === "none" ? "" : value)}>
+                <SelectTrigger id="unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No unit</SelectItem>
+                  {PURCHASE_UNITS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                  {unit && !normalizeUnit(unit) && <SelectItem value={unit}>{unit}</SelectItem>}
+                </SelectContent>
+              </Select>
             </div>
+            {isPieces && (
+              <div className="space-y-2">
+                <Label htmlFor="item-weight">Weight per Item (g)</Label>
+                <Input
+                  id="item-weight"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={itemWeight}
+                  onChange={(e) => setItemWeight(e.target.value)}
+                  placeholder="e.g., 250"
+                />
+              </div>
+            )}
           </div>
+          {previewCost !== undefined && (
+            <p className="text-sm text-muted-foreground">Cost per 100g: {formatMoney(previewCost, currency)}</p>
+          )}
 
           <div className="space-y-2">
             <Label htmlFor="note">Note</Label>
@@ -191,20 +427,92 @@ export default function ExpenseForm() {
               rows={3}
             />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipts">Receipts</Label>
+            <Input
+              id="receipts"
+              type="file"
+              accept={ACCEPTED_RECEIPT_TYPES.join(",")}
+              multiple
+              onChange={handleFilesSelected}
+            />
+            <p className="text-xs text-muted-foreground">Images or PDFs, up to 10 MB each</p>
+            {(receipts.length > 0 || pendingFiles.length > 0) && (
+              <ul className="space-y-1">
+                {receipts.map((receipt, index) => (
+                  <li key={receipt.id} className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm">
+                    <Paperclip className="h-4 w-4 text-muted-foreground" />
+                    <button
+                      type="button"
+                      className="flex-1 truncate text-left hover:underline"
+                      onClick={() => setPreviewIndex(index)}
+                    >
+                      {receipt.file_name}
+                    </button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleRemoveReceipt(receipt)}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Remove {receipt.file_name}</span>
+                    </Button>
+                  </li>
+                ))}
+                {pendingFiles.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="flex items-center gap-2 rounded-md border border-dashed px-3 py-1.5 text-sm"
+                  >
+                    <Paperclip className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{file.name}</span>
+                    <span className="text-xs text-muted-foreground">Uploads on save</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setPendingFiles((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Remove {file.name}</span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
         </CardContent>
-        <CardFooter>
+        <CardFooter className="gap-2">
           <Button type="submit" disabled={loading}>
             {loading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Saving...
               </>
+            ) : isEditing ? (
+              "Save Changes"
             ) : (
               "Add Expense"
             )}
           </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
         </CardFooter>
       </form>
+
+      <ReceiptPreviewDialog
+        receipts={receipts}
+        initialIndex={previewIndex ?? 0}
+        open={previewIndex !== null}
+        onOpenChange={(open) => !open && setPreviewIndex(null)}
+      />
     </Card>
   )
 }
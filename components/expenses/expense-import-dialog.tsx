@@ -0,0 +1,459 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useMemo, useState } from "react"
+import { Loader2, Upload, CheckCircle2, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { parseCsv } from "@/lib/csv"
+import { formatMoney } from "@/lib/format"
+import {
+  IMPORT_FIELDS,
+  DATE_FORMATS,
+  DECIMAL_SEPARATORS,
+  buildImportRows,
+  guessColumnMapping,
+  type ColumnMapping,
+  type DateFormat,
+  type DecimalSeparator,
+  type ImportField,
+} from "@/lib/expense-import"
+import { fetchCategories, insertExpenses, type Category, type Expense } from "@/lib/supabase"
+import { fetchSuppliers, type Supplier } from "@/lib/supabase-suppliers"
+
+// Number of rows shown in each preview table
+const PREVIEW_LIMIT = 50
+const NOT_MAPPED = "none"
+// Select value for working out the decimal separator from each amount
+const DETECT_SEPARATOR = "detect"
+
+type Step = "upload" | "map" | "preview" | "importing" | "done"
+
+interface ExpenseImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: (expenses: Expense[]) => void
+}
+
+export default function ExpenseImportDialog({ open, onOpenChange, onImported }: ExpenseImportDialogProps) {
+  const [step, setStep] = useState<Step>("upload")
+  const [error, setError] = useState<string | null>(null)
+  const [categories, setCategories] = useState<Category[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+
+  // File contents
+  const [pastedText, setPastedText] = useState("")
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+
+  // Mapping options
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [dateFormat, setDateFormat] = useState<DateFormat>("yyyy-MM-dd")
+  const [decimalSeparator, setDecimalSeparator] = useState(DETECT_SEPARATOR)
+  const [defaultCategoryId, setDefaultCategoryId] = useState(NOT_MAPPED)
+
+  // Import progress
+  const [importedCount, setImportedCount] = useState(0)
+  const [importTotal, setImportTotal] = useState(0)
+
+  useEffect(() => {
+    if (!open) return
+
+    const loadLookups = async () => {
+      const [categoriesData, suppliersData] = await Promise.all([fetchCategories(true), fetchSuppliers()])
+      setCategories(categoriesData)
+      setSuppliers(suppliersData)
+    }
+
+    loadLookups()
+  }, [open])
+
+  const reset = () => {
+    setStep("upload")
+    setError(null)
+    setPastedText("")
+    setHeaders([])
+    setDataRows([])
+    setMapping({})
+    setDefaultCategoryId(NOT_MAPPED)
+    setImportedCount(0)
+    setImportTotal(0)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Don't allow closing halfway through an import
+    if (step === "importing") return
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const loadText = (text: string) => {
+    const rows = parseCsv(text)
+
+    if (rows.length < 2) {
+      setError("The file needs a header row and at least one row of data")
+      return
+    }
+
+    setError(null)
+    setHeaders(rows[0])
+    setDataRows(rows.slice(1))
+    setMapping(guessColumnMapping(rows[0]))
+    setStep("map")
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    if (/\.(xlsx|xls|ods)$/i.test(file.name)) {
+      setError("Save the spreadsheet as CSV first, or copy the cells and paste them below")
+      return
+    }
+
+    loadText(await file.text())
+  }
+
+  const importRows = useMemo(
+    () =>
+      buildImportRows(dataRows, mapping, categories, suppliers, {
+        dateFormat,
+        decimalSeparator: decimalSeparator !== DETECT_SEPARATOR ? (decimalSeparator as DecimalSeparator) : undefined,
+        defaultCategoryId: defaultCategoryId !== NOT_MAPPED ? Number.parseInt(defaultCategoryId) : undefined,
+      }),
+    [dataRows, mapping, categories, suppliers, dateFormat, decimalSeparator, defaultCategoryId],
+  )
+
+  const validRows = importRows.filter((row) => row.valid)
+  const invalidRows = importRows.filter((row) => !row.valid)
+
+  const missingRequired = IMPORT_FIELDS.filter(
+    (field) =>
+      field.required &&
+      mapping[field.key] === undefined &&
+      !(field.key === "category" && defaultCategoryId !== NOT_MAPPED),
+  )
+
+  const setFieldMapping = (field: ImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current }
+      if (value === NOT_MAPPED) {
+        delete next[field]
+      } else {
+        next[field] = Number.parseInt(value)
+      }
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    const expenses = validRows.flatMap((row) => (row.valid ? [row.expense] : []))
+
+    try {
+      setStep("importing")
+      setError(null)
+      setImportTotal(expenses.length)
+      setImportedCount(0)
+
+      const inserted = await insertExpenses(expenses, 100, setImportedCount)
+
+      onImported(inserted)
+      setStep("done")
+    } catch (err) {
+      console.error("Error importing expenses:", err)
+      setError(err instanceof Error ? err.message : "Failed to import expenses")
+      setStep("preview")
+    }
+  }
+
+  const categoryName = (id: number) => categories.find((category) => category.id === id)?.name || "Unknown"
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Expenses</DialogTitle>
+          <DialogDescription>
+            {step === "upload" &&
+              "Upload a CSV file or paste cells copied from a spreadsheet. The first row must contain column headers."}
+            {step === "map" && `Match the ${headers.length} columns in your file to expense fields.`}
+            {step === "preview" && "Check the rows below before importing. Rows with problems are skipped."}
+            {step === "importing" && "Importing expenses..."}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input id="import-file" type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFileChange} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-paste">Or paste spreadsheet cells</Label>
+              <Textarea
+                id="import-paste"
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                placeholder={"Date\tDescription\tAmount\tCategory"}
+                rows={8}
+                className="font-mono text-xs"
+              />
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {field.required ? " *" : ""}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] !== undefined ? String(mapping[field.key]) : NOT_MAPPED}
+                    onValueChange={(value) => setFieldMapping(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {format}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Decimal separator</Label>
+                <Select value={decimalSeparator} onValueChange={setDecimalSeparator}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DETECT_SEPARATOR}>Detect</SelectItem>
+                    {DECIMAL_SEPARATORS.map((separator) => (
+                      <SelectItem key={separator.value} value={separator.value}>
+                        {separator.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category for rows without one</Label>
+                <Select value={defaultCategoryId} onValueChange={setDefaultCategoryId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>None (row is rejected)</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Still needed: {missingRequired.map((field) => field.label).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <Tabs defaultValue="valid" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="valid">Ready ({validRows.length})</TabsTrigger>
+              <TabsTrigger value="invalid">Problems ({invalidRows.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="valid">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {validRows.slice(0, PREVIEW_LIMIT).map((row) =>
+                      row.valid ? (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell>{row.expense.date}</TableCell>
+                          <TableCell className="font-medium">{row.expense.description}</TableCell>
+                          <TableCell>{categoryName(row.expense.category_id)}</TableCell>
+                          <TableCell className="text-right">
+                            {formatMoney(row.expense.amount, row.expense.currency)}
+                          </TableCell>
+                        </TableRow>
+                      ) : null,
+                    )}
+                    {validRows.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="h-24 text-center">
+                          No rows are ready to import.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {validRows.length > PREVIEW_LIMIT && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_LIMIT} of {validRows.length} rows
+                </p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="invalid">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invalidRows.slice(0, PREVIEW_LIMIT).map((row) =>
+                      !row.valid ? (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell className="max-w-[300px] truncate text-muted-foreground">
+                            {row.cells.join(" | ")}
+                          </TableCell>
+                          <TableCell className="text-destructive">{row.errors.join("; ")}</TableCell>
+                        </TableRow>
+                      ) : null,
+                    )}
+                    {invalidRows.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={3} className="h-24 text-center">
+                          Every row passed validation.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {step === "importing" && (
+          <div className="space-y-2 py-4">
+            <Progress value={importTotal > 0 ? (importedCount / importTotal) * 100 : 0} />
+            <p className="text-sm text-muted-foreground">
+              {importedCount} of {importTotal} expenses saved
+            </p>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="flex items-center gap-2 py-4">
+            <CheckCircle2 className="h-5 w-5 text-green-600" />
+            <p>
+              Imported {importedCount} expenses
+              {invalidRows.length > 0 ? `, skipped ${invalidRows.length} rows with problems` : ""}.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "upload" && (
+            <Button onClick={() => loadText(pastedText)} disabled={!pastedText.trim()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Use Pasted Data
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={missingRequired.length > 0}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} Expenses
+              </Button>
+            </>
+          )}
+          {step === "importing" && (
+            <Button disabled>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </Button>
+          )}
+          {step === "done" && <Button onClick={() => handleOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
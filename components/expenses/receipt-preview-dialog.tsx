@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ChevronLeft, ChevronRight, Download, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { fetchReceiptUrls, isPdfReceipt, type Receipt } from "@/lib/supabase-receipts"
+import { formatDate } from "@/lib/format"
+
+interface ReceiptPreviewDialogProps {
+  receipts: Receipt[]
+  // Receipt shown first when the dialog opens
+  initialIndex?: number
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function ReceiptPreviewDialog({
+  receipts,
+  initialIndex = 0,
+  open,
+  onOpenChange,
+}: ReceiptPreviewDialogProps) {
+  const [index, setIndex] = useState(initialIndex)
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    setIndex(initialIndex)
+
+    const loadUrls = async () => {
+      setLoading(true)
+      setUrls(await fetchReceiptUrls(receipts))
+      setLoading(false)
+    }
+
+    loadUrls()
+  }, [open, receipts, initialIndex])
+
+  const receipt = receipts[index]
+  const url = receipt ? urls[receipt.file_path] : undefined
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{receipt?.file_name || "Receipt"}</DialogTitle>
+          {receipt && (
+            <DialogDescription>
+              Uploaded {formatDate(receipt.created_at)} &middot;{" "}
+              {Math.ceil(receipt.size / 1024)} KB
+              {receipts.length > 1 && ` · ${index + 1} of ${receipts.length}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="flex h-[60vh] items-center justify-center rounded-md border bg-muted/20">
+          {loading ? (
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          ) : !receipt || !url ? (
+            <p className="text-muted-foreground">This receipt could not be loaded</p>
+          ) : isPdfReceipt(receipt) ? (
+            <iframe src={url} title={receipt.file_name} className="h-full w-full rounded-md" />
+          ) : (
+            <img src={url} alt={receipt.file_name} className="max-h-full max-w-full object-contain" />
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={index === 0}
+              onClick={() => setIndex((current) => current - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              <span className="sr-only">Previous receipt</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={index >= receipts.length - 1}
+              onClick={() => setIndex((current) => current + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+              <span className="sr-only">Next receipt</span>
+            </Button>
+          </div>
+          {url && receipt && (
+            <Button variant="outline" asChild>
+              <a href={url} download={receipt.file_name} target="_blank" rel="noreferrer">
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
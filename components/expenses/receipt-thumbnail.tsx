@@ -0,0 +1,38 @@
+import { FileText } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { isPdfReceipt, type Receipt } from "@/lib/supabase-receipts"
+
+interface ReceiptThumbnailProps {
+  receipt: Receipt
+  url?: string
+  // Number of further receipts on the same expense, shown as a "+N" badge
+  moreCount?: number
+  onClick?: () => void
+  className?: string
+}
+
+export default function ReceiptThumbnail({ receipt, url, moreCount = 0, onClick, className }: ReceiptThumbnailProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={receipt.file_name}
+      className={cn(
+        "relative flex h-10 w-10 shrink-0 items-center justify-center overflow-hidden rounded-md border bg-muted",
+        className,
+      )}
+    >
+      {url && !isPdfReceipt(receipt) ? (
+        <img src={url} alt={receipt.file_name} className="h-full w-full object-cover" />
+      ) : (
+        <FileText className="h-5 w-5 text-muted-foreground" />
+      )}
+      {moreCount > 0 && (
+        <span className="absolute bottom-0 right-0 rounded-tl-md bg-background/90 px-1 text-[10px] font-medium">
+          +{moreCount}
+        </span>
+      )}
+      <span className="sr-only">View receipt {receipt.file_name}</span>
+    </button>
+  )
+}
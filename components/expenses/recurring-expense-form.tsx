@@ -0,0 +1,285 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { fetchCategories, type Category } from "@/lib/supabase"
+import { fetchSuppliers, type Supplier } from "@/lib/supabase-suppliers"
+import { FREQUENCY_LABELS, type RecurringExpense, type RecurringFrequency } from "@/lib/recurring-expenses"
+import { insertRecurringExpense, updateRecurringExpense } from "@/lib/supabase-recurring"
+import { fetchBusinessSettings } from "@/lib/supabase-settings"
+import { currencyOptions, DEFAULT_CURRENCY } from "@/lib/currency"
+
+interface RecurringExpenseFormProps {
+  // When provided, the form edits this template instead of creating a new one
+  template?: RecurringExpense
+  onSuccess: (template: RecurringExpense) => void
+  onCancel?: () => void
+}
+
+export default function RecurringExpenseForm({ template, onSuccess, onCancel }: RecurringExpenseFormProps) {
+  const isEditing = !!template
+  const [loading, setLoading] = useState(false)
+  const [categories, setCategories] = useState<Category[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [description, setDescription] = useState(template?.description || "")
+  const [amount, setAmount] = useState(template ? template.amount.toString() : "")
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY)
+  const [currency, setCurrency] = useState(template?.currency || DEFAULT_CURRENCY)
+  const [categoryId, setCategoryId] = useState(template ? template.category_id.toString() : "")
+  const [supplierId, setSupplierId] = useState(template?.supplier_id ? template.supplier_id.toString() : "none")
+  const [frequency, setFrequency] = useState<RecurringFrequency>(template?.frequency || "monthly")
+  const [startDate, setStartDate] = useState(template?.start_date || format(new Date(), "yyyy-MM-dd"))
+  const [endDate, setEndDate] = useState(template?.end_date || "")
+  const [active, setActive] = useState(template ? template.active : true)
+  const [note, setNote] = useState(template?.note || "")
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [categoriesData, suppliersData, businessSettings] = await Promise.all([
+          fetchCategories(true),
+          fetchSuppliers(),
+          fetchBusinessSettings(),
+        ])
+        // Archived categories stay selectable only for the template that already uses them
+        setCategories(
+          categoriesData.filter((category) => !category.archived || category.id === template?.category_id),
+        )
+        setSuppliers(suppliersData)
+        setBaseCurrency(businessSettings.base_currency)
+        if (!template) setCurrency(businessSettings.base_currency)
+      } catch (err) {
+        console.error("Error loading categories:", err)
+        setError("Failed to load categories")
+      }
+    }
+
+    loadOptions()
+  }, [template?.category_id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!description || !amount || !categoryId || !startDate) {
+      setError("Please fill in all required fields")
+      return
+    }
+
+    if (endDate && endDate < startDate) {
+      setError("The end date must be on or after the start date")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const templateData = {
+        description,
+        amount: Number.parseFloat(amount),
+        currency,
+        category_id: Number.parseInt(categoryId),
+        supplier_id: supplierId !== "none" ? Number.parseInt(supplierId) : null,
+        frequency,
+        start_date: startDate,
+        end_date: endDate || null,
+        note: note || null,
+        active,
+      }
+
+      const saved = isEditing
+        ? await updateRecurringExpense(template.id, templateData)
+        : await insertRecurringExpense(templateData)
+
+      onSuccess({
+        ...saved,
+        skipped_dates: saved.skipped_dates || [],
+        category_name: categories.find((category) => category.id === saved.category_id)?.name,
+      })
+    } catch (err) {
+      console.error("Error saving recurring expense:", err)
+      setError(isEditing ? "Failed to update recurring expense" : "Failed to add recurring expense")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Recurring Expense" : "Add Recurring Expense"}</CardTitle>
+          <CardDescription>
+            {isEditing
+              ? "Changes apply to occurrences that haven't been generated yet"
+              : "Rent, subscriptions and other costs that repeat on a schedule"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-description">Description *</Label>
+              <Input
+                id="recurring-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g., Kitchen rent"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-amount">Amount *</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="recurring-amount"
+                  type="number"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  required
+                />
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger className="w-[100px]" aria-label="Currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencyOptions(baseCurrency, template?.currency).map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-category">Category *</Label>
+              <Select value={categoryId} onValueChange={setCategoryId} required>
+                <SelectTrigger id="recurring-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-supplier">Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger id="recurring-supplier">
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No supplier</SelectItem>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-frequency">Frequency *</Label>
+              <Select value={frequency} onValueChange={(value: RecurringFrequency) => setFrequency(value)}>
+                <SelectTrigger id="recurring-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-start">Start Date *</Label>
+              <Input
+                id="recurring-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-end">End Date</Label>
+              <Input id="recurring-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-note">Note</Label>
+            <Textarea
+              id="recurring-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Copied onto every generated expense"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="recurring-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Paused templates don&apos;t generate expenses</p>
+            </div>
+            <Switch id="recurring-active" checked={active} onCheckedChange={setActive} />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Recurring Expense"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
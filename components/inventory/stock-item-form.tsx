@@ -0,0 +1,229 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  insertStockItem,
+  insertStockMovement,
+  updateStockItem,
+  type StockItem,
+  type StockUnit,
+} from "@/lib/supabase-inventory"
+import { ingredientKey } from "@/lib/supabase-ingredients"
+import { addDays, today } from "@/lib/dates"
+
+interface StockItemFormProps {
+  // When provided, the form edits this item instead of creating a new one
+  item?: StockItem
+  // Names of the ingredients bought so far, offered as suggestions so items match their purchases
+  ingredientNames: string[]
+  // Existing items, used to stop the same ingredient being tracked twice
+  existingItems?: StockItem[]
+  onSuccess: (item: StockItem) => void
+  onCancel?: () => void
+}
+
+export default function StockItemForm({
+  item,
+  ingredientNames,
+  existingItems = [],
+  onSuccess,
+  onCancel,
+}: StockItemFormProps) {
+  const isEditing = !!item
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [name, setName] = useState(item?.name || "")
+  const [stockUnit, setStockUnit] = useState<StockUnit>(item?.stock_unit || "g")
+  const [threshold, setThreshold] = useState(item?.low_stock_threshold?.toString() || "")
+  const [trackedFrom, setTrackedFrom] = useState(item?.tracked_from || today())
+  const [openingStock, setOpeningStock] = useState("")
+
+  const unitLabel = stockUnit === "pcs" ? "pcs" : "g"
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError("Please enter a name")
+      return
+    }
+
+    if (existingItems.some((other) => other.id !== item?.id && ingredientKey(other.name) === ingredientKey(name))) {
+      setError(`${name.trim()} is already a stock item`)
+      return
+    }
+
+    const parsedThreshold = threshold ? Number.parseFloat(threshold) : null
+    if (parsedThreshold !== null && (Number.isNaN(parsedThreshold) || parsedThreshold < 0)) {
+      setError("Please enter a valid low stock level")
+      return
+    }
+
+    const parsedOpening = openingStock ? Number.parseFloat(openingStock) : null
+    if (parsedOpening !== null && (Number.isNaN(parsedOpening) || parsedOpening < 0)) {
+      setError("Please enter a valid opening stock")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const itemData = {
+        name: name.trim(),
+        stock_unit: stockUnit,
+        low_stock_threshold: parsedThreshold,
+        tracked_from: trackedFrom,
+      }
+
+      if (isEditing) {
+        onSuccess(await updateStockItem(item.id, itemData))
+        return
+      }
+
+      const saved = await insertStockItem(itemData)
+
+      // Count the opening stock the day before tracking starts, so purchases on the first day add to it
+      if (parsedOpening !== null) {
+        await insertStockMovement({
+          stock_item_id: saved.id,
+          date: addDays(trackedFrom, -1),
+          movement_type: "stocktake",
+          quantity: parsedOpening,
+          note: "Opening stock",
+        })
+      }
+
+      onSuccess(saved)
+    } catch (err) {
+      console.error("Error saving stock item:", err)
+      setError(isEditing ? "Failed to update stock item" : "Failed to add stock item")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Stock Item" : "Add New Stock Item"}</CardTitle>
+          <CardDescription>
+            Purchases with the same description add to the stock, and products sold with it in their recipe take
+            from it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="stock-item-name">Name *</Label>
+            <Input
+              id="stock-item-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Fresh parsley"
+              list="stock-item-ingredient-names"
+              required
+            />
+            <datalist id="stock-item-ingredient-names">
+              {ingredientNames.map((ingredientName) => (
+                <option key={ingredientName} value={ingredientName} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-item-unit">Counted In *</Label>
+              <Select value={stockUnit} onValueChange={(value: StockUnit) => setStockUnit(value)}>
+                <SelectTrigger id="stock-item-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="g">Grams (weight or volume)</SelectItem>
+                  <SelectItem value="pcs">Pieces</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-item-threshold">Low Stock Level ({unitLabel})</Label>
+              <Input
+                id="stock-item-threshold"
+                type="number"
+                step="any"
+                min="0"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                placeholder="No warning"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-item-tracked-from">Track From *</Label>
+              <Input
+                id="stock-item-tracked-from"
+                type="date"
+                value={trackedFrom}
+                onChange={(e) => setTrackedFrom(e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">Earlier purchases and sales don&apos;t count</p>
+            </div>
+            {!isEditing && (
+              <div className="space-y-2">
+                <Label htmlFor="stock-item-opening">Opening Stock ({unitLabel})</Label>
+                <Input
+                  id="stock-item-opening"
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={openingStock}
+                  onChange={(e) => setOpeningStock(e.target.value)}
+                  placeholder="0"
+                />
+                <p className="text-xs text-muted-foreground">What&apos;s on the shelf when tracking starts</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Stock Item"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,159 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  formatStockQuantity,
+  insertStockMovement,
+  type StockLevel,
+  type StockMovement,
+  type StockMovementType,
+} from "@/lib/supabase-inventory"
+import { today } from "@/lib/dates"
+
+interface StockMovementFormProps {
+  level: StockLevel
+  // Record stock taken out for usage or waste, or the quantity counted in a stock take
+  movementType: StockMovementType
+  onSuccess: (movement: StockMovement) => void
+  onCancel?: () => void
+}
+
+export default function StockMovementForm({ level, movementType, onSuccess, onCancel }: StockMovementFormProps) {
+  const { item } = level
+  const isStocktake = movementType === "stocktake"
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [date, setDate] = useState(today())
+  const [quantity, setQuantity] = useState("")
+  const [note, setNote] = useState("")
+
+  const unitLabel = item.stock_unit === "pcs" ? "pcs" : "g"
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const parsedQuantity = Number.parseFloat(quantity)
+    if (Number.isNaN(parsedQuantity) || parsedQuantity < 0 || (!isStocktake && parsedQuantity === 0)) {
+      setError(isStocktake ? "Please enter the counted quantity" : "Please enter a quantity greater than zero")
+      return
+    }
+
+    if (date < item.tracked_from) {
+      setError("Please pick a date on or after the item started being tracked")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const saved = await insertStockMovement({
+        stock_item_id: item.id,
+        date,
+        movement_type: movementType,
+        quantity: parsedQuantity,
+        note: note.trim() || undefined,
+      })
+
+      onSuccess(saved)
+    } catch (err) {
+      console.error("Error saving stock movement:", err)
+      setError(isStocktake ? "Failed to save stock take" : "Failed to record usage")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>
+            {isStocktake ? "Stock Take" : "Record Usage"}: {item.name}
+          </CardTitle>
+          <CardDescription>
+            {isStocktake
+              ? `Enter what's on the shelf. Records suggest ${formatStockQuantity(level.onHand, item.stock_unit)}.`
+              : "Take stock out for use in production, samples or waste"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-movement-quantity">
+                {isStocktake ? "Counted Quantity" : "Quantity Used"} ({unitLabel}) *
+              </Label>
+              <Input
+                id="stock-movement-quantity"
+                type="number"
+                step="any"
+                min="0"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-movement-date">Date *</Label>
+              <Input
+                id="stock-movement-date"
+                type="date"
+                value={date}
+                min={item.tracked_from}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stock-movement-note">Note</Label>
+            <Textarea
+              id="stock-movement-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={isStocktake ? "Optional notes about the count" : "e.g. Spoiled, used for samples"}
+              rows={2}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isStocktake ? (
+              "Save Stock Take"
+            ) : (
+              "Record Usage"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
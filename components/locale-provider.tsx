@@ -0,0 +1,86 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, Fragment, useCallback, useContext, useEffect, useState } from "react"
+import { useAuth } from "@/components/auth/auth-provider"
+import { fetchProfile } from "@/lib/supabase"
+import { fetchBusinessSettings } from "@/lib/supabase-settings"
+import { getBaseCurrency, getLocale, setBaseCurrency, setLocale } from "@/lib/format"
+import { getTimeZone, setTimeZone } from "@/lib/dates"
+
+type LocaleContextType = {
+  locale?: string
+  baseCurrency: string
+  // Business timezone used for "today" and for bucketing timestamps into days and months
+  timeZone: string
+  // Apply a new preference immediately, e.g. after saving it on the profile or settings page
+  changeLocale: (locale?: string | null) => void
+  changeBaseCurrency: (currency?: string | null) => void
+  changeTimeZone: (timeZone?: string | null) => void
+}
+
+const LocaleContext = createContext<LocaleContextType>({
+  locale: undefined,
+  baseCurrency: getBaseCurrency(),
+  timeZone: getTimeZone(),
+  changeLocale: () => {},
+  changeBaseCurrency: () => {},
+  changeTimeZone: () => {},
+})
+
+export const useLocale = () => useContext(LocaleContext)
+
+export default function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const [locale, setLocaleState] = useState(getLocale())
+  const [baseCurrency, setBaseCurrencyState] = useState(getBaseCurrency())
+  const [timeZone, setTimeZoneState] = useState(getTimeZone())
+
+  const changeLocale = useCallback((next?: string | null) => {
+    setLocale(next)
+    setLocaleState(getLocale())
+  }, [])
+
+  const changeBaseCurrency = useCallback((next?: string | null) => {
+    setBaseCurrency(next)
+    setBaseCurrencyState(getBaseCurrency())
+  }, [])
+
+  const changeTimeZone = useCallback((next?: string | null) => {
+    setTimeZone(next)
+    setTimeZoneState(getTimeZone())
+  }, [])
+
+  // The cached values are usually current; refresh them in case they were changed on another device
+  useEffect(() => {
+    if (!user) return
+
+    const loadPreferences = async () => {
+      try {
+        const [profile, businessSettings] = await Promise.all([fetchProfile(user.id), fetchBusinessSettings()])
+        if ((profile.locale || undefined) !== getLocale()) changeLocale(profile.locale)
+        if (businessSettings.base_currency !== getBaseCurrency()) changeBaseCurrency(businessSettings.base_currency)
+        if (businessSettings.timezone !== getTimeZone()) changeTimeZone(businessSettings.timezone)
+      } catch (error) {
+        console.error("Error loading locale preferences:", error)
+      }
+    }
+
+    loadPreferences()
+  }, [user, changeLocale, changeBaseCurrency, changeTimeZone])
+
+  useEffect(() => {
+    document.documentElement.lang = locale || navigator.language
+  }, [locale])
+
+  // The format and date helpers read the active preferences while rendering and loading, so remount the
+  // pages when one changes
+  return (
+    <LocaleContext.Provider
+      value={{ locale, baseCurrency, timeZone, changeLocale, changeBaseCurrency, changeTimeZone }}
+    >
+      <Fragment key={`${locale || "browser"}-${baseCurrency}-${timeZone}`}>{children}</Fragment>
+    </LocaleContext.Provider>
+  )
+}
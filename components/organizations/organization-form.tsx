@@ -0,0 +1,106 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { createOrganization, renameOrganization, type Organization } from "@/lib/supabase-organizations"
+
+interface OrganizationFormProps {
+  // When provided, the form renames this organization instead of creating a new one
+  organization?: Organization
+  onSuccess: (organizationId: number) => void
+  onCancel?: () => void
+}
+
+export default function OrganizationForm({ organization, onSuccess, onCancel }: OrganizationFormProps) {
+  const isEditing = !!organization
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [name, setName] = useState(organization?.name || "")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError("Please enter a name")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      if (isEditing) {
+        onSuccess((await renameOrganization(organization.id, name.trim())).id)
+        return
+      }
+
+      onSuccess(await createOrganization(name.trim()))
+    } catch (err) {
+      console.error("Error saving organization:", err)
+      setError(isEditing ? "Failed to rename organization" : "Failed to create organization")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Rename Organization" : "New Organization"}</CardTitle>
+          <CardDescription>
+            {isEditing
+              ? "The name everyone in the organization sees"
+              : "Start a separate set of books for another business. You'll be its owner."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">Name *</Label>
+            <Input
+              id="organization-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Parsley Bakery"
+              required
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Create Organization"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Building2, Check, ChevronsUpDown, Loader2, Mail, Pencil, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useAuth } from "@/components/auth/auth-provider"
+import OrganizationForm from "@/components/organizations/organization-form"
+import { ROLE_LABELS } from "@/lib/permissions"
+import {
+  acceptInvitation,
+  deleteInvitation,
+  fetchMyInvitations,
+  type Invitation,
+} from "@/lib/supabase-organizations"
+
+// Shows the active organization, switches between the user's organizations and accepts invitations
+export default function OrganizationSwitcher() {
+  const { user, organizations, organization, switchOrganization, refreshOrganizations } = useAuth()
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [switching, setSwitching] = useState(false)
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showRenameDialog, setShowRenameDialog] = useState(false)
+
+  const email = user?.email
+  useEffect(() => {
+    if (!email) return
+
+    const loadInvitations = async () => {
+      setInvitations(await fetchMyInvitations(email))
+    }
+
+    loadInvitations()
+  }, [email])
+
+  const handleSwitch = async (organizationId: number) => {
+    if (organizationId === organization?.organization.id) return
+
+    try {
+      setSwitching(true)
+      await switchOrganization(organizationId)
+    } catch (err) {
+      console.error("Error switching organization:", err)
+      setSwitching(false)
+    }
+  }
+
+  const handleAccept = async (invitation: Invitation) => {
+    try {
+      setSwitching(true)
+      await switchOrganization(await acceptInvitation(invitation.id))
+    } catch (err) {
+      console.error("Error accepting invitation:", err)
+      setSwitching(false)
+    }
+  }
+
+  const handleDecline = async (invitation: Invitation) => {
+    try {
+      await deleteInvitation(invitation.id)
+      setInvitations((current) => current.filter((other) => other.id !== invitation.id))
+    } catch (err) {
+      console.error("Error declining invitation:", err)
+    }
+  }
+
+  if (!user) return null
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-[220px] gap-2" disabled={switching}>
+            {switching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Building2 className="h-4 w-4" />}
+            <span className="truncate">{organization?.organization.name || "No organization"}</span>
+            {invitations.length > 0 && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" />}
+            <ChevronsUpDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Organizations</DropdownMenuLabel>
+          {organizations.map((membership) => (
+            <DropdownMenuItem
+              key={membership.organization.id}
+              onClick={() => handleSwitch(membership.organization.id)}
+            >
+              <Check
+                className={`mr-2 h-4 w-4 ${
+                  membership.organization.id === organization?.organization.id ? "opacity-100" : "opacity-0"
+                }`}
+              />
+              <span className="flex-1 truncate">{membership.organization.name}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{ROLE_LABELS[membership.role]}</span>
+            </DropdownMenuItem>
+          ))}
+
+          {invitations.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Invitations</DropdownMenuLabel>
+              {invitations.map((invitation) => (
+                <DropdownMenuItem key={invitation.id} onClick={() => handleAccept(invitation)}>
+                  <Mail className="mr-2 h-4 w-4" />
+                  <span className="flex-1 truncate">
+                    Join {invitation.organization?.name || "organization"} as {ROLE_LABELS[invitation.role]}
+                  </span>
+                  <button
+                    type="button"
+                    className="ml-2 text-xs text-muted-foreground hover:text-destructive"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDecline(invitation)
+                    }}
+                  >
+                    Decline
+                  </button>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          {organization?.role === "owner" && (
+            <DropdownMenuItem onClick={() => setShowRenameDialog(true)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Rename Organization
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setShowCreateDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Organization
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={showCreateDialog || showRenameDialog}
+        onOpenChange={(open) => {
+          if (!open) {
+            setShowCreateDialog(false)
+            setShowRenameDialog(false)
+          }
+        }}
+      >
+        <DialogContent className="max-w-lg p-0 border-0">
+          <DialogTitle className="sr-only">{showRenameDialog ? "Rename Organization" : "New Organization"}</DialogTitle>
+          <OrganizationForm
+            organization={showRenameDialog ? organization?.organization : undefined}
+            onSuccess={async (organizationId) => {
+              if (showRenameDialog) {
+                setShowRenameDialog(false)
+                await refreshOrganizations()
+                return
+              }
+              setShowCreateDialog(false)
+              await handleSwitch(organizationId)
+            }}
+            onCancel={() => {
+              setShowCreateDialog(false)
+              setShowRenameDialog(false)
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  estimateOrderCost,
+  saveOrderItems,
+  type OrderItem,
+  type Product,
+  type ProductCost,
+} from "@/lib/supabase-products"
+import { formatMoney } from "@/lib/format"
+
+interface OrderItemsFormProps {
+  orderId: number
+  orderNumber: string
+  items: OrderItem[]
+  products: Product[]
+  // Unit costs keyed by product id, for the cost of goods preview
+  productCosts: Map<number, ProductCost>
+  onSuccess: (items: OrderItem[]) => void
+  onCancel?: () => void
+}
+
+type ItemRow = {
+  productId: string
+  quantity: string
+}
+
+const emptyRow = (): ItemRow => ({ productId: "", quantity: "1" })
+
+export default function OrderItemsForm({
+  orderId,
+  orderNumber,
+  items,
+  products,
+  productCosts,
+  onSuccess,
+  onCancel,
+}: OrderItemsFormProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rows, setRows] = useState<ItemRow[]>(
+    items.length > 0
+      ? items.map((item) => ({ productId: item.product_id.toString(), quantity: item.quantity.toString() }))
+      : [emptyRow()],
+  )
+
+  // Archived products can't be added, but stay selectable on the rows that already have them
+  const selectableProducts = products.filter(
+    (product) => !product.archived || items.some((item) => item.product_id === product.id),
+  )
+
+  const updateRow = (index: number, changes: Partial<ItemRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const removeRow = (index: number) => {
+    setRows((current) => (current.length > 1 ? current.filter((_, i) => i !== index) : [emptyRow()]))
+  }
+
+  const parsedItems = rows
+    .map((row) => ({ product_id: Number.parseInt(row.productId), quantity: Number.parseFloat(row.quantity) }))
+    .filter((item) => item.product_id > 0 && item.quantity > 0)
+
+  const estimate = estimateOrderCost(parsedItems.map((item) => ({ ...item, order_id: orderId })), productCosts)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (rows.some((row) => row.productId && !(Number.parseFloat(row.quantity) > 0))) {
+      setError("Please enter a quantity greater than zero for every product")
+      return
+    }
+
+    if (new Set(parsedItems.map((item) => item.product_id)).size !== parsedItems.length) {
+      setError("Each product can only be listed once")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      onSuccess(await saveOrderItems(orderId, parsedItems))
+    } catch (err) {
+      console.error("Error saving order items:", err)
+      setError("Failed to save the products on this order")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>Products on Order #{orderNumber}</CardTitle>
+          <CardDescription>What was sold, used to estimate the order&apos;s cost of goods</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {selectableProducts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Add products with a recipe on the Products page first.</p>
+          ) : (
+            <div className="space-y-2">
+              <Label>Products</Label>
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_100px_auto] items-center gap-2">
+                  <Select value={row.productId} onValueChange={(value) => updateRow(index, { productId: value })}>
+                    <SelectTrigger aria-label="Product">
+                      <SelectValue placeholder="Select a product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectableProducts.map((product) => (
+                        <SelectItem key={product.id} value={product.id.toString()}>
+                          {product.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={row.quantity}
+                    onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                    aria-label="Quantity"
+                  />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeRow(index)}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove product</span>
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow()])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Product
+              </Button>
+            </div>
+          )}
+
+          <p className="text-sm">
+            Estimated cost of goods: <span className="font-medium">{formatMoney(estimate.cost)}</span>
+            {!estimate.complete && (
+              <span className="text-amber-600"> (some ingredients have no purchase price)</span>
+            )}
+          </p>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Products"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
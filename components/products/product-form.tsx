@@ -0,0 +1,319 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useLocale } from "@/components/locale-provider"
+import {
+  costProduct,
+  insertProduct,
+  updateProduct,
+  type CostBasis,
+  type IngredientCost,
+  type Product,
+} from "@/lib/supabase-products"
+import { formatMoney, formatPercent } from "@/lib/format"
+
+interface ProductFormProps {
+  // When provided, the form edits this product instead of creating a new one
+  product?: Product
+  // Names of the ingredients bought so far, offered as suggestions so recipes match their purchases
+  ingredientNames: string[]
+  // Ingredient costs keyed by ingredientKey, for the cost preview
+  costs: Map<string, IngredientCost>
+  onSuccess: (product: Product) => void
+  onCancel?: () => void
+}
+
+type IngredientRow = {
+  ingredient: string
+  weight: string
+}
+
+const emptyRow = (): IngredientRow => ({ ingredient: "", weight: "" })
+
+export default function ProductForm({ product, ingredientNames, costs, onSuccess, onCancel }: ProductFormProps) {
+  const { baseCurrency } = useLocale()
+  const isEditing = !!product
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [name, setName] = useState(product?.name || "")
+  const [description, setDescription] = useState(product?.description || "")
+  const [sellingPrice, setSellingPrice] = useState(product?.selling_price.toString() || "")
+  const [batchYield, setBatchYield] = useState(product?.batch_yield.toString() || "1")
+  const [costBasis, setCostBasis] = useState<CostBasis>(product?.cost_basis || "latest")
+  const [archived, setArchived] = useState(product?.archived || false)
+  const [rows, setRows] = useState<IngredientRow[]>(
+    product && product.ingredients.length > 0
+      ? product.ingredients.map((ingredient) => ({
+          ingredient: ingredient.ingredient,
+          weight: ingredient.weight_grams.toString(),
+        }))
+      : [emptyRow()],
+  )
+
+  const updateRow = (index: number, changes: Partial<IngredientRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const removeRow = (index: number) => {
+    setRows((current) => (current.length > 1 ? current.filter((_, i) => i !== index) : [emptyRow()]))
+  }
+
+  // Rows with both an ingredient and a weight; half-filled rows are ignored until they're completed
+  const ingredients = rows
+    .map((row) => ({ ingredient: row.ingredient.trim(), weight_grams: Number.parseFloat(row.weight) }))
+    .filter((row) => row.ingredient && row.weight_grams > 0)
+
+  const preview = costProduct(
+    {
+      ingredients,
+      selling_price: Number.parseFloat(sellingPrice) || 0,
+      batch_yield: Number.parseFloat(batchYield) || 1,
+      cost_basis: costBasis,
+    },
+    costs,
+  )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError("Please enter a product name")
+      return
+    }
+
+    const parsedPrice = Number.parseFloat(sellingPrice)
+    if (Number.isNaN(parsedPrice) || parsedPrice < 0) {
+      setError("Please enter a valid selling price")
+      return
+    }
+
+    const parsedYield = Number.parseFloat(batchYield)
+    if (Number.isNaN(parsedYield) || parsedYield <= 0) {
+      setError("Please enter how many units a batch makes")
+      return
+    }
+
+    if (rows.some((row) => row.ingredient.trim() && !(Number.parseFloat(row.weight) > 0))) {
+      setError("Please enter a weight for every ingredient")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const productData = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        selling_price: parsedPrice,
+        batch_yield: parsedYield,
+        cost_basis: costBasis,
+        archived,
+        ingredients,
+      }
+
+      const saved = isEditing ? await updateProduct(product.id, productData) : await insertProduct(productData)
+
+      onSuccess({ ...saved, ingredients })
+    } catch (err) {
+      console.error("Error saving product:", err)
+      setError(isEditing ? "Failed to update product" : "Failed to add product")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Product" : "Add New Product"}</CardTitle>
+          <CardDescription>
+            List the ingredients one batch uses. Prices are in {baseCurrency} and costs come from ingredient
+            purchases with the same description.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 max-h-[70vh] overflow-y-auto">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="product-name">Name *</Label>
+            <Input
+              id="product-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Parsley pesto 200g"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="product-price">Selling Price *</Label>
+              <Input
+                id="product-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={sellingPrice}
+                onChange={(e) => setSellingPrice(e.target.value)}
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-yield">Units per Batch *</Label>
+              <Input
+                id="product-yield"
+                type="number"
+                step="any"
+                min="0"
+                value={batchYield}
+                onChange={(e) => setBatchYield(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-cost-basis">Ingredient Cost</Label>
+              <Select value={costBasis} onValueChange={(value: CostBasis) => setCostBasis(value)}>
+                <SelectTrigger id="product-cost-basis">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="latest">Latest price</SelectItem>
+                  <SelectItem value="average">Average price</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Recipe</Label>
+            <datalist id="product-ingredient-names">
+              {ingredientNames.map((ingredientName) => (
+                <option key={ingredientName} value={ingredientName} />
+              ))}
+            </datalist>
+            {rows.map((row, index) => {
+              const line = preview.lines.find((previewLine) => previewLine.ingredient === row.ingredient.trim())
+
+              return (
+                <div key={index} className="grid grid-cols-[1fr_110px_100px_auto] items-center gap-2">
+                  <Input
+                    value={row.ingredient}
+                    onChange={(e) => updateRow(index, { ingredient: e.target.value })}
+                    placeholder="Ingredient"
+                    list="product-ingredient-names"
+                    aria-label="Ingredient"
+                  />
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={row.weight}
+                    onChange={(e) => updateRow(index, { weight: e.target.value })}
+                    placeholder="Grams"
+                    aria-label="Weight in grams"
+                  />
+                  <span className="text-right text-sm text-muted-foreground">
+                    {line ? (line.cost === undefined ? "No price" : formatMoney(line.cost)) : "-"}
+                  </span>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeRow(index)}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove ingredient</span>
+                  </Button>
+                </div>
+              )
+            })}
+            <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Ingredient
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 rounded-md border p-3 text-sm">
+            <div>
+              <p className="text-muted-foreground">Batch Cost</p>
+              <p className="font-medium">{formatMoney(preview.batchCost)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Cost per Unit</p>
+              <p className="font-medium">{formatMoney(preview.unitCost)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Margin</p>
+              <p className={`font-medium ${preview.margin < 0 ? "text-red-600" : ""}`}>
+                {formatMoney(preview.margin)}
+                {preview.marginPercent !== undefined && ` (${formatPercent(preview.marginPercent)})`}
+              </p>
+            </div>
+            {preview.missingIngredients.length > 0 && (
+              <p className="col-span-3 text-xs text-amber-600">
+                No costed purchases found for {preview.missingIngredients.join(", ")}, so the cost is understated.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="product-description">Description</Label>
+            <Textarea
+              id="product-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional notes about this product"
+              rows={2}
+            />
+          </div>
+
+          {isEditing && (
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="product-archived">Archived</Label>
+                <p className="text-xs text-muted-foreground">
+                  Archived products stay on past orders but can&apos;t be added to new ones
+                </p>
+              </div>
+              <Switch id="product-archived" checked={archived} onCheckedChange={setArchived} />
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Product"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import type { Order } from "@/lib/supabase-revenue"
+import { fetchOrderPayments, recordOrderPayment, type OrderPayment, type Receivable } from "@/lib/supabase-receivables"
+import { formatDate, formatMoney } from "@/lib/format"
+
+interface PaymentFormProps {
+  receivable: Receivable
+  onSuccess: (order: Order) => void
+  onCancel?: () => void
+}
+
+export default function PaymentForm({ receivable, onSuccess, onCancel }: PaymentFormProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [payments, setPayments] = useState<OrderPayment[]>([])
+
+  // Form state
+  const [amount, setAmount] = useState(receivable.balance.toFixed(2))
+  const [paidAt, setPaidAt] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [paymentMethod, setPaymentMethod] = useState(receivable.payment_method || "")
+  const [note, setNote] = useState("")
+
+  useEffect(() => {
+    const loadPayments = async () => {
+      setPayments(await fetchOrderPayments(receivable.id))
+    }
+
+    loadPayments()
+  }, [receivable.id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const parsedAmount = Number.parseFloat(amount)
+    if (Number.isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError("Please enter a payment amount greater than zero")
+      return
+    }
+
+    if (parsedAmount > receivable.balance + 0.005) {
+      const balance = formatMoney(receivable.balance, receivable.currency)
+      setError(`The payment can't be more than the outstanding balance of ${balance}`)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const order = await recordOrderPayment({
+        order_id: receivable.id,
+        amount: parsedAmount,
+        paid_at: paidAt,
+        payment_method: paymentMethod.trim() || undefined,
+        note: note.trim() || undefined,
+      })
+
+      onSuccess(order)
+    } catch (err) {
+      console.error("Error recording payment:", err)
+      setError("Failed to record payment")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>Record Payment</CardTitle>
+          <CardDescription>
+            Order #{receivable.order_number}
+            {receivable.customer_name && ` for ${receivable.customer_name}`} &middot;{" "}
+            {`${formatMoney(receivable.balance, receivable.currency)} outstanding`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount *</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                max={receivable.balance.toFixed(2)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date Received *</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paidAt}
+                onChange={(e) => setPaidAt(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-method">Payment Method</Label>
+            <Input
+              id="payment-method"
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value)}
+              placeholder="e.g. Card, Bank transfer, Cash"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-note">Note</Label>
+            <Textarea
+              id="payment-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional notes about this payment"
+              rows={2}
+            />
+          </div>
+
+          {payments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Previous Payments</Label>
+              <div className="rounded-md border divide-y text-sm">
+                {payments.map((payment) => (
+                  <div key={payment.id} className="flex items-center justify-between px-3 py-2">
+                    <span>
+                      {formatDate(payment.paid_at)}
+                      {payment.payment_method && (
+                        <span className="text-muted-foreground"> &middot; {payment.payment_method}</span>
+                      )}
+                    </span>
+                    <span className="font-medium">{formatMoney(Number(payment.amount), receivable.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Record Payment"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
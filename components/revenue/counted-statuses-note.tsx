@@ -0,0 +1,32 @@
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+interface CountedStatusesNoteProps {
+  // Payment statuses that were counted as revenue
+  statuses: string[]
+  className?: string
+}
+
+// States which order payment statuses a report counted as revenue, with a link to change them
+export default function CountedStatusesNote({ statuses, className }: CountedStatusesNoteProps) {
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2 text-xs text-muted-foreground", className)}>
+      {statuses.length > 0 ? (
+        <>
+          <span>Order revenue counts payment statuses:</span>
+          {statuses.map((status) => (
+            <Badge key={status} variant="outline" className="font-medium">
+              {status}
+            </Badge>
+          ))}
+        </>
+      ) : (
+        <span>No payment status is counted as paid, so orders are left out of revenue.</span>
+      )}
+      <Link href="/dashboard/settings" className="underline underline-offset-4 hover:text-primary">
+        Change in settings
+      </Link>
+    </div>
+  )
+}
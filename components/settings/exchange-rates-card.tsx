@@ -0,0 +1,288 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { AlertTriangle, Loader2, Plus, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { currencyOptions, parseExchangeRateCsv, type ExchangeRate } from "@/lib/currency"
+import {
+  deleteExchangeRate,
+  fetchCurrenciesMissingRates,
+  fetchExchangeRates,
+  upsertExchangeRates,
+} from "@/lib/supabase-currency"
+import { formatDate } from "@/lib/format"
+
+type ExchangeRatesCardProps = {
+  baseCurrency: string
+}
+
+export default function ExchangeRatesCard({ baseCurrency }: ExchangeRatesCardProps) {
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [missingCurrencies, setMissingCurrencies] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [importErrors, setImportErrors] = useState<string[]>([])
+
+  const [rateDate, setRateDate] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [fromCurrency, setFromCurrency] = useState("")
+  const [toCurrency, setToCurrency] = useState(baseCurrency)
+  const [rate, setRate] = useState("")
+
+  const loadRates = async () => {
+    try {
+      setLoading(true)
+      const [ratesData, missingData] = await Promise.all([fetchExchangeRates(), fetchCurrenciesMissingRates()])
+      setRates(ratesData)
+      setMissingCurrencies(missingData)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRates()
+  }, [baseCurrency])
+
+  useEffect(() => {
+    setToCurrency(baseCurrency)
+  }, [baseCurrency])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(null)
+    setImportErrors([])
+
+    const value = Number.parseFloat(rate)
+    if (!fromCurrency || !rateDate || !(value > 0)) {
+      setError("Please enter a date, a currency and a rate greater than zero")
+      return
+    }
+
+    if (fromCurrency === toCurrency) {
+      setError("Choose two different currencies")
+      return
+    }
+
+    try {
+      setSaving(true)
+      await upsertExchangeRates([
+        { from_currency: fromCurrency, to_currency: toCurrency, rate_date: rateDate, rate: value, source: "manual" },
+      ])
+      setRate("")
+      setSuccess("Exchange rate saved")
+      await loadRates()
+    } catch (err) {
+      console.error("Error saving exchange rate:", err)
+      setError("Failed to save exchange rate")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    setError(null)
+    setSuccess(null)
+
+    const { rates: imported, errors } = parseExchangeRateCsv(await file.text(), baseCurrency)
+    setImportErrors(errors)
+
+    if (imported.length === 0) {
+      if (errors.length === 0) setError("The file doesn't contain any rates")
+      return
+    }
+
+    try {
+      setSaving(true)
+      await upsertExchangeRates(imported.map((row) => ({ ...row, source: "import" })))
+      setSuccess(`Imported ${imported.length} exchange ${imported.length === 1 ? "rate" : "rates"}`)
+      await loadRates()
+    } catch (err) {
+      console.error("Error importing exchange rates:", err)
+      setError("Failed to import exchange rates")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    try {
+      setError(null)
+      setSuccess(null)
+      await deleteExchangeRate(id)
+      await loadRates()
+    } catch (err) {
+      console.error("Error deleting exchange rate:", err)
+      setError("Failed to delete exchange rate")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <CardDescription>
+          Each amount is converted with the latest rate on or before its date. Import a CSV with date, currency and
+          rate columns (plus an optional to_currency column) to add many rates at once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {missingCurrencies.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Missing exchange rates</AlertTitle>
+            <AlertDescription>
+              Amounts in {missingCurrencies.join(", ")} are left out of totals until a rate into {baseCurrency} is
+              added.
+            </AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {importErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <p>Some rows were skipped:</p>
+              <ul className="list-disc pl-4">
+                {importErrors.slice(0, 5).map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+              {importErrors.length > 5 && <p>and {importErrors.length - 5} more</p>}
+            </AlertDescription>
+          </Alert>
+        )}
+        {success && <div className="bg-green-500/15 text-green-600 px-4 py-2 rounded-md text-sm">{success}</div>}
+
+        <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="rate-date">Date</Label>
+            <Input id="rate-date" type="date" value={rateDate} onChange={(e) => setRateDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-from">From</Label>
+            <Select value={fromCurrency} onValueChange={setFromCurrency}>
+              <SelectTrigger id="rate-from">
+                <SelectValue placeholder="Currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions(...missingCurrencies).map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-to">To</Label>
+            <Select value={toCurrency} onValueChange={setToCurrency}>
+              <SelectTrigger id="rate-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions(baseCurrency).map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-value">Rate</Label>
+            <Input
+              id="rate-value"
+              type="number"
+              step="0.00000001"
+              min="0"
+              placeholder="1.0000"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Rate
+          </Button>
+        </form>
+
+        <div className="space-y-2 md:max-w-sm">
+          <Label htmlFor="rate-file">Import CSV</Label>
+          <div className="flex items-center gap-2">
+            <Upload className="h-4 w-4 text-muted-foreground" />
+            <Input id="rate-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={saving} />
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Currencies</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <Loader2 className="h-4 w-4 animate-spin inline-block" />
+                  </TableCell>
+                </TableRow>
+              ) : rates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    No exchange rates found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rates.map((exchangeRate) => (
+                  <TableRow key={exchangeRate.id}>
+                    <TableCell>{formatDate(exchangeRate.rate_date)}</TableCell>
+                    <TableCell>
+                      {exchangeRate.from_currency} → {exchangeRate.to_currency}
+                    </TableCell>
+                    <TableCell className="text-right">{exchangeRate.rate}</TableCell>
+                    <TableCell className="capitalize">{exchangeRate.source}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleDelete(exchangeRate.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete rate</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
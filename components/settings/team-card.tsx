@@ -0,0 +1,266 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Loader2, Trash2, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useAuth } from "@/components/auth/auth-provider"
+import { DEFAULT_ROLE, ROLE_DESCRIPTIONS, ROLE_LABELS, ROLES, type Role } from "@/lib/permissions"
+import { deleteInvitation, type Invitation } from "@/lib/supabase-organizations"
+import {
+  fetchInvitations,
+  fetchTeamMembers,
+  inviteMember,
+  removeMember,
+  updateMemberRole,
+  type TeamMember,
+} from "@/lib/supabase-team"
+import { formatDate } from "@/lib/format"
+
+// Members of the active organization and the people invited to it
+export default function TeamCard() {
+  const { user, organization, refreshOrganizations } = useAuth()
+  const organizationId = organization?.organization.id
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<Role>(DEFAULT_ROLE)
+
+  useEffect(() => {
+    if (!organizationId) return
+
+    const loadTeam = async () => {
+      try {
+        setLoading(true)
+        const [membersData, invitationsData] = await Promise.all([
+          fetchTeamMembers(organizationId),
+          fetchInvitations(organizationId),
+        ])
+        setMembers(membersData)
+        setInvitations(invitationsData)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadTeam()
+  }, [organizationId])
+
+  const runChange = async (change: () => Promise<string>) => {
+    try {
+      setSaving(true)
+      setError(null)
+      setSuccess(null)
+      setSuccess(await change())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update the team")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const memberName = (member: TeamMember) => member.full_name || member.email
+
+  const handleRoleChange = (member: TeamMember, role: Role) =>
+    runChange(async () => {
+      await updateMemberRole(organizationId as number, member.id, role)
+      setMembers((current) => current.map((other) => (other.id === member.id ? { ...other, role } : other)))
+      // The signed-in user's own role decides what they see
+      if (member.id === user?.id) await refreshOrganizations()
+      return `${memberName(member)} is now ${ROLE_LABELS[role].toLowerCase()}`
+    })
+
+  const handleRemove = (member: TeamMember) =>
+    runChange(async () => {
+      await removeMember(organizationId as number, member.id)
+      setMembers((current) => current.filter((other) => other.id !== member.id))
+      return `${memberName(member)} was removed from ${organization?.organization.name}`
+    })
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!inviteEmail.includes("@")) {
+      setError("Please enter an email address")
+      return
+    }
+
+    if (members.some((member) => member.email.toLowerCase() === inviteEmail.trim().toLowerCase())) {
+      setError(`${inviteEmail.trim()} is already a member`)
+      return
+    }
+
+    runChange(async () => {
+      const invitation = await inviteMember(organizationId as number, inviteEmail, inviteRole)
+      setInvitations((current) => [...current, invitation])
+      setInviteEmail("")
+      return `Invited ${invitation.email}`
+    })
+  }
+
+  const handleCancelInvitation = (invitation: Invitation) =>
+    runChange(async () => {
+      await deleteInvitation(invitation.id)
+      setInvitations((current) => current.filter((other) => other.id !== invitation.id))
+      return `Cancelled the invitation for ${invitation.email}`
+    })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team</CardTitle>
+        <CardDescription>
+          Choose what everyone in {organization?.organization.name || "this organization"} can do. Invited people
+          join when they sign in with the invited email, or from the organization menu if they already have an
+          account; role changes apply the next time they open a page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {success && <div className="bg-green-500/15 text-green-600 px-4 py-2 rounded-md text-sm">{success}</div>}
+
+        <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="bookkeeper@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-role">Role</Label>
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
+              <SelectTrigger id="invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={saving || !organizationId}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+            Invite
+          </Button>
+        </form>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="w-[260px]">Role</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <Loader2 className="h-4 w-4 animate-spin inline-block" />
+                  </TableCell>
+                </TableRow>
+              ) : members.length === 0 && invitations.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    No team members found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <>
+                  {members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">
+                        {member.full_name || "-"}
+                        {member.id === user?.id && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </TableCell>
+                      <TableCell>{member.email}</TableCell>
+                      <TableCell>{formatDate(member.created_at)}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => handleRoleChange(member, value as Role)}
+                          disabled={saving}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="mt-1 text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[member.role]}</p>
+                      </TableCell>
+                      <TableCell>
+                        {member.id !== user?.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleRemove(member)}
+                            disabled={saving}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Remove member</span>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {invitations.map((invitation) => (
+                    <TableRow key={`invitation-${invitation.id}`} className="text-muted-foreground">
+                      <TableCell className="italic">Invited</TableCell>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell>{formatDate(invitation.created_at)}</TableCell>
+                      <TableCell>{ROLE_LABELS[invitation.role]}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleCancelInvitation(invitation)}
+                          disabled={saving}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Cancel invitation</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
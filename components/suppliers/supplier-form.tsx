@@ -0,0 +1,175 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { insertSupplier, updateSupplier, type Supplier } from "@/lib/supabase-suppliers"
+
+interface SupplierFormProps {
+  // When provided, the form edits this supplier instead of creating a new one
+  supplier?: Supplier
+  onSuccess: (supplier: Supplier) => void
+  onCancel?: () => void
+}
+
+export default function SupplierForm({ supplier, onSuccess, onCancel }: SupplierFormProps) {
+  const isEditing = !!supplier
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state
+  const [name, setName] = useState(supplier?.name || "")
+  const [contactName, setContactName] = useState(supplier?.contact_name || "")
+  const [email, setEmail] = useState(supplier?.email || "")
+  const [phone, setPhone] = useState(supplier?.phone || "")
+  const [address, setAddress] = useState(supplier?.address || "")
+  const [website, setWebsite] = useState(supplier?.website || "")
+  const [note, setNote] = useState(supplier?.note || "")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim()) {
+      setError("Please enter a supplier name")
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const supplierData = {
+        name: name.trim(),
+        contact_name: contactName || undefined,
+        email: email || undefined,
+        phone: phone || undefined,
+        address: address || undefined,
+        website: website || undefined,
+        note: note || undefined,
+      }
+
+      const saved = isEditing
+        ? await updateSupplier(supplier.id, supplierData)
+        : await insertSupplier(supplierData)
+
+      onSuccess(saved)
+    } catch (err) {
+      console.error("Error saving supplier:", err)
+      setError(isEditing ? "Failed to update supplier" : "Failed to add supplier")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle>{isEditing ? "Edit Supplier" : "Add New Supplier"}</CardTitle>
+          <CardDescription>
+            {isEditing ? "Update the supplier's details" : "Enter the details of the new supplier"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-name">Name *</Label>
+              <Input
+                id="supplier-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Supplier or shop name"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-contact">Contact Person</Label>
+              <Input
+                id="supplier-contact"
+                value={contactName}
+                onChange={(e) => setContactName(e.target.value)}
+                placeholder="Optional contact name"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input
+                id="supplier-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="orders@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-phone">Phone</Label>
+              <Input id="supplier-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-address">Address</Label>
+              <Input id="supplier-address" value={address} onChange={(e) => setAddress(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-website">Website</Label>
+              <Input
+                id="supplier-website"
+                value={website}
+                onChange={(e) => setWebsite(e.target.value)}
+                placeholder="https://"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplier-note">Note</Label>
+            <Textarea
+              id="supplier-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Payment terms, delivery days, etc."
+              rows={3}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : isEditing ? (
+              "Save Changes"
+            ) : (
+              "Add Supplier"
+            )}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,87 @@
+// Minimal CSV helpers for spreadsheet imports and exports.
+// Handles quoted fields, escaped quotes and newlines inside quotes, which covers
+// files saved from Excel, Numbers and Google Sheets.
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t"]
+
+// Pick the delimiter that occurs most often in the first line (outside quotes)
+export function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ""
+  let best = ","
+  let bestCount = 0
+
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    let count = 0
+    let inQuotes = false
+
+    for (const char of firstLine) {
+      if (char === '"') inQuotes = !inQuotes
+      else if (char === delimiter && !inQuotes) count++
+    }
+
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  })
+
+  return best
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)) {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines, which spreadsheets often leave at the end of a file
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+function escapeCsvCell(value: string | number | null | undefined, delimiter: string) {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][], delimiter = ",") {
+  return rows.map((row) => row.map((cell) => escapeCsvCell(cell, delimiter)).join(delimiter)).join("\r\n")
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest"
+import { parseExchangeRateCsv } from "./currency"
+
+describe("parseExchangeRateCsv", () => {
+  it("keeps three-decimal rates", () => {
+    const csv = "date,currency,rate\n2024-03-01,EUR,1.085\n2024-03-02,EUR,1.09"
+    const { rates, errors } = parseExchangeRateCsv(csv, "USD")
+
+    expect(errors).toEqual([])
+    expect(rates.map((rate) => rate.rate)).toEqual([1.085, 1.09])
+  })
+
+  it("reads decimal commas when no rate uses a point", () => {
+    const { rates } = parseExchangeRateCsv('date,currency,rate\n2024-03-01,USD,"0,922"\n2024-03-01,JPY,"0,0061"', "EUR")
+
+    expect(rates.map((rate) => rate.rate)).toEqual([0.922, 0.0061])
+  })
+
+  it("reads grouped rates", () => {
+    const { rates } = parseExchangeRateCsv('date,currency,rate\n2024-03-01,IDR,"15,650.5"', "USD")
+
+    expect(rates[0].rate).toBe(15650.5)
+  })
+})
@@ -0,0 +1,107 @@
+import { parseCsv } from "./csv"
+import { parseAmount, type DecimalSeparator } from "./expense-import"
+
+// Currencies and exchange rates. Amounts are stored in the currency they were recorded in and
+// converted to the base currency (business_settings.base_currency) by the database aggregations.
+
+export const DEFAULT_CURRENCY = "USD"
+
+// Offered in the currency pickers; any ISO 4217 code is accepted by the database
+export const COMMON_CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CHF",
+  "CAD",
+  "AUD",
+  "NZD",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+  "CZK",
+  "JPY",
+] as const
+
+export type ExchangeRate = {
+  id: number
+  // One unit of from_currency is worth `rate` units of to_currency
+  from_currency: string
+  to_currency: string
+  rate_date: string
+  rate: number
+  source: "manual" | "import"
+  created_at: string
+}
+
+export type NewExchangeRate = Omit<ExchangeRate, "id" | "created_at">
+
+export function isCurrencyCode(value: string) {
+  return /^[A-Z]{3}$/.test(value)
+}
+
+// Currency codes to offer in a picker: the common ones plus any extra codes already in use
+export function currencyOptions(...extra: (string | undefined)[]) {
+  const codes = new Set<string>(COMMON_CURRENCIES)
+  extra.forEach((code) => code && codes.add(code))
+  return Array.from(codes)
+}
+
+export type ExchangeRateImport = {
+  rates: Omit<NewExchangeRate, "source">[]
+  errors: string[]
+}
+
+// Rates often have three decimals ("1.085"), which parseAmount would read as thousands on their own, so the
+// decimal separator is decided once for the whole file: the last separator in a rate that has both, otherwise
+// a comma only when no rate contains a point
+function rateDecimalSeparator(values: string[]): DecimalSeparator {
+  const withBoth = values.find((value) => value.includes(",") && value.includes("."))
+  if (withBoth) return withBoth.lastIndexOf(",") > withBoth.lastIndexOf(".") ? "," : "."
+
+  return values.some((value) => value.includes(",")) && !values.some((value) => value.includes(".")) ? "," : "."
+}
+
+// Read rates from a CSV with the columns date, currency, rate and optionally to_currency.
+// Rows without a to_currency convert into the base currency. Dates must be yyyy-MM-dd.
+export function parseExchangeRateCsv(text: string, baseCurrency: string): ExchangeRateImport {
+  const [header = [], ...rows] = parseCsv(text).filter((row) => row.some((cell) => cell.trim() !== ""))
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const column = (...names: string[]) => columns.findIndex((name) => names.includes(name))
+
+  const dateColumn = column("date", "rate_date")
+  const fromColumn = column("currency", "from", "from_currency")
+  const toColumn = column("to", "to_currency")
+  const rateColumn = column("rate", "exchange_rate")
+
+  if (dateColumn < 0 || fromColumn < 0 || rateColumn < 0) {
+    return { rates: [], errors: ["The file needs date, currency and rate columns"] }
+  }
+
+  const rates: ExchangeRateImport["rates"] = []
+  const errors: string[] = []
+  const decimalSeparator = rateDecimalSeparator(rows.map((cells) => cells[rateColumn] || ""))
+
+  rows.forEach((cells, index) => {
+    // Row numbers match the spreadsheet, where row 1 is the header
+    const rowNumber = index + 2
+    const rateDate = (cells[dateColumn] || "").trim()
+    const fromCurrency = (cells[fromColumn] || "").trim().toUpperCase()
+    const toCurrency = toColumn >= 0 && cells[toColumn]?.trim() ? cells[toColumn].trim().toUpperCase() : baseCurrency
+    const rate = parseAmount(cells[rateColumn] || "", decimalSeparator)
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate)) {
+      errors.push(`Row ${rowNumber}: date must use the yyyy-MM-dd format`)
+    } else if (!isCurrencyCode(fromCurrency) || !isCurrencyCode(toCurrency)) {
+      errors.push(`Row ${rowNumber}: currencies must be 3-letter codes`)
+    } else if (fromCurrency === toCurrency) {
+      errors.push(`Row ${rowNumber}: ${fromCurrency} can't be converted into itself`)
+    } else if (rate === undefined || !(rate > 0)) {
+      errors.push(`Row ${rowNumber}: rate must be a number greater than zero`)
+    } else {
+      rates.push({ from_currency: fromCurrency, to_currency: toCurrency, rate_date: rateDate, rate })
+    }
+  })
+
+  return { rates, errors }
+}
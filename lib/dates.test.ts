@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { businessDate, monthsInRange, setTimeZone, startOfBusinessDay, timestampRange } from "./dates"
+
+afterEach(() => {
+  setTimeZone(null)
+})
+
+describe("startOfBusinessDay", () => {
+  it.each([
+    // New York springs forward at 02:00, after midnight, and falls back at 02:00
+    ["2024-03-10", "America/New_York", "2024-03-10T05:00:00.000Z"],
+    ["2024-03-11", "America/New_York", "2024-03-11T04:00:00.000Z"],
+    ["2024-11-03", "America/New_York", "2024-11-03T04:00:00.000Z"],
+    ["2024-11-04", "America/New_York", "2024-11-04T05:00:00.000Z"],
+    ["2024-03-31", "Europe/Amsterdam", "2024-03-30T23:00:00.000Z"],
+    ["2024-04-01", "Europe/Amsterdam", "2024-03-31T22:00:00.000Z"],
+    ["2024-04-07", "Australia/Sydney", "2024-04-06T13:00:00.000Z"],
+    ["2024-04-08", "Australia/Sydney", "2024-04-07T14:00:00.000Z"],
+  ])("starts %s at midnight in %s across DST changes", (date, timeZone, expected) => {
+    expect(startOfBusinessDay(date, timeZone)).toBe(expected)
+  })
+
+  it("starts the day at the first valid time when DST skips midnight", () => {
+    // Santiago moves from 00:00 -04 straight to 01:00 -03
+    expect(startOfBusinessDay("2024-09-08", "America/Santiago")).toBe("2024-09-08T04:00:00.000Z")
+  })
+
+  it("starts the year in the timezone rather than UTC", () => {
+    expect(startOfBusinessDay("2025-01-01", "Asia/Tokyo")).toBe("2024-12-31T15:00:00.000Z")
+    expect(startOfBusinessDay("2025-01-01", "America/Los_Angeles")).toBe("2025-01-01T08:00:00.000Z")
+  })
+
+  it("uses the business timezone by default", () => {
+    setTimeZone("Europe/Amsterdam")
+
+    expect(startOfBusinessDay("2024-07-01")).toBe("2024-06-30T22:00:00.000Z")
+  })
+})
+
+describe("businessDate", () => {
+  it.each([
+    // An evening order in New York counts towards the day it was placed, not the UTC date
+    ["2024-04-01T02:30:00Z", "America/New_York", "2024-03-31"],
+    ["2024-12-31T23:30:00Z", "Europe/Amsterdam", "2025-01-01"],
+    ["2025-01-01T04:59:59Z", "America/New_York", "2024-12-31"],
+    ["2024-02-29T15:00:00Z", "Asia/Tokyo", "2024-03-01"],
+    // The repeated hour when New York falls back
+    ["2024-11-03T05:30:00Z", "America/New_York", "2024-11-03"],
+    ["2024-03-10T07:30:00Z", "America/New_York", "2024-03-10"],
+  ])("dates %s as %s %s", (timestamp, timeZone, expected) => {
+    expect(businessDate(new Date(timestamp), timeZone)).toBe(expected)
+    expect(businessDate(timestamp, timeZone)).toBe(expected)
+  })
+
+  it("returns calendar dates unchanged", () => {
+    expect(businessDate("2024-12-31", "Pacific/Kiritimati")).toBe("2024-12-31")
+  })
+})
+
+describe("timestampRange", () => {
+  it("covers whole business days, ending at the start of the day after", () => {
+    setTimeZone("America/New_York")
+
+    expect(timestampRange("2024-03-01", "2024-03-31")).toEqual({
+      from: "2024-03-01T05:00:00.000Z",
+      to: "2024-04-01T04:00:00.000Z",
+    })
+  })
+
+  it("crosses month and year ends", () => {
+    setTimeZone("Europe/Amsterdam")
+
+    expect(timestampRange("2024-12-01", "2024-12-31")).toEqual({
+      from: "2024-11-30T23:00:00.000Z",
+      to: "2024-12-31T23:00:00.000Z",
+    })
+    expect(timestampRange("2024-02-29", "2024-02-29")).toEqual({
+      from: "2024-02-28T23:00:00.000Z",
+      to: "2024-02-29T23:00:00.000Z",
+    })
+  })
+
+  it("leaves out missing bounds", () => {
+    expect(timestampRange(undefined, "2024-01-31")).toEqual({ from: undefined, to: "2024-02-01T00:00:00.000Z" })
+    expect(timestampRange()).toEqual({ from: undefined, to: undefined })
+  })
+})
+
+describe("monthsInRange", () => {
+  it("lists every month touched by the range across a year end", () => {
+    expect(monthsInRange("2024-11-15", "2025-02-03")).toEqual([
+      "2024-11-01",
+      "2024-12-01",
+      "2025-01-01",
+      "2025-02-01",
+    ])
+  })
+
+  it("doesn't skip short months when starting at the end of a month", () => {
+    expect(monthsInRange("2024-01-31", "2024-03-01")).toEqual(["2024-01-01", "2024-02-01", "2024-03-01"])
+  })
+
+  it("returns a single month for a range within it", () => {
+    expect(monthsInRange("2024-02-01", "2024-02-29")).toEqual(["2024-02-01"])
+  })
+
+  it("returns nothing when the range ends before it starts", () => {
+    expect(monthsInRange("2024-05-01", "2024-04-30")).toEqual([])
+  })
+})
@@ -0,0 +1,169 @@
+import { readStoredSetting, writeStoredSetting } from "./stored-setting"
+
+// Calendar dates, month buckets and date ranges in the business timezone (business_settings.timezone).
+// Dates are passed around as yyyy-MM-dd strings and months as their first day, matching the DATE columns
+// and the month keys returned by the aggregation functions. Arithmetic on them is done in UTC, which has no
+// DST transitions, so "today" and "this month" are the only values that depend on a timezone at all.
+
+export const DEFAULT_TIME_ZONE = "UTC"
+
+const TIME_ZONE_STORAGE_KEY = "business_time_zone"
+
+let activeTimeZone = readStoredSetting(TIME_ZONE_STORAGE_KEY) || DEFAULT_TIME_ZONE
+
+export function getTimeZone() {
+  return activeTimeZone
+}
+
+export function setTimeZone(timeZone?: string | null) {
+  activeTimeZone = timeZone && isTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+  writeStoredSetting(TIME_ZONE_STORAGE_KEY, activeTimeZone === DEFAULT_TIME_ZONE ? undefined : activeTimeZone)
+}
+
+export function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// IANA timezones to offer in a picker, plus the current one if the browser doesn't list it
+export function timeZoneOptions(current?: string) {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : []
+  return Array.from(new Set([DEFAULT_TIME_ZONE, ...zones, ...(current ? [current] : [])]))
+}
+
+type DateParts = { year: number; month: number; day: number }
+
+function fromDateKey(value: string): DateParts {
+  const [year, month, day] = value.substring(0, 10).split("-").map(Number)
+  return { year, month, day: day || 1 }
+}
+
+function toDateKey({ year, month, day }: DateParts) {
+  // Date.UTC normalises overflowing months and days, e.g. month 13 is January of the next year
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return [
+    String(date.getUTCFullYear()).padStart(4, "0"),
+    String(date.getUTCMonth() + 1).padStart(2, "0"),
+    String(date.getUTCDate()).padStart(2, "0"),
+  ].join("-")
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>()
+
+// Wall-clock date and time of an instant in a timezone
+function zonedParts(instant: Date, timeZone: string) {
+  let formatter = partsFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+    partsFormatters.set(timeZone, formatter)
+  }
+
+  const parts: Record<string, number> = {}
+  formatter.formatToParts(instant).forEach((part) => {
+    if (part.type !== "literal") parts[part.type] = Number(part.value)
+  })
+  return parts
+}
+
+// Difference between the timezone's wall clock and UTC at an instant, in milliseconds
+function timeZoneOffset(instant: Date, timeZone: string) {
+  const parts = zonedParts(instant, timeZone)
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+// Calendar date of a value in the business timezone. Date-only values are already calendar dates and are
+// returned as they are; timestamps such as an order's created_at are converted.
+export function businessDate(value: string | Date = new Date(), timeZone = activeTimeZone) {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+
+  const instant = typeof value === "string" ? new Date(value) : value
+  const { year, month, day } = zonedParts(instant, timeZone)
+  return toDateKey({ year, month, day })
+}
+
+export function today() {
+  return businessDate()
+}
+
+// The instant a calendar day starts in the business timezone, as an ISO timestamp for filtering timestamp
+// columns. The offset is looked up twice because midnight can fall on the other side of a DST change. Where
+// DST skips midnight altogether the second guess lands on the evening before, and the day starts when the
+// clocks jump instead, as Postgres's AT TIME ZONE does.
+export function startOfBusinessDay(date: string, timeZone = activeTimeZone) {
+  const parts = fromDateKey(date)
+  const midnightUtc = Date.UTC(parts.year, parts.month - 1, parts.day)
+
+  const firstGuess = midnightUtc - timeZoneOffset(new Date(midnightUtc), timeZone)
+  const secondGuess = midnightUtc - timeZoneOffset(new Date(firstGuess), timeZone)
+  const instant = businessDate(new Date(secondGuess), timeZone) === toDateKey(parts) ? secondGuess : firstGuess
+
+  return new Date(instant).toISOString()
+}
+
+export function addDays(date: string, days: number) {
+  const parts = fromDateKey(date)
+  return toDateKey({ ...parts, day: parts.day + days })
+}
+
+// First day of the month containing a date, a timestamp or a yyyy-MM month, e.g. "2024-03-01"
+export function monthStart(value: string | Date = new Date()) {
+  const date = typeof value === "string" && /^\d{4}-\d{2}$/.test(value) ? `${value}-01` : businessDate(value)
+  const { year, month } = fromDateKey(date)
+  return toDateKey({ year, month, day: 1 })
+}
+
+export function addMonths(month: string, months: number) {
+  const { year, month: monthNumber } = fromDateKey(month)
+  return toDateKey({ year, month: monthNumber + months, day: 1 })
+}
+
+export type DateRange = {
+  // Inclusive yyyy-MM-dd bounds, as taken by the aggregation functions
+  from: string
+  to: string
+}
+
+export function monthRange(month: string): DateRange {
+  const start = monthStart(month)
+  return { from: start, to: addDays(addMonths(start, 1), -1) }
+}
+
+export function yearRange(year: number): DateRange {
+  return { from: `${year}-01-01`, to: `${year}-12-31` }
+}
+
+// Month keys from the month containing `from` up to the one containing `to`
+export function monthsInRange(from: string, to: string) {
+  const months: string[] = []
+  for (let month = monthStart(from); month <= to; month = addMonths(month, 1)) {
+    months.push(month)
+  }
+  return months
+}
+
+export function monthStartsOfYear(year: number) {
+  const { from, to } = yearRange(year)
+  return monthsInRange(from, to)
+}
+
+// Bounds for a timestamp column covering whole business days: from <= value < to
+export function timestampRange(from?: string, to?: string) {
+  return {
+    from: from ? startOfBusinessDay(from) : undefined,
+    to: to ? startOfBusinessDay(addDays(to, 1)) : undefined,
+  }
+}
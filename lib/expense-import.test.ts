@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { parseAmount } from "./expense-import"
+
+describe("parseAmount", () => {
+  it.each([
+    ["12.50", 12.5],
+    ["12,50", 12.5],
+    ["1,234", 1234],
+    ["1.234", 1234],
+    ["1,234,567", 1234567],
+    ["1.234.567", 1234567],
+    ["1,234.56", 1234.56],
+    ["1.234,56", 1234.56],
+    ["€ 1.234,56", 1234.56],
+    ["$1,234", 1234],
+    ["0.125", 0.125],
+    ["-1,234", -1234],
+    ["(45.00)", -45],
+  ])("detects the separators in %s", (value, expected) => {
+    expect(parseAmount(value)).toBe(expected)
+  })
+
+  it("uses the given decimal separator", () => {
+    expect(parseAmount("1.234", ".")).toBe(1.234)
+    expect(parseAmount("1,234", ",")).toBe(1.234)
+    expect(parseAmount("1.234,5", ",")).toBe(1234.5)
+    expect(parseAmount("1,234.5", ".")).toBe(1234.5)
+  })
+
+  it("returns undefined for empty cells and NaN for text", () => {
+    expect(parseAmount("  ")).toBeUndefined()
+    expect(parseAmount("1-2")).toBeNaN()
+  })
+})
@@ -0,0 +1,206 @@
+import { isValid, parse } from "date-fns"
+import { z } from "zod"
+import type { Category, Expense } from "./supabase"
+import type { Supplier } from "./supabase-suppliers"
+
+// Expense fields a spreadsheet column can be mapped to
+export const IMPORT_FIELDS = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "amount", label: "Amount", required: true },
+  { key: "currency", label: "Currency", required: false },
+  { key: "category", label: "Category", required: true },
+  { key: "supplier", label: "Supplier", required: false },
+  { key: "quantity", label: "Quantity", required: false },
+  { key: "unit", label: "Unit", required: false },
+  { key: "note", label: "Note", required: false },
+] as const
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"]
+
+// Maps each expense field to a column index in the uploaded file
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export const DATE_FORMATS = ["yyyy-MM-dd", "dd/MM/yyyy", "MM/dd/yyyy", "dd.MM.yyyy", "dd-MM-yyyy"] as const
+
+export type DateFormat = (typeof DATE_FORMATS)[number]
+
+export const DECIMAL_SEPARATORS = [
+  { value: ".", label: "Point (1,234.56)" },
+  { value: ",", label: "Comma (1.234,56)" },
+] as const
+
+export type DecimalSeparator = (typeof DECIMAL_SEPARATORS)[number]["value"]
+
+export type ImportOptions = {
+  dateFormat: DateFormat
+  // Detected per cell when not set, see parseAmount
+  decimalSeparator?: DecimalSeparator
+  // Used for rows whose category cell is empty
+  defaultCategoryId?: number
+}
+
+export type NewExpense = Omit<Expense, "id" | "created_at" | "updated_at">
+
+export type ImportRowResult =
+  | { rowNumber: number; valid: true; expense: NewExpense; cells: string[] }
+  | { rowNumber: number; valid: false; errors: string[]; cells: string[] }
+
+const importedExpenseSchema = z.object({
+  date: z.string({ required_error: "Date is required" }).regex(/^\d{4}-\d{2}-\d{2}$/, "Date is not valid"),
+  description: z.string().trim().min(1, "Description is required"),
+  amount: z
+    .number({ required_error: "Amount is required", invalid_type_error: "Amount must be a number" })
+    .finite("Amount must be a number"),
+  // Rows without a currency are stored in the base currency
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be a 3-letter code such as EUR").optional(),
+  category_id: z.number({ required_error: "Category is required" }).int(),
+  supplier_id: z.number().int().optional(),
+  quantity: z.number({ invalid_type_error: "Quantity must be a number" }).positive("Quantity must be positive").optional(),
+  unit: z.string().trim().min(1).optional(),
+  note: z.string().trim().min(1).optional(),
+})
+
+// Header names we recognise when guessing the mapping, keyed by field
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "datum", "fecha", "day", "paid on"],
+  description: ["description", "item", "details", "name", "memo", "omschrijving"],
+  amount: ["amount", "total", "price", "cost", "value", "bedrag"],
+  currency: ["currency", "ccy", "valuta", "moneda", "devise"],
+  category: ["category", "categorie", "type", "account"],
+  supplier: ["supplier", "vendor", "shop", "store", "payee", "leverancier"],
+  quantity: ["quantity", "qty", "amount purchased"],
+  unit: ["unit", "units", "uom"],
+  note: ["note", "notes", "comment", "comments", "remarks"],
+}
+
+// Guess a column mapping from the header row of the file
+export function guessColumnMapping(headers: string[]) {
+  const mapping: ColumnMapping = {}
+  const normalized = headers.map((header) => header.trim().toLowerCase())
+
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const index = normalized.findIndex((header) => HEADER_ALIASES[key].includes(header))
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[key] = index
+    }
+  })
+
+  return mapping
+}
+
+// Parse amounts such as "12.50", "€ 1.234,56" or "(45.00)". Without a decimal separator it's worked out from
+// the value: when both separators appear the last one is the decimal separator, and a lone separator followed
+// by exactly three digits, or one that appears more than once, groups thousands ("1,234" is 1234).
+export function parseAmount(value: string, decimalSeparator?: DecimalSeparator) {
+  let cleaned = value.trim().replace(/[^\d,.\-()]/g, "")
+  if (!cleaned) return undefined
+
+  const negative = cleaned.startsWith("(") && cleaned.endsWith(")")
+  cleaned = cleaned.replace(/[()]/g, "")
+
+  const decimal = decimalSeparator || detectDecimalSeparator(cleaned)
+  const thousands = decimal === "." ? "," : "."
+  cleaned = cleaned.split(thousands).join("").replace(decimal, ".")
+
+  const amount = Number(cleaned)
+  if (Number.isNaN(amount)) return Number.NaN
+  return negative ? -amount : amount
+}
+
+function detectDecimalSeparator(value: string): DecimalSeparator {
+  const lastComma = value.lastIndexOf(",")
+  const lastDot = value.lastIndexOf(".")
+
+  if (lastComma >= 0 && lastDot >= 0) return lastComma > lastDot ? "," : "."
+  if (lastComma < 0 && lastDot < 0) return "."
+
+  const separator = lastComma >= 0 ? "," : "."
+  const groups = value.split(separator)
+  // Thousands groups never start with a zero, so "0.125" keeps its decimals
+  const groupsThousands = groups.length > 2 || (groups[1].length === 3 && !/^-?0?$/.test(groups[0]))
+  return groupsThousands ? (separator === "," ? "." : ",") : separator
+}
+
+function parseDate(value: string, dateFormat: DateFormat) {
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+
+  const parsed = parse(trimmed, dateFormat, new Date())
+  if (!isValid(parsed)) return "invalid"
+
+  const year = parsed.getFullYear()
+  const month = String(parsed.getMonth() + 1).padStart(2, "0")
+  const day = String(parsed.getDate()).padStart(2, "0")
+  return `${year}-${month}-${day}`
+}
+
+// Turn the data rows of a file into validated expenses ready for insertExpenses
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  categories: Category[],
+  suppliers: Supplier[],
+  options: ImportOptions,
+) {
+  const categoryIds = new Map(categories.map((category) => [category.name.trim().toLowerCase(), category.id]))
+  const supplierIds = new Map(suppliers.map((supplier) => [supplier.name.trim().toLowerCase(), supplier.id]))
+
+  const cell = (cells: string[], field: ImportField) => {
+    const index = mapping[field]
+    return index === undefined ? "" : (cells[index] || "").trim()
+  }
+
+  return rows.map((cells, index): ImportRowResult => {
+    // Row numbers match the spreadsheet, where row 1 is the header
+    const rowNumber = index + 2
+    const errors: string[] = []
+
+    const date = parseDate(cell(cells, "date"), options.dateFormat)
+    if (date === "invalid") errors.push(`Date must use the ${options.dateFormat} format`)
+
+    const categoryName = cell(cells, "category")
+    let categoryId = options.defaultCategoryId
+    if (categoryName) {
+      categoryId = categoryIds.get(categoryName.toLowerCase())
+      if (categoryId === undefined) errors.push(`Unknown category "${categoryName}"`)
+    }
+
+    const supplierName = cell(cells, "supplier")
+    let supplierId: number | undefined
+    if (supplierName) {
+      supplierId = supplierIds.get(supplierName.toLowerCase())
+      if (supplierId === undefined) errors.push(`Unknown supplier "${supplierName}"`)
+    }
+
+    const quantityCell = cell(cells, "quantity")
+
+    const result = importedExpenseSchema.safeParse({
+      date: date === "invalid" ? undefined : date,
+      description: cell(cells, "description"),
+      amount: parseAmount(cell(cells, "amount"), options.decimalSeparator),
+      currency: cell(cells, "currency").toUpperCase() || undefined,
+      category_id: categoryId,
+      supplier_id: supplierId,
+      quantity: quantityCell ? parseAmount(quantityCell, options.decimalSeparator) : undefined,
+      unit: cell(cells, "unit") || undefined,
+      note: cell(cells, "note") || undefined,
+    })
+
+    if (!result.success) {
+      result.error.issues.forEach((issue) => {
+        // Avoid repeating problems already reported in a more specific way above
+        const field = issue.path[0]
+        if (field === "date" && date === "invalid") return
+        if (field === "category_id" && categoryName) return
+        errors.push(issue.message)
+      })
+    }
+
+    if (errors.length > 0 || !result.success) {
+      return { rowNumber, valid: false, errors, cells }
+    }
+
+    return { rowNumber, valid: true, expense: result.data, cells }
+  })
+}
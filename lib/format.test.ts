@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { formatMoney, formatNumber, monthName, parseDate, setBaseCurrency, setLocale } from "./format"
+
+// Intl separates groups and currency symbols with (narrow) no-break spaces in some locales
+function plain(value: string) {
+  return value.replace(/\s/g, " ")
+}
+
+afterEach(() => {
+  setLocale(null)
+  setBaseCurrency(null)
+})
+
+describe("formatMoney", () => {
+  it.each([
+    ["en-US", "€1,234.50", "-$1,234.50"],
+    ["en-GB", "€1,234.50", "-US$1,234.50"],
+    ["nl-NL", "€ 1.234,50", "US$ -1.234,50"],
+    ["de-DE", "1.234,50 €", "-1.234,50 $"],
+    ["fr-FR", "1 234,50 €", "-1 234,50 $US"],
+    ["es-ES", "1234,50 €", "-1234,50 US$"],
+    ["it-IT", "1234,50 €", "-1234,50 USD"],
+  ])("formats amounts in %s", (locale, euros, dollars) => {
+    setLocale(locale)
+
+    expect(plain(formatMoney(1234.5, "EUR"))).toBe(euros)
+    expect(plain(formatMoney(-1234.5, "USD"))).toBe(dollars)
+  })
+
+  it("uses the base currency when none is given", () => {
+    setLocale("en-US")
+    setBaseCurrency("GBP")
+
+    expect(formatMoney(12)).toBe("£12.00")
+  })
+
+  it("shows codes Intl rejects next to the number", () => {
+    setLocale("de-DE")
+
+    expect(formatMoney(5, "EURO")).toBe("5,00 EURO")
+  })
+})
+
+describe("formatNumber", () => {
+  it.each([
+    ["en-US", "1,234,567.89", "1,234.5"],
+    ["en-GB", "1,234,567.89", "1,234.5"],
+    ["nl-NL", "1.234.567,89", "1.234,5"],
+    ["de-DE", "1.234.567,89", "1.234,5"],
+    ["fr-FR", "1 234 567,89", "1 234,5"],
+    ["es-ES", "1.234.567,89", "1234,5"],
+    ["it-IT", "1.234.567,89", "1234,5"],
+  ])("formats numbers in %s", (locale, fixed, rounded) => {
+    setLocale(locale)
+
+    expect(plain(formatNumber(1234567.891, 2))).toBe(fixed)
+    expect(plain(formatNumber(1234.5))).toBe(rounded)
+  })
+
+  it("pads to the requested fraction digits", () => {
+    setLocale("en-US")
+
+    expect(formatNumber(3, 2)).toBe("3.00")
+    expect(formatNumber(3, 0)).toBe("3")
+  })
+})
+
+describe("monthName", () => {
+  it.each([
+    ["en-US", "Mar", "December"],
+    ["en-GB", "Mar", "December"],
+    ["nl-NL", "mrt", "december"],
+    ["de-DE", "Mär", "Dezember"],
+    ["fr-FR", "mars", "décembre"],
+    ["es-ES", "mar", "diciembre"],
+    ["it-IT", "mar", "dicembre"],
+  ])("names months in %s", (locale, march, december) => {
+    setLocale(locale)
+
+    expect(monthName(2)).toBe(march)
+    expect(monthName(11, "long")).toBe(december)
+  })
+})
+
+describe("parseDate", () => {
+  // West of UTC, reading "2024-03-01" as UTC midnight would land on February 29
+  const timeZone = process.env.TZ
+
+  afterEach(() => {
+    if (timeZone === undefined) delete process.env.TZ
+    else process.env.TZ = timeZone
+  })
+
+  it.each(["America/New_York", "UTC", "Asia/Tokyo"])("reads date-only strings as local midnight in %s", (zone) => {
+    process.env.TZ = zone
+    const date = parseDate("2024-03-01")
+
+    expect([date.getFullYear(), date.getMonth(), date.getDate()]).toEqual([2024, 2, 1])
+    expect([date.getHours(), date.getMinutes()]).toEqual([0, 0])
+  })
+
+  it("keeps the last day of the year in its year", () => {
+    process.env.TZ = "America/Los_Angeles"
+    const date = parseDate("2024-12-31")
+
+    expect([date.getFullYear(), date.getMonth(), date.getDate()]).toEqual([2024, 11, 31])
+  })
+
+  it("parses timestamps as instants", () => {
+    expect(parseDate("2024-03-01T12:00:00Z").toISOString()).toBe("2024-03-01T12:00:00.000Z")
+  })
+
+  it("returns dates unchanged", () => {
+    const date = new Date(2024, 0, 15)
+
+    expect(parseDate(date)).toBe(date)
+  })
+})
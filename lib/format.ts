@@ -0,0 +1,150 @@
+import { DEFAULT_CURRENCY } from "./currency"
+import { readStoredSetting, writeStoredSetting } from "./stored-setting"
+
+// Locale-aware formatting for money, numbers, dates and months. Pages format through these helpers so the
+// user's locale (profiles.locale) and the base currency (business_settings.base_currency) apply everywhere.
+// Both are kept in memory and cached in localStorage, so the first render after a reload is already correct;
+// LocaleProvider refreshes them from the database once the user is known.
+
+export const SUPPORTED_LOCALES = [
+  { value: "en-US", label: "English (United States)" },
+  { value: "en-GB", label: "English (United Kingdom)" },
+  { value: "nl-NL", label: "Nederlands" },
+  { value: "de-DE", label: "Deutsch" },
+  { value: "fr-FR", label: "Français" },
+  { value: "es-ES", label: "Español" },
+  { value: "it-IT", label: "Italiano" },
+] as const
+
+const LOCALE_STORAGE_KEY = "format_locale"
+const CURRENCY_STORAGE_KEY = "format_currency"
+
+// undefined means the browser's own locale
+let activeLocale = readStoredSetting(LOCALE_STORAGE_KEY)
+let activeCurrency = readStoredSetting(CURRENCY_STORAGE_KEY) || DEFAULT_CURRENCY
+
+export function getLocale() {
+  return activeLocale
+}
+
+export function setLocale(locale?: string | null) {
+  activeLocale = locale || undefined
+  writeStoredSetting(LOCALE_STORAGE_KEY, activeLocale)
+}
+
+// Currency used when an amount is formatted without one: the base currency every total is converted into
+export function getBaseCurrency() {
+  return activeCurrency
+}
+
+export function setBaseCurrency(currency?: string | null) {
+  activeCurrency = currency || DEFAULT_CURRENCY
+  writeStoredSetting(CURRENCY_STORAGE_KEY, currency || undefined)
+}
+
+// Intl formatters are costly to create and tables format hundreds of values, so reuse them per locale
+const formatterCache = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat>()
+
+function numberFormat(options: Intl.NumberFormatOptions) {
+  const key = `number|${activeLocale}|${JSON.stringify(options)}`
+  let formatter = formatterCache.get(key) as Intl.NumberFormat | undefined
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(activeLocale, options)
+    formatterCache.set(key, formatter)
+  }
+  return formatter
+}
+
+function dateFormat(options: Intl.DateTimeFormatOptions) {
+  const key = `date|${activeLocale}|${JSON.stringify(options)}`
+  let formatter = formatterCache.get(key) as Intl.DateTimeFormat | undefined
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(activeLocale, options)
+    formatterCache.set(key, formatter)
+  }
+  return formatter
+}
+
+export function formatMoney(amount: number, currency: string = activeCurrency) {
+  try {
+    return numberFormat({ style: "currency", currency, minimumFractionDigits: 2 }).format(amount)
+  } catch {
+    // Unknown codes are still valid data; show them next to the number
+    return `${formatNumber(amount, 2)} ${currency}`
+  }
+}
+
+// Money with an explicit sign, e.g. "+$12.00" for income and "-$8.50" for costs
+export function formatSignedMoney(amount: number, currency: string = activeCurrency) {
+  return `${amount < 0 ? "-" : "+"}${formatMoney(Math.abs(amount), currency)}`
+}
+
+// Fixed fraction digits, e.g. formatNumber(1234.5, 2) gives "1,234.50" in en-US and "1.234,50" in nl-NL
+export function formatNumber(value: number, fractionDigits?: number) {
+  return numberFormat(
+    fractionDigits === undefined
+      ? { maximumFractionDigits: 2 }
+      : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits },
+  ).format(value)
+}
+
+// value is a percentage, e.g. formatPercent(12.5) gives "12.5%"
+export function formatPercent(value: number, fractionDigits = 1) {
+  return numberFormat({
+    style: "percent",
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value / 100)
+}
+
+// Parse a stored date. Date-only values (yyyy-MM-dd) are read as local midnight instead of UTC midnight,
+// which `new Date("2024-03-01")` would shift into the previous day for anyone west of UTC.
+export function parseDate(value: string | Date) {
+  if (value instanceof Date) return value
+
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (dateOnly) {
+    return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+  }
+
+  return new Date(value)
+}
+
+export type DateStyle = "short" | "medium" | "long" | "full"
+
+const DATE_STYLES: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  // Mar 5
+  short: { month: "short", day: "numeric" },
+  // Mar 5, 2024
+  medium: { month: "short", day: "numeric", year: "numeric" },
+  // Tue, Mar 5, 2024
+  long: { weekday: "short", month: "short", day: "numeric", year: "numeric" },
+  // Tuesday, Mar 5, 2024
+  full: { weekday: "long", month: "short", day: "numeric", year: "numeric" },
+}
+
+export function formatDate(value: string | Date, style: DateStyle = "medium") {
+  return dateFormat(DATE_STYLES[style]).format(parseDate(value))
+}
+
+// A range in the locale's own style, collapsing shared parts, e.g. "Mar 5 – 7, 2024"
+export function formatDateRange(from: string | Date, to: string | Date, style: DateStyle = "medium") {
+  const formatter = dateFormat(DATE_STYLES[style])
+  return formatter.formatRange(parseDate(from), parseDate(to))
+}
+
+// Mar 5, 2024, 14:30 (or the locale's equivalent)
+export function formatDateTime(value: string | Date) {
+  return dateFormat({ ...DATE_STYLES.medium, hour: "numeric", minute: "2-digit" }).format(parseDate(value))
+}
+
+// Month name for a 0-based month index, e.g. monthName(2) gives "Mar" in en-US and "mrt" in nl-NL
+export function monthName(monthIndex: number, width: "short" | "long" = "short") {
+  return dateFormat({ month: width, timeZone: "UTC" }).format(new Date(Date.UTC(2000, monthIndex, 1)))
+}
+
+// Month and year for a date or a month key (yyyy-MM or yyyy-MM-dd), e.g. "Mar 2024"
+export function formatMonth(value: string | Date, width: "short" | "long" = "short") {
+  const date = typeof value === "string" && /^\d{4}-\d{2}$/.test(value) ? parseDate(`${value}-01`) : parseDate(value)
+  return dateFormat({ month: width, year: "numeric" }).format(date)
+}
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+// The unified ledger of money in and out, shared by the ledger API route and the browser.
+// Entries come from the ledger_page database function, which pages, filters and computes the
+// running balance server-side.
+
+export type LedgerSource = "order" | "market" | "course" | "expense"
+
+export const LEDGER_SOURCE_LABELS: Record<LedgerSource, string> = {
+  order: "Orders",
+  market: "Markets",
+  course: "Courses",
+  expense: "Expenses",
+}
+
+export const LEDGER_SOURCES = Object.keys(LEDGER_SOURCE_LABELS) as LedgerSource[]
+
+export const DEFAULT_LEDGER_PAGE_SIZE = 50
+export const MAX_LEDGER_PAGE_SIZE = 200
+
+export type LedgerEntry = {
+  // Source-prefixed id, e.g. "expense:12"
+  id: string
+  source: LedgerSource
+  source_id: number
+  date: string
+  description: string
+  category_id?: number
+  category_name?: string
+  // Customer, organizer, instructor or supplier
+  counterparty?: string
+  // Positive for income, negative for outgoing entries, in the base currency; null when the currency has no
+  // rate into it, which leaves the entry out of the balance and totals
+  amount: number | null
+  // Currency the record was entered in, and the signed amount in that currency
+  currency: string
+  original_amount: number
+  // Cash balance after this entry; missing for entries before the opening balance date
+  balance?: number
+}
+
+export type LedgerFilters = {
+  dateFrom?: string
+  dateTo?: string
+  sources?: LedgerSource[]
+  categoryId?: number
+  // 1-based
+  page?: number
+  pageSize?: number
+}
+
+export type LedgerPage = {
+  entries: LedgerEntry[]
+  page: number
+  pageSize: number
+  // Totals across every entry matching the filters, not just this page
+  total: number
+  totalIn: number
+  totalOut: number
+}
+
+type LedgerPageRow = {
+  id: string
+  source: LedgerSource
+  source_id: number
+  entry_date: string
+  description: string
+  category_id: number | null
+  category_name: string | null
+  counterparty: string | null
+  amount: number | string | null
+  currency: string
+  original_amount: number | string
+  balance: number | string | null
+  total_count: number | string
+  total_in: number | string
+  total_out: number | string
+}
+
+function toLedgerEntry(row: LedgerPageRow): LedgerEntry {
+  return {
+    id: row.id,
+    source: row.source,
+    source_id: row.source_id,
+    date: row.entry_date,
+    description: row.description,
+    category_id: row.category_id ?? undefined,
+    category_name: row.category_name || undefined,
+    counterparty: row.counterparty || undefined,
+    amount: row.amount != null ? Number(row.amount) : null,
+    currency: row.currency,
+    original_amount: Number(row.original_amount) || 0,
+    balance: row.balance != null ? Number(row.balance) : undefined,
+  }
+}
+
+function clampPageSize(pageSize?: number) {
+  if (!pageSize || Number.isNaN(pageSize)) return DEFAULT_LEDGER_PAGE_SIZE
+  return Math.min(Math.max(Math.floor(pageSize), 1), MAX_LEDGER_PAGE_SIZE)
+}
+
+// Read filters from a query string such as ?from=2025-01-01&sources=order,expense&page=2
+export function parseLedgerFilters(params: URLSearchParams): LedgerFilters {
+  const sources = (params.get("sources") || "")
+    .split(",")
+    .filter((source): source is LedgerSource => LEDGER_SOURCES.includes(source as LedgerSource))
+  const categoryId = Number.parseInt(params.get("category") || "")
+  const page = Number.parseInt(params.get("page") || "")
+
+  return {
+    dateFrom: params.get("from") || undefined,
+    dateTo: params.get("to") || undefined,
+    sources: sources.length > 0 ? sources : undefined,
+    categoryId: Number.isNaN(categoryId) ? undefined : categoryId,
+    page: Number.isNaN(page) ? undefined : page,
+    pageSize: clampPageSize(Number.parseInt(params.get("pageSize") || "")),
+  }
+}
+
+export function ledgerFiltersToParams(filters: LedgerFilters) {
+  const params = new URLSearchParams()
+  if (filters.dateFrom) params.set("from", filters.dateFrom)
+  if (filters.dateTo) params.set("to", filters.dateTo)
+  if (filters.sources && filters.sources.length > 0) params.set("sources", filters.sources.join(","))
+  if (filters.categoryId) params.set("category", filters.categoryId.toString())
+  if (filters.page) params.set("page", filters.page.toString())
+  if (filters.pageSize) params.set("pageSize", filters.pageSize.toString())
+  return params
+}
+
+export async function fetchLedgerPage(client: SupabaseClient, filters: LedgerFilters): Promise<LedgerPage> {
+  const page = Math.max(filters.page || 1, 1)
+  const pageSize = clampPageSize(filters.pageSize)
+
+  const { data, error } = await client.rpc("ledger_page", {
+    date_from: filters.dateFrom || null,
+    date_to: filters.dateTo || null,
+    sources: filters.sources && filters.sources.length > 0 ? filters.sources : null,
+    category: filters.categoryId || null,
+    page_offset: (page - 1) * pageSize,
+    page_size: pageSize,
+  })
+
+  if (error) throw error
+
+  const rows = (data || []) as LedgerPageRow[]
+
+  return {
+    entries: rows.map(toLedgerEntry),
+    page,
+    pageSize,
+    total: Number(rows[0]?.total_count) || 0,
+    totalIn: Number(rows[0]?.total_in) || 0,
+    totalOut: Number(rows[0]?.total_out) || 0,
+  }
+}
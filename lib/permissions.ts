@@ -0,0 +1,88 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+// Roles and what they're allowed to do, stored per organization on organization_members.role. Shared by
+// the middleware, the API routes and the UI so they agree on who sees what; the RLS policies in the roles
+// migration enforce the same rules on the data itself.
+
+export const ROLES = ["owner", "accountant", "staff", "viewer"] as const
+
+export type Role = (typeof ROLES)[number]
+
+// Invited people can look around but not change anything unless they're invited with another role
+export const DEFAULT_ROLE: Role = "viewer"
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  accountant: "Accountant",
+  staff: "Staff",
+  viewer: "Viewer",
+}
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: "Everything, including business settings and team roles",
+  accountant: "Manage all records and see reports",
+  staff: "Add expenses and record stock, without access to revenue or reports",
+  viewer: "Read-only access to records and reports",
+}
+
+export type Permission =
+  // Revenue, customers, categories, budgets, products and the other business records
+  | "manage_records"
+  // Expenses, suppliers, receipts and stock usage
+  | "manage_expenses"
+  // Revenue, customers, markets, courses, reports, analytics, the ledger, budgets and receivables, along
+  // with product margins, what the stock is worth and the spend per supplier
+  | "view_finances"
+  // Business settings and team roles
+  | "manage_settings"
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ["manage_records", "manage_expenses", "view_finances", "manage_settings"],
+  accountant: ["manage_records", "manage_expenses", "view_finances"],
+  staff: ["manage_expenses"],
+  viewer: ["view_finances"],
+}
+
+// Dashboard routes that need more than a signed-in user, matched on their path prefix. The middleware only
+// runs on dashboard routes; API routes check the permission they need themselves.
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/dashboard/settings", permission: "manage_settings" },
+  { prefix: "/dashboard/reports", permission: "view_finances" },
+  { prefix: "/dashboard/analytics", permission: "view_finances" },
+  { prefix: "/dashboard/ledger", permission: "view_finances" },
+  { prefix: "/dashboard/budgets", permission: "view_finances" },
+  { prefix: "/dashboard/receivables", permission: "view_finances" },
+  { prefix: "/dashboard/revenue", permission: "view_finances" },
+  { prefix: "/dashboard/customers", permission: "view_finances" },
+  { prefix: "/dashboard/markets", permission: "view_finances" },
+  { prefix: "/dashboard/courses", permission: "view_finances" },
+  { prefix: "/dashboard/products", permission: "view_finances" },
+  { prefix: "/dashboard/expenses/add", permission: "manage_expenses" },
+]
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value)
+}
+
+// Unknown values get the least access
+export function toRole(value: unknown): Role {
+  return isRole(value) ? value : DEFAULT_ROLE
+}
+
+export function hasPermission(role: Role | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function canAccessRoute(role: Role | null | undefined, path: string) {
+  const rule = ROUTE_PERMISSIONS.find(({ prefix }) => path === prefix || path.startsWith(`${prefix}/`))
+  return !rule || hasPermission(role, rule.permission)
+}
+
+// Role of the signed-in user in their active organization, or null when they don't belong to one. Read with
+// the caller's client (the middleware and route handlers have their own).
+export async function fetchUserRole(client: SupabaseClient): Promise<Role | null> {
+  const { data, error } = await client.rpc("current_user_role")
+
+  if (error) throw error
+  return data ? toRole(data) : null
+}
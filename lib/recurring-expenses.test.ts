@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  materializeDueOccurrences,
+  occurrencesBetween,
+  upcomingOccurrences,
+  type RecurringExpense,
+} from "./recurring-expenses"
+
+function template(overrides: Partial<RecurringExpense> = {}): RecurringExpense {
+  return {
+    id: 1,
+    description: "Rent",
+    amount: 1200,
+    category_id: 4,
+    frequency: "monthly",
+    start_date: "2024-01-31",
+    active: true,
+    skipped_dates: [],
+    organization_id: 7,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    ...overrides,
+  }
+}
+
+// Serves the given templates and records the expenses upserted and the templates updated
+function recordingClient(templates: RecurringExpense[]) {
+  const upserted: { recurring_expense_id: number; date: string }[] = []
+  const updates: { values: unknown; ids: number[] }[] = []
+
+  const client = {
+    from(table: string) {
+      let result: { data: unknown; error: null } = {
+        data: table === "recurring_expenses" ? templates : [],
+        error: null,
+      }
+      let values: unknown
+
+      const query = {
+        select: () => query,
+        eq: () => query,
+        upsert: (rows: { recurring_expense_id: number; date: string }[]) => {
+          upserted.push(...rows)
+          result = { data: rows.map((_, index) => ({ id: index + 1 })), error: null }
+          return query
+        },
+        update: (updated: unknown) => {
+          values = updated
+          return query
+        },
+        in: (_column: string, ids: number[]) => {
+          updates.push({ values, ids })
+          return query
+        },
+        then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+      }
+      return query
+    },
+  }
+
+  return { client: client as unknown as SupabaseClient, upserted, updates }
+}
+
+describe("occurrencesBetween", () => {
+  it("keeps monthly occurrences on the last day of the month after a short month", () => {
+    expect(occurrencesBetween(template(), "2024-01-01", "2024-05-31")).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+      "2024-05-31",
+    ])
+  })
+
+  it("counts quarters from the start date", () => {
+    const quarterly = template({ frequency: "quarterly", start_date: "2024-11-30" })
+
+    expect(occurrencesBetween(quarterly, "2024-01-01", "2025-12-31")).toEqual([
+      "2024-11-30",
+      "2025-02-28",
+      "2025-05-30",
+      "2025-08-30",
+      "2025-11-30",
+    ])
+  })
+
+  it("stops at the end date", () => {
+    const ending = template({ start_date: "2024-01-15", end_date: "2024-03-20" })
+
+    expect(occurrencesBetween(ending, "2024-02-01", "2024-12-31")).toEqual(["2024-02-15", "2024-03-15"])
+  })
+})
+
+describe("upcomingOccurrences", () => {
+  it("marks skipped dates and leaves out inactive templates", () => {
+    const rent = template({ skipped_dates: ["2024-02-29"] })
+    const paused = template({ id: 2, description: "Insurance", active: false })
+
+    expect(
+      upcomingOccurrences([rent, paused], "2024-02-01", "2024-03-31").map(({ date, skipped }) => ({ date, skipped })),
+    ).toEqual([
+      { date: "2024-02-29", skipped: true },
+      { date: "2024-03-31", skipped: false },
+    ])
+  })
+})
+
+describe("materializeDueOccurrences", () => {
+  it("generates the unskipped occurrences after generated_through and advances it", async () => {
+    const rent = template({ generated_through: "2024-01-31", skipped_dates: ["2024-03-31"] })
+    const { client, upserted, updates } = recordingClient([rent])
+
+    const result = await materializeDueOccurrences(client, "2024-04-30")
+
+    expect(upserted.map((row) => row.date)).toEqual(["2024-02-29", "2024-04-30"])
+    expect(updates).toEqual([{ values: { generated_through: "2024-04-30" }, ids: [1] }])
+    expect(result).toEqual({ templates: 1, created: 2 })
+  })
+
+  it("doesn't touch templates that haven't started", async () => {
+    const { client, upserted, updates } = recordingClient([template({ start_date: "2024-06-01" })])
+
+    expect(await materializeDueOccurrences(client, "2024-04-30")).toEqual({ templates: 0, created: 0 })
+    expect(upserted).toEqual([])
+    expect(updates).toEqual([])
+  })
+})
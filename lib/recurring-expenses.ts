@@ -0,0 +1,186 @@
+import { addDays, addMonths, addWeeks, addYears, format, parseISO } from "date-fns"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { businessDate, DEFAULT_TIME_ZONE } from "./dates"
+
+// Recurring expense templates and the schedule maths shared by the dashboard and the
+// generation route. Nothing here touches the browser client, so the route can pass in
+// its own cookie- or service-authenticated client.
+
+export type RecurringFrequency = "weekly" | "monthly" | "quarterly" | "yearly"
+
+export type RecurringExpense = {
+  id: number
+  description: string
+  amount: number
+  currency?: string
+  category_id: number
+  supplier_id?: number | null
+  frequency: RecurringFrequency
+  start_date: string
+  end_date?: string | null
+  note?: string | null
+  active: boolean
+  // Occurrence dates (yyyy-MM-dd) that should not be turned into expenses
+  skipped_dates: string[]
+  // Last date the generator has run up to; occurrences on or before it are never generated again,
+  // so deleting a generated expense doesn't bring it back
+  generated_through?: string | null
+  // Copied onto generated expenses, since scheduled runs have no active organization to default to
+  organization_id: number
+  created_at: string
+  updated_at: string
+  // Join fields
+  category_name?: string
+}
+
+export type RecurringOccurrence = {
+  template: RecurringExpense
+  date: string
+  skipped: boolean
+}
+
+export type MaterializeResult = {
+  templates: number
+  created: number
+}
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+}
+
+// Safety net so a template with a very old start date can't generate an unbounded list
+const MAX_OCCURRENCES = 1000
+
+// The nth occurrence is always computed from the start date, so a template starting on the
+// 31st lands on the last day of shorter months without drifting to the 28th afterwards
+function nthOccurrence(start: Date, frequency: RecurringFrequency, n: number) {
+  if (frequency === "weekly") return addWeeks(start, n)
+  if (frequency === "quarterly") return addMonths(start, n * 3)
+  if (frequency === "yearly") return addYears(start, n)
+  return addMonths(start, n)
+}
+
+// Every scheduled date between from and to (inclusive), including skipped ones
+export function occurrencesBetween(template: RecurringExpense, from: string, to: string) {
+  const start = parseISO(template.start_date)
+  const last = template.end_date && template.end_date < to ? template.end_date : to
+  const dates: string[] = []
+
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = format(nthOccurrence(start, template.frequency, n), "yyyy-MM-dd")
+    if (date > last) break
+    if (date >= from) dates.push(date)
+  }
+
+  return dates
+}
+
+// Upcoming occurrences across all active templates, soonest first
+export function upcomingOccurrences(templates: RecurringExpense[], from: string, to: string) {
+  return templates
+    .filter((template) => template.active)
+    .flatMap((template) =>
+      occurrencesBetween(template, from, to).map(
+        (date): RecurringOccurrence => ({
+          template,
+          date,
+          skipped: (template.skipped_dates || []).includes(date),
+        }),
+      ),
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.template.description.localeCompare(b.template.description))
+}
+
+// Each organization's timezone. The route runs on a server whose clock is usually UTC, so the
+// timezone is read from the database rather than the environment; a scheduled run sees every
+// organization's settings, a signed-in one only the active organization's.
+async function organizationTimeZones(client: SupabaseClient) {
+  const { data, error } = await client.from("business_settings").select("organization_id, timezone")
+
+  if (error) throw error
+  return new Map(
+    ((data || []) as { organization_id: number; timezone: string | null }[]).map((settings) => [
+      settings.organization_id,
+      settings.timezone || DEFAULT_TIME_ZONE,
+    ]),
+  )
+}
+
+function dueRows(template: RecurringExpense, today: string) {
+  const from = template.generated_through
+    ? format(addDays(parseISO(template.generated_through), 1), "yyyy-MM-dd")
+    : template.start_date
+
+  return occurrencesBetween(template, from, today)
+    .filter((date) => !(template.skipped_dates || []).includes(date))
+    .map((date) => ({
+      date,
+      description: template.description,
+      amount: template.amount,
+      ...(template.currency ? { currency: template.currency } : {}),
+      category_id: template.category_id,
+      supplier_id: template.supplier_id ?? null,
+      note: template.note ?? null,
+      recurring_expense_id: template.id,
+      occurrence_date: date,
+      organization_id: template.organization_id,
+    }))
+}
+
+// Turn every due, unskipped occurrence up to `until` (by default today in each organization's timezone)
+// into an expense. Generated expenses carry (recurring_expense_id, occurrence_date), which is
+// unique in the database, so running this repeatedly (or concurrently) never creates duplicates.
+export async function materializeDueOccurrences(
+  client: SupabaseClient,
+  until?: string,
+): Promise<MaterializeResult> {
+  const { data: templateData, error: templateError } = await client
+    .from("recurring_expenses")
+    .select("*")
+    .eq("active", true)
+
+  if (templateError) throw templateError
+
+  const templates = (templateData || []) as RecurringExpense[]
+  if (templates.length === 0) return { templates: 0, created: 0 }
+
+  const timeZones = until ? null : await organizationTimeZones(client)
+  const now = new Date()
+  const result: MaterializeResult = { templates: 0, created: 0 }
+
+  // Each organization runs up to today in its own timezone
+  const organizationIds = Array.from(new Set(templates.map((template) => template.organization_id)))
+  for (const organizationId of organizationIds) {
+    const today = until || businessDate(now, timeZones?.get(organizationId) || DEFAULT_TIME_ZONE)
+    const due = templates.filter(
+      (template) => template.organization_id === organizationId && template.start_date <= today,
+    )
+    if (due.length === 0) continue
+
+    const rows = due.flatMap((template) => dueRows(template, today))
+
+    if (rows.length > 0) {
+      // ignoreDuplicates turns a clash with an earlier or concurrent run into a no-op
+      const { data: inserted, error: insertError } = await client
+        .from("expenses")
+        .upsert(rows, { onConflict: "recurring_expense_id,occurrence_date", ignoreDuplicates: true })
+        .select("id")
+
+      if (insertError) throw insertError
+      result.created += inserted?.length || 0
+    }
+
+    const { error: updateError } = await client
+      .from("recurring_expenses")
+      .update({ generated_through: today })
+      .in("id", due.map((template) => template.id))
+
+    if (updateError) throw updateError
+    result.templates += due.length
+  }
+
+  return result
+}
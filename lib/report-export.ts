@@ -0,0 +1,167 @@
+import { format } from "date-fns"
+import { toCsv } from "./csv"
+import { formatDateTime, formatNumber } from "./format"
+
+// A report flattened into a title block, headline figures and a table, ready to be written to a file
+export type ReportExport = {
+  title: string
+  period: string
+  generatedAt: Date
+  summary: { label: string; value: string | number }[]
+  columns: string[]
+  rows: (string | number)[][]
+}
+
+export type ReportExportFormat = "csv" | "xls" | "pdf"
+
+function reportFileName(report: ReportExport, extension: string) {
+  const slug = `${report.title} ${report.period}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+  return `${slug}-${format(report.generatedAt, "yyyyMMdd-HHmm")}.${extension}`
+}
+
+function downloadFile(contents: string, fileName: string, mimeType: string) {
+  const blob = new Blob([contents], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Some browsers start the download after click() returns, so the URL has to outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+function escapeXml(value: string | number) {
+  return String(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function headerLines(report: ReportExport) {
+  return [
+    [report.title],
+    ["Period", report.period],
+    ["Generated", formatDateTime(report.generatedAt)],
+  ]
+}
+
+export function exportReportCsv(report: ReportExport) {
+  const rows = [
+    ...headerLines(report),
+    [],
+    ...report.summary.map((item) => [item.label, item.value]),
+    [],
+    report.columns,
+    ...report.rows,
+  ]
+
+  // Prefix a byte order mark so Excel opens the file as UTF-8
+  downloadFile(`\uFEFF${toCsv(rows)}`, reportFileName(report, "csv"), "text/csv;charset=utf-8")
+}
+
+// Excel 2003 XML spreadsheet: opens natively in Excel, Numbers and LibreOffice without extra libraries
+export function exportReportSpreadsheet(report: ReportExport) {
+  const cell = (value: string | number | undefined, styleId?: string) => {
+    const style = styleId ? ` ss:StyleID="${styleId}"` : ""
+    if (value === undefined || value === "") return `<Cell${style}/>`
+    const type = typeof value === "number" ? "Number" : "String"
+    return `<Cell${style}><Data ss:Type="${type}">${escapeXml(value)}</Data></Cell>`
+  }
+  const row = (cells: string[]) => `<Row>${cells.join("")}</Row>`
+
+  const rows = [
+    row([cell(report.title, "title")]),
+    ...headerLines(report)
+      .slice(1)
+      .map((line) => row(line.map((value) => cell(value)))),
+    row([]),
+    ...report.summary.map((item) => row([cell(item.label, "bold"), cell(item.value)])),
+    row([]),
+    row(report.columns.map((column) => cell(column, "bold"))),
+    ...report.rows.map((values) => row(values.map((value) => cell(value)))),
+  ]
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8"?>
+<?mso-application progid="Excel.Sheet"?>
+<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">
+<Styles>
+<Style ss:ID="bold"><Font ss:Bold="1"/></Style>
+<Style ss:ID="title"><Font ss:Bold="1" ss:Size="14"/></Style>
+</Styles>
+<Worksheet ss:Name="Report">
+<Table>
+${rows.join("\n")}
+</Table>
+</Worksheet>
+</Workbook>`
+
+  downloadFile(workbook, reportFileName(report, "xls"), "application/vnd.ms-excel")
+}
+
+// Open a print-ready version of the report; the browser's print dialog saves it as PDF
+export function exportReportPdf(report: ReportExport) {
+  const printWindow = window.open("", "_blank")
+
+  if (!printWindow) {
+    throw new Error("Allow pop-ups for this site to export the report as PDF")
+  }
+
+  // Right-align columns that only hold numbers
+  const numericColumns = new Set(
+    report.columns
+      .map((_, index) => index)
+      .filter((index) => report.rows.length > 0 && report.rows.every((row) => typeof row[index] === "number")),
+  )
+  const tableCell = (tag: "th" | "td", value: string | number, index: number) => {
+    const text = typeof value === "number" ? formatNumber(value, 2) : value
+    return `<${tag}${numericColumns.has(index) ? ' class="num"' : ""}>${escapeXml(text)}</${tag}>`
+  }
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>${escapeXml(reportFileName(report, "pdf"))}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #555; font-size: 12px; margin-bottom: 24px; }
+  .summary { display: flex; gap: 24px; margin-bottom: 24px; }
+  .summary div { border: 1px solid #ddd; border-radius: 6px; padding: 8px 12px; }
+  .summary span { display: block; color: #555; font-size: 11px; }
+  .summary strong { font-size: 16px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+  th { background: #f5f5f5; }
+  .num { text-align: right; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(report.title)}</h1>
+<div class="meta">
+  Period: ${escapeXml(report.period)} &middot; Generated ${formatDateTime(report.generatedAt)}
+</div>
+<div class="summary">
+${report.summary
+  .map((item) => `<div><span>${escapeXml(item.label)}</span><strong>${escapeXml(item.value)}</strong></div>`)
+  .join("\n")}
+</div>
+<table>
+<thead><tr>${report.columns.map((column, index) => tableCell("th", column, index)).join("")}</tr></thead>
+<tbody>
+${report.rows.map((row) => `<tr>${row.map((value, index) => tableCell("td", value, index)).join("")}</tr>`).join("\n")}
+</tbody>
+</table>
+</body>
+</html>`)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+}
+
+export function exportReport(report: ReportExport, exportFormat: ReportExportFormat) {
+  if (exportFormat === "csv") return exportReportCsv(report)
+  if (exportFormat === "xls") return exportReportSpreadsheet(report)
+  return exportReportPdf(report)
+}
@@ -0,0 +1,160 @@
+import { fetchExpenseCategoryMonthTotals } from "./supabase"
+import { fetchRevenueMonthTotals } from "./supabase-revenue"
+import { fetchBusinessSettings, fetchPaidPaymentStatuses } from "./supabase-settings"
+import { fetchCurrenciesMissingRates } from "./supabase-currency"
+import { formatMonth } from "./format"
+import { businessDate, monthsInRange } from "./dates"
+
+// Types for report data
+export type ReportGranularity = "month" | "quarter" | "year"
+
+// Inclusive date range in yyyy-MM-dd form
+export type ReportRange = {
+  from: string
+  to: string
+}
+
+export type ReportPeriodRow = {
+  period: string
+  label: string
+  orderRevenue: number
+  marketRevenue: number
+  courseRevenue: number
+  revenue: number
+  expenses: number
+  profit: number
+  profitMargin: number
+}
+
+export type CategoryReportRow = {
+  category_id: number
+  category_name: string
+  total: number
+  percentage: number
+  byPeriod: Record<string, number>
+}
+
+export type ReportData = {
+  periods: ReportPeriodRow[]
+  categories: CategoryReportRow[]
+  // Order payment statuses counted as revenue
+  paidStatuses: string[]
+  // Base currency every total has been converted into
+  currency: string
+  // Currencies without a rate into the base currency, whose amounts are left out of the totals
+  missingRateCurrencies: string[]
+}
+
+// Bucket key for a date or timestamp: "2024-03", "2024-Q1" or "2024". Timestamps count towards the day
+// they fall on in the business timezone.
+export function periodKey(date: string, granularity: ReportGranularity) {
+  const dateKey = businessDate(date)
+  const year = dateKey.substring(0, 4)
+  const month = Number.parseInt(dateKey.substring(5, 7))
+
+  if (granularity === "year") return year
+  if (granularity === "quarter") return `${year}-Q${Math.ceil(month / 3)}`
+  return dateKey.substring(0, 7)
+}
+
+export function periodLabel(key: string, granularity: ReportGranularity) {
+  if (granularity === "year") return key
+  if (granularity === "quarter") return `${key.substring(5)} ${key.substring(0, 4)}`
+  return formatMonth(key)
+}
+
+// Every bucket key touched by the range, in chronological order
+export function enumeratePeriods(range: ReportRange, granularity: ReportGranularity) {
+  const keys: string[] = []
+
+  monthsInRange(range.from, range.to).forEach((month) => {
+    const key = periodKey(month, granularity)
+    if (keys[keys.length - 1] !== key) keys.push(key)
+  })
+
+  return keys
+}
+
+// Fetch monthly revenue and expense totals for a range and roll them up by month, quarter or year.
+// Errors are rethrown so the reports page can say the report failed rather than show empty totals.
+export async function fetchReportData(range: ReportRange, granularity: ReportGranularity): Promise<ReportData> {
+  try {
+    const [revenueTotals, expenseTotals, paidStatuses, businessSettings, missingRateCurrencies] = await Promise.all([
+      fetchRevenueMonthTotals(range.from, range.to),
+      fetchExpenseCategoryMonthTotals(range.from, range.to),
+      fetchPaidPaymentStatuses(),
+      fetchBusinessSettings(),
+      fetchCurrenciesMissingRates(),
+    ])
+
+    const periods: Record<string, ReportPeriodRow> = {}
+    enumeratePeriods(range, granularity).forEach((key) => {
+      periods[key] = {
+        period: key,
+        label: periodLabel(key, granularity),
+        orderRevenue: 0,
+        marketRevenue: 0,
+        courseRevenue: 0,
+        revenue: 0,
+        expenses: 0,
+        profit: 0,
+        profitMargin: 0,
+      }
+    })
+
+    revenueTotals.forEach((total) => {
+      const row = periods[periodKey(total.month, granularity)]
+      if (!row) return
+      row.orderRevenue += total.orderRevenue
+      row.marketRevenue += total.marketRevenue
+      row.courseRevenue += total.courseRevenue
+    })
+
+    // Category totals, overall and per period
+    const categories: Record<number, CategoryReportRow> = {}
+    expenseTotals.forEach((total) => {
+      const key = periodKey(total.month, granularity)
+      const row = periods[key]
+      if (row) row.expenses += total.total
+
+      if (!categories[total.category_id]) {
+        categories[total.category_id] = {
+          category_id: total.category_id,
+          category_name: total.category_name || "Uncategorized",
+          total: 0,
+          percentage: 0,
+          byPeriod: {},
+        }
+      }
+
+      const category = categories[total.category_id]
+      category.total += total.total
+      category.byPeriod[key] = (category.byPeriod[key] || 0) + total.total
+    })
+
+    const periodRows = Object.values(periods).map((row) => {
+      const revenue = row.orderRevenue + row.marketRevenue + row.courseRevenue
+      const profit = revenue - row.expenses
+      return { ...row, revenue, profit, profitMargin: revenue > 0 ? (profit / revenue) * 100 : 0 }
+    })
+
+    const totalExpenses = periodRows.reduce((sum, row) => sum + row.expenses, 0)
+    const categoryRows = Object.values(categories)
+      .map((category) => ({
+        ...category,
+        percentage: totalExpenses > 0 ? (category.total / totalExpenses) * 100 : 0,
+      }))
+      .sort((a, b) => b.total - a.total)
+
+    return {
+      periods: periodRows,
+      categories: categoryRows,
+      paidStatuses,
+      currency: businessSettings.base_currency,
+      missingRateCurrencies,
+    }
+  } catch (error) {
+    console.error("Error fetching report data:", error)
+    throw error
+  }
+}
@@ -0,0 +1,24 @@
+// Per-browser cache for preferences that have to be known before the database answers,
+// such as the locale and business timezone used by the format and date helpers.
+
+export function readStoredSetting(key: string) {
+  if (typeof window === "undefined") return undefined
+  try {
+    return window.localStorage.getItem(key) || undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function writeStoredSetting(key: string, value?: string) {
+  if (typeof window === "undefined") return
+  try {
+    if (value) {
+      window.localStorage.setItem(key, value)
+    } else {
+      window.localStorage.removeItem(key)
+    }
+  } catch {
+    // Storage can be unavailable in private windows; the in-memory value still applies
+  }
+}
@@ -0,0 +1,178 @@
+import { supabase, fetchExpensesByCategory } from "./supabase"
+import { addMonths, businessDate, monthRange, monthStart, today, yearRange } from "./dates"
+
+// Spending share at which a budget is flagged as close to its limit
+export const BUDGET_WARNING_THRESHOLD = 80
+
+// Types for budget data
+export type BudgetPeriod = "month" | "year"
+
+export type Budget = {
+  id: number
+  category_id: number
+  category_name?: string
+  period: BudgetPeriod
+  amount: number
+  // Carry the previous period's unused budget (or overspend) into the current period
+  rollover: boolean
+  note?: string
+  created_at: string
+  updated_at: string
+}
+
+export type BudgetLevel = "ok" | "warning" | "over"
+
+export type BudgetStatus = {
+  budget: Budget
+  periodStart: string
+  periodEnd: string
+  carryover: number
+  available: number
+  spent: number
+  remaining: number
+  percentage: number
+  level: BudgetLevel
+}
+
+// First and last day of the budget period containing the given date
+export function budgetPeriodRange(period: BudgetPeriod, date: string) {
+  return period === "year" ? yearRange(Number(date.substring(0, 4))) : monthRange(date)
+}
+
+export function budgetLevel(percentage: number): BudgetLevel {
+  if (percentage >= 100) return "over"
+  if (percentage >= BUDGET_WARNING_THRESHOLD) return "warning"
+  return "ok"
+}
+
+// Fetch all budgets with their category names
+export async function fetchBudgets() {
+  try {
+    const { data, error } = await supabase
+      .from("budgets")
+      .select(`
+        *,
+        categories:category_id (
+          name
+        )
+      `)
+      .order("period", { ascending: true })
+
+    if (error) throw error
+
+    return (data || [])
+      .map((budget) => ({
+        ...budget,
+        category_name: budget.categories?.name,
+        categories: undefined,
+      }))
+      .sort((a, b) => (a.category_name || "").localeCompare(b.category_name || "")) as Budget[]
+  } catch (error) {
+    console.error("Error fetching budgets:", error)
+    // Return empty array instead of throwing to prevent cascading failures
+    return []
+  }
+}
+
+export async function insertBudget(budget: Omit<Budget, "id" | "category_name" | "created_at" | "updated_at">) {
+  try {
+    const { data, error } = await supabase.from("budgets").insert(budget).select()
+
+    if (error) throw error
+    return data[0] as Budget
+  } catch (error) {
+    console.error("Error inserting budget:", error)
+    throw error
+  }
+}
+
+export async function updateBudget(id: number, budget: Partial<Budget>) {
+  try {
+    const { category_name, ...budgetData } = budget
+
+    const { data, error } = await supabase
+      .from("budgets")
+      .update({ ...budgetData, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Budget
+  } catch (error) {
+    console.error("Error updating budget:", error)
+    throw error
+  }
+}
+
+export async function deleteBudget(id: number) {
+  try {
+    const { error } = await supabase.from("budgets").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting budget:", error)
+    throw error
+  }
+}
+
+// Per-category spend for the period containing the date, keyed by category id
+async function fetchCategorySpend(period: BudgetPeriod, date: string) {
+  const range = budgetPeriodRange(period, date)
+  const totals = await fetchExpensesByCategory(range.from, range.to)
+
+  return totals.reduce<Record<number, number>>((spend, item) => {
+    spend[item.category_id] = item.total
+    return spend
+  }, {})
+}
+
+// Budget vs actual for every budget, for the period containing the given date.
+// Rollover only looks one period back, so a carryover never compounds indefinitely.
+export async function fetchBudgetStatus(date: string = today()) {
+  try {
+    const budgets = await fetchBudgets()
+    if (budgets.length === 0) return []
+
+    const previousDate = (period: BudgetPeriod) => addMonths(monthStart(date), period === "year" ? -12 : -1)
+    const usesRollover = (period: BudgetPeriod) => budgets.some((b) => b.period === period && b.rollover)
+
+    const [monthSpend, yearSpend, previousMonthSpend, previousYearSpend] = await Promise.all([
+      fetchCategorySpend("month", date),
+      fetchCategorySpend("year", date),
+      usesRollover("month") ? fetchCategorySpend("month", previousDate("month")) : Promise.resolve({}),
+      usesRollover("year") ? fetchCategorySpend("year", previousDate("year")) : Promise.resolve({}),
+    ])
+
+    return budgets
+      .map((budget): BudgetStatus => {
+        const range = budgetPeriodRange(budget.period, date)
+        const spend: Record<number, number> = budget.period === "year" ? yearSpend : monthSpend
+        const previousSpend: Record<number, number> = budget.period === "year" ? previousYearSpend : previousMonthSpend
+
+        // Only budgets that already existed before this period have anything to carry over
+        const hasPreviousPeriod = businessDate(budget.created_at) < range.from
+        const carryover =
+          budget.rollover && hasPreviousPeriod ? budget.amount - (previousSpend[budget.category_id] || 0) : 0
+        const available = Math.max(budget.amount + carryover, 0)
+        const spent = spend[budget.category_id] || 0
+        const percentage = available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0
+
+        return {
+          budget,
+          periodStart: range.from,
+          periodEnd: range.to,
+          carryover,
+          available,
+          spent,
+          remaining: available - spent,
+          percentage,
+          level: budgetLevel(percentage),
+        }
+      })
+      .sort((a, b) => b.percentage - a.percentage)
+  } catch (error) {
+    console.error("Error fetching budget status:", error)
+    return []
+  }
+}
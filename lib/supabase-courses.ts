@@ -0,0 +1,204 @@
+import { supabase } from "./supabase"
+import type { Course } from "./supabase-revenue"
+
+export type RegistrationStatus = "registered" | "attended" | "cancelled"
+
+export const REGISTRATION_STATUS_LABELS: Record<RegistrationStatus, string> = {
+  registered: "Registered",
+  attended: "Attended",
+  cancelled: "Cancelled",
+}
+
+export type CourseRegistration = {
+  id: number
+  course_id: number
+  customer_id?: number
+  participant_name: string
+  email?: string
+  phone?: string
+  status: RegistrationStatus
+  amount_due: number
+  amount_paid: number
+  paid_at?: string
+  payment_method?: string
+  notes?: string
+  created_at: string
+  updated_at: string
+}
+
+// A course with its registrations rolled up into capacity and margin figures
+export type CourseOverview = Course & {
+  registeredCount: number
+  // Places left, or null when the course has no participant limit
+  remaining: number | null
+  amountDue: number
+  amountPaid: number
+  costs: number
+  margin: number
+  marginPercent: number
+  // Converts the course's amounts into the base currency, for totals across courses in different currencies
+  baseRate: number
+}
+
+type CourseWithRegistrations = Course & {
+  base_rate?: number | null
+  course_registrations?: Pick<CourseRegistration, "status" | "amount_due" | "amount_paid">[]
+}
+
+export function isActiveRegistration(registration: Pick<CourseRegistration, "status">) {
+  return registration.status !== "cancelled"
+}
+
+function toCourseOverview({ course_registrations, base_rate, ...course }: CourseWithRegistrations): CourseOverview {
+  const registrations = course_registrations || []
+  const active = registrations.filter(isActiveRegistration)
+  const revenue = Number(course.total_amount) || 0
+  const costs = (Number(course.materials_cost) || 0) + (Number(course.instructor_cost) || 0)
+  const margin = revenue - costs
+
+  return {
+    ...course,
+    registeredCount: active.length,
+    remaining: course.max_participants ? Math.max(course.max_participants - active.length, 0) : null,
+    amountDue: active.reduce((sum, registration) => sum + (Number(registration.amount_due) || 0), 0),
+    // Cancelled registrations are refunded, so their payment no longer counts
+    amountPaid: active.reduce((sum, registration) => sum + (Number(registration.amount_paid) || 0), 0),
+    costs,
+    margin,
+    marginPercent: revenue > 0 ? (margin / revenue) * 100 : 0,
+    baseRate: Number(base_rate) || 0,
+  }
+}
+
+// Every course with registration counts and margin, newest first
+export async function fetchCourseOverviews() {
+  try {
+    const { data, error } = await supabase
+      .from("courses")
+      .select("*, base_rate, course_registrations(status, amount_due, amount_paid)")
+      .order("date", { ascending: false })
+
+    if (error) throw error
+
+    return ((data || []) as CourseWithRegistrations[]).map(toCourseOverview)
+  } catch (error) {
+    console.error("Error fetching courses:", error)
+    throw error
+  }
+}
+
+export async function fetchCourseOverview(id: number) {
+  try {
+    const { data, error } = await supabase
+      .from("courses")
+      .select("*, base_rate, course_registrations(status, amount_due, amount_paid)")
+      .eq("id", id)
+      .single()
+
+    if (error) throw error
+    return toCourseOverview(data as CourseWithRegistrations)
+  } catch (error) {
+    console.error("Error fetching course:", error)
+    throw error
+  }
+}
+
+export async function insertCourse(course: Omit<Course, "id" | "created_at" | "updated_at" | "total_amount">) {
+  try {
+    const { data, error } = await supabase.from("courses").insert(course).select()
+
+    if (error) throw error
+    return data[0] as Course
+  } catch (error) {
+    console.error("Error inserting course:", error)
+    throw error
+  }
+}
+
+export async function updateCourse(id: number, course: Partial<Course>) {
+  try {
+    const { data, error } = await supabase
+      .from("courses")
+      .update({ ...course, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Course
+  } catch (error) {
+    console.error("Error updating course:", error)
+    throw error
+  }
+}
+
+// Registrations are removed with the course
+export async function deleteCourse(id: number) {
+  try {
+    const { error } = await supabase.from("courses").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting course:", error)
+    throw error
+  }
+}
+
+export async function fetchRegistrations(courseId: number) {
+  try {
+    const { data, error } = await supabase
+      .from("course_registrations")
+      .select("*")
+      .eq("course_id", courseId)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+    return data as CourseRegistration[]
+  } catch (error) {
+    console.error("Error fetching course registrations:", error)
+    return []
+  }
+}
+
+// The database rejects registrations beyond the course's max_participants
+export async function insertRegistration(
+  registration: Omit<CourseRegistration, "id" | "created_at" | "updated_at">,
+) {
+  try {
+    const { data, error } = await supabase.from("course_registrations").insert(registration).select()
+
+    if (error) throw error
+    return data[0] as CourseRegistration
+  } catch (error) {
+    console.error("Error inserting course registration:", error)
+    throw error
+  }
+}
+
+export async function updateRegistration(id: number, registration: Partial<CourseRegistration>) {
+  try {
+    const { data, error } = await supabase
+      .from("course_registrations")
+      .update({ ...registration, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as CourseRegistration
+  } catch (error) {
+    console.error("Error updating course registration:", error)
+    throw error
+  }
+}
+
+export async function deleteRegistration(id: number) {
+  try {
+    const { error } = await supabase.from("course_registrations").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting course registration:", error)
+    throw error
+  }
+}
@@ -0,0 +1,61 @@
+import { supabase } from "./supabase"
+import type { ExchangeRate, NewExchangeRate } from "./currency"
+
+// Fetch stored exchange rates, newest first
+export async function fetchExchangeRates() {
+  try {
+    const { data, error } = await supabase
+      .from("exchange_rates")
+      .select("*")
+      .order("rate_date", { ascending: false })
+      .order("from_currency", { ascending: true })
+
+    if (error) throw error
+
+    return ((data || []) as ExchangeRate[]).map((rate) => ({ ...rate, rate: Number(rate.rate) }))
+  } catch (error) {
+    console.error("Error fetching exchange rates:", error)
+    return []
+  }
+}
+
+// Insert rates, replacing any existing rate for the same currency pair and date
+export async function upsertExchangeRates(rates: NewExchangeRate[]) {
+  try {
+    const { data, error } = await supabase
+      .from("exchange_rates")
+      .upsert(rates, { onConflict: "organization_id,from_currency,to_currency,rate_date" })
+      .select()
+
+    if (error) throw error
+    return data as ExchangeRate[]
+  } catch (error) {
+    console.error("Error saving exchange rates:", error)
+    throw error
+  }
+}
+
+export async function deleteExchangeRate(id: number) {
+  try {
+    const { error } = await supabase.from("exchange_rates").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting exchange rate:", error)
+    throw error
+  }
+}
+
+// Currencies used on records that can't be converted into the base currency yet
+export async function fetchCurrenciesMissingRates() {
+  try {
+    const { data, error } = await supabase.rpc("currencies_missing_rates")
+
+    if (error) throw error
+    return (data || []) as string[]
+  } catch (error) {
+    console.error("Error fetching currencies missing rates:", error)
+    return []
+  }
+}
@@ -0,0 +1,150 @@
+import { supabase } from "./supabase"
+import type { Order } from "./supabase-revenue"
+
+// Types for customer data
+export type Customer = {
+  id: number
+  name: string
+  email?: string
+  phone?: string
+  address?: string
+  notes?: string
+  created_at: string
+  updated_at: string
+}
+
+// Lifetime figures for a customer; revenue only counts orders whose payment status is mapped to "paid"
+export type CustomerStats = {
+  customer_id: number
+  orderCount: number
+  paidOrderCount: number
+  lifetimeRevenue: number
+  averageOrderValue: number
+  firstOrderDate?: string
+  lastPurchaseDate?: string
+}
+
+type CustomerTotalsRow = {
+  customer_id: number
+  order_count: number | string
+  paid_order_count: number | string
+  lifetime_revenue: number | string
+  first_order_at: string | null
+  last_purchase_at: string | null
+}
+
+// Fetch all customers ordered by name
+export async function fetchCustomers() {
+  try {
+    const { data, error } = await supabase.from("customers").select("*").order("name", { ascending: true })
+
+    if (error) throw error
+    return data as Customer[]
+  } catch (error) {
+    console.error("Error fetching customers:", error)
+    // Return empty array instead of throwing to prevent cascading failures
+    return []
+  }
+}
+
+export async function fetchCustomer(id: number) {
+  try {
+    const { data, error } = await supabase.from("customers").select("*").eq("id", id).single()
+
+    if (error) throw error
+    return data as Customer
+  } catch (error) {
+    console.error("Error fetching customer:", error)
+    throw error
+  }
+}
+
+export async function insertCustomer(customer: Omit<Customer, "id" | "created_at" | "updated_at">) {
+  try {
+    const { data, error } = await supabase.from("customers").insert(customer).select()
+
+    if (error) throw error
+    return data[0] as Customer
+  } catch (error) {
+    console.error("Error inserting customer:", error)
+    throw error
+  }
+}
+
+export async function updateCustomer(id: number, customer: Partial<Customer>) {
+  try {
+    const { data, error } = await supabase
+      .from("customers")
+      .update({ ...customer, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Customer
+  } catch (error) {
+    console.error("Error updating customer:", error)
+    throw error
+  }
+}
+
+// Orders keep their history; the database clears their customer_id when the customer is removed
+export async function deleteCustomer(id: number) {
+  try {
+    const { error } = await supabase.from("customers").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting customer:", error)
+    throw error
+  }
+}
+
+function toCustomerStats(row: CustomerTotalsRow): CustomerStats {
+  const paidOrderCount = Number(row.paid_order_count) || 0
+  const lifetimeRevenue = Number(row.lifetime_revenue) || 0
+
+  return {
+    customer_id: row.customer_id,
+    orderCount: Number(row.order_count) || 0,
+    paidOrderCount,
+    lifetimeRevenue,
+    averageOrderValue: paidOrderCount > 0 ? lifetimeRevenue / paidOrderCount : 0,
+    firstOrderDate: row.first_order_at || undefined,
+    lastPurchaseDate: row.last_purchase_at || undefined,
+  }
+}
+
+// Lifetime revenue, order counts and last purchase date for every customer with orders
+export async function fetchCustomerStats() {
+  try {
+    const { data, error } = await supabase.rpc("customer_order_totals")
+
+    if (error) throw error
+
+    return ((data || []) as CustomerTotalsRow[]).map(toCustomerStats)
+  } catch (error) {
+    console.error("Error fetching customer stats:", error)
+    return []
+  }
+}
+
+// Every order a customer has placed, whatever its payment status, newest first
+export async function fetchOrdersByCustomer(customerId: number) {
+  try {
+    const { data, error } = await supabase
+      .from("orders")
+      .select(
+        `id, order_number, created_at, customer_id, status, order_type, payment_status, payment_method,
+        total_amount, shipping_cost, amount_received, pickup_date`,
+      )
+      .eq("customer_id", customerId)
+      .order("created_at", { ascending: false })
+
+    if (error) throw error
+    return data as Order[]
+  } catch (error) {
+    console.error("Error fetching customer orders:", error)
+    return []
+  }
+}
@@ -0,0 +1,155 @@
+import { supabase } from "./supabase"
+
+// Ingredient price history, built from expenses that have a cost per 100g. Purchases of the
+// same ingredient are matched on their description, so "Fresh parsley" bought from two
+// suppliers shows up as one ingredient with a price line per supplier.
+
+// Percentage rise between the last two purchases that flags an ingredient as getting pricier
+export const PRICE_INCREASE_THRESHOLD = 5
+
+export type IngredientPrice = {
+  expense_id: number
+  date: string
+  ingredient: string
+  supplier_id?: number
+  supplier_name?: string
+  // In the base currency, converted at the same rate as the purchase's amount
+  cost_per_100g: number
+}
+
+export type IngredientSummary = {
+  key: string
+  name: string
+  latest: IngredientPrice
+  previous?: IngredientPrice
+  // Percentage change from the previous purchase to the latest one
+  change?: number
+  supplierNames: string[]
+  purchaseCount: number
+}
+
+export type PriceHistorySeries = {
+  // Chart data keys per supplier; supplier names can't be used directly as CSS variable names
+  suppliers: { key: string; name: string }[]
+  rows: Record<string, string | number>[]
+}
+
+const NO_SUPPLIER = "No supplier"
+
+// Ignore case and spacing differences between purchases of the same ingredient
+export function ingredientKey(description: string) {
+  return description.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+type IngredientPriceRow = {
+  id: number
+  date: string
+  description: string
+  supplier_id: number | null
+  amount: number | string
+  amount_base: number | string | null
+  cost_per_100g: number | string
+  // Many-to-one, so one supplier object per purchase
+  suppliers: { name: string } | null
+}
+
+// Fetch every costed purchase, oldest first
+export async function fetchIngredientPrices(dateFrom?: string, dateTo?: string) {
+  try {
+    let query = supabase
+      .from("expenses")
+      .select("id, date, description, supplier_id, amount, amount_base, cost_per_100g, suppliers(name)")
+      .not("cost_per_100g", "is", null)
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+
+    if (dateFrom) {
+      query = query.gte("date", dateFrom)
+    }
+
+    if (dateTo) {
+      query = query.lte("date", dateTo)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    // Purchases in a currency without a rate into the base currency can't be compared, so they're left out
+    return ((data || []) as unknown as IngredientPriceRow[])
+      .filter((expense) => expense.amount_base !== null)
+      .map((expense): IngredientPrice => {
+        const amount = Number(expense.amount) || 0
+        const rate = amount > 0 ? Number(expense.amount_base) / amount : 1
+
+        return {
+          expense_id: expense.id,
+          date: expense.date,
+          ingredient: expense.description,
+          supplier_id: expense.supplier_id ?? undefined,
+          supplier_name: expense.suppliers?.name,
+          cost_per_100g: Number(expense.cost_per_100g) * rate,
+        }
+      })
+  } catch (error) {
+    console.error("Error fetching ingredient prices:", error)
+    return []
+  }
+}
+
+// One row per ingredient, most recently bought first. Expects prices oldest first.
+export function summarizeIngredients(prices: IngredientPrice[]) {
+  const purchases = new Map<string, IngredientPrice[]>()
+
+  prices.forEach((price) => {
+    const key = ingredientKey(price.ingredient)
+    purchases.set(key, [...(purchases.get(key) || []), price])
+  })
+
+  return Array.from(purchases.entries())
+    .map(([key, history]): IngredientSummary => {
+      const latest = history[history.length - 1]
+      const previous = history.length > 1 ? history[history.length - 2] : undefined
+
+      return {
+        key,
+        name: latest.ingredient,
+        latest,
+        previous,
+        change:
+          previous && previous.cost_per_100g > 0
+            ? ((latest.cost_per_100g - previous.cost_per_100g) / previous.cost_per_100g) * 100
+            : undefined,
+        supplierNames: Array.from(new Set(history.map((price) => price.supplier_name || NO_SUPPLIER))),
+        purchaseCount: history.length,
+      }
+    })
+    .sort((a, b) => b.latest.date.localeCompare(a.latest.date) || a.name.localeCompare(b.name))
+}
+
+// Chart rows for one ingredient: a row per purchase date with the price paid to each supplier.
+// Several purchases from one supplier on the same day are averaged.
+export function priceHistorySeries(prices: IngredientPrice[], key: string): PriceHistorySeries {
+  const history = prices.filter((price) => ingredientKey(price.ingredient) === key)
+  const supplierNames = Array.from(new Set(history.map((price) => price.supplier_name || NO_SUPPLIER)))
+  const suppliers = supplierNames.map((name, index) => ({ key: `supplier${index}`, name }))
+  const supplierKeys = new Map(suppliers.map((supplier) => [supplier.name, supplier.key]))
+
+  const byDate = new Map<string, Record<string, number[]>>()
+  history.forEach((price) => {
+    const supplierKey = supplierKeys.get(price.supplier_name || NO_SUPPLIER) as string
+    const day = byDate.get(price.date) || {}
+    day[supplierKey] = [...(day[supplierKey] || []), price.cost_per_100g]
+    byDate.set(price.date, day)
+  })
+
+  const rows = Array.from(byDate.entries()).map(([date, day]) => {
+    const row: Record<string, string | number> = { date }
+    Object.entries(day).forEach(([supplierKey, costs]) => {
+      row[supplierKey] = costs.reduce((sum, cost) => sum + cost, 0) / costs.length
+    })
+    return row
+  })
+
+  return { suppliers, rows }
+}
@@ -0,0 +1,400 @@
+import { supabase } from "./supabase"
+import { fetchBusinessSettings, type InventoryValuation } from "./supabase-settings"
+import { ingredientKey } from "./supabase-ingredients"
+import { fetchProducts } from "./supabase-products"
+import { normalizeUnit, quantityInGrams } from "./units"
+import { businessDate, startOfBusinessDay } from "./dates"
+import { formatNumber } from "./format"
+
+// Stock levels, worked out from the records that move stock rather than kept as a running total:
+// purchase expenses add to an item, products sold on orders take their recipe weights out of it,
+// recorded usage takes out what was used or wasted, and a stock take resets it to the counted quantity.
+// Items are matched to purchases and recipe ingredients on their name, like the ingredient price history.
+
+export type StockUnit = "g" | "pcs"
+
+export type StockItem = {
+  id: number
+  name: string
+  stock_unit: StockUnit
+  low_stock_threshold?: number | null
+  tracked_from: string
+  created_at: string
+  updated_at: string
+}
+
+export type StockMovementType = "usage" | "stocktake"
+
+export type StockMovement = {
+  id: number
+  stock_item_id: number
+  date: string
+  movement_type: StockMovementType
+  // Quantity used, or quantity counted for a stock take, in the item's stock unit
+  quantity: number
+  note?: string
+  created_at: string
+}
+
+export type StockPurchase = {
+  expense_id: number
+  date: string
+  description: string
+  quantity: number
+  unit?: string
+  item_weight_grams?: number
+  // Amount paid in the base currency
+  cost: number
+}
+
+export type StockSale = {
+  order_number: string
+  date: string
+  // Grams of each ingredient the products on the order use, keyed by ingredientKey
+  grams: Map<string, number>
+}
+
+export type InventorySources = {
+  items: StockItem[]
+  movements: StockMovement[]
+  purchases: StockPurchase[]
+  sales: StockSale[]
+}
+
+export type StockEntryKind = "purchase" | "sale" | "usage" | "stocktake"
+
+export type StockEntry = {
+  date: string
+  kind: StockEntryKind
+  description: string
+  // Change in stock; for a stock take, the difference between the counted and expected quantity
+  change: number
+  balance: number
+  movement_id?: number
+}
+
+export type StockLevel = {
+  item: StockItem
+  onHand: number
+  // Per stock unit, in the base currency; undefined until the item has been bought
+  unitCost?: number
+  value: number
+  low: boolean
+  // Newest first
+  history: StockEntry[]
+  // Purchases whose unit can't be converted into the stock unit, e.g. pieces without an item weight
+  unconvertedPurchases: number
+}
+
+// Within a day, stock is bought before it's sold or used, and counted at the end of the day
+const ENTRY_ORDER: Record<StockEntryKind, number> = { purchase: 0, sale: 1, usage: 2, stocktake: 3 }
+
+export const STOCK_ENTRY_LABELS: Record<StockEntryKind, string> = {
+  purchase: "Purchase",
+  sale: "Sale",
+  usage: "Usage",
+  stocktake: "Stock take",
+}
+
+// Fetch all stock items, alphabetically
+export async function fetchStockItems() {
+  try {
+    const { data, error } = await supabase.from("stock_items").select("*").order("name", { ascending: true })
+
+    if (error) throw error
+    return (data || []).map((item) => ({
+      ...item,
+      low_stock_threshold: item.low_stock_threshold === null ? null : Number(item.low_stock_threshold),
+    })) as StockItem[]
+  } catch (error) {
+    console.error("Error fetching stock items:", error)
+    return []
+  }
+}
+
+export async function insertStockItem(item: Omit<StockItem, "id" | "created_at" | "updated_at">) {
+  try {
+    const { data, error } = await supabase.from("stock_items").insert(item).select()
+
+    if (error) throw error
+    return data[0] as StockItem
+  } catch (error) {
+    console.error("Error inserting stock item:", error)
+    throw error
+  }
+}
+
+export async function updateStockItem(id: number, item: Partial<StockItem>) {
+  try {
+    const { data, error } = await supabase
+      .from("stock_items")
+      .update({ ...item, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as StockItem
+  } catch (error) {
+    console.error("Error updating stock item:", error)
+    throw error
+  }
+}
+
+export async function deleteStockItem(id: number) {
+  try {
+    const { error } = await supabase.from("stock_items").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting stock item:", error)
+    throw error
+  }
+}
+
+export async function fetchStockMovements() {
+  try {
+    const { data, error } = await supabase
+      .from("stock_movements")
+      .select("*")
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+
+    if (error) throw error
+    return (data || []).map((movement) => ({
+      ...movement,
+      quantity: Number(movement.quantity) || 0,
+    })) as StockMovement[]
+  } catch (error) {
+    console.error("Error fetching stock movements:", error)
+    return []
+  }
+}
+
+export async function insertStockMovement(movement: Omit<StockMovement, "id" | "created_at">) {
+  try {
+    const { data, error } = await supabase.from("stock_movements").insert(movement).select()
+
+    if (error) throw error
+    return data[0] as StockMovement
+  } catch (error) {
+    console.error("Error inserting stock movement:", error)
+    throw error
+  }
+}
+
+export async function deleteStockMovement(id: number) {
+  try {
+    const { error } = await supabase.from("stock_movements").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting stock movement:", error)
+    throw error
+  }
+}
+
+// Purchases with a quantity since the given date, oldest first
+async function fetchStockPurchases(dateFrom: string) {
+  const { data, error } = await supabase
+    .from("expenses")
+    .select("id, date, description, quantity, unit, item_weight_grams, amount_base")
+    .not("quantity", "is", null)
+    .gte("date", dateFrom)
+    .order("date", { ascending: true })
+    .order("id", { ascending: true })
+
+  if (error) throw error
+
+  return (data || []).map(
+    (expense): StockPurchase => ({
+      expense_id: expense.id,
+      date: expense.date,
+      description: expense.description,
+      quantity: Number(expense.quantity) || 0,
+      unit: expense.unit ?? undefined,
+      item_weight_grams: expense.item_weight_grams ? Number(expense.item_weight_grams) : undefined,
+      cost: Number(expense.amount_base) || 0,
+    }),
+  )
+}
+
+type StockSaleRow = {
+  order_id: number
+  order_number: string
+  created_at: string
+  product_id: number
+  quantity: number | string
+}
+
+// Ingredients used by the products sold on each order placed since the given date, from their recipes.
+// Read through stock_sales, which leaves out cancelled and refunded orders and the orders' amounts, so
+// staff who can't see orders still get stock levels.
+async function fetchStockSales(dateFrom: string) {
+  const [salesResult, products] = await Promise.all([
+    supabase.rpc("stock_sales", { created_from: startOfBusinessDay(dateFrom) }),
+    fetchProducts(),
+  ])
+
+  if (salesResult.error) throw salesResult.error
+
+  const recipes = new Map(products.map((product) => [product.id, product]))
+  const sales = new Map<number, StockSale>()
+  const orderItems = (salesResult.data || []) as StockSaleRow[]
+
+  orderItems.forEach((item) => {
+    const product = recipes.get(item.product_id)
+    if (!product) return
+
+    const sale = sales.get(item.order_id) || {
+      order_number: item.order_number,
+      date: businessDate(item.created_at),
+      grams: new Map<string, number>(),
+    }
+
+    product.ingredients.forEach((ingredient) => {
+      const key = ingredientKey(ingredient.ingredient)
+      const grams = (ingredient.weight_grams / product.batch_yield) * Number(item.quantity)
+      sale.grams.set(key, (sale.grams.get(key) || 0) + grams)
+    })
+    sales.set(item.order_id, sale)
+  })
+
+  return Array.from(sales.values())
+}
+
+// Everything stock levels are worked out from
+export async function fetchInventorySources(): Promise<InventorySources> {
+  try {
+    const items = await fetchStockItems()
+    if (items.length === 0) return { items, movements: [], purchases: [], sales: [] }
+
+    const trackedFrom = items.map((item) => item.tracked_from).sort()[0]
+    const [movements, purchases, sales] = await Promise.all([
+      fetchStockMovements(),
+      fetchStockPurchases(trackedFrom),
+      fetchStockSales(trackedFrom),
+    ])
+
+    return { items, movements, purchases, sales }
+  } catch (error) {
+    console.error("Error fetching inventory:", error)
+    return { items: [], movements: [], purchases: [], sales: [] }
+  }
+}
+
+// Quantity of a purchase in an item's stock unit, or undefined when it can't be converted
+function purchaseQuantity(purchase: StockPurchase, unit: StockUnit) {
+  if (unit === "pcs") {
+    return normalizeUnit(purchase.unit) === "pcs" && purchase.quantity > 0 ? purchase.quantity : undefined
+  }
+  return quantityInGrams(purchase.quantity, purchase.unit, purchase.item_weight_grams)
+}
+
+type CostLayer = { quantity: number; cost: number }
+
+// Value of the quantity on hand. FIFO assumes the oldest stock went first, so what's left is valued at the
+// most recent purchases; stock beyond what was bought since tracking started is valued at the average.
+function valueStock(onHand: number, layers: CostLayer[], method: InventoryValuation) {
+  const boughtQuantity = layers.reduce((sum, layer) => sum + layer.quantity, 0)
+  if (boughtQuantity === 0) return { unitCost: undefined, value: 0 }
+
+  const averageCost = layers.reduce((sum, layer) => sum + layer.cost, 0) / boughtQuantity
+  if (onHand <= 0) return { unitCost: averageCost, value: 0 }
+  if (method === "average") return { unitCost: averageCost, value: onHand * averageCost }
+
+  let remaining = onHand
+  let value = 0
+  for (const layer of [...layers].reverse()) {
+    const taken = Math.min(remaining, layer.quantity)
+    value += (layer.cost / layer.quantity) * taken
+    remaining -= taken
+    if (remaining <= 0) break
+  }
+  value += remaining * averageCost
+
+  return { unitCost: value / onHand, value }
+}
+
+export function computeStockLevels(sources: InventorySources, method: InventoryValuation): StockLevel[] {
+  return sources.items.map((item) => {
+    const key = ingredientKey(item.name)
+    const entries: (Omit<StockEntry, "balance"> & { counted?: number })[] = []
+    const layers: CostLayer[] = []
+    let unconvertedPurchases = 0
+
+    sources.purchases
+      .filter((purchase) => purchase.date >= item.tracked_from && ingredientKey(purchase.description) === key)
+      .forEach((purchase) => {
+        const quantity = purchaseQuantity(purchase, item.stock_unit)
+        if (!quantity) {
+          unconvertedPurchases++
+          return
+        }
+        layers.push({ quantity, cost: purchase.cost })
+        entries.push({ date: purchase.date, kind: "purchase", description: purchase.description, change: quantity })
+      })
+
+    // Recipes are weighed, so sales only take stock out of items counted in grams
+    if (item.stock_unit === "g") {
+      sources.sales
+        .filter((sale) => sale.date >= item.tracked_from && sale.grams.has(key))
+        .forEach((sale) => {
+          entries.push({
+            date: sale.date,
+            kind: "sale",
+            description: `Order #${sale.order_number}`,
+            change: -(sale.grams.get(key) as number),
+          })
+        })
+    }
+
+    sources.movements
+      .filter((movement) => movement.stock_item_id === item.id)
+      .forEach((movement) => {
+        entries.push({
+          date: movement.date,
+          kind: movement.movement_type,
+          description: movement.note || STOCK_ENTRY_LABELS[movement.movement_type],
+          change: movement.movement_type === "usage" ? -movement.quantity : 0,
+          counted: movement.movement_type === "stocktake" ? movement.quantity : undefined,
+          movement_id: movement.id,
+        })
+      })
+
+    // Array.prototype.sort is stable, so entries of the same kind on the same day keep their order
+    entries.sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.kind] - ENTRY_ORDER[b.kind])
+
+    let balance = 0
+    const history = entries.map(({ counted, ...entry }): StockEntry => {
+      const change = counted === undefined ? entry.change : counted - balance
+      balance += change
+      return { ...entry, change, balance }
+    })
+
+    const { unitCost, value } = valueStock(balance, layers, method)
+
+    return {
+      item,
+      onHand: balance,
+      unitCost,
+      value,
+      low: item.low_stock_threshold != null && balance <= item.low_stock_threshold,
+      history: history.reverse(),
+      unconvertedPurchases,
+    }
+  })
+}
+
+// Stock items at or below their low-stock threshold, for the dashboard warnings
+export async function fetchLowStockLevels() {
+  const [sources, settings] = await Promise.all([fetchInventorySources(), fetchBusinessSettings()])
+  return computeStockLevels(sources, settings.inventory_valuation).filter((level) => level.low)
+}
+
+// e.g. "1.25 kg", "350 g" or "12 pcs"
+export function formatStockQuantity(quantity: number, unit: StockUnit) {
+  if (unit === "pcs") return `${formatNumber(quantity)} pcs`
+  return Math.abs(quantity) >= 1000 ? `${formatNumber(quantity / 1000)} kg` : `${formatNumber(quantity, 0)} g`
+}
@@ -0,0 +1,18 @@
+import { ledgerFiltersToParams, type LedgerFilters, type LedgerPage } from "./ledger"
+
+// Fetch one page of the ledger through the API route
+export async function fetchLedger(filters: LedgerFilters) {
+  try {
+    const response = await fetch(`/api/ledger?${ledgerFiltersToParams(filters).toString()}`)
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to fetch ledger")
+    }
+
+    return result as LedgerPage
+  } catch (error) {
+    console.error("Error fetching ledger:", error)
+    throw error
+  }
+}
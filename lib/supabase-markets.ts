@@ -0,0 +1,112 @@
+import { supabase } from "./supabase"
+import type { Market } from "./supabase-revenue"
+
+// Profit and loss for a single market
+export type MarketPnl = Pick<
+  Market,
+  "id" | "name" | "location" | "organization_name" | "start_date" | "end_date" | "result"
+> & {
+  // Takings recorded as final_incoming
+  gross: number
+  fee: number
+  commission: number
+  // Expenses linked to the market through expenses.market_id
+  linkedExpenses: number
+  expenseCount: number
+  net: number
+  days: number
+  netPerDay: number
+}
+
+export type OrganizerRanking = {
+  organization_name: string
+  marketCount: number
+  days: number
+  gross: number
+  costs: number
+  net: number
+  netPerDay: number
+}
+
+type MarketProfitabilityRow = {
+  id: number
+  name: string
+  location: string | null
+  organization_name: string | null
+  start_date: string
+  end_date: string
+  result: string | null
+  gross: number | string
+  fee: number | string
+  commission: number | string
+  linked_expenses: number | string
+  expense_count: number | string
+  days: number
+}
+
+function toMarketPnl(row: MarketProfitabilityRow): MarketPnl {
+  const gross = Number(row.gross) || 0
+  const fee = Number(row.fee) || 0
+  const commission = Number(row.commission) || 0
+  const linkedExpenses = Number(row.linked_expenses) || 0
+  const net = gross - fee - commission - linkedExpenses
+  const days = Math.max(row.days || 1, 1)
+
+  return {
+    id: row.id,
+    name: row.name,
+    location: row.location || "",
+    organization_name: row.organization_name || undefined,
+    start_date: row.start_date,
+    end_date: row.end_date,
+    result: row.result || undefined,
+    gross,
+    fee,
+    commission,
+    linkedExpenses,
+    expenseCount: Number(row.expense_count) || 0,
+    net,
+    days,
+    netPerDay: net / days,
+  }
+}
+
+// P&L for every market ending within the date range, newest first
+export async function fetchMarketPnl(dateFrom?: string, dateTo?: string) {
+  try {
+    const { data, error } = await supabase.rpc("market_profitability", {
+      date_from: dateFrom || null,
+      date_to: dateTo || null,
+    })
+
+    if (error) throw error
+
+    return ((data || []) as MarketProfitabilityRow[]).map(toMarketPnl)
+  } catch (error) {
+    console.error("Error fetching market profitability:", error)
+    throw error
+  }
+}
+
+// Markets grouped by organizer and ranked by net profit per market day, best first
+export function rankOrganizers(markets: MarketPnl[]) {
+  const organizers: Record<string, OrganizerRanking> = {}
+
+  markets.forEach((market) => {
+    const key = market.organization_name || "No organizer"
+    if (!organizers[key]) {
+      organizers[key] = { organization_name: key, marketCount: 0, days: 0, gross: 0, costs: 0, net: 0, netPerDay: 0 }
+    }
+
+    const organizer = organizers[key]
+    organizer.marketCount += 1
+    organizer.days += market.days
+    organizer.gross += market.gross
+    organizer.costs += market.fee + market.commission + market.linkedExpenses
+    organizer.net += market.net
+  })
+
+  return Object.values(organizers)
+    .map((organizer) => ({ ...organizer, netPerDay: organizer.days > 0 ? organizer.net / organizer.days : 0 }))
+    .sort((a, b) => b.netPerDay - a.netPerDay)
+}
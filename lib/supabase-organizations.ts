@@ -0,0 +1,163 @@
+import { supabase } from "./supabase"
+import { toRole, type Role } from "./permissions"
+
+// Organizations keep separate books. Row level security only returns rows from the user's active
+// organization and new rows default to it (see the organizations migration), so the other data
+// functions don't filter on it; switching organization is all it takes to work on another business.
+
+export type Organization = {
+  id: number
+  name: string
+  created_at: string
+}
+
+export type Membership = {
+  organization: Organization
+  role: Role
+  created_at: string
+}
+
+export type Invitation = {
+  id: number
+  organization_id: number
+  email: string
+  role: Role
+  created_at: string
+  // Only set for the signed-in user's own invitations
+  organization?: Organization
+}
+
+// Many-to-one embeds come back as a single organization rather than the array the untyped client infers
+type MembershipRow = {
+  role: string
+  created_at: string
+  organizations: Organization | null
+}
+
+type InvitationRow = Omit<Invitation, "role" | "organization"> & {
+  role: string
+  organizations: Organization | null
+}
+
+// Organizations the user belongs to, in the order they joined them
+export async function fetchMemberships(userId: string) {
+  try {
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select("role, created_at, organizations(id, name, created_at)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+    return ((data || []) as unknown as MembershipRow[])
+      .filter((membership) => membership.organizations)
+      .map(
+        (membership): Membership => ({
+          organization: membership.organizations as Organization,
+          role: toRole(membership.role),
+          created_at: membership.created_at,
+        }),
+      )
+  } catch (error) {
+    console.error("Error fetching organizations:", error)
+    return []
+  }
+}
+
+// The membership the database treats as active: the one the profile points to, or else the first one
+export function activeMembership(memberships: Membership[], activeOrganizationId?: number | null) {
+  return memberships.find((membership) => membership.organization.id === activeOrganizationId) || memberships[0] || null
+}
+
+export async function switchOrganization(userId: string, organizationId: number) {
+  try {
+    const { error } = await supabase
+      .from("profiles")
+      .update({ active_organization_id: organizationId, updated_at: new Date().toISOString() })
+      .eq("id", userId)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error switching organization:", error)
+    throw error
+  }
+}
+
+// Creates an organization owned by the user, with default settings, and makes it the active one
+export async function createOrganization(name: string) {
+  try {
+    const { data, error } = await supabase.rpc("create_organization", { name })
+
+    if (error) throw error
+    return data as number
+  } catch (error) {
+    console.error("Error creating organization:", error)
+    throw error
+  }
+}
+
+export async function renameOrganization(id: number, name: string) {
+  try {
+    const { data, error } = await supabase
+      .from("organizations")
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select("id, name, created_at")
+
+    if (error) throw error
+    return data[0] as Organization
+  } catch (error) {
+    console.error("Error renaming organization:", error)
+    throw error
+  }
+}
+
+// Invitations addressed to the signed-in user
+export async function fetchMyInvitations(email: string) {
+  try {
+    const { data, error } = await supabase
+      .from("organization_invitations")
+      .select("id, organization_id, email, role, created_at, organizations(id, name, created_at)")
+      .eq("email", email.toLowerCase())
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+    return ((data || []) as unknown as InvitationRow[]).map(
+      ({ organizations, ...invitation }): Invitation => ({
+        ...invitation,
+        role: toRole(invitation.role),
+        organization: organizations ?? undefined,
+      }),
+    )
+  } catch (error) {
+    console.error("Error fetching invitations:", error)
+    return []
+  }
+}
+
+// Joins the organization and makes it the active one
+export async function acceptInvitation(id: number) {
+  try {
+    const { data, error } = await supabase.rpc("accept_invitation", { invitation_id: id })
+
+    if (error) throw error
+    return data as number
+  } catch (error) {
+    console.error("Error accepting invitation:", error)
+    throw error
+  }
+}
+
+// Declining an invitation and an owner cancelling it both delete it
+export async function deleteInvitation(id: number) {
+  try {
+    const { error } = await supabase.from("organization_invitations").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting invitation:", error)
+    throw error
+  }
+}
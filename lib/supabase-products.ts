@@ -0,0 +1,281 @@
+import { supabase } from "./supabase"
+import { ingredientKey, type IngredientPrice } from "./supabase-ingredients"
+
+// Products and their recipes. A recipe lists the ingredients one batch uses by weight; each ingredient is
+// matched to the expenses it's bought with on their description (see ingredientKey) and costed from their
+// cost per 100g. Costs and selling prices are in the base currency.
+
+export type CostBasis = "latest" | "average"
+
+export type ProductIngredient = {
+  id?: number
+  ingredient: string
+  weight_grams: number
+}
+
+export type Product = {
+  id: number
+  name: string
+  description?: string
+  // Per unit sold
+  selling_price: number
+  // Units one batch of the recipe makes
+  batch_yield: number
+  cost_basis: CostBasis
+  archived: boolean
+  ingredients: ProductIngredient[]
+  created_at: string
+  updated_at: string
+}
+
+export type ProductInput = Omit<Product, "id" | "created_at" | "updated_at">
+
+export type OrderItem = {
+  id?: number
+  order_id: number
+  product_id: number
+  quantity: number
+}
+
+export type IngredientCost = {
+  latest: number
+  average: number
+}
+
+export type RecipeLine = ProductIngredient & {
+  // Undefined when no costed purchase of the ingredient was found
+  cost_per_100g?: number
+  cost?: number
+}
+
+export type ProductCost = {
+  lines: RecipeLine[]
+  batchCost: number
+  unitCost: number
+  margin: number
+  // Margin as a percentage of the selling price
+  marginPercent?: number
+  // Ingredients without a price, which leave the cost understated
+  missingIngredients: string[]
+}
+
+export type OrderCostEstimate = {
+  cost: number
+  // False when a product on the order has ingredients without a price
+  complete: boolean
+}
+
+type ProductIngredientRow = {
+  id: number
+  ingredient: string
+  weight_grams: number | string
+  position: number
+}
+
+type ProductRow = Omit<Product, "selling_price" | "batch_yield" | "ingredients"> & {
+  selling_price: number | string
+  batch_yield: number | string
+  product_ingredients?: ProductIngredientRow[]
+}
+
+function toProduct(row: ProductRow): Product {
+  const { product_ingredients, ...product } = row
+
+  return {
+    ...product,
+    selling_price: Number(product.selling_price) || 0,
+    batch_yield: Number(product.batch_yield) || 1,
+    ingredients: [...(product_ingredients || [])]
+      .sort((a, b) => a.position - b.position)
+      .map((ingredient) => ({
+        id: ingredient.id,
+        ingredient: ingredient.ingredient,
+        weight_grams: Number(ingredient.weight_grams) || 0,
+      })),
+  }
+}
+
+// Fetch all products with their recipes, archived ones included
+export async function fetchProducts() {
+  try {
+    const { data, error } = await supabase
+      .from("products")
+      .select("*, product_ingredients(id, ingredient, weight_grams, position)")
+      .order("name", { ascending: true })
+
+    if (error) throw error
+    return ((data || []) as ProductRow[]).map(toProduct)
+  } catch (error) {
+    console.error("Error fetching products:", error)
+    return []
+  }
+}
+
+// The recipe as save_recipe takes it, in display order
+function recipeRows(ingredients: ProductIngredient[]) {
+  return ingredients.map((ingredient) => ({ ingredient: ingredient.ingredient, weight_grams: ingredient.weight_grams }))
+}
+
+// Adds the product and its recipe together, so a failed recipe doesn't leave a product without one
+export async function insertProduct(product: ProductInput) {
+  try {
+    const { ingredients, ...productData } = product
+
+    const { data, error } = await supabase.rpc("create_product", {
+      name: productData.name,
+      description: productData.description ?? null,
+      selling_price: productData.selling_price,
+      batch_yield: productData.batch_yield,
+      cost_basis: productData.cost_basis,
+      archived: productData.archived,
+      ingredients: recipeRows(ingredients),
+    })
+
+    if (error) throw error
+    return { ...toProduct((data as ProductRow[])[0]), ingredients }
+  } catch (error) {
+    console.error("Error inserting product:", error)
+    throw error
+  }
+}
+
+// Changes the product and replaces its recipe in one transaction, when ingredients are given
+export async function updateProduct(id: number, product: Partial<ProductInput>) {
+  try {
+    const { ingredients, ...productData } = product
+
+    const { data, error } = await supabase.rpc("update_product", {
+      product_id: id,
+      name: productData.name ?? null,
+      description: productData.description ?? null,
+      selling_price: productData.selling_price ?? null,
+      batch_yield: productData.batch_yield ?? null,
+      cost_basis: productData.cost_basis ?? null,
+      archived: productData.archived ?? null,
+      ingredients: ingredients ? recipeRows(ingredients) : null,
+    })
+
+    if (error) throw error
+    return toProduct((data as ProductRow[])[0])
+  } catch (error) {
+    console.error("Error updating product:", error)
+    throw error
+  }
+}
+
+export async function deleteProduct(id: number) {
+  try {
+    const { error } = await supabase.from("products").delete().eq("id", id)
+
+    // Products sold on an order can't be deleted without losing the order's cost of goods
+    if (error?.code === "23503") {
+      throw new Error("This product is on existing orders. Archive it instead.")
+    }
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting product:", error)
+    throw error
+  }
+}
+
+// Fetch the products sold on orders, for one order or all of them
+export async function fetchOrderItems(orderId?: number) {
+  try {
+    let query = supabase.from("order_items").select("id, order_id, product_id, quantity")
+
+    if (orderId) {
+      query = query.eq("order_id", orderId)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+    return (data || []).map((item) => ({ ...item, quantity: Number(item.quantity) || 0 })) as OrderItem[]
+  } catch (error) {
+    console.error("Error fetching order items:", error)
+    return []
+  }
+}
+
+// Replace the products on an order, in one transaction
+export async function saveOrderItems(orderId: number, items: Omit<OrderItem, "id" | "order_id">[]) {
+  try {
+    const { data, error } = await supabase.rpc("save_order_items", {
+      order_id: orderId,
+      items: items.map((item) => ({ product_id: item.product_id, quantity: item.quantity })),
+    })
+
+    if (error) throw error
+    return ((data || []) as OrderItem[]).map((item) => ({ ...item, quantity: Number(item.quantity) || 0 }))
+  } catch (error) {
+    console.error("Error saving order items:", error)
+    throw error
+  }
+}
+
+// Latest and average cost per 100g of each ingredient, keyed by ingredientKey. Expects prices oldest first,
+// as returned by fetchIngredientPrices.
+export function ingredientCosts(prices: IngredientPrice[]) {
+  const history = new Map<string, number[]>()
+
+  prices.forEach((price) => {
+    const key = ingredientKey(price.ingredient)
+    history.set(key, [...(history.get(key) || []), price.cost_per_100g])
+  })
+
+  return new Map(
+    Array.from(history.entries()).map(([key, costs]): [string, IngredientCost] => [
+      key,
+      {
+        latest: costs[costs.length - 1],
+        average: costs.reduce((sum, cost) => sum + cost, 0) / costs.length,
+      },
+    ]),
+  )
+}
+
+// Cost of a recipe and the margin at the product's selling price
+export function costProduct(
+  product: Pick<Product, "ingredients" | "selling_price" | "batch_yield" | "cost_basis">,
+  costs: Map<string, IngredientCost>,
+): ProductCost {
+  const lines = product.ingredients.map((ingredient): RecipeLine => {
+    const cost = costs.get(ingredientKey(ingredient.ingredient))
+    const costPer100g = cost ? cost[product.cost_basis] : undefined
+
+    return {
+      ...ingredient,
+      cost_per_100g: costPer100g,
+      cost: costPer100g === undefined ? undefined : (costPer100g * ingredient.weight_grams) / 100,
+    }
+  })
+
+  const batchCost = lines.reduce((sum, line) => sum + (line.cost || 0), 0)
+  const unitCost = product.batch_yield > 0 ? batchCost / product.batch_yield : batchCost
+  const margin = product.selling_price - unitCost
+
+  return {
+    lines,
+    batchCost,
+    unitCost,
+    margin,
+    marginPercent: product.selling_price > 0 ? (margin / product.selling_price) * 100 : undefined,
+    missingIngredients: lines.filter((line) => line.cost === undefined).map((line) => line.ingredient),
+  }
+}
+
+// Estimated cost of goods for an order from the unit costs of the products on it
+export function estimateOrderCost(items: OrderItem[], productCosts: Map<number, ProductCost>): OrderCostEstimate {
+  return items.reduce(
+    (estimate, item) => {
+      const productCost = productCosts.get(item.product_id)
+
+      return {
+        cost: estimate.cost + (productCost ? productCost.unitCost * item.quantity : 0),
+        complete: estimate.complete && !!productCost && productCost.missingIngredients.length === 0,
+      }
+    },
+    { cost: 0, complete: true } as OrderCostEstimate,
+  )
+}
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { deleteExpense } from "./supabase"
+import {
+  createMemoryReceiptStorage,
+  deleteReceipt,
+  setReceiptStorage,
+  uploadReceipt,
+  MAX_RECEIPT_SIZE,
+  type Receipt,
+  type ReceiptStorage,
+} from "./supabase-receipts"
+
+type QueryResult = { data: unknown; error: unknown }
+
+// What each query resolves to, keyed by "<table>.<operation>"
+const results = vi.hoisted(() => new Map<string, QueryResult>())
+
+// Just enough of the query builder for the receipt functions: every call chains, and awaiting the query
+// resolves to the result set for its table and operation
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: () => ({
+    from(table: string) {
+      let operation = "select"
+      const query = {
+        select: () => query,
+        insert: () => {
+          operation = "insert"
+          return query
+        },
+        delete: () => {
+          operation = "delete"
+          return query
+        },
+        eq: () => query,
+        maybeSingle: () => query,
+        then: (resolve: (result: QueryResult) => unknown, reject: (error: unknown) => unknown) =>
+          Promise.resolve(results.get(`${table}.${operation}`) ?? { data: null, error: null }).then(resolve, reject),
+      }
+      return query
+    },
+  }),
+}))
+
+let storage: ReceiptStorage
+
+beforeEach(() => {
+  results.clear()
+  results.set("expenses.select", { data: { organization_id: 7 }, error: null })
+  storage = createMemoryReceiptStorage()
+  setReceiptStorage(storage)
+  vi.spyOn(console, "error").mockImplementation(() => undefined)
+})
+
+function receiptFile(name = "receipt.png", type = "image/png", size = 1024) {
+  return new File([new Uint8Array(size)], name, { type })
+}
+
+function storedReceipt(path: string): Receipt {
+  return {
+    id: 1,
+    expense_id: 3,
+    file_path: path,
+    file_name: "receipt.png",
+    content_type: "image/png",
+    size: 1024,
+    created_at: "2024-03-01T10:00:00Z",
+  }
+}
+
+describe("uploadReceipt", () => {
+  it("rejects files that aren't images or PDFs", async () => {
+    const upload = vi.spyOn(storage, "upload")
+
+    await expect(uploadReceipt(3, receiptFile("notes.txt", "text/plain"))).rejects.toThrow(
+      "notes.txt is not an image or PDF",
+    )
+    expect(upload).not.toHaveBeenCalled()
+  })
+
+  it("rejects files over the size limit", async () => {
+    await expect(uploadReceipt(3, receiptFile("scan.pdf", "application/pdf", MAX_RECEIPT_SIZE + 1))).rejects.toThrow(
+      "scan.pdf is larger than 10 MB",
+    )
+  })
+
+  it("stores the file under the expense's organization and records it", async () => {
+    const upload = vi.spyOn(storage, "upload")
+    results.set("expense_receipts.insert", { data: [storedReceipt("7/3/receipt.png")], error: null })
+
+    const receipt = await uploadReceipt(3, receiptFile("my receipt.png"))
+
+    expect(receipt.file_path).toBe("7/3/receipt.png")
+    expect(upload).toHaveBeenCalledWith(expect.stringMatching(/^7\/3\/\d+-my-receipt\.png$/), expect.any(File))
+  })
+
+  it("removes the uploaded file when the metadata insert fails", async () => {
+    const upload = vi.spyOn(storage, "upload")
+    results.set("expense_receipts.insert", { data: null, error: new Error("insert failed") })
+
+    await expect(uploadReceipt(3, receiptFile())).rejects.toThrow("insert failed")
+
+    const path = upload.mock.calls[0][0]
+    expect(await storage.getUrls([path])).toEqual({})
+  })
+})
+
+describe("deleteReceipt", () => {
+  it("removes the file and its row", async () => {
+    await storage.upload("7/3/receipt.png", receiptFile())
+
+    await expect(deleteReceipt(storedReceipt("7/3/receipt.png"))).resolves.toBe(true)
+    expect(await storage.getUrls(["7/3/receipt.png"])).toEqual({})
+  })
+
+  it("rethrows when the row can't be deleted", async () => {
+    results.set("expense_receipts.delete", { data: null, error: new Error("delete failed") })
+
+    await expect(deleteReceipt(storedReceipt("7/3/receipt.png"))).rejects.toThrow("delete failed")
+  })
+})
+
+describe("deleteExpense", () => {
+  it("removes the expense's receipt files", async () => {
+    await storage.upload("7/3/a.png", receiptFile("a.png"))
+    await storage.upload("7/3/b.pdf", receiptFile("b.pdf", "application/pdf"))
+    await storage.upload("7/4/c.png", receiptFile("c.png"))
+    results.set("expense_receipts.select", {
+      data: [{ file_path: "7/3/a.png" }, { file_path: "7/3/b.pdf" }],
+      error: null,
+    })
+
+    await expect(deleteExpense(3)).resolves.toBe(true)
+    expect(Object.keys(await storage.getUrls(["7/3/a.png", "7/3/b.pdf", "7/4/c.png"]))).toEqual(["7/4/c.png"])
+  })
+
+  it("keeps the files when their paths can't be read", async () => {
+    await storage.upload("7/3/a.png", receiptFile("a.png"))
+    results.set("expense_receipts.select", { data: null, error: new Error("select failed") })
+
+    await expect(deleteExpense(3)).rejects.toThrow("select failed")
+    expect(Object.keys(await storage.getUrls(["7/3/a.png"]))).toEqual(["7/3/a.png"])
+  })
+})
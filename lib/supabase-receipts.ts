@@ -0,0 +1,208 @@
+import { supabase } from "./supabase"
+
+// Receipt files live in a private storage bucket under "<organization id>/<expense id>/", and the
+// bucket's policies only let members of that organization read and write them. Metadata is
+// kept in the expense_receipts table so the expenses list can show them without listing
+// storage folders.
+
+export const RECEIPTS_BUCKET = "receipts"
+
+export const ACCEPTED_RECEIPT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "application/pdf"]
+
+// 10 MB
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024
+
+export type Receipt = {
+  id: number
+  expense_id: number
+  file_path: string
+  file_name: string
+  content_type: string
+  size: number
+  created_at: string
+}
+
+// The storage operations receipts need, so a local stand-in can replace Supabase Storage
+export interface ReceiptStorage {
+  upload(path: string, file: File): Promise<void>
+  remove(paths: string[]): Promise<void>
+  // Short-lived URLs for viewing private files, keyed by path
+  getUrls(paths: string[]): Promise<Record<string, string>>
+}
+
+export const supabaseReceiptStorage: ReceiptStorage = {
+  async upload(path, file) {
+    const { error } = await supabase.storage.from(RECEIPTS_BUCKET).upload(path, file, {
+      contentType: file.type,
+      upsert: false,
+    })
+    if (error) throw error
+  },
+
+  async remove(paths) {
+    const { error } = await supabase.storage.from(RECEIPTS_BUCKET).remove(paths)
+    if (error) throw error
+  },
+
+  async getUrls(paths) {
+    if (paths.length === 0) return {}
+
+    const { data, error } = await supabase.storage.from(RECEIPTS_BUCKET).createSignedUrls(paths, 60 * 60)
+    if (error) throw error
+
+    return (data || []).reduce<Record<string, string>>((urls, item) => {
+      if (item.path && item.signedUrl) urls[item.path] = item.signedUrl
+      return urls
+    }, {})
+  },
+}
+
+// In-memory stand-in that serves files as object URLs; used for local development and tests
+// without a Storage backend (set NEXT_PUBLIC_RECEIPT_STORAGE=memory)
+export function createMemoryReceiptStorage(): ReceiptStorage {
+  const files = new Map<string, { file: File; url: string }>()
+
+  return {
+    async upload(path, file) {
+      if (files.has(path)) throw new Error(`A receipt already exists at ${path}`)
+      files.set(path, { file, url: URL.createObjectURL(file) })
+    },
+
+    async remove(paths) {
+      paths.forEach((path) => {
+        const stored = files.get(path)
+        if (stored) URL.revokeObjectURL(stored.url)
+        files.delete(path)
+      })
+    },
+
+    async getUrls(paths) {
+      return paths.reduce<Record<string, string>>((urls, path) => {
+        const stored = files.get(path)
+        if (stored) urls[path] = stored.url
+        return urls
+      }, {})
+    },
+  }
+}
+
+let receiptStorage: ReceiptStorage =
+  process.env.NEXT_PUBLIC_RECEIPT_STORAGE === "memory" ? createMemoryReceiptStorage() : supabaseReceiptStorage
+
+export function getReceiptStorage() {
+  return receiptStorage
+}
+
+export function setReceiptStorage(storage: ReceiptStorage) {
+  receiptStorage = storage
+}
+
+export function isPdfReceipt(receipt: Pick<Receipt, "content_type">) {
+  return receipt.content_type === "application/pdf"
+}
+
+// Returns an error message for files that can't be stored as receipts
+export function validateReceiptFile(file: File) {
+  if (!ACCEPTED_RECEIPT_TYPES.includes(file.type)) {
+    return `${file.name} is not an image or PDF`
+  }
+  if (file.size > MAX_RECEIPT_SIZE) {
+    return `${file.name} is larger than ${MAX_RECEIPT_SIZE / 1024 / 1024} MB`
+  }
+  return null
+}
+
+// Fetch receipts for the given expenses, grouped by expense id
+export async function fetchReceipts(expenseIds?: number[]) {
+  try {
+    let query = supabase.from("expense_receipts").select("*").order("created_at", { ascending: true })
+
+    if (expenseIds) {
+      if (expenseIds.length === 0) return {}
+      query = query.in("expense_id", expenseIds)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return ((data || []) as Receipt[]).reduce<Record<number, Receipt[]>>((grouped, receipt) => {
+      grouped[receipt.expense_id] = [...(grouped[receipt.expense_id] || []), receipt]
+      return grouped
+    }, {})
+  } catch (error) {
+    console.error("Error fetching receipts:", error)
+    // Return empty result instead of throwing so the expenses list still loads
+    return {}
+  }
+}
+
+export async function uploadReceipt(expenseId: number, file: File) {
+  const validationError = validateReceiptFile(file)
+  if (validationError) throw new Error(validationError)
+
+  const storage = getReceiptStorage()
+  let uploadedPath: string | null = null
+
+  try {
+    const { data: expense, error: expenseError } = await supabase
+      .from("expenses")
+      .select("organization_id")
+      .eq("id", expenseId)
+      .maybeSingle()
+
+    if (expenseError) throw expenseError
+    if (!expense) throw new Error("Expense not found")
+
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]+/g, "-")
+    const path = `${expense.organization_id}/${expenseId}/${Date.now()}-${safeName}`
+
+    await storage.upload(path, file)
+    uploadedPath = path
+
+    const { data, error } = await supabase
+      .from("expense_receipts")
+      .insert({
+        expense_id: expenseId,
+        file_path: path,
+        file_name: file.name,
+        content_type: file.type,
+        size: file.size,
+      })
+      .select()
+
+    if (error) throw error
+    return data[0] as Receipt
+  } catch (error) {
+    console.error("Error uploading receipt:", error)
+    // Don't leave an orphaned file behind when the metadata insert fails
+    if (uploadedPath) {
+      await storage.remove([uploadedPath]).catch(() => undefined)
+    }
+    throw error
+  }
+}
+
+// The file goes first: a row without its file can be deleted again, a file without its row is never found
+export async function deleteReceipt(receipt: Receipt) {
+  try {
+    await getReceiptStorage().remove([receipt.file_path])
+
+    const { error } = await supabase.from("expense_receipts").delete().eq("id", receipt.id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting receipt:", error)
+    throw error
+  }
+}
+
+export async function fetchReceiptUrls(receipts: Receipt[]) {
+  try {
+    return await getReceiptStorage().getUrls(receipts.map((receipt) => receipt.file_path))
+  } catch (error) {
+    console.error("Error fetching receipt URLs:", error)
+    return {}
+  }
+}
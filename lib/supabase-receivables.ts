@@ -0,0 +1,224 @@
+import { differenceInCalendarDays, parseISO } from "date-fns"
+import { supabase } from "./supabase"
+import { businessDate, today } from "./dates"
+import { fetchPaymentStatusSettings, statusesWithRecognition } from "./supabase-settings"
+import type { Order } from "./supabase-revenue"
+
+// Types for receivables data
+export type AgingBucket = "0-30" | "31-60" | "61-90" | "90+"
+
+export const AGING_BUCKETS: { bucket: AgingBucket; label: string }[] = [
+  { bucket: "0-30", label: "0-30 days" },
+  { bucket: "31-60", label: "31-60 days" },
+  { bucket: "61-90", label: "61-90 days" },
+  { bucket: "90+", label: "Over 90 days" },
+]
+
+export type Receivable = Pick<
+  Order,
+  | "id"
+  | "order_number"
+  | "created_at"
+  | "customer_id"
+  | "payment_status"
+  | "payment_method"
+  | "pickup_date"
+  | "total_amount"
+  | "shipping_cost"
+  | "amount_received"
+  | "currency"
+> & {
+  customer_name?: string
+  // Total due (amount plus shipping) less what has been received
+  balance: number
+  // The balance in the base currency, for totals across orders in different currencies. Null when there is
+  // no exchange rate for the order's currency, which leaves it out of the totals.
+  balance_base: number | null
+  // Days since the order was picked up, or placed when there is no pickup date
+  ageDays: number
+  bucket: AgingBucket
+}
+
+export type CustomerReceivable = {
+  customer_id: number | null
+  customer_name: string
+  // In the base currency
+  balance: number
+  orderCount: number
+  oldestAgeDays: number
+}
+
+// Totals are in the base currency
+export type AgingSummary = Record<AgingBucket, { total: number; count: number }>
+
+export type OrderPayment = {
+  id: number
+  order_id: number
+  amount: number
+  paid_at: string
+  payment_method?: string
+  note?: string
+  created_at: string
+}
+
+export function orderBalance(order: Pick<Order, "total_amount" | "shipping_cost" | "amount_received">) {
+  return (
+    (Number(order.total_amount) || 0) + (Number(order.shipping_cost) || 0) - (Number(order.amount_received) || 0)
+  )
+}
+
+export function agingBucket(ageDays: number): AgingBucket {
+  if (ageDays > 90) return "90+"
+  if (ageDays > 60) return "61-90"
+  if (ageDays > 30) return "31-60"
+  return "0-30"
+}
+
+type ReceivableRow = Pick<
+  Order,
+  "id" | "order_number" | "created_at" | "customer_id" | "payment_status" | "payment_method" | "pickup_date"
+> & {
+  total_amount: number | string
+  shipping_cost: number | string | null
+  amount_received: number | string | null
+  currency: string
+  base_rate: number | string | null
+  // A many-to-one embed, so a single customer rather than the array the untyped client infers
+  customers: { name: string } | null
+}
+
+// Fetch orders that still have money owing: those whose payment status is mapped to "pending" in
+// settings and whose balance is above zero. Oldest first.
+export async function fetchReceivables(asOf: string = today()) {
+  try {
+    const pendingStatuses = statusesWithRecognition(await fetchPaymentStatusSettings(), "pending")
+    if (pendingStatuses.length === 0) return []
+
+    const { data, error } = await supabase
+      .from("orders")
+      .select(
+        `id, order_number, created_at, customer_id, payment_status, payment_method, pickup_date,
+        total_amount, shipping_cost, amount_received, currency, base_rate, customers(name)`,
+      )
+      .in("payment_status", pendingStatuses)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    return ((data || []) as unknown as ReceivableRow[])
+      .map((order): Receivable => {
+        const since = businessDate(order.pickup_date || order.created_at)
+        const ageDays = Math.max(differenceInCalendarDays(parseISO(asOf), parseISO(since)), 0)
+        const amounts = {
+          total_amount: Number(order.total_amount) || 0,
+          shipping_cost: Number(order.shipping_cost) || 0,
+          amount_received: Number(order.amount_received) || 0,
+        }
+        const balance = orderBalance(amounts)
+
+        return {
+          id: order.id,
+          order_number: order.order_number,
+          created_at: order.created_at,
+          customer_id: order.customer_id,
+          customer_name: order.customers?.name,
+          payment_status: order.payment_status,
+          payment_method: order.payment_method,
+          pickup_date: order.pickup_date,
+          ...amounts,
+          currency: order.currency,
+          balance,
+          balance_base: order.base_rate == null ? null : balance * Number(order.base_rate),
+          ageDays,
+          bucket: agingBucket(ageDays),
+        }
+      })
+      .filter((receivable) => receivable.balance > 0.005)
+      .sort((a, b) => b.ageDays - a.ageDays)
+  } catch (error) {
+    console.error("Error fetching receivables:", error)
+    throw error
+  }
+}
+
+export function summarizeAging(receivables: Receivable[]) {
+  const summary = AGING_BUCKETS.reduce((buckets, { bucket }) => {
+    buckets[bucket] = { total: 0, count: 0 }
+    return buckets
+  }, {} as AgingSummary)
+
+  receivables.forEach((receivable) => {
+    summary[receivable.bucket].total += receivable.balance_base ?? 0
+    summary[receivable.bucket].count += 1
+  })
+
+  return summary
+}
+
+// Outstanding balance per customer, largest first
+export function summarizeByCustomer(receivables: Receivable[]) {
+  const customers: Record<string, CustomerReceivable> = {}
+
+  receivables.forEach((receivable) => {
+    const key = receivable.customer_id?.toString() || "none"
+    if (!customers[key]) {
+      customers[key] = {
+        customer_id: receivable.customer_id ?? null,
+        customer_name: receivable.customer_name || "No customer",
+        balance: 0,
+        orderCount: 0,
+        oldestAgeDays: 0,
+      }
+    }
+
+    customers[key].balance += receivable.balance_base ?? 0
+    customers[key].orderCount += 1
+    customers[key].oldestAgeDays = Math.max(customers[key].oldestAgeDays, receivable.ageDays)
+  })
+
+  return Object.values(customers).sort((a, b) => b.balance - a.balance)
+}
+
+// Currencies of receivables left out of the base currency totals for want of an exchange rate
+export function currenciesMissingRates(receivables: Receivable[]) {
+  const currencies = receivables.flatMap(({ balance_base, currency }) =>
+    balance_base === null && currency ? [currency] : [],
+  )
+  return Array.from(new Set(currencies)).sort()
+}
+
+export async function fetchOrderPayments(orderId: number) {
+  try {
+    const { data, error } = await supabase
+      .from("order_payments")
+      .select("*")
+      .eq("order_id", orderId)
+      .order("paid_at", { ascending: false })
+
+    if (error) throw error
+
+    return data as OrderPayment[]
+  } catch (error) {
+    console.error("Error fetching order payments:", error)
+    return []
+  }
+}
+
+// Record a full or partial payment; the database updates amount_received and the payment status
+export async function recordOrderPayment(payment: Omit<OrderPayment, "id" | "created_at">) {
+  try {
+    const { data, error } = await supabase.rpc("record_order_payment", {
+      order_id: payment.order_id,
+      amount: payment.amount,
+      paid_at: payment.paid_at || today(),
+      payment_method: payment.payment_method || null,
+      note: payment.note || null,
+    })
+
+    if (error) throw error
+    return ((data || []) as Order[])[0]
+  } catch (error) {
+    console.error("Error recording order payment:", error)
+    throw error
+  }
+}
@@ -0,0 +1,106 @@
+import { supabase } from "./supabase"
+import type { MaterializeResult, RecurringExpense } from "./recurring-expenses"
+
+// Fetch all recurring expense templates with their category names
+export async function fetchRecurringExpenses() {
+  try {
+    const { data, error } = await supabase
+      .from("recurring_expenses")
+      .select(`
+        *,
+        categories:category_id (
+          name
+        )
+      `)
+      .order("description", { ascending: true })
+
+    if (error) throw error
+
+    return (data || []).map((template) => ({
+      ...template,
+      skipped_dates: template.skipped_dates || [],
+      category_name: template.categories?.name,
+      categories: undefined,
+    })) as RecurringExpense[]
+  } catch (error) {
+    console.error("Error fetching recurring expenses:", error)
+    // Return empty array instead of throwing to prevent cascading failures
+    return []
+  }
+}
+
+export async function insertRecurringExpense(
+  template: Omit<
+    RecurringExpense,
+    "id" | "organization_id" | "skipped_dates" | "generated_through" | "created_at" | "updated_at" | "category_name"
+  >,
+) {
+  try {
+    const { data, error } = await supabase
+      .from("recurring_expenses")
+      .insert({ ...template, skipped_dates: [] })
+      .select()
+
+    if (error) throw error
+    return data[0] as RecurringExpense
+  } catch (error) {
+    console.error("Error inserting recurring expense:", error)
+    throw error
+  }
+}
+
+export async function updateRecurringExpense(id: number, template: Partial<RecurringExpense>) {
+  try {
+    const { category_name, ...templateData } = template
+
+    const { data, error } = await supabase
+      .from("recurring_expenses")
+      .update({ ...templateData, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as RecurringExpense
+  } catch (error) {
+    console.error("Error updating recurring expense:", error)
+    throw error
+  }
+}
+
+// Expenses already generated from the template are kept; they just lose the link back to it
+export async function deleteRecurringExpense(id: number) {
+  try {
+    const { error } = await supabase.from("recurring_expenses").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting recurring expense:", error)
+    throw error
+  }
+}
+
+// Skip (or un-skip) a single occurrence so it is never generated
+export async function setOccurrenceSkipped(template: RecurringExpense, date: string, skipped: boolean) {
+  const others = (template.skipped_dates || []).filter((skippedDate) => skippedDate !== date)
+  const skippedDates = skipped ? [...others, date].sort() : others
+
+  return updateRecurringExpense(template.id, { skipped_dates: skippedDates })
+}
+
+// Ask the server to generate every due occurrence for the active organization
+export async function generateRecurringExpenses() {
+  try {
+    const response = await fetch("/api/recurring-expenses/generate", { method: "POST" })
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to generate recurring expenses")
+    }
+
+    return result as MaterializeResult
+  } catch (error) {
+    console.error("Error generating recurring expenses:", error)
+    throw error
+  }
+}
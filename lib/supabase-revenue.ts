@@ -1,4 +1,7 @@
 import { supabase } from "./supabase"
+import { fetchPaidPaymentStatuses } from "./supabase-settings"
+import { monthName, parseDate } from "./format"
+import { addMonths, monthRange, monthStart, monthStartsOfYear, timestampRange, yearRange } from "./dates"
 
 // Types for revenue data
 export type Order = {
@@ -19,6 +22,9 @@ export type Order = {
   pickup_date?: string
   delivery_address?: string
   amount_received?: number
+  currency?: string
+  // Join fields
+  customer_name?: string
 }
 
 export type Market = {
@@ -28,6 +34,7 @@ export type Market = {
   start_date: string
   end_date: string
   final_incoming: number
+  currency?: string
   result?: string
   created_at: string
   organization_name?: string
@@ -44,9 +51,14 @@ export type Course = {
   max_participants?: number
   registration_fee?: number
   total_amount: number
+  currency?: string
   course_description?: string
   materials_needed?: string
   instructor_name?: string
+  start_time?: string
+  // Costs deducted from the takings for the per-course margin
+  materials_cost?: number
+  instructor_cost?: number
   created_at: string
   updated_at?: string
 }
@@ -62,6 +74,9 @@ export type RevenueSummary = {
 }
 
 export type RevenueByMonth = {
+  // First day of the month, yyyy-MM-dd
+  monthStart: string
+  // Localized month name for chart labels
   month: string
   orderRevenue: number
   marketRevenue: number
@@ -75,38 +90,99 @@ export type RevenueBySource = {
   percentage: number
 }
 
-// Fetch orders with revenue data
+// Revenue per month as computed by the revenue_totals_by_month function
+export type RevenueMonthTotal = {
+  // First day of the month, yyyy-MM-dd
+  month: string
+  orderRevenue: number
+  marketRevenue: number
+  courseRevenue: number
+  orderCount: number
+  marketCount: number
+  courseCount: number
+}
+
+type RevenueTotalsRow = {
+  month?: string
+  order_revenue: number | string
+  market_revenue: number | string
+  course_revenue: number | string
+  order_count: number | string
+  market_count: number | string
+  course_count: number | string
+}
+
+function toRevenueTotals(row: RevenueTotalsRow) {
+  return {
+    orderRevenue: Number(row.order_revenue) || 0,
+    marketRevenue: Number(row.market_revenue) || 0,
+    courseRevenue: Number(row.course_revenue) || 0,
+    orderCount: Number(row.order_count) || 0,
+    marketCount: Number(row.market_count) || 0,
+    courseCount: Number(row.course_count) || 0,
+  }
+}
+
+export async function fetchRevenueMonthTotals(dateFrom?: string, dateTo?: string) {
+  const { data, error } = await supabase.rpc("revenue_totals_by_month", {
+    date_from: dateFrom || null,
+    date_to: dateTo || null,
+  })
+
+  if (error) throw error
+
+  return ((data || []) as RevenueTotalsRow[]).map(
+    (row): RevenueMonthTotal => ({ month: row.month || "", ...toRevenueTotals(row) }),
+  )
+}
+
+type PaidOrderRow = Pick<
+  Order,
+  | "id"
+  | "order_number"
+  | "created_at"
+  | "customer_id"
+  | "payment_status"
+  | "total_amount"
+  | "shipping_cost"
+  | "currency"
+> & {
+  customers: { name: string } | null
+}
+
+// Fetch paid orders, i.e. those whose payment status is mapped to "paid" in settings. The dates are
+// business days, so orders are matched on when those days start and end in the business timezone.
 export async function fetchOrders(dateFrom?: string, dateTo?: string) {
   try {
+    const paidStatuses = await fetchPaidPaymentStatuses()
+    if (paidStatuses.length === 0) return []
+
     let query = supabase
       .from("orders")
-      .select("id, order_number, created_at, payment_status, total_amount, shipping_cost")
-      // Remove the hard-coded payment_status filter since "paid" is not a valid enum value
+      .select(
+        "id, order_number, created_at, customer_id, payment_status, total_amount, shipping_cost, currency, customers(name)",
+      )
+      .in("payment_status", paidStatuses)
       .order("created_at", { ascending: false })
 
-    if (dateFrom) {
-      query = query.gte("created_at", dateFrom)
+    const createdAt = timestampRange(dateFrom, dateTo)
+
+    if (createdAt.from) {
+      query = query.gte("created_at", createdAt.from)
     }
 
-    if (dateTo) {
-      query = query.lte("created_at", dateTo)
+    if (createdAt.to) {
+      query = query.lt("created_at", createdAt.to)
     }
 
     const { data, error } = await query
 
     if (error) throw error
 
-    // Filter orders with payment_status that indicates payment was received
-    // This allows us to be flexible with whatever enum values your database uses
-    // Adjust these conditions based on your actual enum values
-    // Common values might be "PAID", "COMPLETED", "SETTLED", etc.
-    const paidOrders =
-      data?.filter((order) => {
-        const paidStatuses = ["PAID", "COMPLETED", "SETTLED", "PROCESSED", "APPROVED"]
-        return paidStatuses.includes(order.payment_status?.toUpperCase())
-      }) || []
-
-    return paidOrders as Order[]
+    return ((data || []) as unknown as PaidOrderRow[]).map(({ customers, ...order }) => ({
+      ...order,
+      customer_name: customers?.name,
+    })) as Order[]
   } catch (error) {
     console.error("Error fetching orders:", error)
     return []
@@ -118,7 +194,7 @@ export async function fetchMarkets(dateFrom?: string, dateTo?: string) {
   try {
     let query = supabase
       .from("markets")
-      .select("id, name, end_date, final_incoming, created_at")
+      .select("id, name, location, organization_name, start_date, end_date, final_incoming, currency, created_at")
       .order("end_date", { ascending: false })
 
     if (dateFrom) {
@@ -145,7 +221,7 @@ export async function fetchCourses(dateFrom?: string, dateTo?: string) {
   try {
     let query = supabase
       .from("courses")
-      .select("id, date, course_name, total_amount, created_at")
+      .select("id, date, course_name, total_amount, currency, created_at")
       .order("date", { ascending: false })
 
     if (dateFrom) {
@@ -170,25 +246,18 @@ export async function fetchCourses(dateFrom?: string, dateTo?: string) {
 // Calculate revenue summary
 export async function fetchRevenueSummary(dateFrom?: string, dateTo?: string) {
   try {
-    const [orders, markets, courses] = await Promise.all([
-      fetchOrders(dateFrom, dateTo),
-      fetchMarkets(dateFrom, dateTo),
-      fetchCourses(dateFrom, dateTo),
-    ])
+    const { data, error } = await supabase.rpc("revenue_summary", {
+      date_from: dateFrom || null,
+      date_to: dateTo || null,
+    })
+
+    if (error) throw error
 
-    const orderRevenue = orders.reduce((sum, order) => sum + (order.total_amount + (order.shipping_cost || 0)), 0)
-    const marketRevenue = markets.reduce((sum, market) => sum + (market.final_incoming || 0), 0)
-    const courseRevenue = courses.reduce((sum, course) => sum + (course.total_amount || 0), 0)
-    const totalRevenue = orderRevenue + marketRevenue + courseRevenue
+    const totals = toRevenueTotals(((data || []) as RevenueTotalsRow[])[0] || {})
 
     return {
-      totalRevenue,
-      orderRevenue,
-      marketRevenue,
-      courseRevenue,
-      orderCount: orders.length,
-      marketCount: markets.length,
-      courseCount: courses.length,
+      totalRevenue: totals.orderRevenue + totals.marketRevenue + totals.courseRevenue,
+      ...totals,
     }
   } catch (error) {
     console.error("Error calculating revenue summary:", error)
@@ -207,54 +276,25 @@ export async function fetchRevenueSummary(dateFrom?: string, dateTo?: string) {
 // Get revenue by month for the current year
 export async function fetchRevenueByMonth(year: number) {
   try {
-    const startDate = `${year}-01-01`
-    const endDate = `${year}-12-31`
-
-    const [orders, markets, courses] = await Promise.all([
-      fetchOrders(startDate, endDate),
-      fetchMarkets(startDate, endDate),
-      fetchCourses(startDate, endDate),
-    ])
-
-    // Initialize monthly data
-    const monthlyData: Record<string, RevenueByMonth> = {}
-    const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
-
-    months.forEach((month, index) => {
-      monthlyData[month] = {
-        month,
-        orderRevenue: 0,
-        marketRevenue: 0,
-        courseRevenue: 0,
-        totalRevenue: 0,
+    const { from, to } = yearRange(year)
+    const totals = await fetchRevenueMonthTotals(from, to)
+
+    // One entry per month, including months without revenue
+    return monthStartsOfYear(year).map((monthStart, index): RevenueByMonth => {
+      const row = totals.find((item) => item.month === monthStart)
+      const orderRevenue = row?.orderRevenue || 0
+      const marketRevenue = row?.marketRevenue || 0
+      const courseRevenue = row?.courseRevenue || 0
+
+      return {
+        monthStart,
+        month: monthName(index),
+        orderRevenue,
+        marketRevenue,
+        courseRevenue,
+        totalRevenue: orderRevenue + marketRevenue + courseRevenue,
       }
     })
-
-    // Process orders
-    orders.forEach((order) => {
-      const date = new Date(order.created_at)
-      const month = date.toLocaleString("default", { month: "short" })
-      monthlyData[month].orderRevenue += order.total_amount + (order.shipping_cost || 0)
-      monthlyData[month].totalRevenue += order.total_amount + (order.shipping_cost || 0)
-    })
-
-    // Process markets
-    markets.forEach((market) => {
-      const date = new Date(market.end_date)
-      const month = date.toLocaleString("default", { month: "short" })
-      monthlyData[month].marketRevenue += market.final_incoming || 0
-      monthlyData[month].totalRevenue += market.final_incoming || 0
-    })
-
-    // Process courses
-    courses.forEach((course) => {
-      const date = new Date(course.date)
-      const month = date.toLocaleString("default", { month: "short" })
-      monthlyData[month].courseRevenue += course.total_amount || 0
-      monthlyData[month].totalRevenue += course.total_amount || 0
-    })
-
-    return Object.values(monthlyData)
   } catch (error) {
     console.error("Error fetching revenue by month:", error)
     return []
@@ -296,25 +336,13 @@ export async function fetchRevenueBySource(dateFrom?: string, dateTo?: string) {
 // Get month-over-month revenue comparison
 export async function fetchMonthOverMonthRevenue() {
   try {
-    const today = new Date()
-    const currentYear = today.getFullYear()
-    const currentMonth = today.getMonth()
-
-    // Current month date range
-    const currentMonthStart = new Date(currentYear, currentMonth, 1)
-    const currentMonthEnd = new Date(currentYear, currentMonth + 1, 0)
-
-    // Previous month date range
-    const previousMonthStart = new Date(currentYear, currentMonth - 1, 1)
-    const previousMonthEnd = new Date(currentYear, currentMonth, 0)
-
-    const formatDate = (date: Date) => {
-      return date.toISOString().split("T")[0]
-    }
+    // This month and last month, as calendar months in the business timezone
+    const currentMonth = monthRange(monthStart())
+    const previousMonth = monthRange(addMonths(currentMonth.from, -1))
 
     const [currentMonthSummary, previousMonthSummary] = await Promise.all([
-      fetchRevenueSummary(formatDate(currentMonthStart), formatDate(currentMonthEnd)),
-      fetchRevenueSummary(formatDate(previousMonthStart), formatDate(previousMonthEnd)),
+      fetchRevenueSummary(currentMonth.from, currentMonth.to),
+      fetchRevenueSummary(previousMonth.from, previousMonth.to),
     ])
 
     const currentMonthRevenue = currentMonthSummary.totalRevenue
@@ -349,24 +377,27 @@ export async function fetchRecentRevenueTransactions(limit = 5) {
       date: new Date(order.created_at),
       description: `Order #${order.order_number}`,
       amount: order.total_amount + (order.shipping_cost || 0),
+      currency: order.currency,
       type: "Order",
     }))
 
     // Transform markets
     const marketTransactions = markets.map((market) => ({
       id: `market-${market.id}`,
-      date: new Date(market.end_date),
+      date: parseDate(market.end_date),
       description: `Market: ${market.name}`,
       amount: market.final_incoming,
+      currency: market.currency,
       type: "Market",
     }))
 
     // Transform courses
     const courseTransactions = courses.map((course) => ({
       id: `course-${course.id}`,
-      date: new Date(course.date),
+      date: parseDate(course.date),
       description: `Course: ${course.course_name}`,
       amount: course.total_amount,
+      currency: course.currency,
       type: "Course",
     }))
 
@@ -0,0 +1,127 @@
+import { supabase } from "./supabase"
+import { DEFAULT_CURRENCY } from "./currency"
+import { DEFAULT_TIME_ZONE } from "./dates"
+
+// How an order's payment status is treated when recognising revenue. Only "paid" orders are
+// counted; the others are listed so receivables, refunds and cancellations can be told apart.
+export type RevenueRecognition = "paid" | "pending" | "refunded" | "cancelled"
+
+export const REVENUE_RECOGNITION_LABELS: Record<RevenueRecognition, string> = {
+  paid: "Paid (counted as revenue)",
+  pending: "Pending",
+  refunded: "Refunded",
+  cancelled: "Cancelled",
+}
+
+export type PaymentStatusSetting = {
+  status: string
+  recognition: RevenueRecognition
+  updated_at?: string
+}
+
+// Fetch every payment_status enum value with its recognition state; unmapped values are pending,
+// which is also how the database treats them
+export async function fetchPaymentStatusSettings() {
+  try {
+    const [valuesResult, settingsResult] = await Promise.all([
+      supabase.rpc("payment_status_values"),
+      supabase.from("payment_status_settings").select("*"),
+    ])
+
+    if (valuesResult.error) throw valuesResult.error
+    if (settingsResult.error) throw settingsResult.error
+
+    const settings = (settingsResult.data || []) as PaymentStatusSetting[]
+
+    return ((valuesResult.data || []) as string[]).map(
+      (status): PaymentStatusSetting =>
+        settings.find((setting) => setting.status === status) || { status, recognition: "pending" },
+    )
+  } catch (error) {
+    console.error("Error fetching payment status settings:", error)
+    return []
+  }
+}
+
+export async function updatePaymentStatusSettings(settings: Pick<PaymentStatusSetting, "status" | "recognition">[]) {
+  try {
+    const updatedAt = new Date().toISOString()
+    const { data, error } = await supabase
+      .from("payment_status_settings")
+      .upsert(settings.map((setting) => ({ ...setting, updated_at: updatedAt })))
+      .select()
+
+    if (error) throw error
+    return data as PaymentStatusSetting[]
+  } catch (error) {
+    console.error("Error updating payment status settings:", error)
+    throw error
+  }
+}
+
+// Recognition state of a payment status; statuses without a mapping are pending
+export function recognitionFor(settings: PaymentStatusSetting[], status?: string): RevenueRecognition {
+  return settings.find((setting) => setting.status === status)?.recognition || "pending"
+}
+
+export function statusesWithRecognition(settings: PaymentStatusSetting[], recognition: RevenueRecognition) {
+  return settings.filter((setting) => setting.recognition === recognition).map((setting) => setting.status)
+}
+
+// Payment statuses counted as revenue, as configured in settings
+export async function fetchPaidPaymentStatuses() {
+  return statusesWithRecognition(await fetchPaymentStatusSettings(), "paid")
+}
+
+// How stock on hand is valued: at the cost of the most recent purchases, or their average cost
+export type InventoryValuation = "fifo" | "average"
+
+// Business-wide settings, stored as one row per organization
+export type BusinessSettings = {
+  // Currency every aggregation is converted into
+  base_currency: string
+  // IANA timezone that decides which day and month a timestamp such as an order's created_at falls in
+  timezone: string
+  opening_balance: number
+  // Ledger entries before this date don't count towards the running balance
+  opening_balance_date?: string | null
+  inventory_valuation: InventoryValuation
+  updated_at?: string
+}
+
+const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
+  base_currency: DEFAULT_CURRENCY,
+  timezone: DEFAULT_TIME_ZONE,
+  opening_balance: 0,
+  opening_balance_date: null,
+  inventory_valuation: "fifo",
+}
+
+export async function fetchBusinessSettings() {
+  try {
+    const { data, error } = await supabase.from("business_settings").select("*").maybeSingle()
+
+    if (error) throw error
+    if (!data) return DEFAULT_BUSINESS_SETTINGS
+
+    return { ...data, opening_balance: Number(data.opening_balance) || 0 } as BusinessSettings
+  } catch (error) {
+    console.error("Error fetching business settings:", error)
+    return DEFAULT_BUSINESS_SETTINGS
+  }
+}
+
+export async function updateBusinessSettings(settings: Partial<BusinessSettings>) {
+  try {
+    const { data, error } = await supabase
+      .from("business_settings")
+      .upsert({ ...settings, updated_at: new Date().toISOString() }, { onConflict: "organization_id" })
+      .select()
+
+    if (error) throw error
+    return data[0] as BusinessSettings
+  } catch (error) {
+    console.error("Error updating business settings:", error)
+    throw error
+  }
+}
@@ -0,0 +1,163 @@
+import { supabase, type Expense } from "./supabase"
+
+// Types for supplier data
+export type Supplier = {
+  id: number
+  name: string
+  contact_name?: string
+  email?: string
+  phone?: string
+  address?: string
+  website?: string
+  note?: string
+  created_at: string
+  updated_at: string
+}
+
+export type SupplierSpend = {
+  supplier_id: number
+  supplier_name: string
+  total: number
+  expenseCount: number
+  lastPurchaseDate?: string
+}
+
+// Fetch all suppliers ordered by name
+export async function fetchSuppliers() {
+  try {
+    const { data, error } = await supabase.from("suppliers").select("*").order("name", { ascending: true })
+
+    if (error) throw error
+    return data as Supplier[]
+  } catch (error) {
+    console.error("Error fetching suppliers:", error)
+    // Return empty array instead of throwing to prevent cascading failures
+    return []
+  }
+}
+
+export async function fetchSupplier(id: number) {
+  try {
+    const { data, error } = await supabase.from("suppliers").select("*").eq("id", id).single()
+
+    if (error) throw error
+    return data as Supplier
+  } catch (error) {
+    console.error("Error fetching supplier:", error)
+    throw error
+  }
+}
+
+export async function insertSupplier(supplier: Omit<Supplier, "id" | "created_at" | "updated_at">) {
+  try {
+    const { data, error } = await supabase.from("suppliers").insert(supplier).select()
+
+    if (error) throw error
+    return data[0] as Supplier
+  } catch (error) {
+    console.error("Error inserting supplier:", error)
+    throw error
+  }
+}
+
+export async function updateSupplier(id: number, supplier: Partial<Supplier>) {
+  try {
+    const { data, error } = await supabase
+      .from("suppliers")
+      .update({ ...supplier, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Supplier
+  } catch (error) {
+    console.error("Error updating supplier:", error)
+    throw error
+  }
+}
+
+export async function deleteSupplier(id: number) {
+  try {
+    // Keep the expenses but detach them from the supplier being removed
+    const { error: unlinkError } = await supabase.from("expenses").update({ supplier_id: null }).eq("supplier_id", id)
+
+    if (unlinkError) throw unlinkError
+
+    const { error } = await supabase.from("suppliers").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting supplier:", error)
+    throw error
+  }
+}
+
+// Fetch the expenses booked against a single supplier, newest first
+export async function fetchExpensesBySupplier(supplierId: number, dateFrom?: string, dateTo?: string) {
+  try {
+    let query = supabase
+      .from("expenses")
+      .select(`
+        *,
+        categories:category_id (
+          name
+        )
+      `)
+      .eq("supplier_id", supplierId)
+      .order("date", { ascending: false })
+
+    if (dateFrom) {
+      query = query.gte("date", dateFrom)
+    }
+
+    if (dateTo) {
+      query = query.lte("date", dateTo)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return (data || []).map((expense) => ({
+      ...expense,
+      category_name: expense.categories?.name,
+    })) as Expense[]
+  } catch (error) {
+    console.error("Error fetching supplier expenses:", error)
+    return []
+  }
+}
+
+type SupplierSpendRow = {
+  supplier_id: number
+  supplier_name: string | null
+  total: number | string
+  expense_count: number | string
+  last_purchase_date: string | null
+}
+
+// Sum expenses per supplier for the given date range, in the base currency, highest first
+export async function fetchSupplierSpend(dateFrom?: string, dateTo?: string) {
+  try {
+    const { data, error } = await supabase.rpc("supplier_spend", {
+      date_from: dateFrom || null,
+      date_to: dateTo || null,
+    })
+
+    if (error) throw error
+
+    return ((data || []) as SupplierSpendRow[]).map(
+      (row): SupplierSpend => ({
+        supplier_id: row.supplier_id,
+        supplier_name: row.supplier_name || "Unknown",
+        total: Number(row.total) || 0,
+        expenseCount: Number(row.expense_count) || 0,
+        lastPurchaseDate: row.last_purchase_date || undefined,
+      }),
+    )
+  } catch (error) {
+    console.error("Error fetching supplier spend:", error)
+    return []
+  }
+}
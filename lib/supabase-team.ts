@@ -0,0 +1,115 @@
+import { supabase, type Profile } from "./supabase"
+import { toRole, type Role } from "./permissions"
+import type { Invitation } from "./supabase-organizations"
+
+export type TeamMember = Pick<Profile, "id" | "email" | "full_name"> & {
+  role: Role
+  // When they joined the organization
+  created_at: string
+}
+
+type TeamMemberRow = {
+  user_id: string
+  role: string
+  created_at: string
+  profiles: Pick<Profile, "email" | "full_name"> | null
+}
+
+// Members of an organization, in the order they joined
+export async function fetchTeamMembers(organizationId: number) {
+  try {
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select("user_id, role, created_at, profiles(email, full_name)")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+    return ((data || []) as unknown as TeamMemberRow[]).map(
+      (member): TeamMember => ({
+        id: member.user_id,
+        email: member.profiles?.email || "",
+        full_name: member.profiles?.full_name,
+        role: toRole(member.role),
+        created_at: member.created_at,
+      }),
+    )
+  } catch (error) {
+    console.error("Error fetching team members:", error)
+    return []
+  }
+}
+
+// Raised by the organizations migration's trigger so there's always someone left to manage the team
+function lastOwnerError(error: { message?: string }) {
+  return error.message?.includes("last owner")
+    ? new Error("There must be at least one owner. Make someone else an owner first.")
+    : error
+}
+
+export async function updateMemberRole(organizationId: number, userId: string, role: Role) {
+  try {
+    const { error } = await supabase
+      .from("organization_members")
+      .update({ role })
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId)
+
+    if (error) throw lastOwnerError(error)
+    return true
+  } catch (error) {
+    console.error("Error updating member role:", error)
+    throw error
+  }
+}
+
+export async function removeMember(organizationId: number, userId: string) {
+  try {
+    const { error } = await supabase
+      .from("organization_members")
+      .delete()
+      .eq("organization_id", organizationId)
+      .eq("user_id", userId)
+
+    if (error) throw lastOwnerError(error)
+    return true
+  } catch (error) {
+    console.error("Error removing member:", error)
+    throw error
+  }
+}
+
+// Invitations to an organization that haven't been accepted yet
+export async function fetchInvitations(organizationId: number) {
+  try {
+    const { data, error } = await supabase
+      .from("organization_invitations")
+      .select("id, organization_id, email, role, created_at")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+    return (data || []).map((invitation) => ({ ...invitation, role: toRole(invitation.role) })) as Invitation[]
+  } catch (error) {
+    console.error("Error fetching invitations:", error)
+    return []
+  }
+}
+
+export async function inviteMember(organizationId: number, email: string, role: Role) {
+  try {
+    const { data, error } = await supabase
+      .from("organization_invitations")
+      .insert({ organization_id: organizationId, email: email.trim().toLowerCase(), role })
+      .select("id, organization_id, email, role, created_at")
+
+    if (error) {
+      if (error.code === "23505") throw new Error(`${email.trim()} has already been invited`)
+      throw error
+    }
+    return { ...data[0], role: toRole(data[0].role) } as Invitation
+  } catch (error) {
+    console.error("Error inviting member:", error)
+    throw error
+  }
+}
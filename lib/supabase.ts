@@ -1,4 +1,8 @@
 import { createClient } from "@supabase/supabase-js"
+import { monthName } from "./format"
+import { monthStartsOfYear, yearRange } from "./dates"
+import { costPer100g, normalizeUnit } from "./units"
+import { getReceiptStorage } from "./supabase-receipts"
 
 // Get Supabase URL and key from environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ""
@@ -27,7 +31,10 @@ export type Profile = {
   email: string
   full_name?: string
   avatar_url?: string
-  role?: string
+  // The organization the user is working in; see lib/supabase-organizations.ts
+  active_organization_id?: number | null
+  // BCP 47 tag such as "nl-NL"; empty follows the browser's language
+  locale?: string | null
   created_at: string
 }
 
@@ -35,27 +42,66 @@ export type Category = {
   id: number
   name: string
   description?: string
+  archived?: boolean
   created_at: string
   updated_at: string
 }
 
+export type CategoryUsage = {
+  category_id: number
+  expenseCount: number
+  total: number
+}
+
 export type Expense = {
   id: number
   date: string
   category_id: number
   description: string
-  quantity?: number
-  unit?: string
+  // The optional fields are null once cleared on an existing expense
+  quantity?: number | null
+  unit?: string | null
   amount: number
-  cost_per_100g?: number
-  supplier_id?: number
-  note?: string
+  // ISO 4217 code; amounts are converted to the base currency in aggregations
+  currency?: string
+  // Weight of one item when the unit is pcs, so pieces can be costed per 100g
+  item_weight_grams?: number | null
+  // Price per 100g in the expense's currency, filled in from amount, quantity and unit on save
+  cost_per_100g?: number | null
+  supplier_id?: number | null
+  // Market the expense was incurred for, counted in that market's P&L
+  market_id?: number | null
+  note?: string | null
+  // Set on expenses generated from a recurring template
+  recurring_expense_id?: number
+  occurrence_date?: string
   created_at: string
   updated_at: string
   // Join fields
   category_name?: string
 }
 
+export type ExpenseCategoryTotal = {
+  category_id: number
+  category_name: string | null
+  total: number
+  expense_count: number
+}
+
+export type ExpenseMonthTotal = {
+  // First day of the month, yyyy-MM-dd
+  month: string
+  total: number
+  expense_count: number
+}
+
+export type ExpenseCategoryMonthTotal = {
+  month: string
+  category_id: number
+  category_name: string | null
+  total: number
+}
+
 // Helper functions for data fetching with improved error handling
 export async function fetchProfile(userId: string) {
   try {
@@ -69,9 +115,18 @@ export async function fetchProfile(userId: string) {
   }
 }
 
-export async function fetchCategories() {
+export async function fetchCategories(includeArchived = false) {
   try {
-    const { data, error } = await supabase.from("categories").select("id, name")
+    let query = supabase
+      .from("categories")
+      .select("id, name, description, archived, created_at, updated_at")
+      .order("name", { ascending: true })
+
+    if (!includeArchived) {
+      query = query.or("archived.is.null,archived.eq.false")
+    }
+
+    const { data, error } = await query
 
     if (error) throw error
     return data as Category[]
@@ -82,6 +137,96 @@ export async function fetchCategories() {
   }
 }
 
+// Count how many expenses (and how much spend) each category is used by
+export async function fetchCategoryUsage() {
+  try {
+    const totals = await fetchExpenseCategoryTotals()
+
+    return totals.reduce<Record<number, CategoryUsage>>((usage, item) => {
+      usage[item.category_id] = { category_id: item.category_id, expenseCount: item.expense_count, total: item.total }
+      return usage
+    }, {})
+  } catch (error) {
+    console.error("Error fetching category usage:", error)
+    return {} as Record<number, CategoryUsage>
+  }
+}
+
+export async function insertCategory(category: Pick<Category, "name" | "description">) {
+  try {
+    const { data, error } = await supabase.from("categories").insert(category).select()
+
+    if (error) throw error
+    return data[0] as Category
+  } catch (error) {
+    console.error("Error inserting category:", error)
+    throw error
+  }
+}
+
+export async function updateCategory(id: number, category: Partial<Category>) {
+  try {
+    const { data, error } = await supabase
+      .from("categories")
+      .update({ ...category, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+
+    if (error) throw error
+    return data[0] as Category
+  } catch (error) {
+    console.error("Error updating category:", error)
+    throw error
+  }
+}
+
+// Delete a category, refusing to do so while expenses still reference it
+export async function deleteCategory(id: number) {
+  try {
+    const { count, error: countError } = await supabase
+      .from("expenses")
+      .select("id", { count: "exact", head: true })
+      .eq("category_id", id)
+
+    if (countError) throw countError
+
+    if (count && count > 0) {
+      throw new Error(`This category is still used by ${count} expenses. Merge or archive it instead.`)
+    }
+
+    const { error } = await supabase.from("categories").delete().eq("id", id)
+
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error("Error deleting category:", error)
+    throw error
+  }
+}
+
+// Move every expense from one category to another, then remove the emptied category
+export async function mergeCategories(sourceId: number, targetId: number) {
+  try {
+    if (sourceId === targetId) {
+      throw new Error("A category cannot be merged into itself")
+    }
+
+    const { error: reassignError } = await supabase
+      .from("expenses")
+      .update({ category_id: targetId })
+      .eq("category_id", sourceId)
+
+    if (reassignError) throw reassignError
+
+    // Only delete once the reassignment succeeded so no expense is left pointing at a missing category
+    await deleteCategory(sourceId)
+    return true
+  } catch (error) {
+    console.error("Error merging categories:", error)
+    throw error
+  }
+}
+
 export async function fetchExpenses(dateFrom?: string, dateTo?: string) {
   try {
     let query = supabase
@@ -130,42 +275,61 @@ export async function fetchExpensesByYear(year: number) {
   }
 }
 
-export async function fetchExpensesByCategory() {
-  try {
-    const { data, error } = await supabase.from("expenses").select(`
-        category_id,
-        categories:category_id (
-          name
-        ),
-        amount
-      `)
+// Aggregates are computed in Postgres (see supabase/migrations) and fetched through RPC.
+// Each wrapper converts the numeric columns, which can arrive as strings, into numbers.
+type DateRangeParams = { date_from: string | null; date_to: string | null }
 
-    if (error) throw error
+function dateRangeParams(dateFrom?: string, dateTo?: string): DateRangeParams {
+  return { date_from: dateFrom || null, date_to: dateTo || null }
+}
 
-    // Group expenses by category and sum amounts
-    const categoryTotals: Record<number, { category_id: number; category_name: string; total: number }> = {}
+export async function fetchExpenseCategoryTotals(dateFrom?: string, dateTo?: string) {
+  const { data, error } = await supabase.rpc("expense_totals_by_category", dateRangeParams(dateFrom, dateTo))
 
-    if (!data || data.length === 0) {
-      return []
-    }
+  if (error) throw error
+
+  return ((data || []) as ExpenseCategoryTotal[]).map((row) => ({
+    category_id: row.category_id,
+    category_name: row.category_name,
+    total: Number(row.total),
+    expense_count: Number(row.expense_count),
+  }))
+}
+
+export async function fetchExpenseMonthTotals(dateFrom?: string, dateTo?: string) {
+  const { data, error } = await supabase.rpc("expense_totals_by_month", dateRangeParams(dateFrom, dateTo))
+
+  if (error) throw error
+
+  return ((data || []) as ExpenseMonthTotal[]).map((row) => ({
+    month: row.month,
+    total: Number(row.total),
+    expense_count: Number(row.expense_count),
+  }))
+}
 
-    data.forEach((expense) => {
-      const categoryId = expense.category_id
-      const categoryName = expense.categories?.name || "Unknown"
-      const amount = expense.amount || 0
+export async function fetchExpenseCategoryMonthTotals(dateFrom?: string, dateTo?: string) {
+  const { data, error } = await supabase.rpc("expense_totals_by_category_month", dateRangeParams(dateFrom, dateTo))
 
-      if (!categoryTotals[categoryId]) {
-        categoryTotals[categoryId] = {
-          category_id: categoryId,
-          category_name: categoryName,
-          total: 0,
-        }
-      }
+  if (error) throw error
 
-      categoryTotals[categoryId].total += amount
-    })
+  return ((data || []) as ExpenseCategoryMonthTotal[]).map((row) => ({
+    month: row.month,
+    category_id: row.category_id,
+    category_name: row.category_name,
+    total: Number(row.total),
+  }))
+}
+
+export async function fetchExpensesByCategory(dateFrom?: string, dateTo?: string) {
+  try {
+    const totals = await fetchExpenseCategoryTotals(dateFrom, dateTo)
 
-    return Object.values(categoryTotals)
+    return totals.map((item) => ({
+      category_id: item.category_id,
+      category_name: item.category_name || "Unknown",
+      total: item.total,
+    }))
   } catch (error) {
     console.error("Error fetching expenses by category:", error)
     return []
@@ -174,46 +338,14 @@ export async function fetchExpensesByCategory() {
 
 export async function fetchMonthlyExpenses(year: number) {
   try {
-    const { data, error } = await supabase
-      .from("expenses")
-      .select("date, amount")
-      .gte("date", `${year}-01-01`)
-      .lte("date", `${year}-12-31`)
-
-    if (error) throw error
-
-    // Group expenses by month and sum amounts
-    const monthlyTotals: Record<string, number> = {
-      Jan: 0,
-      Feb: 0,
-      Mar: 0,
-      Apr: 0,
-      May: 0,
-      Jun: 0,
-      Jul: 0,
-      Aug: 0,
-      Sep: 0,
-      Oct: 0,
-      Nov: 0,
-      Dec: 0,
-    }
-
-    if (!data || data.length === 0) {
-      return Object.entries(monthlyTotals).map(([month, total]) => ({
-        month,
-        total,
-      }))
-    }
-
-    data.forEach((expense) => {
-      const date = new Date(expense.date)
-      const month = date.toLocaleString("default", { month: "short" })
-      monthlyTotals[month] += expense.amount || 0
-    })
-
-    return Object.entries(monthlyTotals).map(([month, total]) => ({
-      month,
-      total,
+    const { from, to } = yearRange(year)
+    const totals = await fetchExpenseMonthTotals(from, to)
+
+    // One entry per month, including months without expenses; month is the localized label for charts
+    return monthStartsOfYear(year).map((monthStart, index) => ({
+      monthStart,
+      month: monthName(index),
+      total: totals.find((item) => item.month === monthStart)?.total || 0,
     }))
   } catch (error) {
     console.error("Error fetching monthly expenses:", error)
@@ -223,34 +355,59 @@ export async function fetchMonthlyExpenses(year: number) {
 
 export async function fetchTotalExpenses(dateFrom?: string, dateTo?: string) {
   try {
-    let query = supabase.from("expenses").select("amount")
+    const { data, error } = await supabase.rpc("expense_total", dateRangeParams(dateFrom, dateTo))
 
-    if (dateFrom) {
-      query = query.gte("date", dateFrom)
-    }
+    if (error) throw error
 
-    if (dateTo) {
-      query = query.lte("date", dateTo)
-    }
+    return Number(data) || 0
+  } catch (error) {
+    console.error("Error fetching total expenses:", error)
+    return 0
+  }
+}
 
-    const { data, error } = await query
+// Latest expenses, newest first, without downloading the full history
+export async function fetchRecentExpenses(limit = 5) {
+  try {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select(`
+        *,
+        categories:category_id (
+          name
+        )
+      `)
+      .order("date", { ascending: false })
+      .limit(limit)
 
     if (error) throw error
 
-    if (!data || data.length === 0) {
-      return 0
-    }
-
-    return data.reduce((sum, expense) => sum + (expense.amount || 0), 0)
+    return (data || []).map((expense) => ({
+      ...expense,
+      category_name: expense.categories?.name,
+    })) as Expense[]
   } catch (error) {
-    console.error("Error fetching total expenses:", error)
-    return 0
+    console.error("Error fetching recent expenses:", error)
+    return []
+  }
+}
+
+// Fields cost_per_100g is worked out from
+const INGREDIENT_COST_FIELDS = ["amount", "quantity", "unit", "item_weight_grams"] as const
+
+// Store the unit in its standard spelling and fill in cost_per_100g; it's cleared when the
+// purchase can't be converted to grams
+function withIngredientCost<T extends Partial<Expense>>(expense: T): T {
+  return {
+    ...expense,
+    unit: normalizeUnit(expense.unit) || expense.unit,
+    cost_per_100g: costPer100g(expense.amount, expense.quantity, expense.unit, expense.item_weight_grams) ?? null,
   }
 }
 
 export async function insertExpense(expense: Omit<Expense, "id" | "created_at" | "updated_at">) {
   try {
-    const { data, error } = await supabase.from("expenses").insert(expense).select()
+    const { data, error } = await supabase.from("expenses").insert(withIngredientCost(expense)).select()
 
     if (error) throw error
     return data[0] as Expense
@@ -260,9 +417,51 @@ export async function insertExpense(expense: Omit<Expense, "id" | "created_at" |
   }
 }
 
+// Insert many expenses at once, in batches so large imports stay under request size limits
+export async function insertExpenses(
+  expenses: Omit<Expense, "id" | "created_at" | "updated_at">[],
+  batchSize = 100,
+  onProgress?: (inserted: number) => void,
+) {
+  const inserted: Expense[] = []
+
+  try {
+    for (let start = 0; start < expenses.length; start += batchSize) {
+      const batch = expenses.slice(start, start + batchSize).map(withIngredientCost)
+      const { data, error } = await supabase.from("expenses").insert(batch).select()
+
+      if (error) throw error
+
+      inserted.push(...((data || []) as Expense[]))
+      onProgress?.(inserted.length)
+    }
+
+    return inserted
+  } catch (error) {
+    console.error(`Error inserting expenses (${inserted.length} of ${expenses.length} saved):`, error)
+    throw error
+  }
+}
+
 export async function updateExpense(id: number, expense: Partial<Expense>) {
   try {
-    const { data, error } = await supabase.from("expenses").update(expense).eq("id", id).select()
+    let changes = expense
+
+    if (INGREDIENT_COST_FIELDS.some((field) => field in expense)) {
+      // Recalculate with the stored values of any costing fields that aren't being changed
+      const { data: current, error: currentError } = await supabase
+        .from("expenses")
+        .select(INGREDIENT_COST_FIELDS.join(", "))
+        .eq("id", id)
+        .single()
+
+      if (currentError) throw currentError
+
+      const costed = withIngredientCost({ ...(current as Partial<Expense>), ...expense })
+      changes = { ...expense, unit: costed.unit, cost_per_100g: costed.cost_per_100g }
+    }
+
+    const { data, error } = await supabase.from("expenses").update(changes).eq("id", id).select()
 
     if (error) throw error
     return data[0] as Expense
@@ -272,8 +471,19 @@ export async function updateExpense(id: number, expense: Partial<Expense>) {
   }
 }
 
+// Deleting the expense cascades to its receipt rows, so the files go first while their rows still exist
 export async function deleteExpense(id: number) {
   try {
+    const { data: receipts, error: receiptsError } = await supabase
+      .from("expense_receipts")
+      .select("file_path")
+      .eq("expense_id", id)
+
+    if (receiptsError) throw receiptsError
+    if (receipts && receipts.length > 0) {
+      await getReceiptStorage().remove(receipts.map((receipt) => receipt.file_path))
+    }
+
     const { error } = await supabase.from("expenses").delete().eq("id", id)
 
     if (error) throw error
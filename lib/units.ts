@@ -0,0 +1,96 @@
+// Purchase units and their conversion to grams, used to work out what an ingredient costs per 100g.
+// Volumes are converted as if they weighed the same as water (1 ml = 1 g), which is close enough to
+// compare prices of oils, vinegars and syrups over time. Pieces need the weight of a single item.
+
+export type PurchaseUnit = "kg" | "g" | "lb" | "oz" | "l" | "ml" | "pcs"
+
+export const PURCHASE_UNITS: { value: PurchaseUnit; label: string }[] = [
+  { value: "kg", label: "Kilograms (kg)" },
+  { value: "g", label: "Grams (g)" },
+  { value: "lb", label: "Pounds (lb)" },
+  { value: "oz", label: "Ounces (oz)" },
+  { value: "l", label: "Liters (l)" },
+  { value: "ml", label: "Milliliters (ml)" },
+  { value: "pcs", label: "Pieces (pcs)" },
+]
+
+const GRAMS_PER_UNIT: Record<Exclude<PurchaseUnit, "pcs">, number> = {
+  kg: 1000,
+  g: 1,
+  lb: 453.59237,
+  oz: 28.349523125,
+  l: 1000,
+  ml: 1,
+}
+
+// Spellings found in older records and imported spreadsheets
+const UNIT_ALIASES: Record<string, PurchaseUnit> = {
+  kg: "kg",
+  kgs: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  g: "g",
+  gr: "g",
+  gram: "g",
+  grams: "g",
+  lb: "lb",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  l: "l",
+  lt: "l",
+  ltr: "l",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  ml: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  pc: "pcs",
+  pcs: "pcs",
+  piece: "pcs",
+  pieces: "pcs",
+  ea: "pcs",
+  each: "pcs",
+  unit: "pcs",
+  units: "pcs",
+}
+
+// The standard unit for a spelling such as "Kilos" or "lbs"; undefined for anything unrecognised
+export function normalizeUnit(unit?: string | null): PurchaseUnit | undefined {
+  if (!unit) return undefined
+  return UNIT_ALIASES[unit.trim().toLowerCase().replace(/\.$/, "")]
+}
+
+// Weight of a purchase in grams, or undefined when the unit can't be converted
+export function quantityInGrams(quantity?: number | null, unit?: string | null, itemWeightGrams?: number | null) {
+  const normalized = normalizeUnit(unit)
+  if (!normalized || !quantity || quantity <= 0) return undefined
+
+  if (normalized === "pcs") {
+    return itemWeightGrams && itemWeightGrams > 0 ? quantity * itemWeightGrams : undefined
+  }
+
+  return quantity * GRAMS_PER_UNIT[normalized]
+}
+
+// Price per 100g in the purchase's own currency, rounded to the precision of the cost_per_100g column
+export function costPer100g(
+  amount?: number | null,
+  quantity?: number | null,
+  unit?: string | null,
+  itemWeightGrams?: number | null,
+) {
+  const grams = quantityInGrams(quantity, unit, itemWeightGrams)
+  if (!grams || amount == null || amount < 0) return undefined
+
+  return Math.round((amount / grams) * 100 * 10000) / 10000
+}
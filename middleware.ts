@@ -1,6 +1,7 @@
 import { createMiddlewareClient } from "@supabase/auth-helpers-nextjs"
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
+import { canAccessRoute, fetchUserRole } from "@/lib/permissions"
 
 export async function middleware(req: NextRequest) {
   // Create a response object
@@ -29,6 +30,20 @@ export async function middleware(req: NextRequest) {
         console.log("No session found, redirecting to /auth")
         return NextResponse.redirect(new URL("/auth", req.url))
       }
+
+      // Signed in, but the user's role in their active organization may not include this page. If the role
+      // can't be read or they don't belong to an organization, only pages open to every role are allowed.
+      const role = await fetchUserRole(supabase).catch((error) => {
+        console.error("Error fetching role in middleware:", error)
+        return null
+      })
+      if (!canAccessRoute(role, path)) {
+        console.log(`Role ${role} can't access ${path}, showing /unauthorized`)
+        const forbidden = NextResponse.rewrite(new URL("/unauthorized?reason=forbidden", req.url), { status: 403 })
+        // Keep any session cookies the Supabase client refreshed on the original response
+        res.cookies.getAll().forEach((cookie) => forbidden.cookies.set(cookie))
+        return forbidden
+      }
     }
 
     return res
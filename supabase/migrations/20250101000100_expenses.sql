@@ -0,0 +1,61 @@
+-- Expense tracking: categories, suppliers and the expenses themselves.
+-- The business shares one set of books, so any signed-in user can read and edit them.
+
+CREATE TABLE IF NOT EXISTS categories (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Archived categories stay on existing expenses but aren't offered for new ones
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  website TEXT,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS expenses (
+  id BIGSERIAL PRIMARY KEY,
+  date DATE NOT NULL,
+  category_id BIGINT NOT NULL REFERENCES categories(id),
+  description TEXT NOT NULL,
+  quantity NUMERIC(12, 3),
+  unit TEXT,
+  amount DECIMAL(12, 2) NOT NULL,
+  cost_per_100g NUMERIC(12, 4),
+  supplier_id BIGINT REFERENCES suppliers(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS expenses_supplier_id_idx ON expenses (supplier_id);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage categories"
+  ON categories FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage suppliers"
+  ON suppliers FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage expenses"
+  ON expenses FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,105 @@
+-- Revenue sources: customer orders, markets and courses
+
+CREATE TYPE payment_status AS ENUM (
+  'PENDING',
+  'PARTIALLY_PAID',
+  'PAID',
+  'COMPLETED',
+  'SETTLED',
+  'PROCESSED',
+  'APPROVED',
+  'FAILED',
+  'REFUNDED',
+  'CANCELLED'
+);
+
+CREATE TABLE IF NOT EXISTS customers (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS orders (
+  id BIGSERIAL PRIMARY KEY,
+  order_number TEXT NOT NULL UNIQUE,
+  customer_id BIGINT REFERENCES customers(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'NEW',
+  order_type TEXT,
+  payment_status payment_status NOT NULL DEFAULT 'PENDING',
+  payment_method TEXT,
+  delivery_method TEXT,
+  total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  shipping_cost DECIMAL(12, 2) DEFAULT 0,
+  amount_received DECIMAL(12, 2),
+  notes TEXT,
+  pickup_date DATE,
+  delivery_address TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS orders_customer_id_idx ON orders (customer_id);
+CREATE INDEX IF NOT EXISTS orders_payment_status_idx ON orders (payment_status);
+
+CREATE TABLE IF NOT EXISTS markets (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  location TEXT,
+  organization_name TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  -- Takings after the market closes
+  final_incoming DECIMAL(12, 2) DEFAULT 0,
+  fee DECIMAL(12, 2),
+  commission_to_pay DECIMAL(12, 2),
+  result TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS courses (
+  id BIGSERIAL PRIMARY KEY,
+  date DATE NOT NULL,
+  course_name TEXT NOT NULL,
+  duration TEXT,
+  location TEXT,
+  max_participants INTEGER,
+  registration_fee DECIMAL(12, 2),
+  total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  course_description TEXT,
+  materials_needed TEXT,
+  instructor_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE markets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage customers"
+  ON customers FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage orders"
+  ON orders FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage markets"
+  ON markets FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage courses"
+  ON courses FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
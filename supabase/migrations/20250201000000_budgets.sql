@@ -0,0 +1,20 @@
+-- Per-category spending budgets; at most one monthly and one yearly budget per category
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id BIGSERIAL PRIMARY KEY,
+  category_id BIGINT NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  period TEXT NOT NULL CHECK (period IN ('month', 'year')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+  rollover BOOLEAN NOT NULL DEFAULT FALSE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (category_id, period)
+);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage budgets"
+  ON budgets FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
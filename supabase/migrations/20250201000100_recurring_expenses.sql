@@ -0,0 +1,35 @@
+-- Recurring expense templates and the link from generated expenses back to them
+
+CREATE TABLE IF NOT EXISTS recurring_expenses (
+  id BIGSERIAL PRIMARY KEY,
+  description TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  category_id BIGINT NOT NULL REFERENCES categories(id),
+  supplier_id BIGINT REFERENCES suppliers(id) ON DELETE SET NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  note TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  skipped_dates DATE[] NOT NULL DEFAULT '{}',
+  generated_through DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Deleting a template keeps the expenses it generated; they just lose the link
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS recurring_expense_id BIGINT REFERENCES recurring_expenses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+-- The generator upserts against this, so running it twice never creates the same expense twice
+ALTER TABLE expenses
+  ADD CONSTRAINT expenses_recurring_occurrence_key UNIQUE (recurring_expense_id, occurrence_date);
+
+ALTER TABLE recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage recurring expenses"
+  ON recurring_expenses FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
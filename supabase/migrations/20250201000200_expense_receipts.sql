@@ -0,0 +1,46 @@
+-- Receipt attachments for expenses. Files live in the private "receipts" storage bucket;
+-- this table holds their metadata.
+
+CREATE TABLE IF NOT EXISTS expense_receipts (
+  id BIGSERIAL PRIMARY KEY,
+  expense_id BIGINT NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users ON DELETE CASCADE,
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS expense_receipts_expense_id_idx ON expense_receipts (expense_id);
+
+ALTER TABLE expense_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own receipts"
+  ON expense_receipts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own receipts"
+  ON expense_receipts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own receipts"
+  ON expense_receipts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Private storage bucket for receipt files; each user's files live under a folder named after their id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own receipt files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own receipt files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own receipt files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
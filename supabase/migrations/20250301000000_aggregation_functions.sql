@@ -0,0 +1,165 @@
+-- Server-side aggregation for the dashboard, reports, analytics and budgets pages.
+-- The client calls these through supabase.rpc() instead of downloading every row and
+-- summing in the browser. They run as the calling user (SECURITY INVOKER, the default),
+-- so row level security still decides which rows are counted.
+
+-- Which order payment statuses count as revenue
+CREATE OR REPLACE FUNCTION public.is_paid_payment_status(status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT upper(coalesce(status, '')) IN ('PAID', 'COMPLETED', 'SETTLED', 'PROCESSED', 'APPROVED')
+$$;
+
+-- Total expenses, optionally within an inclusive date range
+CREATE OR REPLACE FUNCTION public.expense_total(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(sum(e.amount), 0)
+  FROM expenses e
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+$$;
+
+CREATE OR REPLACE FUNCTION public.expense_totals_by_category(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (category_id BIGINT, category_name TEXT, total NUMERIC, expense_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.category_id, c.name, coalesce(sum(e.amount), 0), count(*)
+  FROM expenses e
+  LEFT JOIN categories c ON c.id = e.category_id
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+  GROUP BY e.category_id, c.name
+  ORDER BY 3 DESC
+$$;
+
+-- Months are returned as the first day of the month
+CREATE OR REPLACE FUNCTION public.expense_totals_by_month(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (month DATE, total NUMERIC, expense_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_trunc('month', e.date)::DATE, coalesce(sum(e.amount), 0), count(*)
+  FROM expenses e
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+  GROUP BY 1
+  ORDER BY 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.expense_totals_by_category_month(
+  date_from DATE DEFAULT NULL,
+  date_to DATE DEFAULT NULL
+)
+RETURNS TABLE (month DATE, category_id BIGINT, category_name TEXT, total NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_trunc('month', e.date)::DATE, e.category_id, c.name, coalesce(sum(e.amount), 0)
+  FROM expenses e
+  LEFT JOIN categories c ON c.id = e.category_id
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+  GROUP BY 1, e.category_id, c.name
+  ORDER BY 1, 4 DESC
+$$;
+
+-- Paid orders (by created_at), markets (by end_date) and courses (by date) per month
+CREATE OR REPLACE FUNCTION public.revenue_totals_by_month(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (
+  month DATE,
+  order_revenue NUMERIC,
+  market_revenue NUMERIC,
+  course_revenue NUMERIC,
+  order_count BIGINT,
+  market_count BIGINT,
+  course_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH revenue AS (
+    SELECT
+      date_trunc('month', o.created_at)::DATE AS month,
+      o.total_amount + coalesce(o.shipping_cost, 0) AS order_amount,
+      0::NUMERIC AS market_amount,
+      0::NUMERIC AS course_amount,
+      1 AS is_order,
+      0 AS is_market,
+      0 AS is_course
+    FROM orders o
+    WHERE public.is_paid_payment_status(o.payment_status::TEXT)
+      AND (date_from IS NULL OR o.created_at >= date_from)
+      -- created_at is a timestamp, so include the whole of the last day
+      AND (date_to IS NULL OR o.created_at < date_to + 1)
+
+    UNION ALL
+
+    SELECT date_trunc('month', m.end_date)::DATE, 0, coalesce(m.final_incoming, 0), 0, 0, 1, 0
+    FROM markets m
+    WHERE (date_from IS NULL OR m.end_date >= date_from)
+      AND (date_to IS NULL OR m.end_date <= date_to)
+
+    UNION ALL
+
+    SELECT date_trunc('month', c.date)::DATE, 0, 0, coalesce(c.total_amount, 0), 0, 0, 1
+    FROM courses c
+    WHERE (date_from IS NULL OR c.date >= date_from)
+      AND (date_to IS NULL OR c.date <= date_to)
+  )
+  SELECT
+    month,
+    sum(order_amount),
+    sum(market_amount),
+    sum(course_amount),
+    sum(is_order)::BIGINT,
+    sum(is_market)::BIGINT,
+    sum(is_course)::BIGINT
+  FROM revenue
+  GROUP BY month
+  ORDER BY month
+$$;
+
+CREATE OR REPLACE FUNCTION public.revenue_summary(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (
+  order_revenue NUMERIC,
+  market_revenue NUMERIC,
+  course_revenue NUMERIC,
+  order_count BIGINT,
+  market_count BIGINT,
+  course_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    coalesce(sum(r.order_revenue), 0),
+    coalesce(sum(r.market_revenue), 0),
+    coalesce(sum(r.course_revenue), 0),
+    coalesce(sum(r.order_count), 0)::BIGINT,
+    coalesce(sum(r.market_count), 0)::BIGINT,
+    coalesce(sum(r.course_count), 0)::BIGINT
+  FROM public.revenue_totals_by_month(date_from, date_to) r
+$$;
+
+-- Indexes backing the date range filters above
+CREATE INDEX IF NOT EXISTS expenses_date_idx ON expenses (date);
+CREATE INDEX IF NOT EXISTS expenses_category_id_date_idx ON expenses (category_id, date);
+CREATE INDEX IF NOT EXISTS orders_created_at_idx ON orders (created_at);
+CREATE INDEX IF NOT EXISTS markets_end_date_idx ON markets (end_date);
+CREATE INDEX IF NOT EXISTS courses_date_idx ON courses (date);
+
+GRANT EXECUTE ON FUNCTION
+  public.is_paid_payment_status(TEXT),
+  public.expense_total(DATE, DATE),
+  public.expense_totals_by_category(DATE, DATE),
+  public.expense_totals_by_month(DATE, DATE),
+  public.expense_totals_by_category_month(DATE, DATE),
+  public.revenue_totals_by_month(DATE, DATE),
+  public.revenue_summary(DATE, DATE)
+TO authenticated;
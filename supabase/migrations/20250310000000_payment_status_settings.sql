@@ -0,0 +1,54 @@
+-- How each payment_status value is treated for revenue recognition. Only statuses mapped to
+-- 'paid' count as revenue; statuses without a row are treated as pending.
+
+CREATE TABLE IF NOT EXISTS payment_status_settings (
+  status payment_status PRIMARY KEY,
+  recognition TEXT NOT NULL CHECK (recognition IN ('paid', 'pending', 'refunded', 'cancelled')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO payment_status_settings (status, recognition) VALUES
+  ('PENDING', 'pending'),
+  ('PARTIALLY_PAID', 'pending'),
+  ('PAID', 'paid'),
+  ('COMPLETED', 'paid'),
+  ('SETTLED', 'paid'),
+  ('PROCESSED', 'paid'),
+  ('APPROVED', 'paid'),
+  ('FAILED', 'cancelled'),
+  ('REFUNDED', 'refunded'),
+  ('CANCELLED', 'cancelled')
+ON CONFLICT (status) DO NOTHING;
+
+ALTER TABLE payment_status_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage payment status settings"
+  ON payment_status_settings FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Every value of the payment_status enum, in declaration order, so the settings page can list
+-- statuses that haven't been mapped yet
+CREATE OR REPLACE FUNCTION public.payment_status_values()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT unnest(enum_range(NULL::payment_status))::TEXT
+$$;
+
+-- Read the mapping instead of the hard-coded list; this now depends on table data, so it is STABLE
+CREATE OR REPLACE FUNCTION public.is_paid_payment_status(status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM payment_status_settings s
+    WHERE s.status::TEXT = upper(coalesce($1, ''))
+      AND s.recognition = 'paid'
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.payment_status_values() TO authenticated;
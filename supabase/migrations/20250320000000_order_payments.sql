@@ -0,0 +1,91 @@
+-- Individual payments received against an order. orders.amount_received is kept as the running
+-- total so existing queries keep working; record_order_payment updates both together.
+
+CREATE TABLE IF NOT EXISTS order_payments (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  paid_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  payment_method TEXT,
+  note TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS order_payments_order_id_idx ON order_payments (order_id);
+
+ALTER TABLE order_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage order payments"
+  ON order_payments FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Record a payment and move the order to partially paid, or to PAID once nothing is left outstanding.
+-- Settling an order fails while PAID isn't mapped to 'paid' in the settings. Overpayments are rejected.
+CREATE OR REPLACE FUNCTION public.record_order_payment(
+  order_id BIGINT,
+  amount NUMERIC,
+  paid_at DATE DEFAULT CURRENT_DATE,
+  payment_method TEXT DEFAULT NULL,
+  note TEXT DEFAULT NULL
+)
+RETURNS SETOF orders
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target orders;
+  received NUMERIC;
+  due NUMERIC;
+  next_status payment_status;
+BEGIN
+  IF record_order_payment.amount IS NULL OR record_order_payment.amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO target FROM orders o WHERE o.id = record_order_payment.order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', record_order_payment.order_id;
+  END IF;
+
+  received := coalesce(target.amount_received, 0) + record_order_payment.amount;
+  due := target.total_amount + coalesce(target.shipping_cost, 0);
+
+  IF received > due THEN
+    RAISE EXCEPTION 'Payment of % is more than the outstanding balance of %',
+      record_order_payment.amount, due - coalesce(target.amount_received, 0);
+  END IF;
+
+  INSERT INTO order_payments (order_id, amount, paid_at, payment_method, note)
+  VALUES (
+    target.id,
+    record_order_payment.amount,
+    coalesce(record_order_payment.paid_at, CURRENT_DATE),
+    record_order_payment.payment_method,
+    record_order_payment.note
+  );
+
+  IF received >= due THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM payment_status_settings s WHERE s.status = 'PAID' AND s.recognition = 'paid'
+    ) THEN
+      RAISE EXCEPTION 'Order % is paid in full but PAID is not counted as paid in the payment status settings',
+        target.id;
+    END IF;
+    next_status := 'PAID';
+  ELSE
+    next_status := 'PARTIALLY_PAID';
+  END IF;
+
+  RETURN QUERY
+  UPDATE orders o
+  SET
+    amount_received = received,
+    payment_status = next_status,
+    updated_at = NOW()
+  WHERE o.id = target.id
+  RETURNING o.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_order_payment(BIGINT, NUMERIC, DATE, TEXT, TEXT) TO authenticated;
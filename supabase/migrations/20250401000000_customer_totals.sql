@@ -0,0 +1,33 @@
+-- Lifetime figures per customer from their paid orders, for the customer directory
+
+CREATE OR REPLACE FUNCTION public.customer_order_totals()
+RETURNS TABLE (
+  customer_id BIGINT,
+  order_count BIGINT,
+  paid_order_count BIGINT,
+  lifetime_revenue NUMERIC,
+  first_order_at TIMESTAMP WITH TIME ZONE,
+  last_purchase_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    o.customer_id,
+    count(*),
+    count(*) FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT)),
+    coalesce(
+      sum(o.total_amount + coalesce(o.shipping_cost, 0))
+        FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT)),
+      0
+    ),
+    min(o.created_at),
+    max(o.created_at) FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT))
+  FROM orders o
+  WHERE o.customer_id IS NOT NULL
+  GROUP BY o.customer_id
+$$;
+
+CREATE INDEX IF NOT EXISTS customers_name_idx ON customers (lower(name));
+
+GRANT EXECUTE ON FUNCTION public.customer_order_totals() TO authenticated;
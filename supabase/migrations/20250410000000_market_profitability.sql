@@ -0,0 +1,56 @@
+-- Per-market profit and loss. Expenses can be linked to the market they were bought for
+-- (stall equipment, extra stock, travel) so the market's net result includes them.
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS market_id BIGINT REFERENCES markets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS expenses_market_id_idx ON expenses (market_id);
+
+-- Markets ending within the range with their takings, fee, commission and linked expenses.
+-- days counts both the first and the last day of the market.
+CREATE OR REPLACE FUNCTION public.market_profitability(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (
+  id BIGINT,
+  name TEXT,
+  location TEXT,
+  organization_name TEXT,
+  start_date DATE,
+  end_date DATE,
+  result TEXT,
+  gross NUMERIC,
+  fee NUMERIC,
+  commission NUMERIC,
+  linked_expenses NUMERIC,
+  expense_count BIGINT,
+  days INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    m.id,
+    m.name,
+    m.location,
+    m.organization_name,
+    m.start_date,
+    m.end_date,
+    m.result,
+    coalesce(m.final_incoming, 0),
+    coalesce(m.fee, 0),
+    coalesce(m.commission_to_pay, 0),
+    coalesce(e.total, 0),
+    coalesce(e.expense_count, 0),
+    (m.end_date - m.start_date + 1)::INTEGER
+  FROM markets m
+  LEFT JOIN (
+    SELECT market_id, sum(amount) AS total, count(*) AS expense_count
+    FROM expenses
+    WHERE market_id IS NOT NULL
+    GROUP BY market_id
+  ) e ON e.market_id = m.id
+  WHERE (date_from IS NULL OR m.end_date >= date_from)
+    AND (date_to IS NULL OR m.end_date <= date_to)
+  ORDER BY m.end_date DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION public.market_profitability(DATE, DATE) TO authenticated;
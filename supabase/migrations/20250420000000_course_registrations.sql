@@ -0,0 +1,105 @@
+-- Course scheduling, participant registrations and the costs needed for a per-course margin.
+
+ALTER TABLE courses
+  ADD COLUMN IF NOT EXISTS start_time TIME,
+  ADD COLUMN IF NOT EXISTS materials_cost DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS instructor_cost DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS course_registrations (
+  id BIGSERIAL PRIMARY KEY,
+  course_id BIGINT NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  customer_id BIGINT REFERENCES customers(id) ON DELETE SET NULL,
+  participant_name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  status TEXT NOT NULL DEFAULT 'registered' CHECK (status IN ('registered', 'attended', 'cancelled')),
+  amount_due DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (amount_due >= 0),
+  amount_paid DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  paid_at DATE,
+  payment_method TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS course_registrations_course_id_idx ON course_registrations (course_id);
+
+ALTER TABLE course_registrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage course registrations"
+  ON course_registrations FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Reject registrations beyond max_participants. Cancelled registrations free up their place.
+CREATE OR REPLACE FUNCTION public.check_course_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  capacity INTEGER;
+  taken INTEGER;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.max_participants INTO capacity FROM courses c WHERE c.id = NEW.course_id FOR UPDATE;
+  IF capacity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO taken
+  FROM course_registrations r
+  WHERE r.course_id = NEW.course_id
+    AND r.status <> 'cancelled'
+    AND r.id IS DISTINCT FROM NEW.id;
+
+  IF taken >= capacity THEN
+    RAISE EXCEPTION 'Course is full (% of % places taken)', taken, capacity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER course_registrations_capacity
+  BEFORE INSERT OR UPDATE OF course_id, status ON course_registrations
+  FOR EACH ROW EXECUTE FUNCTION public.check_course_capacity();
+
+-- courses.total_amount stays the revenue figure read by revenue_summary and the reports. Once a course
+-- has registrations it is kept equal to the payments received from them, leaving out cancelled ones since
+-- their payment is refunded. Without registrations the total is left alone, so deleting the last one
+-- doesn't wipe a figure entered by hand.
+CREATE OR REPLACE FUNCTION public.sync_course_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  affected BIGINT;
+BEGIN
+  FOREACH affected IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.course_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.course_id END
+  ] LOOP
+    CONTINUE WHEN affected IS NULL;
+
+    UPDATE courses c
+    SET
+      total_amount = totals.paid,
+      updated_at = NOW()
+    FROM (
+      SELECT coalesce(sum(r.amount_paid) FILTER (WHERE r.status <> 'cancelled'), 0) AS paid, count(*) AS registrations
+      FROM course_registrations r
+      WHERE r.course_id = affected
+    ) totals
+    WHERE c.id = affected AND totals.registrations > 0;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER course_registrations_sync_total
+  AFTER INSERT OR UPDATE OR DELETE ON course_registrations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_course_total();
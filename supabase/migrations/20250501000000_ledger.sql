@@ -0,0 +1,178 @@
+-- Unified ledger of money in and out: paid orders, market takings and costs, courses and expenses,
+-- with a running cash balance from a configurable opening balance.
+
+-- Business-wide settings; the table only ever holds a single row
+CREATE TABLE IF NOT EXISTS business_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  opening_balance DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  -- Entries before this date are listed without a balance; NULL starts the balance at the first entry
+  opening_balance_date DATE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO business_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE business_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage business settings"
+  ON business_settings FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- One row per cash movement. Income is positive and outgoing entries are negative. Orders use the
+-- same rules as the revenue reports: only paid statuses count, dated by created_at.
+CREATE OR REPLACE VIEW public.ledger_entries
+WITH (security_invoker = true)
+AS
+  SELECT
+    'order:' || o.id AS id,
+    'order' AS source,
+    o.id AS source_id,
+    o.created_at::DATE AS entry_date,
+    'Order #' || o.order_number AS description,
+    NULL::BIGINT AS category_id,
+    NULL::TEXT AS category_name,
+    cu.name AS counterparty,
+    (o.total_amount + coalesce(o.shipping_cost, 0))::NUMERIC AS amount
+  FROM orders o
+  LEFT JOIN customers cu ON cu.id = o.customer_id
+  WHERE public.is_paid_payment_status(o.payment_status::TEXT)
+
+  UNION ALL
+
+  SELECT
+    'market:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Market: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    coalesce(m.final_incoming, 0)::NUMERIC
+  FROM markets m
+
+  UNION ALL
+
+  SELECT
+    'market-costs:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Stall fee and commission: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    -(coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0))::NUMERIC
+  FROM markets m
+  WHERE coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0) > 0
+
+  UNION ALL
+
+  SELECT
+    'course:' || c.id,
+    'course',
+    c.id,
+    c.date,
+    'Course: ' || c.course_name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    c.instructor_name,
+    c.total_amount::NUMERIC
+  FROM courses c
+  WHERE c.total_amount <> 0
+
+  UNION ALL
+
+  SELECT
+    'expense:' || e.id,
+    'expense',
+    e.id,
+    e.date,
+    e.description,
+    e.category_id,
+    ca.name,
+    s.name,
+    -e.amount::NUMERIC
+  FROM expenses e
+  LEFT JOIN categories ca ON ca.id = e.category_id
+  LEFT JOIN suppliers s ON s.id = e.supplier_id;
+
+GRANT SELECT ON public.ledger_entries TO authenticated;
+
+-- One page of the ledger, newest first. The balance is the cash balance after each entry across the
+-- whole ledger, so it stays correct when the page is filtered by source or category. total_count,
+-- total_in and total_out describe every entry matching the filters, not just the page.
+CREATE OR REPLACE FUNCTION public.ledger_page(
+  date_from DATE DEFAULT NULL,
+  date_to DATE DEFAULT NULL,
+  sources TEXT[] DEFAULT NULL,
+  category BIGINT DEFAULT NULL,
+  page_offset INTEGER DEFAULT 0,
+  page_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id TEXT,
+  source TEXT,
+  source_id BIGINT,
+  entry_date DATE,
+  description TEXT,
+  category_id BIGINT,
+  category_name TEXT,
+  counterparty TEXT,
+  amount NUMERIC,
+  balance NUMERIC,
+  total_count BIGINT,
+  total_in NUMERIC,
+  total_out NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH settings AS (
+    SELECT bs.opening_balance, bs.opening_balance_date FROM business_settings bs LIMIT 1
+  ),
+  balanced AS (
+    SELECT
+      e.*,
+      CASE
+        WHEN st.opening_balance_date IS NULL OR e.entry_date >= st.opening_balance_date THEN
+          coalesce(st.opening_balance, 0) + sum(
+            CASE
+              WHEN st.opening_balance_date IS NULL OR e.entry_date >= st.opening_balance_date THEN e.amount
+              ELSE 0
+            END
+          ) OVER (ORDER BY e.entry_date, e.id ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)
+      END AS balance
+    FROM public.ledger_entries e
+    LEFT JOIN settings st ON TRUE
+  ),
+  filtered AS (
+    SELECT b.*
+    FROM balanced b
+    WHERE (date_from IS NULL OR b.entry_date >= date_from)
+      AND (date_to IS NULL OR b.entry_date <= date_to)
+      AND (sources IS NULL OR cardinality(sources) = 0 OR b.source = ANY (sources))
+      AND (category IS NULL OR b.category_id = category)
+  )
+  SELECT
+    f.id,
+    f.source,
+    f.source_id,
+    f.entry_date,
+    f.description,
+    f.category_id,
+    f.category_name,
+    f.counterparty,
+    f.amount,
+    f.balance,
+    count(*) OVER (),
+    coalesce(sum(f.amount) FILTER (WHERE f.amount > 0) OVER (), 0),
+    coalesce(-sum(f.amount) FILTER (WHERE f.amount < 0) OVER (), 0)
+  FROM filtered f
+  ORDER BY f.entry_date DESC, f.id DESC
+  OFFSET greatest(page_offset, 0)
+  LIMIT greatest(page_size, 1)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ledger_page(DATE, DATE, TEXT[], BIGINT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,490 @@
+-- Multi-currency: every expense and revenue record carries its own currency, and the aggregation
+-- functions convert amounts into the base currency from business_settings using exchange_rates.
+-- Existing records were entered as USD, the only currency the app supported before.
+
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'USD' CHECK (base_currency ~ '^[A-Z]{3}$');
+
+CREATE OR REPLACE FUNCTION public.base_currency()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce((SELECT bs.base_currency FROM business_settings bs LIMIT 1), 'USD')
+$$;
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE recurring_expenses
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- New records default to whatever the base currency is at the time
+ALTER TABLE expenses ALTER COLUMN currency SET DEFAULT public.base_currency();
+ALTER TABLE recurring_expenses ALTER COLUMN currency SET DEFAULT public.base_currency();
+ALTER TABLE orders ALTER COLUMN currency SET DEFAULT public.base_currency();
+ALTER TABLE markets ALTER COLUMN currency SET DEFAULT public.base_currency();
+ALTER TABLE courses ALTER COLUMN currency SET DEFAULT public.base_currency();
+
+-- One unit of from_currency is worth `rate` units of to_currency on rate_date
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id BIGSERIAL PRIMARY KEY,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate_date DATE NOT NULL,
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (from_currency <> to_currency),
+  UNIQUE (from_currency, to_currency, rate_date)
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage exchange rates"
+  ON exchange_rates FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Rate to convert source_currency into target_currency on a date. Uses the latest rate on or before
+-- the date, falling back to the earliest later one; a stored rate for the opposite direction is
+-- inverted. NULL when no rate exists for the pair at all.
+CREATE OR REPLACE FUNCTION public.exchange_rate(source_currency TEXT, target_currency TEXT, on_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN source_currency = target_currency THEN 1
+    ELSE (
+      SELECT CASE WHEN x.from_currency = source_currency THEN x.rate ELSE 1 / x.rate END
+      FROM exchange_rates x
+      WHERE (x.from_currency = source_currency AND x.to_currency = target_currency)
+         OR (x.from_currency = target_currency AND x.to_currency = source_currency)
+      ORDER BY x.rate_date > on_date, abs(x.rate_date - on_date), x.from_currency = source_currency DESC
+      LIMIT 1
+    )
+  END
+$$;
+
+-- Amount in the base currency. Amounts without a usable rate are counted unconverted; the settings
+-- page lists those currencies through currencies_missing_rates().
+CREATE OR REPLACE FUNCTION public.to_base(amount NUMERIC, currency TEXT, on_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT amount * coalesce(
+    public.exchange_rate(coalesce(currency, public.base_currency()), public.base_currency(), on_date),
+    1
+  )
+$$;
+
+-- Currencies used by any record that have no rate to the base currency
+CREATE OR REPLACE FUNCTION public.currencies_missing_rates()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT used.currency
+  FROM (
+    SELECT currency FROM expenses
+    UNION SELECT currency FROM recurring_expenses
+    UNION SELECT currency FROM orders
+    UNION SELECT currency FROM markets
+    UNION SELECT currency FROM courses
+  ) used
+  WHERE used.currency <> public.base_currency()
+    AND public.exchange_rate(used.currency, public.base_currency(), CURRENT_DATE) IS NULL
+  ORDER BY 1
+$$;
+
+-- Computed column, so clients can select "amount_base" alongside an expense's own amount
+CREATE OR REPLACE FUNCTION public.amount_base(e expenses)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.to_base(e.amount, e.currency, e.date)
+$$;
+
+-- Aggregations from 20250301000000_aggregation_functions.sql, now in the base currency
+
+CREATE OR REPLACE FUNCTION public.expense_total(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(sum(public.to_base(e.amount, e.currency, e.date)), 0)
+  FROM expenses e
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+$$;
+
+CREATE OR REPLACE FUNCTION public.expense_totals_by_category(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (category_id BIGINT, category_name TEXT, total NUMERIC, expense_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.category_id, c.name, coalesce(sum(public.to_base(e.amount, e.currency, e.date)), 0), count(*)
+  FROM expenses e
+  LEFT JOIN categories c ON c.id = e.category_id
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+  GROUP BY e.category_id, c.name
+  ORDER BY 3 DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.expense_totals_by_month(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (month DATE, total NUMERIC, expense_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_trunc('month', e.date)::DATE, coalesce(sum(public.to_base(e.amount, e.currency, e.date)), 0), count(*)
+  FROM expenses e
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+  GROUP BY 1
+  ORDER BY 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.expense_totals_by_category_month(
+  date_from DATE DEFAULT NULL,
+  date_to DATE DEFAULT NULL
+)
+RETURNS TABLE (month DATE, category_id BIGINT, category_name TEXT, total NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    date_trunc('month', e.date)::DATE,
+    e.category_id,
+    c.name,
+    coalesce(sum(public.to_base(e.amount, e.currency, e.date)), 0)
+  FROM expenses e
+  LEFT JOIN categories c ON c.id = e.category_id
+  WHERE (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+  GROUP BY 1, e.category_id, c.name
+  ORDER BY 1, 4 DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.revenue_totals_by_month(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (
+  month DATE,
+  order_revenue NUMERIC,
+  market_revenue NUMERIC,
+  course_revenue NUMERIC,
+  order_count BIGINT,
+  market_count BIGINT,
+  course_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH revenue AS (
+    SELECT
+      date_trunc('month', o.created_at)::DATE AS month,
+      public.to_base(o.total_amount + coalesce(o.shipping_cost, 0), o.currency, o.created_at::DATE) AS order_amount,
+      0::NUMERIC AS market_amount,
+      0::NUMERIC AS course_amount,
+      1 AS is_order,
+      0 AS is_market,
+      0 AS is_course
+    FROM orders o
+    WHERE public.is_paid_payment_status(o.payment_status::TEXT)
+      AND (date_from IS NULL OR o.created_at >= date_from)
+      -- created_at is a timestamp, so include the whole of the last day
+      AND (date_to IS NULL OR o.created_at < date_to + 1)
+
+    UNION ALL
+
+    SELECT
+      date_trunc('month', m.end_date)::DATE,
+      0,
+      public.to_base(coalesce(m.final_incoming, 0), m.currency, m.end_date),
+      0,
+      0,
+      1,
+      0
+    FROM markets m
+    WHERE (date_from IS NULL OR m.end_date >= date_from)
+      AND (date_to IS NULL OR m.end_date <= date_to)
+
+    UNION ALL
+
+    SELECT
+      date_trunc('month', c.date)::DATE,
+      0,
+      0,
+      public.to_base(coalesce(c.total_amount, 0), c.currency, c.date),
+      0,
+      0,
+      1
+    FROM courses c
+    WHERE (date_from IS NULL OR c.date >= date_from)
+      AND (date_to IS NULL OR c.date <= date_to)
+  )
+  SELECT
+    month,
+    sum(order_amount),
+    sum(market_amount),
+    sum(course_amount),
+    sum(is_order)::BIGINT,
+    sum(is_market)::BIGINT,
+    sum(is_course)::BIGINT
+  FROM revenue
+  GROUP BY month
+  ORDER BY month
+$$;
+
+CREATE OR REPLACE FUNCTION public.customer_order_totals()
+RETURNS TABLE (
+  customer_id BIGINT,
+  order_count BIGINT,
+  paid_order_count BIGINT,
+  lifetime_revenue NUMERIC,
+  first_order_at TIMESTAMP WITH TIME ZONE,
+  last_purchase_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    o.customer_id,
+    count(*),
+    count(*) FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT)),
+    coalesce(
+      sum(public.to_base(o.total_amount + coalesce(o.shipping_cost, 0), o.currency, o.created_at::DATE))
+        FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT)),
+      0
+    ),
+    min(o.created_at),
+    max(o.created_at) FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT))
+  FROM orders o
+  WHERE o.customer_id IS NOT NULL
+  GROUP BY o.customer_id
+$$;
+
+-- Takings, fee and commission are in the market's currency; linked expenses may each be in another
+CREATE OR REPLACE FUNCTION public.market_profitability(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (
+  id BIGINT,
+  name TEXT,
+  location TEXT,
+  organization_name TEXT,
+  start_date DATE,
+  end_date DATE,
+  result TEXT,
+  gross NUMERIC,
+  fee NUMERIC,
+  commission NUMERIC,
+  linked_expenses NUMERIC,
+  expense_count BIGINT,
+  days INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    m.id,
+    m.name,
+    m.location,
+    m.organization_name,
+    m.start_date,
+    m.end_date,
+    m.result,
+    public.to_base(coalesce(m.final_incoming, 0), m.currency, m.end_date),
+    public.to_base(coalesce(m.fee, 0), m.currency, m.end_date),
+    public.to_base(coalesce(m.commission_to_pay, 0), m.currency, m.end_date),
+    coalesce(e.total, 0),
+    coalesce(e.expense_count, 0),
+    (m.end_date - m.start_date + 1)::INTEGER
+  FROM markets m
+  LEFT JOIN (
+    SELECT ex.market_id, sum(public.to_base(ex.amount, ex.currency, ex.date)) AS total, count(*) AS expense_count
+    FROM expenses ex
+    WHERE ex.market_id IS NOT NULL
+    GROUP BY ex.market_id
+  ) e ON e.market_id = m.id
+  WHERE (date_from IS NULL OR m.end_date >= date_from)
+    AND (date_to IS NULL OR m.end_date <= date_to)
+  ORDER BY m.end_date DESC
+$$;
+
+-- Ledger amounts are in the base currency; currency and original_amount keep the entry as recorded
+CREATE OR REPLACE VIEW public.ledger_entries
+WITH (security_invoker = true)
+AS
+  SELECT
+    'order:' || o.id AS id,
+    'order' AS source,
+    o.id AS source_id,
+    o.created_at::DATE AS entry_date,
+    'Order #' || o.order_number AS description,
+    NULL::BIGINT AS category_id,
+    NULL::TEXT AS category_name,
+    cu.name AS counterparty,
+    public.to_base(o.total_amount + coalesce(o.shipping_cost, 0), o.currency, o.created_at::DATE) AS amount,
+    o.currency,
+    (o.total_amount + coalesce(o.shipping_cost, 0))::NUMERIC AS original_amount
+  FROM orders o
+  LEFT JOIN customers cu ON cu.id = o.customer_id
+  WHERE public.is_paid_payment_status(o.payment_status::TEXT)
+
+  UNION ALL
+
+  SELECT
+    'market:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Market: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    public.to_base(coalesce(m.final_incoming, 0), m.currency, m.end_date),
+    m.currency,
+    coalesce(m.final_incoming, 0)::NUMERIC
+  FROM markets m
+
+  UNION ALL
+
+  SELECT
+    'market-costs:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Stall fee and commission: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    -public.to_base(coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0), m.currency, m.end_date),
+    m.currency,
+    -(coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0))::NUMERIC
+  FROM markets m
+  WHERE coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0) > 0
+
+  UNION ALL
+
+  SELECT
+    'course:' || c.id,
+    'course',
+    c.id,
+    c.date,
+    'Course: ' || c.course_name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    c.instructor_name,
+    public.to_base(c.total_amount, c.currency, c.date),
+    c.currency,
+    c.total_amount::NUMERIC
+  FROM courses c
+  WHERE c.total_amount <> 0
+
+  UNION ALL
+
+  SELECT
+    'expense:' || e.id,
+    'expense',
+    e.id,
+    e.date,
+    e.description,
+    e.category_id,
+    ca.name,
+    s.name,
+    -public.to_base(e.amount, e.currency, e.date),
+    e.currency,
+    -e.amount::NUMERIC
+  FROM expenses e
+  LEFT JOIN categories ca ON ca.id = e.category_id
+  LEFT JOIN suppliers s ON s.id = e.supplier_id;
+
+-- The return type gains the recorded currency and amount, so the function is recreated
+DROP FUNCTION IF EXISTS public.ledger_page(DATE, DATE, TEXT[], BIGINT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.ledger_page(
+  date_from DATE DEFAULT NULL,
+  date_to DATE DEFAULT NULL,
+  sources TEXT[] DEFAULT NULL,
+  category BIGINT DEFAULT NULL,
+  page_offset INTEGER DEFAULT 0,
+  page_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id TEXT,
+  source TEXT,
+  source_id BIGINT,
+  entry_date DATE,
+  description TEXT,
+  category_id BIGINT,
+  category_name TEXT,
+  counterparty TEXT,
+  amount NUMERIC,
+  currency TEXT,
+  original_amount NUMERIC,
+  balance NUMERIC,
+  total_count BIGINT,
+  total_in NUMERIC,
+  total_out NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH settings AS (
+    SELECT bs.opening_balance, bs.opening_balance_date FROM business_settings bs LIMIT 1
+  ),
+  balanced AS (
+    SELECT
+      e.*,
+      CASE
+        WHEN st.opening_balance_date IS NULL OR e.entry_date >= st.opening_balance_date THEN
+          coalesce(st.opening_balance, 0) + sum(
+            CASE
+              WHEN st.opening_balance_date IS NULL OR e.entry_date >= st.opening_balance_date THEN e.amount
+              ELSE 0
+            END
+          ) OVER (ORDER BY e.entry_date, e.id ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)
+      END AS balance
+    FROM public.ledger_entries e
+    LEFT JOIN settings st ON TRUE
+  ),
+  filtered AS (
+    SELECT b.*
+    FROM balanced b
+    WHERE (date_from IS NULL OR b.entry_date >= date_from)
+      AND (date_to IS NULL OR b.entry_date <= date_to)
+      AND (sources IS NULL OR cardinality(sources) = 0 OR b.source = ANY (sources))
+      AND (category IS NULL OR b.category_id = category)
+  )
+  SELECT
+    f.id,
+    f.source,
+    f.source_id,
+    f.entry_date,
+    f.description,
+    f.category_id,
+    f.category_name,
+    f.counterparty,
+    f.amount,
+    f.currency,
+    f.original_amount,
+    f.balance,
+    count(*) OVER (),
+    coalesce(sum(f.amount) FILTER (WHERE f.amount > 0) OVER (), 0),
+    coalesce(-sum(f.amount) FILTER (WHERE f.amount < 0) OVER (), 0)
+  FROM filtered f
+  ORDER BY f.entry_date DESC, f.id DESC
+  OFFSET greatest(page_offset, 0)
+  LIMIT greatest(page_size, 1)
+$$;
+
+GRANT EXECUTE ON FUNCTION
+  public.base_currency(),
+  public.exchange_rate(TEXT, TEXT, DATE),
+  public.to_base(NUMERIC, TEXT, DATE),
+  public.currencies_missing_rates(),
+  public.amount_base(expenses),
+  public.ledger_page(DATE, DATE, TEXT[], BIGINT, INTEGER, INTEGER)
+TO authenticated;
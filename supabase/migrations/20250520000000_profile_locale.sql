@@ -0,0 +1,3 @@
+-- Locale used to format money, numbers and dates for each user; NULL follows the browser's language
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS locale TEXT;
@@ -0,0 +1,243 @@
+-- Business timezone: orders are stamped with a created_at timestamp, and the day and month they count
+-- towards depend on where the business is. Aggregations used to bucket them by the database's UTC
+-- clock, so an order placed on the evening of March 31 in New York counted towards April.
+
+CREATE OR REPLACE FUNCTION public.is_time_zone(zone TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names tz WHERE tz.name = zone)
+$$;
+
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC' CHECK (public.is_time_zone(timezone));
+
+CREATE OR REPLACE FUNCTION public.business_time_zone()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce((SELECT bs.timezone FROM business_settings bs LIMIT 1), 'UTC')
+$$;
+
+-- Calendar date of a timestamp in the business timezone
+CREATE OR REPLACE FUNCTION public.business_date(ts TIMESTAMP WITH TIME ZONE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (ts AT TIME ZONE public.business_time_zone())::DATE
+$$;
+
+-- The instant a calendar day starts in the business timezone, accounting for DST
+CREATE OR REPLACE FUNCTION public.business_day_start(day DATE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT day::TIMESTAMP AT TIME ZONE public.business_time_zone()
+$$;
+
+-- Functions from 20250510000000_currencies.sql, now dating orders in the business timezone
+
+CREATE OR REPLACE FUNCTION public.revenue_totals_by_month(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (
+  month DATE,
+  order_revenue NUMERIC,
+  market_revenue NUMERIC,
+  course_revenue NUMERIC,
+  order_count BIGINT,
+  market_count BIGINT,
+  course_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH revenue AS (
+    SELECT
+      date_trunc('month', public.business_date(o.created_at))::DATE AS month,
+      public.to_base(
+        o.total_amount + coalesce(o.shipping_cost, 0),
+        o.currency,
+        public.business_date(o.created_at)
+      ) AS order_amount,
+      0::NUMERIC AS market_amount,
+      0::NUMERIC AS course_amount,
+      1 AS is_order,
+      0 AS is_market,
+      0 AS is_course
+    FROM orders o
+    WHERE public.is_paid_payment_status(o.payment_status::TEXT)
+      -- Compared as timestamps so the created_at index still applies
+      AND (date_from IS NULL OR o.created_at >= public.business_day_start(date_from))
+      AND (date_to IS NULL OR o.created_at < public.business_day_start(date_to + 1))
+
+    UNION ALL
+
+    SELECT
+      date_trunc('month', m.end_date)::DATE,
+      0,
+      public.to_base(coalesce(m.final_incoming, 0), m.currency, m.end_date),
+      0,
+      0,
+      1,
+      0
+    FROM markets m
+    WHERE (date_from IS NULL OR m.end_date >= date_from)
+      AND (date_to IS NULL OR m.end_date <= date_to)
+
+    UNION ALL
+
+    SELECT
+      date_trunc('month', c.date)::DATE,
+      0,
+      0,
+      public.to_base(coalesce(c.total_amount, 0), c.currency, c.date),
+      0,
+      0,
+      1
+    FROM courses c
+    WHERE (date_from IS NULL OR c.date >= date_from)
+      AND (date_to IS NULL OR c.date <= date_to)
+  )
+  SELECT
+    month,
+    sum(order_amount),
+    sum(market_amount),
+    sum(course_amount),
+    sum(is_order)::BIGINT,
+    sum(is_market)::BIGINT,
+    sum(is_course)::BIGINT
+  FROM revenue
+  GROUP BY month
+  ORDER BY month
+$$;
+
+CREATE OR REPLACE FUNCTION public.customer_order_totals()
+RETURNS TABLE (
+  customer_id BIGINT,
+  order_count BIGINT,
+  paid_order_count BIGINT,
+  lifetime_revenue NUMERIC,
+  first_order_at TIMESTAMP WITH TIME ZONE,
+  last_purchase_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    o.customer_id,
+    count(*),
+    count(*) FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT)),
+    coalesce(
+      sum(
+        public.to_base(o.total_amount + coalesce(o.shipping_cost, 0), o.currency, public.business_date(o.created_at))
+      )
+        FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT)),
+      0
+    ),
+    min(o.created_at),
+    max(o.created_at) FILTER (WHERE public.is_paid_payment_status(o.payment_status::TEXT))
+  FROM orders o
+  WHERE o.customer_id IS NOT NULL
+  GROUP BY o.customer_id
+$$;
+
+CREATE OR REPLACE VIEW public.ledger_entries
+WITH (security_invoker = true)
+AS
+  SELECT
+    'order:' || o.id AS id,
+    'order' AS source,
+    o.id AS source_id,
+    public.business_date(o.created_at) AS entry_date,
+    'Order #' || o.order_number AS description,
+    NULL::BIGINT AS category_id,
+    NULL::TEXT AS category_name,
+    cu.name AS counterparty,
+    public.to_base(
+      o.total_amount + coalesce(o.shipping_cost, 0),
+      o.currency,
+      public.business_date(o.created_at)
+    ) AS amount,
+    o.currency,
+    (o.total_amount + coalesce(o.shipping_cost, 0))::NUMERIC AS original_amount
+  FROM orders o
+  LEFT JOIN customers cu ON cu.id = o.customer_id
+  WHERE public.is_paid_payment_status(o.payment_status::TEXT)
+
+  UNION ALL
+
+  SELECT
+    'market:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Market: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    public.to_base(coalesce(m.final_incoming, 0), m.currency, m.end_date),
+    m.currency,
+    coalesce(m.final_incoming, 0)::NUMERIC
+  FROM markets m
+
+  UNION ALL
+
+  SELECT
+    'market-costs:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Stall fee and commission: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    -public.to_base(coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0), m.currency, m.end_date),
+    m.currency,
+    -(coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0))::NUMERIC
+  FROM markets m
+  WHERE coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0) > 0
+
+  UNION ALL
+
+  SELECT
+    'course:' || c.id,
+    'course',
+    c.id,
+    c.date,
+    'Course: ' || c.course_name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    c.instructor_name,
+    public.to_base(c.total_amount, c.currency, c.date),
+    c.currency,
+    c.total_amount::NUMERIC
+  FROM courses c
+  WHERE c.total_amount <> 0
+
+  UNION ALL
+
+  SELECT
+    'expense:' || e.id,
+    'expense',
+    e.id,
+    e.date,
+    e.description,
+    e.category_id,
+    ca.name,
+    s.name,
+    -public.to_base(e.amount, e.currency, e.date),
+    e.currency,
+    -e.amount::NUMERIC
+  FROM expenses e
+  LEFT JOIN categories ca ON ca.id = e.category_id
+  LEFT JOIN suppliers s ON s.id = e.supplier_id;
+
+GRANT EXECUTE ON FUNCTION
+  public.is_time_zone(TEXT),
+  public.business_time_zone(),
+  public.business_date(TIMESTAMP WITH TIME ZONE),
+  public.business_day_start(DATE)
+TO authenticated;
@@ -0,0 +1,18 @@
+-- Ingredient costing: expenses bought by weight, volume or piece get a cost per 100g, which the
+-- app fills in from amount, quantity and unit on every save (see lib/units.ts). Pieces are costed
+-- from the weight of a single item.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS item_weight_grams NUMERIC(12, 3) CHECK (item_weight_grams > 0);
+
+-- Cost existing purchases in the standard units; volumes are weighed as water, like the app does
+UPDATE expenses e
+SET cost_per_100g = round(e.amount / (e.quantity * grams.per_unit) * 100, 4)
+FROM (
+  VALUES ('kg', 1000), ('g', 1), ('lb', 453.59237), ('oz', 28.349523125), ('l', 1000), ('ml', 1)
+) AS grams (unit, per_unit)
+WHERE lower(trim(e.unit)) = grams.unit
+  AND e.quantity > 0
+  AND e.cost_per_100g IS NULL;
+
+-- Backs the ingredient price history, which only reads costed purchases
+CREATE INDEX IF NOT EXISTS expenses_ingredient_prices_idx ON expenses (date) WHERE cost_per_100g IS NOT NULL;
@@ -0,0 +1,60 @@
+-- Products and their recipes. A recipe lists ingredients by name with the weight one batch uses;
+-- ingredients are matched to expenses on their description, and costed from cost_per_100g.
+-- Order items link orders to products so orders can show an estimated cost of goods.
+
+CREATE TABLE IF NOT EXISTS products (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Per unit, in the base currency like the ingredient costs it's compared with
+  selling_price DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (selling_price >= 0),
+  -- Number of units one batch of the recipe makes
+  batch_yield NUMERIC(12, 3) NOT NULL DEFAULT 1 CHECK (batch_yield > 0),
+  -- Cost ingredients at their latest purchase price or the average of all purchases
+  cost_basis TEXT NOT NULL DEFAULT 'latest' CHECK (cost_basis IN ('latest', 'average')),
+  -- Archived products stay on existing orders but aren't offered for new ones
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS product_ingredients (
+  id BIGSERIAL PRIMARY KEY,
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  -- Matches the description of the expenses the ingredient is bought with
+  ingredient TEXT NOT NULL,
+  weight_grams NUMERIC(12, 3) NOT NULL CHECK (weight_grams > 0),
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS product_ingredients_product_id_idx ON product_ingredients (product_id);
+
+CREATE TABLE IF NOT EXISTS order_items (
+  id BIGSERIAL PRIMARY KEY,
+  order_id BIGINT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id BIGINT NOT NULL REFERENCES products(id),
+  quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS order_items_product_id_idx ON order_items (product_id);
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage products"
+  ON products FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage product ingredients"
+  ON product_ingredients FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage order items"
+  ON order_items FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,52 @@
+-- Inventory: stock items are the ingredients and supplies kept on the shelf. Their stock goes up with
+-- purchase expenses that have the same description (like the ingredient price history) and down with
+-- the products sold on orders and with recorded usage. A stock take records the counted quantity,
+-- which replaces whatever the purchases and sales added up to at that point.
+
+CREATE TABLE IF NOT EXISTS stock_items (
+  id BIGSERIAL PRIMARY KEY,
+  -- Matches the description of the expenses the item is bought with and of recipe ingredients
+  name TEXT NOT NULL,
+  -- Weighed items are counted in grams (volumes as water, see lib/units.ts), the rest in pieces
+  stock_unit TEXT NOT NULL DEFAULT 'g' CHECK (stock_unit IN ('g', 'pcs')),
+  -- Warn when the quantity on hand drops to this level, in the stock unit
+  low_stock_threshold NUMERIC(12, 3) CHECK (low_stock_threshold >= 0),
+  -- Purchases and sales before this date were before stock was kept, and don't count
+  tracked_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_items_name_idx ON stock_items (lower(name));
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id BIGSERIAL PRIMARY KEY,
+  stock_item_id BIGINT NOT NULL REFERENCES stock_items(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  -- usage: quantity used, wasted or otherwise taken out of stock
+  -- stocktake: quantity counted on the shelf at the end of the day
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('usage', 'stocktake')),
+  quantity NUMERIC(12, 3) NOT NULL CHECK (quantity >= 0),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_stock_item_id_idx ON stock_movements (stock_item_id, date);
+
+-- How stock on hand is valued: at the cost of the most recent purchases (FIFO) or their average cost
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS inventory_valuation TEXT NOT NULL DEFAULT 'fifo'
+  CHECK (inventory_valuation IN ('fifo', 'average'));
+
+ALTER TABLE stock_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage stock items"
+  ON stock_items FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage stock movements"
+  ON stock_movements FOR ALL TO authenticated
+  USING (true)
+  WITH CHECK (true);
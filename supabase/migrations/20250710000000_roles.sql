@@ -0,0 +1,287 @@
+-- Roles on profiles.role decide what each signed-in user can do: owners manage everything including
+-- settings and the team, accountants manage the records, staff add expenses and record stock, and
+-- viewers only read. The same rules are applied in the app by lib/permissions.ts.
+
+-- Everyone had full access until now, so existing accounts keep it
+UPDATE profiles SET role = 'owner' WHERE role IS NULL OR role NOT IN ('owner', 'accountant', 'staff', 'viewer');
+
+ALTER TABLE profiles ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE profiles ALTER COLUMN role SET NOT NULL;
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('owner', 'accountant', 'staff', 'viewer'));
+
+-- Role of the signed-in user. SECURITY DEFINER so policies on profiles can use it without recursing.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_role(roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.current_user_role() = ANY(roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The first account becomes the owner; later ones start as viewers until an owner gives them a role
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, role)
+  VALUES (
+    new.id,
+    new.email,
+    CASE WHEN EXISTS (SELECT 1 FROM public.profiles WHERE role = 'owner') THEN 'viewer' ELSE 'owner' END
+  );
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Users can update their own profile, so only owners may change a role, and the last owner can't step down
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Requests without a signed-in user come from the database itself, such as handle_new_user
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF public.current_user_role() IS DISTINCT FROM 'owner' THEN
+      NEW.role := 'viewer';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    IF public.current_user_role() IS DISTINCT FROM 'owner' THEN
+      RAISE EXCEPTION 'Only owners can change roles';
+    END IF;
+
+    IF OLD.role = 'owner' AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE role = 'owner' AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'Can''t remove the last owner';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+CREATE POLICY "Owners can view all profiles"
+  ON profiles FOR SELECT TO authenticated
+  USING (public.current_user_role() = 'owner');
+
+CREATE POLICY "Owners can update all profiles"
+  ON profiles FOR UPDATE TO authenticated
+  USING (public.current_user_role() = 'owner');
+
+-- Every role can read the records; writing depends on the role. Budgets are part of the financial
+-- overview staff don't see, and settings are kept to owners.
+
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON categories;
+DROP POLICY IF EXISTS "Authenticated users can manage suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Authenticated users can manage expenses" ON expenses;
+DROP POLICY IF EXISTS "Authenticated users can manage customers" ON customers;
+DROP POLICY IF EXISTS "Authenticated users can manage orders" ON orders;
+DROP POLICY IF EXISTS "Authenticated users can manage markets" ON markets;
+DROP POLICY IF EXISTS "Authenticated users can manage courses" ON courses;
+DROP POLICY IF EXISTS "Authenticated users can manage budgets" ON budgets;
+DROP POLICY IF EXISTS "Authenticated users can manage recurring expenses" ON recurring_expenses;
+DROP POLICY IF EXISTS "Authenticated users can manage payment status settings" ON payment_status_settings;
+DROP POLICY IF EXISTS "Authenticated users can manage order payments" ON order_payments;
+DROP POLICY IF EXISTS "Authenticated users can manage course registrations" ON course_registrations;
+DROP POLICY IF EXISTS "Authenticated users can manage business settings" ON business_settings;
+DROP POLICY IF EXISTS "Authenticated users can manage exchange rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Authenticated users can manage products" ON products;
+DROP POLICY IF EXISTS "Authenticated users can manage product ingredients" ON product_ingredients;
+DROP POLICY IF EXISTS "Authenticated users can manage order items" ON order_items;
+DROP POLICY IF EXISTS "Authenticated users can manage stock items" ON stock_items;
+DROP POLICY IF EXISTS "Authenticated users can manage stock movements" ON stock_movements;
+
+-- Expenses and what goes with them: owners, accountants and staff
+
+CREATE POLICY "Team members can view expenses"
+  ON expenses FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Expense editors can manage expenses"
+  ON expenses FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'staff']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant', 'staff']));
+
+CREATE POLICY "Team members can view suppliers"
+  ON suppliers FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Expense editors can manage suppliers"
+  ON suppliers FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'staff']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant', 'staff']));
+
+CREATE POLICY "Team members can view recurring expenses"
+  ON recurring_expenses FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Expense editors can manage recurring expenses"
+  ON recurring_expenses FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'staff']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant', 'staff']));
+
+CREATE POLICY "Team members can view stock movements"
+  ON stock_movements FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Expense editors can manage stock movements"
+  ON stock_movements FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'staff']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant', 'staff']));
+
+-- Receipts stay private to whoever uploaded them, and only expense editors can add them
+CREATE POLICY "Only expense editors can add receipts"
+  ON expense_receipts AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant', 'staff']));
+
+-- The other business records: owners and accountants
+
+CREATE POLICY "Team members can view categories"
+  ON categories FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage categories"
+  ON categories FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view customers"
+  ON customers FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage customers"
+  ON customers FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view orders"
+  ON orders FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage orders"
+  ON orders FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view markets"
+  ON markets FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage markets"
+  ON markets FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view courses"
+  ON courses FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage courses"
+  ON courses FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view course registrations"
+  ON course_registrations FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage course registrations"
+  ON course_registrations FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view order payments"
+  ON order_payments FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage order payments"
+  ON order_payments FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view products"
+  ON products FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage products"
+  ON products FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view product ingredients"
+  ON product_ingredients FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage product ingredients"
+  ON product_ingredients FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view order items"
+  ON order_items FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage order items"
+  ON order_items FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Team members can view stock items"
+  ON stock_items FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Record editors can manage stock items"
+  ON stock_items FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+-- Budgets: managed by owners and accountants, hidden from staff
+
+CREATE POLICY "Finance viewers can view budgets"
+  ON budgets FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'viewer']));
+
+CREATE POLICY "Record editors can manage budgets"
+  ON budgets FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant']));
+
+-- Settings: read by everyone, since amounts and dates depend on them, and changed by owners
+
+CREATE POLICY "Team members can view payment status settings"
+  ON payment_status_settings FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Owners can manage payment status settings"
+  ON payment_status_settings FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner']))
+  WITH CHECK (public.has_role(ARRAY['owner']));
+
+CREATE POLICY "Team members can view business settings"
+  ON business_settings FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Owners can manage business settings"
+  ON business_settings FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner']))
+  WITH CHECK (public.has_role(ARRAY['owner']));
+
+CREATE POLICY "Team members can view exchange rates"
+  ON exchange_rates FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Owners can manage exchange rates"
+  ON exchange_rates FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner']))
+  WITH CHECK (public.has_role(ARRAY['owner']));
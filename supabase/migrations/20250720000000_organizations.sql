@@ -0,0 +1,419 @@
+-- Organizations: each business keeps its own books. Users belong to one or more organizations with a
+-- role in each, and work in one at a time, their active organization. Every table carries an
+-- organization_id that defaults to the active organization, and row level security only shows rows
+-- from it, so the existing queries, aggregation functions and views need no organization filter.
+-- Roles move from profiles.role to the membership, so someone can be an owner of their own business
+-- and the accountant of another.
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- References profiles rather than auth.users so members can be listed with their name and email
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'accountant', 'staff', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON organization_members (user_id);
+
+-- The organization the user is working in; the switcher in the app changes it
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS active_organization_id BIGINT REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- The active organization of the signed-in user, falling back to the one they joined first when it
+-- isn't set or they're no longer a member of it. SECURITY DEFINER, like the helpers below, so policies
+-- can use it without recursing into the membership policies.
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS BIGINT AS $$
+  SELECT m.organization_id
+  FROM organization_members m
+  JOIN profiles p ON p.id = m.user_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY (m.organization_id IS NOT DISTINCT FROM p.active_organization_id) DESC, m.created_at, m.organization_id
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(org BIGINT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM organization_members WHERE organization_id = org AND user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.organization_role(org BIGINT)
+RETURNS TEXT AS $$
+  SELECT role FROM organization_members WHERE organization_id = org AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user and another user are members of the same organization
+CREATE OR REPLACE FUNCTION public.shares_organization(other UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM organization_members mine
+    JOIN organization_members theirs ON theirs.organization_id = mine.organization_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = other
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The role policies from the roles migration now check the role in the active organization
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT AS $$
+  SELECT public.organization_role(public.current_organization_id());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Invitations are addressed to an email and accepted when someone signs in with it
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL DEFAULT public.current_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(trim(email)) AND email LIKE '%@%'),
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'accountant', 'staff', 'viewer')),
+  invited_by UUID DEFAULT auth.uid() REFERENCES auth.users ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS organization_invitations_email_idx ON organization_invitations (email);
+
+-- Existing data becomes the first organization, with everyone as a member in the role they had
+
+DO $$
+DECLARE
+  org BIGINT;
+  scoped TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM profiles) THEN
+    INSERT INTO organizations (name, created_by)
+    VALUES ('My Business', (SELECT id FROM profiles WHERE role = 'owner' ORDER BY created_at LIMIT 1))
+    RETURNING id INTO org;
+
+    INSERT INTO organization_members (organization_id, user_id, role, created_at)
+    SELECT org, id, role, created_at FROM profiles;
+
+    UPDATE profiles SET active_organization_id = org;
+  ELSE
+    -- Without any accounts there's nobody to own the default settings rows; every new organization
+    -- gets its own
+    DELETE FROM payment_status_settings;
+    DELETE FROM business_settings;
+  END IF;
+
+  FOREACH scoped IN ARRAY ARRAY[
+    'categories', 'suppliers', 'expenses', 'expense_receipts', 'recurring_expenses', 'budgets',
+    'customers', 'orders', 'order_payments', 'markets', 'courses', 'course_registrations',
+    'payment_status_settings', 'business_settings', 'exchange_rates',
+    'products', 'product_ingredients', 'order_items', 'stock_items', 'stock_movements'
+  ] LOOP
+    EXECUTE format(
+      'ALTER TABLE %I ADD COLUMN IF NOT EXISTS organization_id BIGINT REFERENCES organizations(id) ON DELETE CASCADE',
+      scoped
+    );
+    IF org IS NOT NULL THEN
+      EXECUTE format('UPDATE %I SET organization_id = $1 WHERE organization_id IS NULL', scoped) USING org;
+    END IF;
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN organization_id SET DEFAULT public.current_organization_id(), '
+      'ALTER COLUMN organization_id SET NOT NULL',
+      scoped
+    );
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I (organization_id)', scoped || '_organization_id_idx', scoped);
+
+    -- Restrictive, so it applies on top of the role policies: rows outside the active organization
+    -- can't be seen or written whatever the role
+    EXECUTE format(
+      'CREATE POLICY "Rows belong to the active organization" ON %I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (organization_id = public.current_organization_id()) '
+      'WITH CHECK (organization_id = public.current_organization_id())',
+      scoped
+    );
+  END LOOP;
+END $$;
+
+-- Keys that were unique across the whole database are now unique within an organization
+
+ALTER TABLE business_settings DROP COLUMN id;
+ALTER TABLE business_settings ADD PRIMARY KEY (organization_id);
+
+ALTER TABLE payment_status_settings DROP CONSTRAINT payment_status_settings_pkey;
+ALTER TABLE payment_status_settings ADD PRIMARY KEY (organization_id, status);
+
+ALTER TABLE orders DROP CONSTRAINT orders_order_number_key;
+ALTER TABLE orders ADD CONSTRAINT orders_order_number_key UNIQUE (organization_id, order_number);
+
+ALTER TABLE exchange_rates DROP CONSTRAINT exchange_rates_from_currency_to_currency_rate_date_key;
+ALTER TABLE exchange_rates
+  ADD CONSTRAINT exchange_rates_organization_id_from_currency_to_currency_rate_date_key
+  UNIQUE (organization_id, from_currency, to_currency, rate_date);
+
+DROP INDEX IF EXISTS stock_items_name_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS stock_items_name_idx ON stock_items (organization_id, lower(name));
+
+-- Roles live on the membership now
+
+DROP POLICY IF EXISTS "Owners can view all profiles" ON profiles;
+DROP POLICY IF EXISTS "Owners can update all profiles" ON profiles;
+DROP TRIGGER IF EXISTS protect_profile_role ON profiles;
+DROP FUNCTION IF EXISTS public.protect_profile_role();
+ALTER TABLE profiles DROP COLUMN role;
+
+CREATE POLICY "Members can view the profiles of their teammates"
+  ON profiles FOR SELECT TO authenticated
+  USING (public.shares_organization(id));
+
+-- Default settings for a new organization, matching the ones the settings migrations started with
+CREATE OR REPLACE FUNCTION public.seed_organization(org BIGINT)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO payment_status_settings (organization_id, status, recognition) VALUES
+    (org, 'PENDING', 'pending'),
+    (org, 'PARTIALLY_PAID', 'pending'),
+    (org, 'PAID', 'paid'),
+    (org, 'COMPLETED', 'paid'),
+    (org, 'SETTLED', 'paid'),
+    (org, 'PROCESSED', 'paid'),
+    (org, 'APPROVED', 'paid'),
+    (org, 'FAILED', 'cancelled'),
+    (org, 'REFUNDED', 'refunded'),
+    (org, 'CANCELLED', 'cancelled')
+  ON CONFLICT (organization_id, status) DO NOTHING;
+
+  INSERT INTO business_settings (organization_id) VALUES (org) ON CONFLICT (organization_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Creates an organization owned by the given user and makes it their active one
+CREATE OR REPLACE FUNCTION public.add_organization(owner_id UUID, org_name TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+  org BIGINT;
+BEGIN
+  INSERT INTO organizations (name, created_by) VALUES (trim(org_name), owner_id) RETURNING id INTO org;
+  INSERT INTO organization_members (organization_id, user_id, role) VALUES (org, owner_id, 'owner');
+  PERFORM public.seed_organization(org);
+  UPDATE profiles SET active_organization_id = org WHERE id = owner_id;
+  RETURN org;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.seed_organization(BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_organization(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_organization(name TEXT)
+RETURNS BIGINT AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization';
+  END IF;
+
+  RETURN public.add_organization(auth.uid(), create_organization.name);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Joins the organization an invitation for the signed-in user's email is for, and switches to it
+CREATE OR REPLACE FUNCTION public.accept_invitation(invitation_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+  invitation organization_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO invitation
+  FROM organization_invitations i
+  WHERE i.id = accept_invitation.invitation_id AND i.email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (invitation.organization_id, auth.uid(), invitation.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  DELETE FROM organization_invitations WHERE id = invitation.id;
+  UPDATE profiles SET active_organization_id = invitation.organization_id WHERE id = auth.uid();
+
+  RETURN invitation.organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New accounts join the organizations they were invited to, or get an organization of their own
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  invitation organization_invitations%ROWTYPE;
+  joined BIGINT;
+BEGIN
+  INSERT INTO public.profiles (id, email)
+  VALUES (new.id, new.email);
+
+  FOR invitation IN
+    SELECT * FROM organization_invitations WHERE email = lower(new.email) ORDER BY created_at
+  LOOP
+    INSERT INTO organization_members (organization_id, user_id, role)
+    VALUES (invitation.organization_id, new.id, invitation.role);
+    DELETE FROM organization_invitations WHERE id = invitation.id;
+    joined := coalesce(joined, invitation.organization_id);
+  END LOOP;
+
+  IF joined IS NULL THEN
+    PERFORM public.add_organization(new.id, 'My Business');
+  ELSE
+    UPDATE profiles SET active_organization_id = joined WHERE id = new.id;
+  END IF;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- An organization always keeps an owner to manage its team
+CREATE OR REPLACE FUNCTION public.protect_last_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Requests without a signed-in user come from the database itself, such as deleting an account
+  IF auth.uid() IS NULL OR OLD.role <> 'owner' THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role = 'owner' THEN
+    RETURN NEW;
+  END IF;
+
+  -- The organization itself is being deleted
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM organization_members
+    WHERE organization_id = OLD.organization_id AND role = 'owner' AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'Can''t remove the last owner';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE TRIGGER protect_last_owner
+  BEFORE UPDATE OR DELETE ON organization_members
+  FOR EACH ROW EXECUTE FUNCTION public.protect_last_owner();
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Organizations are created through create_organization, and people join them through invitations
+
+CREATE POLICY "Members and invitees can view organizations"
+  ON organizations FOR SELECT TO authenticated
+  USING (
+    public.is_organization_member(id)
+    OR EXISTS (
+      SELECT 1
+      FROM organization_invitations i
+      WHERE i.organization_id = organizations.id AND i.email = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+CREATE POLICY "Owners can update their organizations"
+  ON organizations FOR UPDATE TO authenticated
+  USING (public.organization_role(id) = 'owner');
+
+CREATE POLICY "Members can view their teammates"
+  ON organization_members FOR SELECT TO authenticated
+  USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Owners can change roles"
+  ON organization_members FOR UPDATE TO authenticated
+  USING (public.organization_role(organization_id) = 'owner')
+  WITH CHECK (public.organization_role(organization_id) = 'owner');
+
+CREATE POLICY "Owners can remove members"
+  ON organization_members FOR DELETE TO authenticated
+  USING (public.organization_role(organization_id) = 'owner');
+
+CREATE POLICY "Owners and invitees can view invitations"
+  ON organization_invitations FOR SELECT TO authenticated
+  USING (public.organization_role(organization_id) = 'owner' OR email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Owners can invite people"
+  ON organization_invitations FOR INSERT TO authenticated
+  WITH CHECK (public.organization_role(organization_id) = 'owner');
+
+-- Invitees decline by deleting their invitation
+CREATE POLICY "Owners and invitees can delete invitations"
+  ON organization_invitations FOR DELETE TO authenticated
+  USING (public.organization_role(organization_id) = 'owner' OR email = lower(auth.jwt() ->> 'email'));
+
+-- Receipts belong to the organization rather than whoever uploaded them, so the whole team sees them
+
+DROP POLICY IF EXISTS "Users can view their own receipts" ON expense_receipts;
+DROP POLICY IF EXISTS "Users can insert their own receipts" ON expense_receipts;
+DROP POLICY IF EXISTS "Users can delete their own receipts" ON expense_receipts;
+DROP POLICY IF EXISTS "Only expense editors can add receipts" ON expense_receipts;
+
+CREATE POLICY "Team members can view receipts"
+  ON expense_receipts FOR SELECT TO authenticated
+  USING (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Expense editors can add receipts"
+  ON expense_receipts FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(ARRAY['owner', 'accountant', 'staff']));
+
+CREATE POLICY "Expense editors can delete receipts"
+  ON expense_receipts FOR DELETE TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'staff']));
+
+-- Receipt files are stored under "<organization id>/<expense id>/". Returns NULL for other paths,
+-- such as the "<user id>/" folders receipts were uploaded to before organizations.
+CREATE OR REPLACE FUNCTION public.receipt_file_organization(path TEXT)
+RETURNS BIGINT AS $$
+  SELECT CASE WHEN (storage.foldername(path))[1] ~ '^[0-9]+$' THEN (storage.foldername(path))[1]::BIGINT END;
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP POLICY IF EXISTS "Users can view their own receipt files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own receipt files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own receipt files" ON storage.objects;
+
+-- Older files are reached through their expense_receipts row, which is scoped like any other record
+CREATE POLICY "Organization members can view receipt files"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'receipts'
+    AND (
+      public.is_organization_member(public.receipt_file_organization(name))
+      OR EXISTS (SELECT 1 FROM expense_receipts r WHERE r.file_path = objects.name)
+    )
+  );
+
+CREATE POLICY "Expense editors can upload receipt files"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'receipts'
+    AND public.organization_role(public.receipt_file_organization(name)) IN ('owner', 'accountant', 'staff')
+  );
+
+CREATE POLICY "Expense editors can delete receipt files"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'receipts'
+    AND (
+      public.organization_role(public.receipt_file_organization(name)) IN ('owner', 'accountant', 'staff')
+      OR (
+        public.has_role(ARRAY['owner', 'accountant', 'staff'])
+        AND EXISTS (SELECT 1 FROM expense_receipts r WHERE r.file_path = objects.name)
+      )
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION
+  public.current_user_role(),
+  public.create_organization(TEXT),
+  public.accept_invitation(BIGINT)
+  TO authenticated;
@@ -0,0 +1,24 @@
+-- Rates into the base currency for records the app adds up itself rather than through an aggregation
+-- function, such as the receivables aging and the course totals. Computed columns, so clients can select
+-- "base_rate" alongside the record and convert its amounts before adding them to amounts in other currencies.
+
+CREATE OR REPLACE FUNCTION public.base_rate(o orders)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.to_base(1, o.currency, public.business_date(o.created_at))
+$$;
+
+CREATE OR REPLACE FUNCTION public.base_rate(c courses)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.to_base(1, c.currency, c.date)
+$$;
+
+GRANT EXECUTE ON FUNCTION
+  public.base_rate(orders),
+  public.base_rate(courses)
+TO authenticated;
@@ -0,0 +1,11 @@
+-- Amounts in a currency without any rate into the base currency used to be counted as if they were already
+-- in it. They're left out instead: to_base returns NULL, which sums skip, and the reports list the
+-- currencies involved through currencies_missing_rates().
+
+CREATE OR REPLACE FUNCTION public.to_base(amount NUMERIC, currency TEXT, on_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT amount * public.exchange_rate(coalesce(currency, public.base_currency()), public.base_currency(), on_date)
+$$;
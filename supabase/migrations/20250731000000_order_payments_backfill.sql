@@ -0,0 +1,33 @@
+-- Orders recorded before payments were tracked only have amount_received, or just a paid status. Give
+-- them a payment for what isn't covered yet, dated on the day the order was placed, so the ledger (which
+-- lists orders through their payments from 20250801000000_ledger_order_payments.sql) still shows them.
+
+INSERT INTO order_payments (organization_id, order_id, amount, paid_at, payment_method, note)
+SELECT
+  o.organization_id,
+  o.id,
+  received.amount - coalesce(paid.amount, 0),
+  (o.created_at AT TIME ZONE coalesce(bs.timezone, 'UTC'))::DATE,
+  o.payment_method,
+  'Recorded before payments were tracked'
+FROM orders o
+LEFT JOIN business_settings bs ON bs.organization_id = o.organization_id
+LEFT JOIN (
+  SELECT p.order_id, sum(p.amount) AS amount FROM order_payments p GROUP BY p.order_id
+) paid ON paid.order_id = o.id
+CROSS JOIN LATERAL (
+  SELECT greatest(
+    coalesce(o.amount_received, 0),
+    CASE
+      WHEN EXISTS (
+        SELECT 1
+        FROM payment_status_settings s
+        WHERE s.organization_id = o.organization_id
+          AND s.status = o.payment_status
+          AND s.recognition = 'paid'
+      ) THEN o.total_amount + coalesce(o.shipping_cost, 0)
+      ELSE 0
+    END
+  ) AS amount
+) received
+WHERE received.amount > coalesce(paid.amount, 0);
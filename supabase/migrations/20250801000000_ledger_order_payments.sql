@@ -0,0 +1,116 @@
+-- The ledger listed an order only once its status counted as paid, for its full amount and dated by
+-- created_at, so deposits and part payments never showed up and paid orders landed on the day they were
+-- placed. Orders now enter the ledger through their payments: one entry per payment, on the day it was
+-- received. Payments on orders that were refunded are left out, since the money went back. Orders from
+-- before payments were tracked got their payments in 20250731000000_order_payments_backfill.sql.
+--
+-- Courses now also take out what they cost, like markets do with their stall fee and commission.
+
+CREATE OR REPLACE VIEW public.ledger_entries
+WITH (security_invoker = true)
+AS
+  SELECT
+    'order-payment:' || p.id AS id,
+    'order' AS source,
+    o.id AS source_id,
+    p.paid_at AS entry_date,
+    'Order #' || o.order_number AS description,
+    NULL::BIGINT AS category_id,
+    NULL::TEXT AS category_name,
+    cu.name AS counterparty,
+    public.to_base(p.amount, o.currency, p.paid_at) AS amount,
+    o.currency,
+    p.amount::NUMERIC AS original_amount
+  FROM order_payments p
+  JOIN orders o ON o.id = p.order_id
+  LEFT JOIN customers cu ON cu.id = o.customer_id
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM payment_status_settings s
+    WHERE s.organization_id = o.organization_id AND s.status = o.payment_status AND s.recognition = 'refunded'
+  )
+
+  UNION ALL
+
+  SELECT
+    'market:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Market: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    public.to_base(coalesce(m.final_incoming, 0), m.currency, m.end_date),
+    m.currency,
+    coalesce(m.final_incoming, 0)::NUMERIC
+  FROM markets m
+
+  UNION ALL
+
+  SELECT
+    'market-costs:' || m.id,
+    'market',
+    m.id,
+    m.end_date,
+    'Stall fee and commission: ' || m.name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    m.organization_name,
+    -public.to_base(coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0), m.currency, m.end_date),
+    m.currency,
+    -(coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0))::NUMERIC
+  FROM markets m
+  WHERE coalesce(m.fee, 0) + coalesce(m.commission_to_pay, 0) > 0
+
+  UNION ALL
+
+  SELECT
+    'course:' || c.id,
+    'course',
+    c.id,
+    c.date,
+    'Course: ' || c.course_name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    c.instructor_name,
+    public.to_base(c.total_amount, c.currency, c.date),
+    c.currency,
+    c.total_amount::NUMERIC
+  FROM courses c
+  WHERE c.total_amount <> 0
+
+  UNION ALL
+
+  SELECT
+    'course-costs:' || c.id,
+    'course',
+    c.id,
+    c.date,
+    'Materials and instructor: ' || c.course_name,
+    NULL::BIGINT,
+    NULL::TEXT,
+    c.instructor_name,
+    -public.to_base(c.materials_cost + c.instructor_cost, c.currency, c.date),
+    c.currency,
+    -(c.materials_cost + c.instructor_cost)::NUMERIC
+  FROM courses c
+  WHERE c.materials_cost + c.instructor_cost > 0
+
+  UNION ALL
+
+  SELECT
+    'expense:' || e.id,
+    'expense',
+    e.id,
+    e.date,
+    e.description,
+    e.category_id,
+    ca.name,
+    s.name,
+    -public.to_base(e.amount, e.currency, e.date),
+    e.currency,
+    -e.amount::NUMERIC
+  FROM expenses e
+  LEFT JOIN categories ca ON ca.id = e.category_id
+  LEFT JOIN suppliers s ON s.id = e.supplier_id;
@@ -0,0 +1,115 @@
+-- Recipes and the products on an order are replaced as a whole. Doing the delete and the insert in one
+-- function keeps them in a single transaction, so a failed insert can't leave a product without its recipe
+-- or an order without its items. Ingredients and items are passed as JSON arrays in display order.
+
+CREATE OR REPLACE FUNCTION public.save_recipe(product_id BIGINT, ingredients JSONB)
+RETURNS SETOF product_ingredients
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM product_ingredients pi WHERE pi.product_id = save_recipe.product_id;
+
+  RETURN QUERY
+  INSERT INTO product_ingredients (product_id, ingredient, weight_grams, position)
+  SELECT save_recipe.product_id, btrim(i.ingredient), i.weight_grams, (i.ordinality - 1)::INTEGER
+  FROM jsonb_to_recordset(coalesce(save_recipe.ingredients, '[]'::JSONB))
+    WITH ORDINALITY AS i(ingredient TEXT, weight_grams NUMERIC, ordinality BIGINT)
+  RETURNING *;
+END;
+$$;
+
+-- Add a product together with its recipe
+CREATE OR REPLACE FUNCTION public.create_product(
+  name TEXT,
+  description TEXT,
+  selling_price NUMERIC,
+  batch_yield NUMERIC,
+  cost_basis TEXT,
+  archived BOOLEAN,
+  ingredients JSONB
+)
+RETURNS SETOF products
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  created products;
+BEGIN
+  INSERT INTO products (name, description, selling_price, batch_yield, cost_basis, archived)
+  VALUES (
+    create_product.name,
+    create_product.description,
+    coalesce(create_product.selling_price, 0),
+    coalesce(create_product.batch_yield, 1),
+    coalesce(create_product.cost_basis, 'latest'),
+    coalesce(create_product.archived, FALSE)
+  )
+  RETURNING * INTO created;
+
+  PERFORM public.save_recipe(created.id, create_product.ingredients);
+
+  RETURN NEXT created;
+END;
+$$;
+
+-- Change a product and, when ingredients are given, replace its recipe. Fields left NULL keep their value.
+CREATE OR REPLACE FUNCTION public.update_product(
+  product_id BIGINT,
+  name TEXT DEFAULT NULL,
+  description TEXT DEFAULT NULL,
+  selling_price NUMERIC DEFAULT NULL,
+  batch_yield NUMERIC DEFAULT NULL,
+  cost_basis TEXT DEFAULT NULL,
+  archived BOOLEAN DEFAULT NULL,
+  ingredients JSONB DEFAULT NULL
+)
+RETURNS SETOF products
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated products;
+BEGIN
+  UPDATE products p
+  SET
+    name = coalesce(update_product.name, p.name),
+    description = coalesce(update_product.description, p.description),
+    selling_price = coalesce(update_product.selling_price, p.selling_price),
+    batch_yield = coalesce(update_product.batch_yield, p.batch_yield),
+    cost_basis = coalesce(update_product.cost_basis, p.cost_basis),
+    archived = coalesce(update_product.archived, p.archived),
+    updated_at = NOW()
+  WHERE p.id = update_product.product_id
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', update_product.product_id;
+  END IF;
+
+  IF update_product.ingredients IS NOT NULL THEN
+    PERFORM public.save_recipe(updated.id, update_product.ingredients);
+  END IF;
+
+  RETURN NEXT updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_order_items(order_id BIGINT, items JSONB)
+RETURNS SETOF order_items
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM order_items oi WHERE oi.order_id = save_order_items.order_id;
+
+  RETURN QUERY
+  INSERT INTO order_items (order_id, product_id, quantity)
+  SELECT save_order_items.order_id, i.product_id, i.quantity
+  FROM jsonb_to_recordset(coalesce(save_order_items.items, '[]'::JSONB)) AS i(product_id BIGINT, quantity NUMERIC)
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION
+  public.save_recipe(BIGINT, JSONB),
+  public.create_product(TEXT, TEXT, NUMERIC, NUMERIC, TEXT, BOOLEAN, JSONB),
+  public.update_product(BIGINT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, BOOLEAN, JSONB),
+  public.save_order_items(BIGINT, JSONB)
+TO authenticated;
@@ -0,0 +1,25 @@
+-- Spend per supplier in the base currency, for the suppliers page. Expenses without a supplier are left out,
+-- as are amounts in currencies without an exchange rate (see 20250730000100_missing_exchange_rates.sql).
+
+CREATE OR REPLACE FUNCTION public.supplier_spend(date_from DATE DEFAULT NULL, date_to DATE DEFAULT NULL)
+RETURNS TABLE (
+  supplier_id BIGINT,
+  supplier_name TEXT,
+  total NUMERIC,
+  expense_count BIGINT,
+  last_purchase_date DATE
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.supplier_id, s.name, coalesce(sum(public.to_base(e.amount, e.currency, e.date)), 0), count(*), max(e.date)
+  FROM expenses e
+  LEFT JOIN suppliers s ON s.id = e.supplier_id
+  WHERE e.supplier_id IS NOT NULL
+    AND (date_from IS NULL OR e.date >= date_from)
+    AND (date_to IS NULL OR e.date <= date_to)
+  GROUP BY e.supplier_id, s.name
+  ORDER BY 3 DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION public.supplier_spend(DATE, DATE) TO authenticated;
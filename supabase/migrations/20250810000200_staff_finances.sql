@@ -0,0 +1,54 @@
+-- Staff add expenses and record stock but don't see the business's figures. Orders, their payments,
+-- markets, courses and course registrations carry the revenue, so only roles that can view finances
+-- (owners, accountants and viewers, like budgets) can read them. The revenue, customer, market and ledger
+-- functions run as the caller, so for staff they now leave that revenue out as well.
+
+DROP POLICY IF EXISTS "Team members can view orders" ON orders;
+DROP POLICY IF EXISTS "Team members can view order payments" ON order_payments;
+DROP POLICY IF EXISTS "Team members can view markets" ON markets;
+DROP POLICY IF EXISTS "Team members can view courses" ON courses;
+DROP POLICY IF EXISTS "Team members can view course registrations" ON course_registrations;
+
+CREATE POLICY "Finance viewers can view orders"
+  ON orders FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'viewer']));
+
+CREATE POLICY "Finance viewers can view order payments"
+  ON order_payments FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'viewer']));
+
+CREATE POLICY "Finance viewers can view markets"
+  ON markets FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'viewer']));
+
+CREATE POLICY "Finance viewers can view courses"
+  ON courses FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'viewer']));
+
+CREATE POLICY "Finance viewers can view course registrations"
+  ON course_registrations FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'accountant', 'viewer']));
+
+-- Stock levels still take out what was sold, so every team member can read the products sold on orders
+-- created since the given time, without the orders' amounts. Cancelled and refunded orders never used
+-- their stock. SECURITY DEFINER to read past the orders policy, so it checks the organization itself.
+CREATE OR REPLACE FUNCTION public.stock_sales(created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  order_id BIGINT,
+  order_number TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  product_id BIGINT,
+  quantity NUMERIC
+)
+AS $$
+  SELECT oi.order_id, o.order_number, o.created_at, oi.product_id, oi.quantity
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  LEFT JOIN payment_status_settings s ON s.organization_id = o.organization_id AND s.status = o.payment_status
+  WHERE o.organization_id = public.current_organization_id()
+    AND public.current_user_role() IS NOT NULL
+    AND (created_from IS NULL OR o.created_at >= created_from)
+    AND coalesce(s.recognition, 'pending') NOT IN ('cancelled', 'refunded')
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.stock_sales(TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,161 @@
+-- Sample data for a local database. `supabase db reset` applies the migrations and then
+-- runs this file; dates are relative to today so the dashboard always has recent activity.
+--
+-- Everything belongs to one sample organization. Seeding runs without a signed-in user, so there's no
+-- active organization for rows to default to and each insert names it. Sign up as owner@example.com
+-- to join it as its owner; any other email gets a new, empty organization.
+
+INSERT INTO organizations (id, name) VALUES (1, 'Parsley Kitchen');
+SELECT setval(pg_get_serial_sequence('organizations', 'id'), 1);
+
+-- Default payment status mappings and business settings, as every new organization gets
+SELECT public.seed_organization(1);
+
+INSERT INTO organization_invitations (organization_id, email, role) VALUES (1, 'owner@example.com', 'owner');
+
+INSERT INTO categories (organization_id, name, description) VALUES
+  (1, 'Ingredients', 'Herbs, flour, oil and other raw ingredients'),
+  (1, 'Packaging', 'Jars, labels and boxes'),
+  (1, 'Rent', 'Kitchen and storage rent'),
+  (1, 'Utilities', 'Electricity, water and internet'),
+  (1, 'Marketing', 'Ads, flyers and market signage'),
+  (1, 'Equipment', 'Kitchen tools and appliances');
+
+INSERT INTO suppliers (organization_id, name, contact_name, email, phone, website) VALUES
+  (1, 'Green Leaf Farms', 'Ana Costa', 'orders@greenleaf.example', '555-0101', 'https://greenleaf.example'),
+  (1, 'PackRight', 'Sam Lee', 'sales@packright.example', '555-0102', NULL),
+  (1, 'City Utilities', NULL, 'billing@cityutilities.example', '555-0103', NULL);
+
+-- Twelve months of expenses
+INSERT INTO expenses (
+  organization_id, date, category_id, description, quantity, unit, amount, cost_per_100g, supplier_id
+)
+SELECT
+  1,
+  (date_trunc('month', current_date) - make_interval(months => m))::DATE + 2,
+  (SELECT id FROM categories WHERE name = 'Ingredients'),
+  'Fresh parsley',
+  5,
+  'kg',
+  40 + m * 1.5,
+  round((40 + m * 1.5) / 50, 4),
+  (SELECT id FROM suppliers WHERE name = 'Green Leaf Farms')
+FROM generate_series(0, 11) AS m;
+
+INSERT INTO expenses (organization_id, date, category_id, description, quantity, unit, amount, supplier_id)
+SELECT
+  1,
+  (date_trunc('month', current_date) - make_interval(months => m))::DATE + 9,
+  (SELECT id FROM categories WHERE name = 'Packaging'),
+  'Glass jars and labels',
+  200,
+  'pcs',
+  120,
+  (SELECT id FROM suppliers WHERE name = 'PackRight')
+FROM generate_series(0, 11, 2) AS m;
+
+INSERT INTO expenses (organization_id, date, category_id, description, amount, supplier_id)
+SELECT
+  1,
+  (date_trunc('month', current_date) - make_interval(months => m))::DATE,
+  (SELECT id FROM categories WHERE name = 'Utilities'),
+  'Electricity and water',
+  85 + (m % 3) * 10,
+  (SELECT id FROM suppliers WHERE name = 'City Utilities')
+FROM generate_series(0, 11) AS m;
+
+INSERT INTO expenses (organization_id, date, category_id, description, amount)
+VALUES
+  (1, current_date - 40, (SELECT id FROM categories WHERE name = 'Marketing'), 'Market banner', 95),
+  (1, current_date - 120, (SELECT id FROM categories WHERE name = 'Equipment'), 'Food processor', 349);
+
+-- Rent comes from a recurring template so the recurring expenses page has something to show
+INSERT INTO recurring_expenses (organization_id, description, amount, category_id, frequency, start_date, note)
+VALUES (
+  1,
+  'Kitchen rent',
+  650,
+  (SELECT id FROM categories WHERE name = 'Rent'),
+  'monthly',
+  (date_trunc('month', current_date) - INTERVAL '11 months')::DATE,
+  'Due on the first of the month'
+);
+
+INSERT INTO budgets (organization_id, category_id, period, amount, rollover) VALUES
+  (1, (SELECT id FROM categories WHERE name = 'Ingredients'), 'month', 60, TRUE),
+  (1, (SELECT id FROM categories WHERE name = 'Utilities'), 'month', 100, FALSE),
+  (1, (SELECT id FROM categories WHERE name = 'Marketing'), 'year', 500, FALSE);
+
+INSERT INTO customers (organization_id, name, email, phone) VALUES
+  (1, 'Maria Rossi', 'maria@example.com', '555-0201'),
+  (1, 'Corner Deli', 'orders@cornerdeli.example', '555-0202'),
+  (1, 'Tom Becker', 'tom@example.com', NULL);
+
+-- Orders spread over the last year, with a few still unpaid
+INSERT INTO orders (
+  organization_id, order_number, customer_id, status, order_type, payment_status, payment_method,
+  delivery_method, total_amount, shipping_cost, amount_received, created_at
+)
+SELECT
+  1,
+  'ORD-' || lpad(n::TEXT, 4, '0'),
+  (SELECT id FROM customers ORDER BY id OFFSET n % 3 LIMIT 1),
+  CASE WHEN n % 7 = 0 THEN 'PROCESSING' ELSE 'DELIVERED' END,
+  CASE WHEN n % 3 = 1 THEN 'WHOLESALE' ELSE 'RETAIL' END,
+  (CASE
+    WHEN n % 7 = 0 THEN 'PENDING'
+    WHEN n % 11 = 0 THEN 'PARTIALLY_PAID'
+    ELSE 'PAID'
+  END)::payment_status,
+  CASE WHEN n % 2 = 0 THEN 'CARD' ELSE 'BANK_TRANSFER' END,
+  CASE WHEN n % 4 = 0 THEN 'PICKUP' ELSE 'SHIPPING' END,
+  25 + (n % 5) * 15,
+  CASE WHEN n % 4 = 0 THEN 0 ELSE 6.5 END,
+  CASE
+    WHEN n % 7 = 0 THEN 0
+    WHEN n % 11 = 0 THEN 20
+    ELSE 25 + (n % 5) * 15 + CASE WHEN n % 4 = 0 THEN 0 ELSE 6.5 END
+  END,
+  now() - make_interval(days => n * 9)
+FROM generate_series(1, 40) AS n;
+
+-- The payments behind each order's amount_received, a couple of days after it was placed
+INSERT INTO order_payments (organization_id, order_id, amount, paid_at, payment_method)
+SELECT o.organization_id, o.id, o.amount_received, o.created_at::DATE + 2, o.payment_method
+FROM orders o
+WHERE o.amount_received > 0;
+
+INSERT INTO markets (
+  organization_id, name, location, organization_name, start_date, end_date, final_incoming, fee, commission_to_pay
+)
+SELECT
+  1,
+  'Farmers Market',
+  'Town Square',
+  'Town Market Association',
+  current_date - m * 30 - 1,
+  current_date - m * 30,
+  320 + (m % 4) * 45,
+  35,
+  round((320 + (m % 4) * 45) * 0.05, 2)
+FROM generate_series(1, 8) AS m;
+
+INSERT INTO courses (
+  organization_id, date, course_name, duration, location, max_participants, registration_fee, total_amount,
+  instructor_name, materials_cost, instructor_cost
+)
+VALUES
+  (1, current_date - 75, 'Cooking with Fresh Herbs', '3 hours', 'Community Kitchen', 12, 45, 450, 'Nick', 85, 0),
+  (1, current_date - 20, 'Pesto Workshop', '2 hours', 'Community Kitchen', 10, 35, 315, 'Nick', 60, 0),
+  (1, current_date + 25, 'Preserving the Harvest', '3 hours', 'Community Kitchen', 12, 45, 0, 'Nick', 110, 0);
+
+-- Registrations for the upcoming course; the trigger keeps its total_amount equal to the payments
+INSERT INTO course_registrations (
+  organization_id, course_id, participant_name, status, amount_due, amount_paid, paid_at
+)
+SELECT c.organization_id, c.id, p.name, 'registered', 45, p.paid, CASE WHEN p.paid > 0 THEN current_date - 3 END
+FROM courses c
+CROSS JOIN (
+  VALUES ('Anna Berg', 45), ('Tom Hayes', 45), ('Lena Fischer', 0), ('Sam Ortiz', 45), ('Mia Chen', 20)
+) AS p(name, paid)
+WHERE c.course_name = 'Preserving the Harvest';